@@ -156,6 +156,165 @@ export function createMockModFolder(workshopDir: string, modId: string, fileCoun
   return modPath;
 }
 
+/**
+ * Writes an info.ini manifest into a mock mod folder
+ */
+export function createMockModManifest(modPath: string, fields: Record<string, string>): string {
+  const manifestPath = path.join(modPath, 'info.ini');
+  const content = Object.entries(fields)
+    .map(([key, value]) => `${key} = ${value}`)
+    .join('\n');
+
+  fs.writeFileSync(manifestPath, content);
+  return manifestPath;
+}
+
+/**
+ * Options for createMockAssembly
+ */
+export interface MockAssemblyOptions {
+  name: string;
+  version?: [number, number, number, number];
+  targetFramework?: string;
+  references?: Array<{ name: string; version: [number, number, number, number] }>;
+  /** Build a native DLL without a CLI header */
+  native?: boolean;
+}
+
+/**
+ * Builds a minimal PE32 image with .NET metadata (Module, TypeRef, MemberRef,
+ * CustomAttribute, Assembly and AssemblyRef tables), enough for the assembly reader
+ */
+export function createMockAssembly(options: MockAssemblyOptions): Buffer {
+  const references = options.references || [];
+  const [major, minor, build, revision] = options.version || [1, 0, 0, 0];
+
+  // #Strings heap
+  const stringChunks: Buffer[] = [Buffer.from([0])];
+  let stringsLength = 1;
+  const addString = (value: string): number => {
+    const offset = stringsLength;
+    const bytes = Buffer.from(`${value}\0`, 'utf8');
+    stringChunks.push(bytes);
+    stringsLength += bytes.length;
+    return offset;
+  };
+
+  // #Blob heap
+  const blobChunks: Buffer[] = [Buffer.from([0])];
+  let blobsLength = 1;
+  const addBlob = (bytes: Buffer): number => {
+    const offset = blobsLength;
+    const entry = Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    blobChunks.push(entry);
+    blobsLength += entry.length;
+    return offset;
+  };
+
+  const u16 = (value: number) => { const b = Buffer.alloc(2); b.writeUInt16LE(value); return b; };
+  const u32 = (value: number) => { const b = Buffer.alloc(4); b.writeUInt32LE(value); return b; };
+
+  const rows = new Map<number, Buffer[]>();
+  rows.set(0x00, [Buffer.concat([u16(0), u16(addString(`${options.name}.dll`)), u16(0), u16(0), u16(0)])]);
+
+  if (options.targetFramework) {
+    const frameworkBytes = Buffer.from(options.targetFramework, 'utf8');
+    const attributeValue = Buffer.concat([u16(1), Buffer.from([frameworkBytes.length]), frameworkBytes, u16(0)]);
+    // TypeRef scoped to AssemblyRef 1, MemberRef on TypeRef 1, attribute on Assembly 1
+    rows.set(0x01, [Buffer.concat([
+      u16((1 << 2) | 2),
+      u16(addString('TargetFrameworkAttribute')),
+      u16(addString('System.Runtime.Versioning'))
+    ])]);
+    rows.set(0x0a, [Buffer.concat([u16((1 << 3) | 1), u16(addString('.ctor')), u16(0)])]);
+    rows.set(0x0c, [Buffer.concat([u16((1 << 5) | 14), u16((1 << 3) | 3), u16(addBlob(attributeValue))])]);
+  }
+
+  rows.set(0x20, [Buffer.concat([
+    u32(0x8004), u16(major), u16(minor), u16(build), u16(revision), u32(0),
+    u16(0), u16(addString(options.name)), u16(0)
+  ])]);
+
+  if (references.length > 0) {
+    rows.set(0x23, references.map(reference => Buffer.concat([
+      ...reference.version.map(part => u16(part)), u32(0),
+      u16(0), u16(addString(reference.name)), u16(0), u16(0)
+    ])));
+  }
+
+  const tableIds = [...rows.keys()].sort((a, b) => a - b);
+  let valid = 0n;
+  for (const id of tableIds) {
+    valid |= 1n << BigInt(id);
+  }
+  const validBytes = Buffer.alloc(8);
+  validBytes.writeBigUInt64LE(valid);
+
+  const tablesStream = Buffer.concat([
+    u32(0), Buffer.from([2, 0, 0, 1]), validBytes, Buffer.alloc(8),
+    ...tableIds.map(id => u32(rows.get(id)!.length)),
+    ...tableIds.flatMap(id => rows.get(id)!)
+  ]);
+
+  const pad4 = (buffer: Buffer) => Buffer.concat([buffer, Buffer.alloc((4 - (buffer.length % 4)) % 4)]);
+  const streams: Array<[string, Buffer]> = [
+    ['#~', pad4(tablesStream)],
+    ['#Strings', pad4(Buffer.concat(stringChunks))],
+    ['#Blob', pad4(Buffer.concat(blobChunks))]
+  ];
+
+  const version = Buffer.from('v4.0.30319\0\0', 'ascii');
+  const streamHeaderNames = streams.map(([name]) => pad4(Buffer.from(`${name}\0`, 'ascii')));
+  const rootSize = 16 + version.length + 4 + streamHeaderNames.reduce((sum, name) => sum + 8 + name.length, 0);
+
+  let streamOffset = rootSize;
+  const streamHeaders = streams.map(([, data], index) => {
+    const header = Buffer.concat([u32(streamOffset), u32(data.length), streamHeaderNames[index]]);
+    streamOffset += data.length;
+    return header;
+  });
+
+  const metadata = Buffer.concat([
+    u32(0x424a5342), u16(1), u16(1), u32(0), u32(version.length), version,
+    u16(0), u16(streams.length),
+    ...streamHeaders,
+    ...streams.map(([, data]) => data)
+  ]);
+
+  // Section layout: CLI header at RVA 0x2000, metadata right after it
+  const sectionRva = 0x2000;
+  const sectionFileOffset = 0x200;
+  const cliHeader = Buffer.alloc(72);
+  cliHeader.writeUInt32LE(72, 0);
+  cliHeader.writeUInt16LE(2, 4);
+  cliHeader.writeUInt16LE(5, 6);
+  cliHeader.writeUInt32LE(sectionRva + 72, 8);
+  cliHeader.writeUInt32LE(metadata.length, 12);
+  const section = Buffer.concat([cliHeader, metadata]);
+
+  const headers = Buffer.alloc(sectionFileOffset);
+  headers.write('MZ', 0, 'ascii');
+  headers.writeUInt32LE(0x80, 0x3c);
+  headers.write('PE\0\0', 0x80, 'ascii');
+  headers.writeUInt16LE(0x14c, 0x84);        // Machine: i386
+  headers.writeUInt16LE(1, 0x86);            // NumberOfSections
+  headers.writeUInt16LE(0xe0, 0x94);         // SizeOfOptionalHeader
+  headers.writeUInt16LE(0x2102, 0x96);       // Characteristics: DLL
+  headers.writeUInt16LE(0x10b, 0x98);        // PE32 magic
+  headers.writeUInt32LE(16, 0x98 + 92);      // NumberOfRvaAndSizes
+  if (!options.native) {
+    headers.writeUInt32LE(sectionRva, 0x98 + 96 + 14 * 8);
+    headers.writeUInt32LE(72, 0x98 + 96 + 14 * 8 + 4);
+  }
+  headers.write('.text', 0x178, 'ascii');
+  headers.writeUInt32LE(section.length, 0x178 + 8);
+  headers.writeUInt32LE(sectionRva, 0x178 + 12);
+  headers.writeUInt32LE(section.length, 0x178 + 16);
+  headers.writeUInt32LE(sectionFileOffset, 0x178 + 20);
+
+  return Buffer.concat([headers, section]);
+}
+
 /**
  * Cleans up test workshop directory
  */
@@ -1,6 +1,21 @@
 import BetterSqlite3 from 'better-sqlite3';
 import { logger } from '../utils/logger';
-import { ModInfo, CachedTranslation } from '../types';
+import {
+  ModInfo,
+  CachedTranslation,
+  DiskUsageReport,
+  ModBackup,
+  ModDependency,
+  ModFingerprint,
+  ModFileEntry,
+  ModHistoryEntry,
+  ModHistoryField,
+  ModProfile,
+  ProfileModEntry,
+  CachedSteamResponse,
+  SteamCacheKind,
+  WorkshopItemState
+} from '../types';
 import path from 'path';
 import fs from 'fs';
 import { app } from 'electron';
@@ -74,6 +89,13 @@ export class Database {
         time_updated INTEGER,
         last_translated INTEGER,
         language TEXT,
+        manifest TEXT,
+        source TEXT DEFAULT 'workshop',
+        enabled INTEGER DEFAULT 1,
+        load_priority INTEGER,
+        assemblies TEXT,
+        workshop_state TEXT,
+        root_path TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )`,
@@ -89,7 +111,89 @@ export class Database {
         UNIQUE(original_text, source_lang, target_lang)
       )`,
       
+      `CREATE TABLE IF NOT EXISTS profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        mods TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS mod_fingerprints (
+        mod_id TEXT PRIMARY KEY,
+        folder_mtime INTEGER NOT NULL,
+        file_count INTEGER NOT NULL,
+        total_size INTEGER NOT NULL,
+        content_hash TEXT,
+        scanned_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS mod_files (
+        mod_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        sha256 TEXT NOT NULL,
+        mtime_ms INTEGER,
+        recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (mod_id, path)
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS mod_dependencies (
+        mod_id TEXT NOT NULL,
+        depends_on TEXT NOT NULL,
+        source TEXT NOT NULL,
+        PRIMARY KEY (mod_id, depends_on)
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS disk_usage_reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        generated_at INTEGER NOT NULL,
+        total_size INTEGER NOT NULL,
+        report TEXT NOT NULL
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS mod_backups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        mod_id TEXT NOT NULL,
+        archive_path TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        file_count INTEGER NOT NULL,
+        total_size INTEGER NOT NULL,
+        archive_size INTEGER NOT NULL,
+        content_hash TEXT NOT NULL,
+        version TEXT,
+        version_time INTEGER,
+        pinned INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS mod_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        mod_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        translated_title TEXT,
+        translated_description TEXT,
+        tags TEXT,
+        file_size INTEGER,
+        time_updated INTEGER,
+        changed_fields TEXT NOT NULL,
+        recorded_at INTEGER NOT NULL
+      )`,
+      
+      `CREATE TABLE IF NOT EXISTS steam_cache (
+        kind TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        response TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, item_id)
+      )`,
+      
       `CREATE INDEX IF NOT EXISTS idx_mods_updated ON mods(time_updated)`,
+      `CREATE INDEX IF NOT EXISTS idx_mod_history_mod ON mod_history(mod_id, id)`,
+      `CREATE INDEX IF NOT EXISTS idx_mod_backups_mod ON mod_backups(mod_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_steam_cache_fetched ON steam_cache(fetched_at)`,
       `CREATE INDEX IF NOT EXISTS idx_mods_creator ON mods(creator)`,
       `CREATE INDEX IF NOT EXISTS idx_translations_lookup ON translations(original_text, source_lang, target_lang)`,
       `CREATE INDEX IF NOT EXISTS idx_translations_expires ON translations(expires_at)`
@@ -98,6 +202,43 @@ export class Database {
     for (const query of queries) {
       this.runQuery(query);
     }
+
+    this.migrateTables();
+  }
+
+  /**
+   * Adds columns introduced after the initial schema to existing databases
+   * CREATE TABLE IF NOT EXISTS leaves old tables untouched, so new columns
+   * must be added explicitly for users upgrading from an older version
+   */
+  private migrateTables(): void {
+    const newColumns: Record<string, Record<string, string>> = {
+      mods: {
+        manifest: 'TEXT',
+        source: "TEXT DEFAULT 'workshop'",
+        enabled: 'INTEGER DEFAULT 1',
+        load_priority: 'INTEGER',
+        assemblies: 'TEXT',
+        workshop_state: 'TEXT',
+        root_path: 'TEXT'
+      },
+      mod_files: {
+        mtime_ms: 'INTEGER'
+      }
+    };
+
+    for (const [table, columns] of Object.entries(newColumns)) {
+      const existing = new Set(
+        this.getAllQuery(`PRAGMA table_info(${table})`).map((column: any) => column.name)
+      );
+
+      for (const [column, definition] of Object.entries(columns)) {
+        if (!existing.has(column)) {
+          logger.info(`Migrating database: adding ${table}.${column}`);
+          this.runQuery(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+      }
+    }
   }
 
   private runQuery(query: string, params: any[] = []): any {
@@ -148,8 +289,8 @@ export class Database {
         id, title, description, original_title, original_description,
         translated_title, translated_description, creator, preview_url,
         file_size, subscriptions, rating, tags, time_created, time_updated,
-        last_translated, language, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        last_translated, language, manifest, source, enabled, load_priority, assemblies, workshop_state, root_path, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `;
 
     const params = [
@@ -169,7 +310,14 @@ export class Database {
       mod.timeCreated.getTime(),
       mod.timeUpdated.getTime(),
       mod.lastTranslated?.getTime() || null,
-      mod.language || null
+      mod.language || null,
+      mod.manifest ? JSON.stringify(mod.manifest) : null,
+      mod.source || 'workshop',
+      mod.enabled === false ? 0 : 1,
+      mod.loadPriority ?? null,
+      mod.assemblies ? JSON.stringify(mod.assemblies) : null,
+      mod.workshopState ? JSON.stringify(mod.workshopState) : null,
+      mod.rootPath || null
     ];
 
     this.runQuery(query, params);
@@ -191,6 +339,360 @@ export class Database {
     return rows.map(row => this.mapRowToMod(row));
   }
 
+  /**
+   * Updates only the enabled flag of a mod
+   * @returns true if the mod exists
+   */
+  setModEnabled(id: string, enabled: boolean): boolean {
+    const query = 'UPDATE mods SET enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?';
+    const result = this.runQuery(query, [enabled ? 1 : 0, id]);
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Stores what Steam's appworkshop manifest says about each mod
+   * Runs after every scan, since Steam's state changes without the folder changing
+   *
+   * @param states - Map of mod ID to its state; undefined clears it
+   */
+  saveWorkshopStates(states: Map<string, WorkshopItemState | undefined>): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const update = this.db.transaction(() => {
+      for (const [modId, state] of states) {
+        this.runQuery('UPDATE mods SET workshop_state = ? WHERE id = ?', [
+          state ? JSON.stringify(state) : null,
+          modId
+        ]);
+      }
+    });
+
+    update();
+  }
+
+  /**
+   * Deletes a mod row (used when its folder disappears)
+   * Its history is kept, so it continues if the mod is installed again.
+   * @returns true if the mod existed
+   */
+  deleteMod(id: string): boolean {
+    this.deleteFingerprint(id);
+    this.runQuery('DELETE FROM mod_files WHERE mod_id = ?', [id]);
+    this.runQuery('DELETE FROM mod_dependencies WHERE mod_id = ?', [id]);
+    const result = this.runQuery('DELETE FROM mods WHERE id = ?', [id]);
+    return (result.changes || 0) > 0;
+  }
+
+  getFingerprint(modId: string): ModFingerprint | null {
+    const row = this.getQuery('SELECT * FROM mod_fingerprints WHERE mod_id = ?', [modId]);
+
+    if (!row) return null;
+
+    return {
+      modId: row.mod_id,
+      folderMtime: row.folder_mtime,
+      fileCount: row.file_count,
+      totalSize: row.total_size,
+      contentHash: row.content_hash || undefined,
+      scannedAt: new Date(row.scanned_at)
+    };
+  }
+
+  saveFingerprint(fingerprint: ModFingerprint): void {
+    const query = `
+      INSERT OR REPLACE INTO mod_fingerprints (
+        mod_id, folder_mtime, file_count, total_size, content_hash, scanned_at
+      ) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `;
+
+    this.runQuery(query, [
+      fingerprint.modId,
+      fingerprint.folderMtime,
+      fingerprint.fileCount,
+      fingerprint.totalSize,
+      fingerprint.contentHash || null
+    ]);
+  }
+
+  deleteFingerprint(modId: string): void {
+    this.runQuery('DELETE FROM mod_fingerprints WHERE mod_id = ?', [modId]);
+  }
+
+  /**
+   * Gets the file manifest recorded for a mod, sorted by path
+   * Returns an empty list if none was recorded
+   */
+  getModFiles(modId: string): Array<ModFileEntry & { recordedAt: Date }> {
+    const rows = this.getAllQuery('SELECT * FROM mod_files WHERE mod_id = ? ORDER BY path', [modId]);
+
+    return rows.map(row => ({
+      path: row.path,
+      size: row.size,
+      sha256: row.sha256,
+      mtimeMs: row.mtime_ms ?? undefined,
+      recordedAt: new Date(row.recorded_at)
+    }));
+  }
+
+  /**
+   * Gets the recorded file manifests of all mods
+   */
+  getAllModFiles(): Array<ModFileEntry & { modId: string }> {
+    const rows = this.getAllQuery('SELECT mod_id, path, size, sha256 FROM mod_files ORDER BY mod_id, path');
+
+    return rows.map(row => ({
+      modId: row.mod_id,
+      path: row.path,
+      size: row.size,
+      sha256: row.sha256
+    }));
+  }
+
+  /**
+   * Replaces the recorded file manifest of a mod
+   */
+  saveModFiles(modId: string, files: ModFileEntry[]): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const replace = this.db.transaction((entries: ModFileEntry[]) => {
+      this.runQuery('DELETE FROM mod_files WHERE mod_id = ?', [modId]);
+      for (const file of entries) {
+        this.runQuery(
+          'INSERT INTO mod_files (mod_id, path, size, sha256, mtime_ms, recorded_at) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)',
+          [modId, file.path, file.size, file.sha256, file.mtimeMs ?? null]
+        );
+      }
+    });
+
+    replace(files);
+  }
+
+  getModDependencies(modId: string): ModDependency[] {
+    const rows = this.getAllQuery('SELECT * FROM mod_dependencies WHERE mod_id = ? ORDER BY depends_on', [modId]);
+    return rows.map(row => this.mapRowToDependency(row));
+  }
+
+  getAllModDependencies(): ModDependency[] {
+    const rows = this.getAllQuery('SELECT * FROM mod_dependencies ORDER BY mod_id, depends_on');
+    return rows.map(row => this.mapRowToDependency(row));
+  }
+
+  /**
+   * Replaces the dependencies declared by a mod
+   */
+  saveModDependencies(modId: string, dependencies: ModDependency[]): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const replace = this.db.transaction((edges: ModDependency[]) => {
+      this.runQuery('DELETE FROM mod_dependencies WHERE mod_id = ?', [modId]);
+      for (const edge of edges) {
+        this.runQuery(
+          'INSERT OR IGNORE INTO mod_dependencies (mod_id, depends_on, source) VALUES (?, ?, ?)',
+          [modId, edge.dependsOn, edge.source]
+        );
+      }
+    });
+
+    replace(dependencies);
+  }
+
+  /**
+   * Stores a disk usage report, keeping only the most recent ones
+   */
+  saveDiskUsageReport(report: DiskUsageReport, keep: number = 10): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const save = this.db.transaction(() => {
+      this.runQuery(
+        'INSERT INTO disk_usage_reports (generated_at, total_size, report) VALUES (?, ?, ?)',
+        [report.generatedAt.getTime(), report.totalSize, JSON.stringify(report)]
+      );
+      this.runQuery(
+        'DELETE FROM disk_usage_reports WHERE id NOT IN (SELECT id FROM disk_usage_reports ORDER BY id DESC LIMIT ?)',
+        [keep]
+      );
+    });
+
+    save();
+  }
+
+  getLatestDiskUsageReport(): DiskUsageReport | null {
+    const row = this.getQuery('SELECT report FROM disk_usage_reports ORDER BY id DESC LIMIT 1');
+    if (!row) return null;
+
+    const report = JSON.parse(row.report);
+    return { ...report, generatedAt: new Date(report.generatedAt) };
+  }
+
+  /**
+   * Records a mod backup
+   * @returns The stored backup with its ID
+   */
+  saveModBackup(backup: Omit<ModBackup, 'id'>): ModBackup {
+    const query = `
+      INSERT INTO mod_backups (
+        mod_id, archive_path, reason, file_count, total_size, archive_size,
+        content_hash, version, version_time, pinned, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    const result = this.runQuery(query, [
+      backup.modId,
+      backup.archivePath,
+      backup.reason,
+      backup.fileCount,
+      backup.totalSize,
+      backup.archiveSize,
+      backup.contentHash,
+      backup.version || null,
+      backup.versionTime ?? null,
+      backup.pinned ? 1 : 0,
+      backup.createdAt.getTime()
+    ]);
+
+    return this.getModBackup(Number(result.lastInsertRowid))!;
+  }
+
+  getModBackup(id: number): ModBackup | null {
+    const row = this.getQuery('SELECT * FROM mod_backups WHERE id = ?', [id]);
+    return row ? this.mapRowToBackup(row) : null;
+  }
+
+  /**
+   * Gets a mod's backups, newest first
+   */
+  getModBackups(modId: string): ModBackup[] {
+    const rows = this.getAllQuery('SELECT * FROM mod_backups WHERE mod_id = ? ORDER BY created_at DESC, id DESC', [modId]);
+    return rows.map(row => this.mapRowToBackup(row));
+  }
+
+  getPinnedBackups(): ModBackup[] {
+    const rows = this.getAllQuery('SELECT * FROM mod_backups WHERE pinned = 1 ORDER BY mod_id');
+    return rows.map(row => this.mapRowToBackup(row));
+  }
+
+  /**
+   * Pins or unpins a backup; pinning unpins the mod's other backups
+   * @returns The updated backup, or null if it doesn't exist
+   */
+  setBackupPinned(id: number, pinned: boolean): ModBackup | null {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const backup = this.getModBackup(id);
+    if (!backup) return null;
+
+    const update = this.db.transaction(() => {
+      if (pinned) {
+        this.runQuery('UPDATE mod_backups SET pinned = 0 WHERE mod_id = ?', [backup.modId]);
+      }
+      this.runQuery('UPDATE mod_backups SET pinned = ? WHERE id = ?', [pinned ? 1 : 0, id]);
+    });
+
+    update();
+    return this.getModBackup(id);
+  }
+
+  /**
+   * Records a snapshot of a mod's metadata
+   *
+   * @param mod - Mod as it is now
+   * @param changedFields - Fields that differ from the previous snapshot
+   * @param recordedAt - When the change was found
+   * @returns The stored snapshot with its ID
+   */
+  saveModHistory(mod: ModInfo, changedFields: ModHistoryField[], recordedAt: Date = new Date()): ModHistoryEntry {
+    const query = `
+      INSERT INTO mod_history (
+        mod_id, title, description, translated_title, translated_description,
+        tags, file_size, time_updated, changed_fields, recorded_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    const result = this.runQuery(query, [
+      mod.id,
+      mod.originalTitle || mod.title,
+      mod.originalDescription || mod.description,
+      mod.translatedTitle || null,
+      mod.translatedDescription || null,
+      JSON.stringify(mod.tags),
+      mod.fileSize,
+      mod.timeUpdated.getTime(),
+      JSON.stringify(changedFields),
+      recordedAt.getTime()
+    ]);
+
+    return this.mapRowToHistory(this.getQuery('SELECT * FROM mod_history WHERE id = ?', [Number(result.lastInsertRowid)]));
+  }
+
+  getLatestModHistory(modId: string): ModHistoryEntry | null {
+    const row = this.getQuery('SELECT * FROM mod_history WHERE mod_id = ? ORDER BY id DESC LIMIT 1', [modId]);
+    return row ? this.mapRowToHistory(row) : null;
+  }
+
+  /**
+   * Gets history snapshots, newest first
+   * @param modId - Only this mod's snapshots; all mods when omitted
+   * @param limit - Maximum number of snapshots
+   */
+  getModHistory(modId?: string, limit: number = 100): ModHistoryEntry[] {
+    const rows = modId
+      ? this.getAllQuery('SELECT * FROM mod_history WHERE mod_id = ? ORDER BY id DESC LIMIT ?', [modId, limit])
+      : this.getAllQuery('SELECT * FROM mod_history ORDER BY id DESC LIMIT ?', [limit]);
+    return rows.map(row => this.mapRowToHistory(row));
+  }
+
+  /**
+   * Gets the snapshot recorded before the given one for the same mod
+   */
+  getPreviousModHistory(entry: ModHistoryEntry): ModHistoryEntry | null {
+    const row = this.getQuery(
+      'SELECT * FROM mod_history WHERE mod_id = ? AND id < ? ORDER BY id DESC LIMIT 1',
+      [entry.modId, entry.id]
+    );
+    return row ? this.mapRowToHistory(row) : null;
+  }
+
+  /**
+   * Gets all mods in load order
+   * Mods without a priority (e.g. newly scanned) come last, sorted by title
+   */
+  getModsInLoadOrder(): ModInfo[] {
+    const query = `
+      SELECT * FROM mods
+      ORDER BY load_priority IS NULL, load_priority, title COLLATE NOCASE
+    `;
+    return this.getAllQuery(query).map(row => this.mapRowToMod(row));
+  }
+
+  /**
+   * Stores a load order, giving the mods priorities 1..n in the given order
+   * Mods not in the list lose their priority
+   */
+  setLoadOrder(modIds: string[]): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const apply = this.db.transaction((ids: string[]) => {
+      this.runQuery('UPDATE mods SET load_priority = NULL');
+      ids.forEach((id, index) => {
+        this.runQuery('UPDATE mods SET load_priority = ? WHERE id = ?', [index + 1, id]);
+      });
+    });
+
+    apply(modIds);
+  }
+
   searchMods(searchTerm: string, limit: number = 50): ModInfo[] {
     const query = `
       SELECT * FROM mods 
@@ -305,6 +807,175 @@ export class Database {
     this.clearExpiredTranslations();
   }
 
+  /**
+   * Gets cached Steam API responses
+   * @param kind - Response kind
+   * @param ids - Item or collection IDs
+   * @param fetchedAfter - Ignore responses fetched before this
+   */
+  getSteamCache(kind: SteamCacheKind, ids: string[], fetchedAfter: Date): CachedSteamResponse[] {
+    const rows: any[] = [];
+
+    // Stay well below SQLite's limit on query parameters
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500);
+      rows.push(...this.getAllQuery(
+        `SELECT * FROM steam_cache WHERE kind = ? AND fetched_at >= ? AND item_id IN (${chunk.map(() => '?').join(', ')})`,
+        [kind, fetchedAfter.getTime(), ...chunk]
+      ));
+    }
+
+    return rows.map(row => ({
+      kind: row.kind,
+      id: row.item_id,
+      response: JSON.parse(row.response),
+      fetchedAt: new Date(row.fetched_at)
+    }));
+  }
+
+  /**
+   * Stores Steam API responses, replacing earlier ones for the same IDs
+   */
+  saveSteamCache(kind: SteamCacheKind, responses: Array<{ id: string; response: unknown }>, fetchedAt: Date = new Date()): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const save = this.db.transaction(() => {
+      for (const entry of responses) {
+        this.runQuery(
+          'INSERT OR REPLACE INTO steam_cache (kind, item_id, response, fetched_at) VALUES (?, ?, ?, ?)',
+          [kind, entry.id, JSON.stringify(entry.response), fetchedAt.getTime()]
+        );
+      }
+    });
+
+    save();
+  }
+
+  /**
+   * Deletes Steam API responses fetched before the given time
+   *
+   * @returns Number of responses deleted
+   */
+  clearStaleSteamCache(fetchedBefore: Date): number {
+    const result = this.runQuery('DELETE FROM steam_cache WHERE fetched_at < ?', [fetchedBefore.getTime()]);
+    return result.changes || 0;
+  }
+
+  /**
+   * Creates a new profile
+   * @returns The created profile
+   */
+  createProfile(name: string, mods: ProfileModEntry[], description?: string): ModProfile {
+    const query = 'INSERT INTO profiles (name, description, mods) VALUES (?, ?, ?)';
+    const result = this.runQuery(query, [name, description || null, JSON.stringify(mods)]);
+    return this.getProfile(Number(result.lastInsertRowid))!;
+  }
+
+  getProfile(id: number): ModProfile | null {
+    const row = this.getQuery('SELECT * FROM profiles WHERE id = ?', [id]);
+    return row ? this.mapRowToProfile(row) : null;
+  }
+
+  getProfileByName(name: string): ModProfile | null {
+    const row = this.getQuery('SELECT * FROM profiles WHERE name = ?', [name]);
+    return row ? this.mapRowToProfile(row) : null;
+  }
+
+  getAllProfiles(): ModProfile[] {
+    const rows = this.getAllQuery('SELECT * FROM profiles ORDER BY name COLLATE NOCASE');
+    return rows.map(row => this.mapRowToProfile(row));
+  }
+
+  /**
+   * Updates a profile's name, description and/or mod entries
+   * @returns The updated profile, or null if it doesn't exist
+   */
+  updateProfile(
+    id: number,
+    changes: { name?: string; description?: string; mods?: ProfileModEntry[] }
+  ): ModProfile | null {
+    const existing = this.getProfile(id);
+    if (!existing) return null;
+
+    const query = `
+      UPDATE profiles
+      SET name = ?, description = ?, mods = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `;
+
+    this.runQuery(query, [
+      changes.name ?? existing.name,
+      (changes.description ?? existing.description) || null,
+      JSON.stringify(changes.mods ?? existing.mods),
+      id
+    ]);
+
+    return this.getProfile(id);
+  }
+
+  /**
+   * Deletes a profile
+   * @returns true if a profile was deleted
+   */
+  deleteProfile(id: number): boolean {
+    const result = this.runQuery('DELETE FROM profiles WHERE id = ?', [id]);
+    return (result.changes || 0) > 0;
+  }
+
+  private mapRowToProfile(row: any): ModProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      mods: JSON.parse(row.mods || '[]'),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private mapRowToBackup(row: any): ModBackup {
+    return {
+      id: row.id,
+      modId: row.mod_id,
+      archivePath: row.archive_path,
+      reason: row.reason,
+      fileCount: row.file_count,
+      totalSize: row.total_size,
+      archiveSize: row.archive_size,
+      contentHash: row.content_hash,
+      version: row.version || undefined,
+      versionTime: row.version_time ?? undefined,
+      pinned: Boolean(row.pinned),
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapRowToHistory(row: any): ModHistoryEntry {
+    return {
+      id: row.id,
+      modId: row.mod_id,
+      title: row.title,
+      description: row.description || '',
+      translatedTitle: row.translated_title || undefined,
+      translatedDescription: row.translated_description || undefined,
+      tags: row.tags ? JSON.parse(row.tags) : [],
+      fileSize: row.file_size || 0,
+      timeUpdated: new Date(row.time_updated),
+      changedFields: JSON.parse(row.changed_fields),
+      recordedAt: new Date(row.recorded_at)
+    };
+  }
+
+  private mapRowToDependency(row: any): ModDependency {
+    return {
+      modId: row.mod_id,
+      dependsOn: row.depends_on,
+      source: row.source
+    };
+  }
+
   private mapRowToMod(row: any): ModInfo {
     // Use translated content if available, otherwise use original
     const title = row.translated_title || row.title;
@@ -327,7 +998,14 @@ export class Database {
       timeCreated: new Date(row.time_created),
       timeUpdated: new Date(row.time_updated),
       lastTranslated: row.last_translated ? new Date(row.last_translated) : undefined,
-      language: row.language
+      language: row.language,
+      manifest: row.manifest ? JSON.parse(row.manifest) : undefined,
+      source: row.source || 'workshop',
+      enabled: row.enabled !== 0,
+      loadPriority: row.load_priority ?? undefined,
+      assemblies: row.assemblies ? JSON.parse(row.assemblies) : undefined,
+      workshopState: row.workshop_state ? JSON.parse(row.workshop_state) : undefined,
+      rootPath: row.root_path || undefined
     };
   }
 
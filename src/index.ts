@@ -25,7 +25,7 @@ const PORT = process.env.PORT || 3000;
 
 // Initialize services
 const database = new Database();
-const steamService = new SteamWorkshopService();
+const steamService = new SteamWorkshopService(database);
 const translationService = new TranslationService();
 const localModService = new LocalModService();
 const modService = new ModService(database, steamService, translationService, localModService);
@@ -3,7 +3,7 @@
  * Manages application lifecycle and creates browser windows
  */
 
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, ipcMain, shell } from 'electron';
 import * as path from 'path';
 // @ts-ignore - electron-squirrel-startup doesn't have type definitions
 import * as squirrelStartup from 'electron-squirrel-startup';
@@ -12,7 +12,15 @@ import { Database } from './database/Database';
 import { ModService } from './services/ModService';
 import { OfflineTranslationService } from './services/OfflineTranslationService';
 import { LocalModService } from './services/LocalModService';
-import { SteamWorkshopService } from './services/SteamWorkshopService';
+import { SteamWorkshopService, DEFAULT_STEAM_API_BASE_URL } from './services/SteamWorkshopService';
+import { ProfileService } from './services/ProfileService';
+import { DependencyService } from './services/DependencyService';
+import { SteamDiscoveryService } from './services/SteamDiscoveryService';
+import { ModWatcherService } from './services/ModWatcherService';
+import { BackupService } from './services/BackupService';
+import { ModImportService } from './services/ModImportService';
+import { ShareCodeService } from './services/ShareCodeService';
+import { ModLibraryRoot, ModReportFormat, SteamApiSettings } from './types';
 
 // Dynamic import for electron-store (ES Module)
 // Using eval to prevent TypeScript from converting to require()
@@ -53,12 +61,24 @@ let modService: ModService;
 let translationService: OfflineTranslationService;
 let localModService: LocalModService;
 let steamWorkshopService: SteamWorkshopService;
+let profileService: ProfileService;
+let shareCodeService: ShareCodeService;
+let dependencyService: DependencyService;
+let steamDiscoveryService: SteamDiscoveryService;
+let modWatcherService: ModWatcherService;
+let backupService: BackupService;
+let modImportService: ModImportService;
 
 /**
  * Main application window
  */
 let mainWindow: BrowserWindow | null = null;
 
+/**
+ * Aborts the running export, if any
+ */
+let exportAbortController: AbortController | null = null;
+
 /**
  * Determine if running in development mode with dev server
  * Use a function to avoid accessing app.isPackaged at module load time
@@ -154,29 +174,100 @@ async function initializeServices(): Promise<void> {
     await database.initialize();
     logger.info('Database initialized successfully');
 
-    // Load workshop path from stored settings
+    // Load library roots from stored settings
+    // Older versions stored a single workshop path and game Mods path instead
     const StoreClass = await getStore();
     const store = new StoreClass();
+    const storedRoots = store.get('libraryRoots') as ModLibraryRoot[] | undefined;
     const storedWorkshopPath = store.get('workshopPath', '');
+    const storedGameModsPath = store.get('gameModsPath', '');
     
-    logger.info(`Stored workshop path: ${storedWorkshopPath || '(not set)'}`);
+    if (storedRoots) {
+      logger.info(`Stored library roots: ${storedRoots.length}`);
+    } else {
+      logger.info(`Stored workshop path: ${storedWorkshopPath || '(not set)'}`);
+      logger.info(`Stored game Mods path: ${storedGameModsPath || '(not set)'}`);
+    }
+
+    // On first run, look for Duckov's folders in the Steam libraries instead of
+    // making the user browse to them
+    steamDiscoveryService = new SteamDiscoveryService();
+    const discoveredRoots: ModLibraryRoot[] = [];
+    const hasConfiguredPath = storedRoots || storedWorkshopPath || storedGameModsPath ||
+      process.env.WORKSHOP_DATA_PATH || process.env.GAME_MODS_PATH;
+    if (!hasConfiguredPath) {
+      try {
+        const discovery = await steamDiscoveryService.discover();
+        discovery.workshopPaths.forEach((workshopPath, index) => {
+          discoveredRoots.push({
+            name: index === 0 ? 'Steam Workshop' : `Steam Workshop ${index + 1}`,
+            path: workshopPath,
+            type: 'workshop',
+            enabled: true
+          });
+          logger.info(`Discovered workshop path: ${workshopPath}`);
+        });
+        if (discovery.gameModsPaths.length > 0) {
+          discoveredRoots.push({ name: 'Game Mods', path: discovery.gameModsPaths[0], type: 'local', enabled: true });
+          logger.info(`Discovered game Mods path: ${discovery.gameModsPaths[0]}`);
+        }
+      } catch (discoveryError) {
+        logger.warn('Steam path discovery failed:', discoveryError);
+      }
+    }
 
     // Initialize services
     translationService = new OfflineTranslationService(database);
-    localModService = new LocalModService(storedWorkshopPath as string);
-    steamWorkshopService = new SteamWorkshopService();
+    localModService = new LocalModService(storedWorkshopPath as string, storedGameModsPath as string);
+    try {
+      if (storedRoots) {
+        localModService.setLibraryRoots(storedRoots);
+      } else if (discoveredRoots.length > 0) {
+        localModService.setLibraryRoots(discoveredRoots);
+      }
+    } catch (rootsError) {
+      logger.error('Stored library roots are invalid, falling back to the single paths:', rootsError);
+    }
+
+    // Save the list once so the single-path settings are migrated (environment
+    // variables stay overrides and aren't persisted)
+    if (!storedRoots && (storedWorkshopPath || storedGameModsPath || discoveredRoots.length > 0)) {
+      store.set('libraryRoots', localModService.getLibraryRoots());
+    }
+    const steamOptions = {
+      apiBaseUrl: store.get('steamApiBaseUrl', '') as string,
+      offline: store.get('steamOfflineMode', false) as boolean
+    };
+    try {
+      steamWorkshopService = new SteamWorkshopService(database, steamOptions);
+    } catch (steamError) {
+      logger.error('Stored Steam API URL is invalid, using the default:', steamError);
+      steamWorkshopService = new SteamWorkshopService(database, { offline: steamOptions.offline });
+    }
+    if (steamOptions.offline) {
+      logger.info('Steam Workshop offline mode is on, using cached details only');
+    }
+    backupService = new BackupService(
+      database,
+      localModService,
+      path.join(app.getPath('userData'), 'backups')
+    );
     modService = new ModService(
       database,
       translationService,
       localModService,
-      steamWorkshopService
+      steamWorkshopService,
+      backupService
     );
+    modImportService = new ModImportService(database, localModService, modService);
+    profileService = new ProfileService(database, modService);
+    shareCodeService = new ShareCodeService(database, steamWorkshopService);
+    dependencyService = new DependencyService(database);
 
     logger.info('Services initialized successfully');
 
-    // Only perform initial scan if workshop path is configured
-    const workshopPath = (localModService as any).workshopPath;
-    if (workshopPath && workshopPath.trim()) {
+    // Only perform initial scan if a mod folder is configured
+    if (localModService.isConfigured()) {
       try {
         logger.info('Performing initial scan of workshop folder...');
         const result = await modService.scanAndSyncLocalMods();
@@ -195,206 +286,848 @@ async function initializeServices(): Promise<void> {
     } else {
       logger.warn('Workshop path not configured. Skipping initial scan. Please configure workshop path in settings.');
     }
+
+    // Pick up mods Steam downloads, updates or removes while the app is open
+    modWatcherService = new ModWatcherService(localModService, modService, (changes) => {
+      mainWindow?.webContents.send('mods:changed', changes);
+    });
+    modWatcherService.start();
   } catch (error) {
     logger.error('Failed to initialize services:', error);
     throw error;
   }
 }
 
-/**
- * Register IPC handlers for communication with renderer process
- * All handlers use IPC channels defined in types/electron.ts
- */
-function registerIpcHandlers(): void {
-  logger.info('Registering IPC handlers...');
+/**
+ * Register IPC handlers for communication with renderer process
+ * All handlers use IPC channels defined in types/electron.ts
+ */
+function registerIpcHandlers(): void {
+  logger.info('Registering IPC handlers...');
+
+  // ==========================================
+  // Mod Operations
+  // ==========================================
+
+  /**
+   * Scan local workshop folder and sync mods
+   * Unchanged mods are skipped unless a full rescan is requested
+   * Returns scan results including synced mods and errors
+   */
+  ipcMain.handle('mods:scan', async (_, args?: { fullRescan?: boolean; hashContents?: boolean }) => {
+    try {
+      const options = { fullRescan: args?.fullRescan === true, hashContents: args?.hashContents === true };
+      logger.info(`[IPC] mods:scan - Starting ${options.fullRescan ? 'full' : 'incremental'} local mod scan...`);
+      const result = await modService.scanAndSyncLocalMods(options);
+
+      logger.info(
+        `[IPC] mods:scan - Scan complete: ${result.scanned} scanned, ${result.synced.length} synced, ${result.unchanged} unchanged`
+      );
+
+      return {
+        success: true,
+        data: {
+          scanned: result.scanned,
+          synced: result.synced.length,
+          unchanged: result.unchanged,
+          errors: result.errors.length,
+          mods: result.synced,
+          errorMessages: result.errors
+        }
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:scan - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Get all mods with optional pagination
+   */
+  ipcMain.handle('mods:get-all', async (_, args: { limit?: number; offset?: number }) => {
+    try {
+      const { limit = 1000, offset = 0 } = args || {};
+      logger.debug(`[IPC] mods:getAll - Fetching mods (limit: ${limit}, offset: ${offset})`);
+
+      const mods = await modService.getAllMods(limit, offset);
+
+      return {
+        success: true,
+        data: mods,
+        pagination: {
+          limit,
+          offset,
+          count: mods.length
+        }
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:getAll - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Get specific mod by ID
+   */
+  /**
+   * Get mod by ID
+   */
+  ipcMain.handle('mods:get-by-id', async (_, args: { id: string }) => {
+    try {
+      const { id } = args;
+      logger.debug(`[IPC] mods:getById - Fetching mod ${id}`);
+
+      const mod = await modService.getMod(id, true);
+
+      if (!mod) {
+        return {
+          success: false,
+          error: 'Mod not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: mod
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:getById - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Search mods by query
+   */
+  ipcMain.handle('mods:search', async (_, args: { query: string }) => {
+    try {
+      const { query } = args;
+      logger.debug(`[IPC] mods:search - Searching for: ${query}`);
+
+      if (!query || typeof query !== 'string') {
+        return {
+          success: false,
+          error: 'Search query is required'
+        };
+      }
+
+      const mods = await modService.searchMods(query, 1000);
+
+      return {
+        success: true,
+        data: mods,
+        query,
+        count: mods.length
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:search - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Enable or disable a mod
+   * Moves the mod folder in or out of the disabled area so the game (un)loads it
+   */
+  ipcMain.handle('mods:set-enabled', async (_, args: { id: string; enabled: boolean }) => {
+    try {
+      const { id, enabled } = args;
+      logger.info(`[IPC] mods:setEnabled - ${enabled ? 'Enabling' : 'Disabling'} mod ${id}`);
+
+      const mod = await modService.setModEnabled(id, enabled);
+
+      return {
+        success: true,
+        data: mod
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:setEnabled - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Get all mods in load order
+   */
+  ipcMain.handle('mods:get-load-order', async () => {
+    try {
+      logger.debug('[IPC] mods:getLoadOrder - Fetching load order');
+
+      const mods = await modService.getLoadOrder();
+
+      return {
+        success: true,
+        data: mods
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:getLoadOrder - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Save a new load order
+   */
+  ipcMain.handle('mods:reorder', async (_, args: { modIds: string[] }) => {
+    try {
+      const { modIds } = args;
+      logger.info(`[IPC] mods:reorder - Reordering ${modIds.length} mods`);
+
+      const mods = await modService.reorderMods(modIds);
+
+      return {
+        success: true,
+        data: mods
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:reorder - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Verify a mod folder against the file manifest recorded at its last sync
+   */
+  ipcMain.handle('mods:verify-integrity', async (_, args: { id: string }) => {
+    try {
+      const { id } = args;
+      logger.info(`[IPC] mods:verify-integrity - Verifying mod ${id}`);
+
+      const report = await modService.verifyModIntegrity(id);
+
+      return {
+        success: true,
+        data: report
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:verify-integrity - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Find installed mods that overwrite or shadow each other
+   */
+  ipcMain.handle('mods:get-conflicts', async (_, args?: { modId?: string }) => {
+    try {
+      logger.info(`[IPC] mods:get-conflicts - Analyzing ${args?.modId ? `conflicts of mod ${args.modId}` : 'all mods'}`);
+
+      const conflicts = await modService.getConflicts(args?.modId);
+
+      return {
+        success: true,
+        data: conflicts
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:get-conflicts - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Break down the disk space used by installed mods
+   * Returns the stored report unless a refresh is requested
+   */
+  ipcMain.handle('mods:get-disk-usage', async (_, args?: { refresh?: boolean }) => {
+    try {
+      logger.info(`[IPC] mods:get-disk-usage - ${args?.refresh ? 'Analyzing mod folders' : 'Fetching stored report'}`);
+
+      const report = await modService.getDiskUsageReport(args?.refresh === true);
+
+      return {
+        success: true,
+        data: report
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:get-disk-usage - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Find database rows without a folder and empty, partial or unrecorded mod folders
+   */
+  ipcMain.handle('mods:find-orphans', async () => {
+    try {
+      logger.info('[IPC] mods:find-orphans - Checking for orphaned records and leftover folders');
+
+      const report = await modService.findOrphans();
+
+      return {
+        success: true,
+        data: report
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:find-orphans - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Archive or delete orphans selected from a find-orphans report
+   * Archives are written to <userData>/orphan-archives
+   */
+  ipcMain.handle('mods:cleanup-orphans', async (_, args: { ids: string[]; action: 'archive' | 'delete' }) => {
+    try {
+      const { ids, action } = args;
+
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return {
+          success: false,
+          error: 'ids array is required and must not be empty'
+        };
+      }
+
+      logger.info(`[IPC] mods:cleanup-orphans - ${action === 'archive' ? 'Archiving' : 'Deleting'} ${ids.length} orphans`);
+
+      const result = await modService.cleanupOrphans(
+        ids,
+        action,
+        path.join(app.getPath('userData'), 'orphan-archives')
+      );
+
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:cleanup-orphans - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * List the mods in a zip archive and which of them are already installed
+   */
+  ipcMain.handle('mods:import-preview', async (_, args: { filePath: string }) => {
+    try {
+      if (!args.filePath) {
+        return {
+          success: false,
+          error: 'filePath is required'
+        };
+      }
+
+      logger.info(`[IPC] mods:import-preview - Reading ${args.filePath}`);
+
+      const preview = await modImportService.previewImport(args.filePath);
+
+      return {
+        success: true,
+        data: preview
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:import-preview - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Install mods from a zip archive into a library folder
+   */
+  ipcMain.handle('mods:import', async (_, args: { filePath: string; rootPath: string; modIds?: string[]; overwrite?: boolean }) => {
+    try {
+      const { filePath, rootPath, modIds, overwrite } = args;
+
+      if (!filePath || !rootPath) {
+        return {
+          success: false,
+          error: 'filePath and rootPath are required'
+        };
+      }
+
+      logger.info(`[IPC] mods:import - Importing ${filePath} into ${rootPath}`);
+
+      const result = await modImportService.importMods(filePath, { rootPath, modIds, overwrite });
+
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:import - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Compare the workshop folder with Steam's appworkshop manifest (stale, leftover, missing mods)
+   */
+  ipcMain.handle('mods:get-workshop-report', async () => {
+    try {
+      logger.info('[IPC] mods:get-workshop-report - Reading Steam workshop install state');
+
+      const report = await modService.getWorkshopStateReport();
+
+      return {
+        success: true,
+        data: report
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:get-workshop-report - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Sync specific mods from workshop (not used in current offline implementation)
+   * Kept for potential future use
+   */
+  ipcMain.handle('mods:sync', async (_) => {
+    try {
+      logger.info('[IPC] mods:sync - Manual sync requested (using scanAndSyncLocalMods)');
+
+      // In offline mode, we just rescan the local folder
+      const result = await modService.scanAndSyncLocalMods();
+
+      return {
+        success: true,
+        data: {
+          synced: result.synced.length,
+          errors: result.errors.length,
+          mods: result.synced,
+          errorMessages: result.errors
+        }
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:sync - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Export selected mods as zip file
+   * Opens save dialog and creates zip archive of mod folders
+   * Progress is pushed as mods:export-progress events; mods:export-cancel aborts it
+   */
+  ipcMain.handle('mods:export', async (_, args: {
+    filePath: string;
+    modIds: string[];
+    includeLoadOrder?: boolean;
+    compressionLevel?: number;
+  }) => {
+    try {
+      const { filePath, modIds, includeLoadOrder, compressionLevel } = args;
+
+      if (!Array.isArray(modIds) || modIds.length === 0) {
+        return {
+          success: false,
+          error: 'modIds array is required and must not be empty'
+        };
+      }
+
+      if (exportAbortController) {
+        return {
+          success: false,
+          error: 'Another export is still running'
+        };
+      }
+
+      logger.info(`[IPC] mods:export - Exporting ${modIds.length} mods to ${filePath}`);
+
+      exportAbortController = new AbortController();
+      const result = await modService.exportMods(modIds, filePath, {
+        appVersion: app.getVersion(),
+        includeLoadOrder,
+        compressionLevel,
+        onProgress: (progress) => mainWindow?.webContents.send('mods:export-progress', progress),
+        signal: exportAbortController.signal
+      }).finally(() => {
+        exportAbortController = null;
+      });
+
+      return {
+        success: true,
+        filePath: result.zipPath,
+        exportedCount: result.exportedCount,
+        missingMods: result.missingMods
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:export - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Save a mod list report (CSV, Markdown, JSON or HTML) to a file chosen with dialog:save
+   */
+  ipcMain.handle('mods:export-report', async (_, args: {
+    filePath: string;
+    format: ModReportFormat;
+    modIds?: string[];
+    title?: string;
+  }) => {
+    try {
+      const { filePath, format, modIds, title } = args;
+
+      if (!filePath) {
+        return {
+          success: false,
+          error: 'filePath is required'
+        };
+      }
+
+      logger.info(`[IPC] mods:export-report - Saving ${format} report to ${filePath}`);
+
+      const result = await modService.exportModReport({ format, modIds, title }, filePath);
+
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:export-report - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Get metadata history snapshots of one mod, or of all mods, newest first
+   */
+  ipcMain.handle('mods:get-history', async (_, args: { modId?: string; limit?: number } = {}) => {
+    try {
+      logger.debug(`[IPC] mods:get-history - Fetching history${args.modId ? ` of mod ${args.modId}` : ''}`);
+
+      const history = await modService.getModHistory(args.modId, args.limit);
+
+      return {
+        success: true,
+        data: history
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:get-history - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Compare a Steam Workshop collection with the installed mods
+   */
+  ipcMain.handle('mods:collection-diff', async (_, args: { collection: string }) => {
+    try {
+      logger.info(`[IPC] mods:collection-diff - Resolving collection ${args.collection}`);
+
+      const diff = await modService.diffCollection(args.collection);
+
+      return {
+        success: true,
+        data: diff
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:collection-diff - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Cancel the running export and remove its partial file
+   */
+  ipcMain.handle('mods:export-cancel', async () => {
+    try {
+      const canceled = exportAbortController !== null;
+      logger.info(`[IPC] mods:export-cancel - ${canceled ? 'Canceling export' : 'No export running'}`);
+
+      exportAbortController?.abort();
+
+      return {
+        success: true,
+        data: { canceled }
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:export-cancel - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Get mod statistics overview
+   */
+  ipcMain.handle('mods:stats', async () => {
+    try {
+      logger.debug('[IPC] mods:stats - Fetching mod statistics');
+
+      const stats = await modService.getModStatistics();
+
+      return {
+        success: true,
+        data: stats
+      };
+    } catch (error) {
+      logger.error('[IPC] mods:stats - Error:', error);
+      throw error;
+    }
+  });
+
+  // ==========================================
+  // Profile Operations
+  // ==========================================
+
+  /**
+   * Get all saved profiles
+   */
+  ipcMain.handle('profiles:get-all', async () => {
+    try {
+      logger.debug('[IPC] profiles:getAll - Fetching profiles');
+
+      const profiles = await profileService.getAllProfiles();
+
+      return {
+        success: true,
+        data: profiles
+      };
+    } catch (error) {
+      logger.error('[IPC] profiles:getAll - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Create a profile from a list of mod IDs
+   * When no mod IDs are given, the currently enabled/disabled state is captured
+   */
+  ipcMain.handle('profiles:create', async (_, args: { name: string; modIds?: string[]; description?: string }) => {
+    try {
+      const { name, modIds, description } = args;
+      logger.info(`[IPC] profiles:create - Creating profile "${name}"`);
+
+      const profile = modIds && modIds.length > 0
+        ? await profileService.createProfile(name, modIds, description)
+        : await profileService.createProfileFromCurrentState(name, description);
+
+      return {
+        success: true,
+        data: profile
+      };
+    } catch (error) {
+      logger.error('[IPC] profiles:create - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Update a profile's name, description or mod list
+   */
+  ipcMain.handle('profiles:update', async (_, args: {
+    id: number;
+    name?: string;
+    description?: string;
+    mods?: Array<{ modId: string; enabled: boolean }>;
+  }) => {
+    try {
+      const { id, ...changes } = args;
+      logger.info(`[IPC] profiles:update - Updating profile ${id}`);
+
+      const profile = await profileService.updateProfile(id, changes);
+
+      return {
+        success: true,
+        data: profile
+      };
+    } catch (error) {
+      logger.error('[IPC] profiles:update - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Delete a profile
+   */
+  ipcMain.handle('profiles:delete', async (_, args: { id: number }) => {
+    try {
+      logger.info(`[IPC] profiles:delete - Deleting profile ${args.id}`);
+
+      await profileService.deleteProfile(args.id);
 
-  // ==========================================
-  // Mod Operations
-  // ==========================================
+      return {
+        success: true
+      };
+    } catch (error) {
+      logger.error('[IPC] profiles:delete - Error:', error);
+      throw error;
+    }
+  });
 
   /**
-   * Scan local workshop folder and sync mods
-   * Returns scan results including synced mods and errors
+   * Apply a profile by enabling/disabling installed mods to match it
    */
-  ipcMain.handle('mods:scan', async () => {
+  ipcMain.handle('profiles:apply', async (_, args: { id: number }) => {
     try {
-      logger.info('[IPC] mods:scan - Starting local mod scan...');
-      const result = await modService.scanAndSyncLocalMods();
+      logger.info(`[IPC] profiles:apply - Applying profile ${args.id}`);
 
-      logger.info(`[IPC] mods:scan - Scan complete: ${result.scanned} scanned, ${result.synced.length} synced`);
+      const result = await profileService.applyProfile(args.id);
 
       return {
         success: true,
-        data: {
-          scanned: result.scanned,
-          synced: result.synced.length,
-          errors: result.errors.length,
-          mods: result.synced,
-          errorMessages: result.errors
-        }
+        data: result
       };
     } catch (error) {
-      logger.error('[IPC] mods:scan - Error:', error);
+      logger.error('[IPC] profiles:apply - Error:', error);
       throw error;
     }
   });
 
   /**
-   * Get all mods with optional pagination
+   * Compare two profiles
    */
-  ipcMain.handle('mods:get-all', async (_, args: { limit?: number; offset?: number }) => {
+  ipcMain.handle('profiles:compare', async (_, args: { firstId: number; secondId: number }) => {
     try {
-      const { limit = 1000, offset = 0 } = args || {};
-      logger.debug(`[IPC] mods:getAll - Fetching mods (limit: ${limit}, offset: ${offset})`);
+      logger.debug(`[IPC] profiles:compare - Comparing profiles ${args.firstId} and ${args.secondId}`);
 
-      const mods = await modService.getAllMods(limit, offset);
+      const comparison = await profileService.compareProfiles(args.firstId, args.secondId);
 
       return {
         success: true,
-        data: mods,
-        pagination: {
-          limit,
-          offset,
-          count: mods.length
-        }
+        data: comparison
       };
     } catch (error) {
-      logger.error('[IPC] mods:getAll - Error:', error);
+      logger.error('[IPC] profiles:compare - Error:', error);
       throw error;
     }
   });
 
   /**
-   * Get specific mod by ID
+   * Create a share code from the enabled mods, a profile or the given mods
    */
+  ipcMain.handle('profiles:create-share-code', async (_, args: {
+    modIds?: string[];
+    profileId?: number;
+    includeLoadOrder?: boolean;
+  } = {}) => {
+    try {
+      logger.info('[IPC] profiles:createShareCode - Creating share code');
+
+      const result = await shareCodeService.createShareCode(args);
+
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      logger.error('[IPC] profiles:createShareCode - Error:', error);
+      throw error;
+    }
+  });
+
   /**
-   * Get mod by ID
+   * Compare a share code with the installed mods
    */
-  ipcMain.handle('mods:get-by-id', async (_, args: { id: string }) => {
+  ipcMain.handle('profiles:compare-share-code', async (_, args: { code: string }) => {
     try {
-      const { id } = args;
-      logger.debug(`[IPC] mods:getById - Fetching mod ${id}`);
-
-      const mod = await modService.getMod(id, true);
+      logger.info('[IPC] profiles:compareShareCode - Comparing share code');
 
-      if (!mod) {
-        return {
-          success: false,
-          error: 'Mod not found'
-        };
-      }
+      const comparison = await shareCodeService.compareShareCode(args.code);
 
       return {
         success: true,
-        data: mod
+        data: comparison
       };
     } catch (error) {
-      logger.error('[IPC] mods:getById - Error:', error);
+      logger.error('[IPC] profiles:compareShareCode - Error:', error);
       throw error;
     }
   });
 
+  // ==========================================
+  // Dependency Operations
+  // ==========================================
+
   /**
-   * Search mods by query
+   * Resolve mod dependencies: warnings for missing or disabled dependencies
+   * and an order in which every mod follows the mods it needs
    */
-  ipcMain.handle('mods:search', async (_, args: { query: string }) => {
+  ipcMain.handle('dependencies:get-graph', async (_) => {
     try {
-      const { query } = args;
-      logger.debug(`[IPC] mods:search - Searching for: ${query}`);
+      logger.debug('[IPC] dependencies:get-graph - Resolving mod dependencies');
 
-      if (!query || typeof query !== 'string') {
-        return {
-          success: false,
-          error: 'Search query is required'
-        };
-      }
-
-      const mods = await modService.searchMods(query, 1000);
+      const graph = await dependencyService.getDependencyGraph();
 
       return {
         success: true,
-        data: mods,
-        query,
-        count: mods.length
+        data: graph
       };
     } catch (error) {
-      logger.error('[IPC] mods:search - Error:', error);
+      logger.error('[IPC] dependencies:get-graph - Error:', error);
       throw error;
     }
   });
 
+  // ==========================================
+  // Backup Operations
+  // ==========================================
+
   /**
-   * Sync specific mods from workshop (not used in current offline implementation)
-   * Kept for potential future use
+   * List a mod's backups, newest first
    */
-  ipcMain.handle('mods:sync', async (_) => {
+  ipcMain.handle('backups:list', async (_, args: { modId: string }) => {
     try {
-      logger.info('[IPC] mods:sync - Manual sync requested (using scanAndSyncLocalMods)');
+      logger.debug(`[IPC] backups:list - Fetching backups of mod ${args.modId}`);
 
-      // In offline mode, we just rescan the local folder
-      const result = await modService.scanAndSyncLocalMods();
+      const backups = await backupService.listBackups(args.modId);
 
       return {
         success: true,
-        data: {
-          synced: result.synced.length,
-          errors: result.errors.length,
-          mods: result.synced,
-          errorMessages: result.errors
-        }
+        data: backups
       };
     } catch (error) {
-      logger.error('[IPC] mods:sync - Error:', error);
+      logger.error('[IPC] backups:list - Error:', error);
       throw error;
     }
   });
 
   /**
-   * Export selected mods as zip file
-   * Opens save dialog and creates zip archive of mod folders
+   * Snapshot a mod folder now
    */
-  ipcMain.handle('mods:export', async (_, args: { filePath: string; modIds: string[] }) => {
+  ipcMain.handle('backups:create', async (_, args: { modId: string }) => {
     try {
-      const { filePath, modIds } = args;
+      logger.info(`[IPC] backups:create - Backing up mod ${args.modId}`);
 
-      if (!Array.isArray(modIds) || modIds.length === 0) {
-        return {
-          success: false,
-          error: 'modIds array is required and must not be empty'
-        };
-      }
+      const backup = await backupService.createBackup(args.modId, 'manual');
 
-      logger.info(`[IPC] mods:export - Exporting ${modIds.length} mods to ${filePath}`);
+      return {
+        success: true,
+        data: backup
+      };
+    } catch (error) {
+      logger.error('[IPC] backups:create - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Replace a mod folder with a backup and re-sync the mod
+   */
+  ipcMain.handle('backups:restore', async (_, args: { backupId: number }) => {
+    try {
+      logger.info(`[IPC] backups:restore - Restoring backup ${args.backupId}`);
 
-      const result = await modService.exportMods(modIds, filePath);
+      const backup = await backupService.restoreBackup(args.backupId);
+      await modService.syncModsByIds([backup.modId], { fullRescan: true });
 
       return {
         success: true,
-        filePath: result.zipPath,
-        exportedCount: result.exportedCount,
-        missingMods: result.missingMods
+        data: backup
       };
     } catch (error) {
-      logger.error('[IPC] mods:export - Error:', error);
+      logger.error('[IPC] backups:restore - Error:', error);
       throw error;
     }
   });
 
   /**
-   * Get mod statistics overview
+   * Pin a backup so syncs keep restoring it, or unpin it
    */
-  ipcMain.handle('mods:stats', async () => {
+  ipcMain.handle('backups:set-pinned', async (_, args: { backupId: number; pinned: boolean }) => {
     try {
-      logger.debug('[IPC] mods:stats - Fetching mod statistics');
+      logger.info(`[IPC] backups:set-pinned - ${args.pinned ? 'Pinning' : 'Unpinning'} backup ${args.backupId}`);
 
-      const stats = await modService.getModStatistics();
+      const backup = await backupService.setPinned(args.backupId, args.pinned);
 
       return {
         success: true,
-        data: stats
+        data: backup
       };
     } catch (error) {
-      logger.error('[IPC] mods:stats - Error:', error);
+      logger.error('[IPC] backups:set-pinned - Error:', error);
       throw error;
     }
   });
@@ -550,11 +1283,13 @@ function registerIpcHandlers(): void {
       
       // Update the workshop path
       localModService.setWorkshopPath(workshopPath);
+      modWatcherService?.restart();
       
       // Store in user preferences for persistence
       const StoreClass = await getStore();
       const store = new StoreClass();
       store.set('workshopPath', workshopPath);
+      store.set('libraryRoots', localModService.getLibraryRoots());
       
       return {
         success: true,
@@ -567,12 +1302,183 @@ function registerIpcHandlers(): void {
   });
 
   /**
-   * Check if workshop path is configured
+   * Get game Mods folder path setting
+   */
+  ipcMain.handle('settings:get-game-mods-path', async () => {
+    try {
+      logger.debug('[IPC] settings:getGameModsPath - Fetching game Mods path');
+
+      return {
+        success: true,
+        data: localModService ? localModService.getGameModsPath() : ''
+      };
+    } catch (error) {
+      logger.error('[IPC] settings:getGameModsPath - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Set game Mods folder path setting
+   * An empty path disables scanning of side-loaded mods
+   */
+  ipcMain.handle('settings:set-game-mods-path', async (_, args: { path: string }) => {
+    try {
+      const { path: gameModsPath } = args;
+      logger.info(`[IPC] settings:setGameModsPath - Setting game Mods path to: ${gameModsPath || '(none)'}`);
+
+      if (!localModService) {
+        throw new Error('Local mod service not initialized');
+      }
+
+      localModService.setGameModsPath(gameModsPath);
+      modWatcherService?.restart();
+
+      const StoreClass = await getStore();
+      const store = new StoreClass();
+      store.set('gameModsPath', gameModsPath);
+      store.set('libraryRoots', localModService.getLibraryRoots());
+
+      return {
+        success: true,
+        message: 'Game Mods path updated successfully'
+      };
+    } catch (error) {
+      logger.error('[IPC] settings:setGameModsPath - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Get all library roots, including disabled ones
+   */
+  ipcMain.handle('settings:get-library-roots', async () => {
+    try {
+      logger.debug('[IPC] settings:getLibraryRoots - Fetching library roots');
+
+      return {
+        success: true,
+        data: localModService ? localModService.getLibraryRoots() : []
+      };
+    } catch (error) {
+      logger.error('[IPC] settings:getLibraryRoots - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Replace the library roots
+   */
+  ipcMain.handle('settings:set-library-roots', async (_, args: { roots: ModLibraryRoot[] }) => {
+    try {
+      logger.info(`[IPC] settings:setLibraryRoots - Setting ${args.roots.length} library root(s)`);
+
+      if (!localModService) {
+        throw new Error('Local mod service not initialized');
+      }
+
+      localModService.setLibraryRoots(args.roots);
+      modWatcherService?.restart();
+
+      const StoreClass = await getStore();
+      const store = new StoreClass();
+      const roots = localModService.getLibraryRoots();
+      store.set('libraryRoots', roots);
+
+      return {
+        success: true,
+        data: roots
+      };
+    } catch (error) {
+      logger.error('[IPC] settings:setLibraryRoots - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Get the Steam Web API base URL and offline mode
+   */
+  ipcMain.handle('settings:get-steam-api', async () => {
+    try {
+      logger.debug('[IPC] settings:getSteamApi - Fetching Steam API settings');
+
+      if (!steamWorkshopService) {
+        throw new Error('Steam Workshop service not initialized');
+      }
+
+      return {
+        success: true,
+        data: steamWorkshopService.getApiSettings()
+      };
+    } catch (error) {
+      logger.error('[IPC] settings:getSteamApi - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Set the Steam Web API base URL and offline mode
+   * An empty URL restores the default
+   */
+  ipcMain.handle('settings:set-steam-api', async (_, args: SteamApiSettings) => {
+    try {
+      logger.info(
+        `[IPC] settings:setSteamApi - Setting Steam API URL to ${args.baseUrl || '(default)'}, offline mode ${args.offlineMode ? 'on' : 'off'}`
+      );
+
+      if (!steamWorkshopService) {
+        throw new Error('Steam Workshop service not initialized');
+      }
+
+      steamWorkshopService.setApiBaseUrl(args.baseUrl);
+      steamWorkshopService.setOfflineMode(args.offlineMode);
+
+      const StoreClass = await getStore();
+      const store = new StoreClass();
+      const settings = steamWorkshopService.getApiSettings();
+      store.set('steamApiBaseUrl', settings.baseUrl === DEFAULT_STEAM_API_BASE_URL ? '' : settings.baseUrl);
+      store.set('steamOfflineMode', settings.offlineMode);
+
+      return {
+        success: true,
+        data: settings
+      };
+    } catch (error) {
+      logger.error('[IPC] settings:setSteamApi - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Discover Steam libraries and suggest Duckov's workshop and game Mods folders
+   */
+  ipcMain.handle('settings:discover-steam-paths', async () => {
+    try {
+      logger.info('[IPC] settings:discoverSteamPaths - Searching Steam libraries');
+
+      if (!steamDiscoveryService) {
+        throw new Error('Steam discovery service not initialized');
+      }
+
+      const discovery = await steamDiscoveryService.discover();
+
+      return {
+        success: true,
+        data: discovery
+      };
+    } catch (error) {
+      logger.error('[IPC] settings:discoverSteamPaths - Error:', error);
+      throw error;
+    }
+  });
+
+  /**
+   * Check if a mod folder is configured
+   * Either the workshop folder or the game's Mods folder is enough to scan
    */
   ipcMain.handle('settings:is-workshop-configured', async () => {
     try {
-      const workshopPath = localModService ? (localModService as any).workshopPath : '';
-      const isConfigured = Boolean(workshopPath && workshopPath.trim());
+      const isConfigured = localModService ? localModService.isConfigured() : false;
       
       logger.debug(`[IPC] settings:isWorkshopConfigured - ${isConfigured}`);
       
@@ -632,6 +1538,28 @@ function registerIpcHandlers(): void {
     }
   });
 
+  /**
+   * Open a Workshop item's page in the Steam client
+   */
+  ipcMain.handle('app:open-workshop-page', async (_, args: { modId: string }) => {
+    try {
+      const { modId } = args;
+      if (!/^\d+$/.test(modId || '')) {
+        throw new Error(`Invalid Workshop ID: ${modId}`);
+      }
+
+      logger.info(`[IPC] app:openWorkshopPage - Opening ${modId}`);
+      await shell.openExternal(`steam://url/CommunityFilePage/${modId}`);
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      logger.error('[IPC] app:openWorkshopPage - Error:', error);
+      throw error;
+    }
+  });
+
   /**
    * Window control operations
    */
@@ -728,6 +1656,8 @@ app.on('before-quit', async (event) => {
   event.preventDefault();
 
   try {
+    modWatcherService?.stop();
+
     // Close database connection
     if (database) {
       await database.close();
@@ -764,6 +1694,9 @@ export function getServices() {
     modService,
     translationService,
     localModService,
+    profileService,
+    dependencyService,
+    modWatcherService,
     database,
   };
 }
@@ -25,6 +25,40 @@ enum IpcChannels {
   MODS_SEARCH = 'mods:search',
   MODS_SYNC = 'mods:sync',
   MODS_EXPORT = 'mods:export',
+  MODS_EXPORT_CANCEL = 'mods:export-cancel',
+  MODS_EXPORT_REPORT = 'mods:export-report',
+  MODS_COLLECTION_DIFF = 'mods:collection-diff',
+  MODS_GET_HISTORY = 'mods:get-history',
+  MODS_SET_ENABLED = 'mods:set-enabled',
+  MODS_GET_LOAD_ORDER = 'mods:get-load-order',
+  MODS_REORDER = 'mods:reorder',
+  MODS_VERIFY_INTEGRITY = 'mods:verify-integrity',
+  MODS_GET_CONFLICTS = 'mods:get-conflicts',
+  MODS_GET_WORKSHOP_REPORT = 'mods:get-workshop-report',
+  MODS_GET_DISK_USAGE = 'mods:get-disk-usage',
+  MODS_FIND_ORPHANS = 'mods:find-orphans',
+  MODS_CLEANUP_ORPHANS = 'mods:cleanup-orphans',
+  MODS_IMPORT_PREVIEW = 'mods:import-preview',
+  MODS_IMPORT = 'mods:import',
+
+  // Profile operations
+  PROFILES_GET_ALL = 'profiles:get-all',
+  PROFILES_CREATE = 'profiles:create',
+  PROFILES_UPDATE = 'profiles:update',
+  PROFILES_DELETE = 'profiles:delete',
+  PROFILES_APPLY = 'profiles:apply',
+  PROFILES_COMPARE = 'profiles:compare',
+  PROFILES_CREATE_SHARE_CODE = 'profiles:create-share-code',
+  PROFILES_COMPARE_SHARE_CODE = 'profiles:compare-share-code',
+
+  // Dependency operations
+  DEPENDENCIES_GET_GRAPH = 'dependencies:get-graph',
+
+  // Backup operations
+  BACKUPS_LIST = 'backups:list',
+  BACKUPS_CREATE = 'backups:create',
+  BACKUPS_RESTORE = 'backups:restore',
+  BACKUPS_SET_PINNED = 'backups:set-pinned',
 
   // Translation operations
   TRANSLATION_TRANSLATE = 'translation:translate',
@@ -35,6 +69,13 @@ enum IpcChannels {
   SETTINGS_GET_WORKSHOP_PATH = 'settings:get-workshop-path',
   SETTINGS_SET_WORKSHOP_PATH = 'settings:set-workshop-path',
   SETTINGS_IS_WORKSHOP_CONFIGURED = 'settings:is-workshop-configured',
+  SETTINGS_GET_GAME_MODS_PATH = 'settings:get-game-mods-path',
+  SETTINGS_SET_GAME_MODS_PATH = 'settings:set-game-mods-path',
+  SETTINGS_DISCOVER_STEAM_PATHS = 'settings:discover-steam-paths',
+  SETTINGS_GET_LIBRARY_ROOTS = 'settings:get-library-roots',
+  SETTINGS_SET_LIBRARY_ROOTS = 'settings:set-library-roots',
+  SETTINGS_GET_STEAM_API = 'settings:get-steam-api',
+  SETTINGS_SET_STEAM_API = 'settings:set-steam-api',
 
   // File dialog operations
   DIALOG_OPEN = 'dialog:open',
@@ -43,6 +84,7 @@ enum IpcChannels {
   // App operations
   APP_GET_INFO = 'app:get-info',
   APP_GET_PATH = 'app:get-path',
+  APP_OPEN_WORKSHOP_PAGE = 'app:open-workshop-page',
   APP_QUIT = 'app:quit',
   APP_RELAUNCH = 'app:relaunch',
   APP_MINIMIZE = 'app:minimize',
@@ -50,6 +92,14 @@ enum IpcChannels {
   APP_CLOSE = 'app:close',
 }
 
+/**
+ * Events the main process pushes to the renderer
+ */
+enum IpcEvents {
+  MODS_CHANGED = 'mods:changed',
+  MODS_EXPORT_PROGRESS = 'mods:export-progress',
+}
+
 /**
  * Translation request interface
  */
@@ -60,6 +110,50 @@ interface TranslationRequest {
   context?: string;
 }
 
+/**
+ * Export options
+ */
+interface ExportOptions {
+  includeLoadOrder?: boolean;
+  compressionLevel?: number;
+}
+
+/**
+ * What a share code is made from
+ */
+interface ShareCodeOptions {
+  modIds?: string[];
+  profileId?: number;
+  includeLoadOrder?: boolean;
+}
+
+/**
+ * Profile update payload
+ */
+interface ProfileChanges {
+  name?: string;
+  description?: string;
+  mods?: Array<{ modId: string; enabled: boolean }>;
+}
+
+/**
+ * A folder scanned for mods
+ */
+interface LibraryRoot {
+  name: string;
+  path: string;
+  type: 'workshop' | 'local';
+  enabled: boolean;
+}
+
+/**
+ * Steam Web API connection settings
+ */
+interface SteamApiSettings {
+  baseUrl: string;
+  offlineMode: boolean;
+}
+
 /**
  * File dialog options
  */
@@ -68,6 +162,7 @@ interface OpenDialogOptions {
   defaultPath?: string;
   buttonLabel?: string;
   properties?: Array<'openFile' | 'openDirectory' | 'multiSelections'>;
+  filters?: Array<{ name: string; extensions: string[] }>;
 }
 
 interface SaveDialogOptions {
@@ -82,12 +177,48 @@ interface SaveDialogOptions {
  */
 interface ElectronAPI {
   // Mod operations
-  scanMods: () => Promise<any>;
+  scanMods: (options?: { fullRescan?: boolean; hashContents?: boolean }) => Promise<any>;
   getAllMods: (limit?: number, offset?: number) => Promise<any>;
   getModById: (id: string) => Promise<any>;
   searchMods: (query: string) => Promise<any>;
   syncMods: () => Promise<any>;
-  exportMods: (filePath: string, modIds: string[]) => Promise<any>;
+  exportMods: (filePath: string, modIds: string[], options?: ExportOptions) => Promise<any>;
+  cancelExport: () => Promise<any>;
+  exportReport: (filePath: string, format: 'csv' | 'markdown' | 'json' | 'html', modIds?: string[], title?: string) => Promise<any>;
+  getCollectionDiff: (collection: string) => Promise<any>;
+  getModHistory: (modId?: string, limit?: number) => Promise<any>;
+  onExportProgress: (callback: (progress: any) => void) => () => void;
+  setModEnabled: (id: string, enabled: boolean) => Promise<any>;
+  getLoadOrder: () => Promise<any>;
+  reorderMods: (modIds: string[]) => Promise<any>;
+  verifyModIntegrity: (id: string) => Promise<any>;
+  getConflicts: (modId?: string) => Promise<any>;
+  getWorkshopReport: () => Promise<any>;
+  getDiskUsage: (refresh?: boolean) => Promise<any>;
+  findOrphans: () => Promise<any>;
+  cleanupOrphans: (ids: string[], action: 'archive' | 'delete') => Promise<any>;
+  previewImport: (filePath: string) => Promise<any>;
+  importMods: (filePath: string, rootPath: string, modIds?: string[], overwrite?: boolean) => Promise<any>;
+  onModsChanged: (callback: (changes: any) => void) => () => void;
+
+  // Profile operations
+  getProfiles: () => Promise<any>;
+  createProfile: (name: string, modIds?: string[], description?: string) => Promise<any>;
+  updateProfile: (id: number, changes: ProfileChanges) => Promise<any>;
+  deleteProfile: (id: number) => Promise<any>;
+  applyProfile: (id: number) => Promise<any>;
+  compareProfiles: (firstId: number, secondId: number) => Promise<any>;
+  createShareCode: (options?: ShareCodeOptions) => Promise<any>;
+  compareShareCode: (code: string) => Promise<any>;
+
+  // Dependency operations
+  getDependencyGraph: () => Promise<any>;
+
+  // Backup operations
+  getBackups: (modId: string) => Promise<any>;
+  createBackup: (modId: string) => Promise<any>;
+  restoreBackup: (backupId: number) => Promise<any>;
+  setBackupPinned: (backupId: number, pinned: boolean) => Promise<any>;
 
   // Translation operations
   translate: (request: TranslationRequest) => Promise<any>;
@@ -98,6 +229,13 @@ interface ElectronAPI {
   getWorkshopPath: () => Promise<string>;
   setWorkshopPath: (path: string) => Promise<void>;
   isWorkshopConfigured: () => Promise<boolean>;
+  getGameModsPath: () => Promise<string>;
+  setGameModsPath: (path: string) => Promise<void>;
+  discoverSteamPaths: () => Promise<any>;
+  getLibraryRoots: () => Promise<any[]>;
+  setLibraryRoots: (roots: LibraryRoot[]) => Promise<any[]>;
+  getSteamApiSettings: () => Promise<SteamApiSettings>;
+  setSteamApiSettings: (settings: SteamApiSettings) => Promise<SteamApiSettings>;
 
   // File dialog operations
   showOpenDialog: (options: OpenDialogOptions) => Promise<any>;
@@ -106,6 +244,7 @@ interface ElectronAPI {
   // App operations
   getAppInfo: () => Promise<any>;
   getPath: (name: 'home' | 'appData' | 'userData' | 'temp' | 'downloads' | 'documents') => Promise<string>;
+  openWorkshopPage: (modId: string) => Promise<any>;
   quit: () => void;
   relaunch: () => void;
   minimize: () => void;
@@ -140,6 +279,23 @@ function safeSend(channel: string, ...args: unknown[]): void {
   ipcRenderer.send(channel, ...args);
 }
 
+/**
+ * Safe IPC event subscription
+ * Only whitelisted events can be subscribed to, and the Electron event object
+ * is not passed on so the renderer can't reach `sender`
+ * Returns a function that removes the listener
+ */
+function safeOn(channel: string, callback: (...args: unknown[]) => void): () => void {
+  if (!Object.values(IpcEvents).includes(channel as any)) {
+    throw new Error(`Invalid IPC event: ${channel}`);
+  }
+  const listener = (_event: Electron.IpcRendererEvent, ...args: unknown[]) => callback(...args);
+  ipcRenderer.on(channel, listener);
+  return () => {
+    ipcRenderer.removeListener(channel, listener);
+  };
+}
+
 /**
  * Electron API exposed to renderer process
  * This is the ONLY interface the renderer can use to communicate with main process
@@ -152,8 +308,14 @@ const electronAPI: ElectronAPI = {
   /**
    * Scan and sync local mods from workshop folder
    */
-  scanMods: async () => {
-    return await safeInvoke(IpcChannels.MODS_SCAN);
+  scanMods: async (options?: { fullRescan?: boolean; hashContents?: boolean }) => {
+    if (options !== undefined && (typeof options !== 'object' || options === null)) {
+      throw new Error('Invalid scan options');
+    }
+    return await safeInvoke(IpcChannels.MODS_SCAN, {
+      fullRescan: options?.fullRescan === true,
+      hashContents: options?.hashContents === true
+    });
   },
 
   /**
@@ -191,16 +353,357 @@ const electronAPI: ElectronAPI = {
   },
 
   /**
-   * Export mods to file
+   * Export mods to a modpack file
    */
-  exportMods: async (filePath: string, modIds: string[]) => {
+  exportMods: async (filePath: string, modIds: string[], options: ExportOptions = {}) => {
     if (typeof filePath !== 'string' || !filePath.trim()) {
       throw new Error('Invalid file path');
     }
     if (!Array.isArray(modIds) || modIds.some(id => typeof id !== 'string')) {
       throw new Error('Invalid mod IDs array');
     }
-    return await safeInvoke(IpcChannels.MODS_EXPORT, { filePath, modIds });
+    const { includeLoadOrder, compressionLevel } = options;
+    if (compressionLevel !== undefined && (!Number.isInteger(compressionLevel) || compressionLevel < 0 || compressionLevel > 9)) {
+      throw new Error('compressionLevel must be a whole number from 0 to 9');
+    }
+    return await safeInvoke(IpcChannels.MODS_EXPORT, {
+      filePath,
+      modIds,
+      includeLoadOrder: includeLoadOrder === true,
+      compressionLevel
+    });
+  },
+
+  /**
+   * Save a mod list report
+   */
+  exportReport: async (filePath: string, format: 'csv' | 'markdown' | 'json' | 'html', modIds?: string[], title?: string) => {
+    if (typeof filePath !== 'string' || !filePath.trim()) {
+      throw new Error('Invalid file path');
+    }
+    if (!['csv', 'markdown', 'json', 'html'].includes(format)) {
+      throw new Error('format must be csv, markdown, json or html');
+    }
+    if (modIds !== undefined && (!Array.isArray(modIds) || modIds.some(id => typeof id !== 'string'))) {
+      throw new Error('Invalid mod IDs array');
+    }
+    return await safeInvoke(IpcChannels.MODS_EXPORT_REPORT, { filePath, format, modIds, title });
+  },
+
+  /**
+   * Compare a Steam Workshop collection with the installed mods
+   */
+  getCollectionDiff: async (collection: string) => {
+    if (!collection || typeof collection !== 'string') {
+      throw new Error('Invalid collection URL or ID');
+    }
+    return await safeInvoke(IpcChannels.MODS_COLLECTION_DIFF, { collection });
+  },
+
+  /**
+   * Get metadata history of one mod, or of all mods
+   */
+  getModHistory: async (modId?: string, limit?: number) => {
+    if (modId !== undefined && (typeof modId !== 'string' || !modId)) {
+      throw new Error('Invalid mod ID');
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      throw new Error('limit must be a positive integer');
+    }
+    return await safeInvoke(IpcChannels.MODS_GET_HISTORY, { modId, limit });
+  },
+
+  /**
+   * Cancel the running export
+   */
+  cancelExport: async () => {
+    return await safeInvoke(IpcChannels.MODS_EXPORT_CANCEL);
+  },
+
+  /**
+   * Subscribe to progress of the running export
+   * Returns a function that unsubscribes
+   */
+  onExportProgress: (callback: (progress: any) => void) => {
+    if (typeof callback !== 'function') {
+      throw new Error('Invalid callback');
+    }
+    return safeOn(IpcEvents.MODS_EXPORT_PROGRESS, callback);
+  },
+
+  /**
+   * Enable or disable a mod
+   */
+  setModEnabled: async (id: string, enabled: boolean) => {
+    if (typeof id !== 'string' || !id.trim()) {
+      throw new Error('Invalid mod ID');
+    }
+    if (typeof enabled !== 'boolean') {
+      throw new Error('Invalid enabled flag');
+    }
+    return await safeInvoke(IpcChannels.MODS_SET_ENABLED, { id, enabled });
+  },
+
+  /**
+   * Get all mods in load order
+   */
+  getLoadOrder: async () => {
+    return await safeInvoke(IpcChannels.MODS_GET_LOAD_ORDER);
+  },
+
+  /**
+   * Save a new load order
+   */
+  reorderMods: async (modIds: string[]) => {
+    if (!Array.isArray(modIds) || modIds.some(id => typeof id !== 'string')) {
+      throw new Error('Invalid mod IDs array');
+    }
+    return await safeInvoke(IpcChannels.MODS_REORDER, { modIds });
+  },
+
+  /**
+   * Compare a mod folder against its recorded file manifest
+   */
+  verifyModIntegrity: async (id: string) => {
+    if (typeof id !== 'string' || !id.trim()) {
+      throw new Error('Invalid mod ID');
+    }
+    return await safeInvoke(IpcChannels.MODS_VERIFY_INTEGRITY, { id });
+  },
+
+  /**
+   * Find installed mods that overwrite or shadow each other
+   */
+  getConflicts: async (modId?: string) => {
+    if (modId !== undefined && (typeof modId !== 'string' || !modId.trim())) {
+      throw new Error('Invalid mod ID');
+    }
+    return await safeInvoke(IpcChannels.MODS_GET_CONFLICTS, { modId });
+  },
+
+  /**
+   * Compare the workshop folder with Steam's appworkshop manifest
+   */
+  getWorkshopReport: async () => {
+    return await safeInvoke(IpcChannels.MODS_GET_WORKSHOP_REPORT);
+  },
+
+  /**
+   * Get the disk usage report of installed mods (re-analyzed when refresh is true)
+   */
+  getDiskUsage: async (refresh?: boolean) => {
+    if (refresh !== undefined && typeof refresh !== 'boolean') {
+      throw new Error('Invalid refresh flag');
+    }
+    return await safeInvoke(IpcChannels.MODS_GET_DISK_USAGE, { refresh });
+  },
+
+  /**
+   * Find orphaned database rows and leftover mod folders
+   */
+  findOrphans: async () => {
+    return await safeInvoke(IpcChannels.MODS_FIND_ORPHANS);
+  },
+
+  /**
+   * Archive or delete selected orphans
+   */
+  cleanupOrphans: async (ids: string[], action: 'archive' | 'delete') => {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new Error('ids must be a non-empty array');
+    }
+    if (!ids.every(id => typeof id === 'string' && id.trim())) {
+      throw new Error('All ids must be non-empty strings');
+    }
+    if (action !== 'archive' && action !== 'delete') {
+      throw new Error('action must be "archive" or "delete"');
+    }
+    return await safeInvoke(IpcChannels.MODS_CLEANUP_ORPHANS, { ids, action });
+  },
+
+  /**
+   * List the mods in a zip archive before importing it
+   */
+  previewImport: async (filePath: string) => {
+    if (!filePath || typeof filePath !== 'string') {
+      throw new Error('filePath must be a non-empty string');
+    }
+    return await safeInvoke(IpcChannels.MODS_IMPORT_PREVIEW, { filePath });
+  },
+
+  /**
+   * Install mods from a zip archive into a library folder
+   */
+  importMods: async (filePath: string, rootPath: string, modIds?: string[], overwrite?: boolean) => {
+    if (!filePath || typeof filePath !== 'string') {
+      throw new Error('filePath must be a non-empty string');
+    }
+    if (!rootPath || typeof rootPath !== 'string') {
+      throw new Error('rootPath must be a non-empty string');
+    }
+    if (modIds !== undefined && (!Array.isArray(modIds) || !modIds.every(id => typeof id === 'string' && id.trim()))) {
+      throw new Error('modIds must be an array of non-empty strings');
+    }
+    return await safeInvoke(IpcChannels.MODS_IMPORT, { filePath, rootPath, modIds, overwrite: overwrite === true });
+  },
+
+  /**
+   * Subscribe to mods being added, updated or removed on disk
+   * Returns a function that unsubscribes
+   */
+  onModsChanged: (callback: (changes: any) => void) => {
+    if (typeof callback !== 'function') {
+      throw new Error('Invalid callback');
+    }
+    return safeOn(IpcEvents.MODS_CHANGED, callback);
+  },
+
+  // ==========================================
+  // Profile Operations
+  // ==========================================
+
+  /**
+   * Get all saved profiles
+   */
+  getProfiles: async () => {
+    return await safeInvoke(IpcChannels.PROFILES_GET_ALL);
+  },
+
+  /**
+   * Create a profile from mod IDs (or the current enabled state if none are given)
+   */
+  createProfile: async (name: string, modIds?: string[], description?: string) => {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('Invalid profile name');
+    }
+    if (modIds !== undefined && (!Array.isArray(modIds) || modIds.some(id => typeof id !== 'string'))) {
+      throw new Error('Invalid mod IDs array');
+    }
+    return await safeInvoke(IpcChannels.PROFILES_CREATE, { name, modIds, description });
+  },
+
+  /**
+   * Update a profile
+   */
+  updateProfile: async (id: number, changes: ProfileChanges) => {
+    if (!Number.isInteger(id)) {
+      throw new Error('Invalid profile ID');
+    }
+    if (changes.mods !== undefined && (!Array.isArray(changes.mods) || changes.mods.some(entry => typeof entry.modId !== 'string'))) {
+      throw new Error('Invalid profile mods');
+    }
+    return await safeInvoke(IpcChannels.PROFILES_UPDATE, { id, ...changes });
+  },
+
+  /**
+   * Delete a profile
+   */
+  deleteProfile: async (id: number) => {
+    if (!Number.isInteger(id)) {
+      throw new Error('Invalid profile ID');
+    }
+    return await safeInvoke(IpcChannels.PROFILES_DELETE, { id });
+  },
+
+  /**
+   * Apply a profile to the installed mods
+   */
+  applyProfile: async (id: number) => {
+    if (!Number.isInteger(id)) {
+      throw new Error('Invalid profile ID');
+    }
+    return await safeInvoke(IpcChannels.PROFILES_APPLY, { id });
+  },
+
+  /**
+   * Compare two profiles
+   */
+  compareProfiles: async (firstId: number, secondId: number) => {
+    if (!Number.isInteger(firstId) || !Number.isInteger(secondId)) {
+      throw new Error('Invalid profile ID');
+    }
+    return await safeInvoke(IpcChannels.PROFILES_COMPARE, { firstId, secondId });
+  },
+
+  /**
+   * Create a share code from the enabled mods, a profile or the given mods
+   */
+  createShareCode: async (options: ShareCodeOptions = {}) => {
+    if (options.modIds && !Array.isArray(options.modIds)) {
+      throw new Error('Invalid mod IDs');
+    }
+    if (options.profileId !== undefined && !Number.isInteger(options.profileId)) {
+      throw new Error('Invalid profile ID');
+    }
+    return await safeInvoke(IpcChannels.PROFILES_CREATE_SHARE_CODE, options);
+  },
+
+  /**
+   * Compare a share code with the installed mods
+   */
+  compareShareCode: async (code: string) => {
+    if (!code || typeof code !== 'string') {
+      throw new Error('Invalid share code');
+    }
+    return await safeInvoke(IpcChannels.PROFILES_COMPARE_SHARE_CODE, { code });
+  },
+
+  // ==========================================
+  // Dependency Operations
+  // ==========================================
+
+  /**
+   * Resolve mod dependencies against the installed mods
+   */
+  getDependencyGraph: async () => {
+    return await safeInvoke(IpcChannels.DEPENDENCIES_GET_GRAPH);
+  },
+
+  // ==========================================
+  // Backup Operations
+  // ==========================================
+
+  /**
+   * List a mod's backups, newest first
+   */
+  getBackups: async (modId: string) => {
+    if (typeof modId !== 'string' || !modId.trim()) {
+      throw new Error('Invalid mod ID');
+    }
+    return await safeInvoke(IpcChannels.BACKUPS_LIST, { modId });
+  },
+
+  /**
+   * Back up a mod folder now
+   */
+  createBackup: async (modId: string) => {
+    if (typeof modId !== 'string' || !modId.trim()) {
+      throw new Error('Invalid mod ID');
+    }
+    return await safeInvoke(IpcChannels.BACKUPS_CREATE, { modId });
+  },
+
+  /**
+   * Replace a mod folder with one of its backups
+   */
+  restoreBackup: async (backupId: number) => {
+    if (!Number.isInteger(backupId)) {
+      throw new Error('Invalid backup ID');
+    }
+    return await safeInvoke(IpcChannels.BACKUPS_RESTORE, { backupId });
+  },
+
+  /**
+   * Pin a backup so syncs restore it, or unpin it
+   */
+  setBackupPinned: async (backupId: number, pinned: boolean) => {
+    if (!Number.isInteger(backupId)) {
+      throw new Error('Invalid backup ID');
+    }
+    if (typeof pinned !== 'boolean') {
+      throw new Error('pinned must be a boolean');
+    }
+    return await safeInvoke(IpcChannels.BACKUPS_SET_PINNED, { backupId, pinned });
   },
 
   // ==========================================
@@ -273,6 +776,81 @@ const electronAPI: ElectronAPI = {
     return result.data || false;
   },
 
+  /**
+   * Get the game's local Mods folder path setting
+   */
+  getGameModsPath: async () => {
+    const result: any = await safeInvoke(IpcChannels.SETTINGS_GET_GAME_MODS_PATH);
+    return result.data || '';
+  },
+
+  /**
+   * Set the game's local Mods folder path setting (empty string to disable)
+   */
+  setGameModsPath: async (path: string) => {
+    if (typeof path !== 'string') {
+      throw new Error('Invalid game Mods path');
+    }
+    await safeInvoke(IpcChannels.SETTINGS_SET_GAME_MODS_PATH, { path });
+  },
+
+  /**
+   * Find Steam libraries and suggest Duckov's workshop and game Mods folders
+   */
+  discoverSteamPaths: async () => {
+    const result: any = await safeInvoke(IpcChannels.SETTINGS_DISCOVER_STEAM_PATHS);
+    return result.data;
+  },
+
+  /**
+   * Get all mod library roots, including disabled ones
+   */
+  getLibraryRoots: async () => {
+    const result: any = await safeInvoke(IpcChannels.SETTINGS_GET_LIBRARY_ROOTS);
+    return result.data || [];
+  },
+
+  /**
+   * Replace the mod library roots
+   */
+  setLibraryRoots: async (roots: LibraryRoot[]) => {
+    if (!Array.isArray(roots)) {
+      throw new Error('Invalid library roots');
+    }
+    for (const root of roots) {
+      if (
+        !root || typeof root.path !== 'string' || typeof root.name !== 'string' ||
+        (root.type !== 'workshop' && root.type !== 'local') || typeof root.enabled !== 'boolean'
+      ) {
+        throw new Error('Invalid library root');
+      }
+    }
+    const result: any = await safeInvoke(IpcChannels.SETTINGS_SET_LIBRARY_ROOTS, { roots });
+    return result.data || [];
+  },
+
+  /**
+   * Get the Steam Web API base URL and offline mode
+   */
+  getSteamApiSettings: async () => {
+    const result: any = await safeInvoke(IpcChannels.SETTINGS_GET_STEAM_API);
+    return result.data;
+  },
+
+  /**
+   * Set the Steam Web API base URL (empty for the default) and offline mode
+   */
+  setSteamApiSettings: async (settings: SteamApiSettings) => {
+    if (!settings || typeof settings.baseUrl !== 'string' || typeof settings.offlineMode !== 'boolean') {
+      throw new Error('Invalid Steam API settings');
+    }
+    const result: any = await safeInvoke(IpcChannels.SETTINGS_SET_STEAM_API, {
+      baseUrl: settings.baseUrl,
+      offlineMode: settings.offlineMode
+    });
+    return result.data;
+  },
+
   // ==========================================
   // File Dialog Operations
   // ==========================================
@@ -331,6 +909,16 @@ const electronAPI: ElectronAPI = {
     return await safeInvoke(IpcChannels.APP_GET_PATH, { name });
   },
 
+  /**
+   * Open a Workshop item's page in the Steam client
+   */
+  openWorkshopPage: async (modId: string) => {
+    if (!/^\d+$/.test(modId || '')) {
+      throw new Error('Invalid Workshop ID');
+    }
+    return await safeInvoke(IpcChannels.APP_OPEN_WORKSHOP_PAGE, { modId });
+  },
+
   /**
    * Quit the application
    */
@@ -1,9 +1,21 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { modService } from '../index';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+/**
+ * Sends a file as a download, settling once the response is done
+ */
+function sendDownload(res: Response, filePath: string, fileName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    res.download(filePath, fileName, error => (error ? reject(error) : resolve()));
+  });
+}
+
 // Get all mods
 router.get('/', async (req, res, next) => {
   try {
@@ -53,6 +65,93 @@ router.get('/search', async (req, res, next) => {
   }
 });
 
+// Get disk usage report (?refresh=true analyzes the mod folders again)
+router.get('/disk-usage', async (req, res, next) => {
+  try {
+    const refresh = req.query.refresh === 'true';
+    
+    const report = await modService.getDiskUsageReport(refresh);
+    
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mod list report as a file download
+// ?format=csv|markdown|json|html, and either ?ids=1,2,3 (in that order) or ?search=term
+router.get('/report', async (req, res, next) => {
+  try {
+    const format = (req.query.format as string) || 'markdown';
+    
+    if (!['csv', 'markdown', 'json', 'html'].includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: 'format must be csv, markdown, json or html'
+      });
+      return;
+    }
+    
+    const ids = typeof req.query.ids === 'string' && req.query.ids.trim()
+      ? req.query.ids.split(',').map(id => id.trim()).filter(Boolean)
+      : undefined;
+    
+    const report = await modService.generateModReport({
+      format: format as 'csv' | 'markdown' | 'json' | 'html',
+      modIds: ids,
+      search: req.query.search as string | undefined,
+      title: req.query.title as string | undefined
+    });
+    
+    res.type(report.mimeType);
+    res.attachment(`mod-list.${report.fileExtension}`);
+    res.send(report.content);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Compare a Steam Workshop collection with the installed mods
+router.get('/collection', async (req, res, next) => {
+  try {
+    const collectionUrl = req.query.url as string;
+    
+    if (!collectionUrl) {
+      res.status(400).json({
+        success: false,
+        error: 'url query parameter is required'
+      });
+      return;
+    }
+    
+    const diff = await modService.diffCollection(collectionUrl);
+    
+    res.json({
+      success: true,
+      data: diff
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Find database rows without a folder and leftover mod folders
+router.get('/orphans', async (req, res, next) => {
+  try {
+    const report = await modService.findOrphans();
+    
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get specific mod
 router.get('/:id', async (req, res, next) => {
   try {
@@ -131,6 +230,40 @@ router.post('/sync', async (req, res, next) => {
   }
 });
 
+// Archive or delete orphans selected from GET /orphans
+router.post('/orphans/cleanup', async (req, res, next) => {
+  try {
+    const { ids, action = 'archive' } = req.body;
+    
+    if (!Array.isArray(ids) || ids.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'ids array is required and must not be empty'
+      });
+      return;
+    }
+    
+    if (action !== 'archive' && action !== 'delete') {
+      res.status(400).json({
+        success: false,
+        error: 'action must be "archive" or "delete"'
+      });
+      return;
+    }
+    
+    logger.info(`Cleaning up ${ids.length} orphans (${action})`);
+    const archiveDir = process.env.ORPHAN_ARCHIVE_PATH || './data/orphan-archives';
+    const result = await modService.cleanupOrphans(ids, action, archiveDir);
+    
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Translate a specific mod
 router.post('/:id/translate', async (req, res, next) => {
   try {
@@ -203,10 +336,10 @@ router.post('/translations/refresh', async (req, res, next) => {
   }
 });
 
-// Export selected mods as zip
+// Export selected mods as a modpack zip (mod folders plus modpack.json)
 router.post('/export', async (req, res, next) => {
   try {
-    const { modIds } = req.body;
+    const { modIds, includeLoadOrder, compressionLevel } = req.body;
     
     if (!Array.isArray(modIds) || modIds.length === 0) {
       res.status(400).json({
@@ -218,17 +351,40 @@ router.post('/export', async (req, res, next) => {
     
     logger.info(`Exporting ${modIds.length} selected mods`);
     
-    // The response will be streamed, so we don't use res.json
-    await modService.exportMods(modIds, res);
+    const fileName = `duckov-modpack-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`;
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duckov-export-'));
+    try {
+      const zipPath = path.join(tempDir, fileName);
+      const result = await modService.exportMods(modIds, zipPath, {
+        appVersion: process.env.npm_package_version,
+        includeLoadOrder: includeLoadOrder === true,
+        compressionLevel
+      });
+
+      if (result.missingMods.length > 0) {
+        res.setHeader('X-Missing-Mods', result.missingMods.join(','));
+      }
+
+      // The response is the zip itself, so we don't use res.json
+      await sendDownload(res, zipPath, fileName);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true }).catch(error =>
+        logger.warn(`Failed to remove export folder ${tempDir}:`, error)
+      );
+    }
   } catch (error) {
-    next(error);
+    if (!res.headersSent) {
+      next(error);
+    } else {
+      logger.error('Export download failed:', error);
+    }
   }
 });
 
-// Export mods from Steam Workshop collection URL
+// Export the installed mods of a Steam Workshop collection as a modpack zip
 router.post('/export/collection', async (req, res, next) => {
   try {
-    const { collectionUrl } = req.body;
+    const { collectionUrl, includeLoadOrder, compressionLevel } = req.body;
     
     if (!collectionUrl || typeof collectionUrl !== 'string') {
       res.status(400).json({
@@ -240,10 +396,33 @@ router.post('/export/collection', async (req, res, next) => {
     
     logger.info(`Exporting mods from collection: ${collectionUrl}`);
     
-    // The response will be streamed, so we don't use res.json
-    await modService.exportModsFromCollection(collectionUrl, res);
+    const fileName = `duckov-collection-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`;
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'duckov-export-'));
+    try {
+      const zipPath = path.join(tempDir, fileName);
+      const result = await modService.exportModsFromCollection(collectionUrl, zipPath, {
+        appVersion: process.env.npm_package_version,
+        includeLoadOrder: includeLoadOrder === true,
+        compressionLevel
+      });
+
+      if (result.missingMods.length > 0) {
+        res.setHeader('X-Missing-Mods', result.missingMods.join(','));
+      }
+
+      // The response is the zip itself, so we don't use res.json
+      await sendDownload(res, zipPath, fileName);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true }).catch(error =>
+        logger.warn(`Failed to remove export folder ${tempDir}:`, error)
+      );
+    }
   } catch (error) {
-    next(error);
+    if (!res.headersSent) {
+      next(error);
+    } else {
+      logger.error('Export download failed:', error);
+    }
   }
 });
 
@@ -0,0 +1,253 @@
+import { promises as fs, createWriteStream } from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import { Database } from '../database/Database';
+import { LocalModService } from './LocalModService';
+import { BackupReason, ModBackup, ModFingerprint } from '../types';
+import { extractZip, openZip } from '../utils/zipReader';
+import { logger } from '../utils/logger';
+
+/**
+ * BackupService - Zip snapshots of mod folders and rollback
+ *
+ * Steam replaces Workshop mods in place when they update, which can break
+ * saves that depend on the old version. Each backup is a zip of the mod
+ * folder's contents stored under `<backupDir>/<source>/<folder>/`, recorded
+ * in the `mod_backups` table with the folder's content hash.
+ *
+ * A pinned backup is the version the user wants to keep: whenever the mod
+ * folder no longer matches it, reapplyPinnedBackups() restores it. Removing
+ * the mod unpins it.
+ */
+export class BackupService {
+  constructor(
+    private database: Database,
+    private localModService: LocalModService,
+    private backupDir: string
+  ) {}
+
+  /**
+   * Snapshots a mod folder
+   *
+   * @param modId - Mod to back up (enabled or disabled)
+   * @param reason - Why the backup is taken
+   */
+  async createBackup(modId: string, reason: BackupReason = 'manual'): Promise<ModBackup> {
+    const fingerprint = await this.localModService.getModFingerprint(modId, true);
+    if (!fingerprint) {
+      throw new Error(`Mod folder not found: ${modId}`);
+    }
+
+    return this.writeBackup(modId, reason, fingerprint);
+  }
+
+  /**
+   * Gets a mod's backups, newest first
+   */
+  async listBackups(modId: string): Promise<ModBackup[]> {
+    return this.database.getModBackups(modId);
+  }
+
+  /**
+   * Pins a backup (unpinning the mod's others) or unpins it
+   */
+  async setPinned(backupId: number, pinned: boolean): Promise<ModBackup> {
+    const backup = this.database.setBackupPinned(backupId, pinned);
+    if (!backup) {
+      throw new Error(`Backup ${backupId} not found`);
+    }
+
+    logger.info(`${pinned ? 'Pinned' : 'Unpinned'} backup ${backupId} of mod ${backup.modId}`);
+    return backup;
+  }
+
+  /**
+   * Replaces a mod folder with the contents of a backup
+   * The current folder is backed up first unless an identical backup exists.
+   * The backup is extracted next to the folder and swapped in with renames,
+   * so a failed extraction leaves the current folder untouched.
+   */
+  async restoreBackup(backupId: number): Promise<ModBackup> {
+    const backup = this.database.getModBackup(backupId);
+    if (!backup) {
+      throw new Error(`Backup ${backupId} not found`);
+    }
+
+    const source = this.localModService.getModSource(backup.modId);
+    if (!this.localModService.getLibraryRoots().some(root => root.enabled && root.type === source)) {
+      throw new Error(`No ${source} library folder is configured to restore mod ${backup.modId} into`);
+    }
+
+    const archive = await openZip(backup.archivePath);
+    const current = await this.localModService.getLocalModEntry(backup.modId);
+    const targetPath = current?.path || this.localModService.getEnabledModPath(backup.modId);
+
+    if (current) {
+      await this.backupIfNew(backup.modId, 'pre-restore');
+    }
+
+    const parent = path.dirname(targetPath);
+    const folderName = path.basename(targetPath);
+    // Dot-prefixed so scans and the watcher never treat them as mods
+    const stagingPath = path.join(parent, `.${folderName}.restoring`);
+    const replacedPath = path.join(parent, `.${folderName}.replaced`);
+
+    await fs.rm(stagingPath, { recursive: true, force: true });
+    try {
+      await extractZip(archive, stagingPath);
+    } catch (error) {
+      await fs.rm(stagingPath, { recursive: true, force: true });
+      throw error;
+    }
+
+    await fs.rm(replacedPath, { recursive: true, force: true });
+    if (current) {
+      await fs.rename(targetPath, replacedPath);
+    }
+    try {
+      await fs.rename(stagingPath, targetPath);
+    } catch (error) {
+      if (current) {
+        await fs.rename(replacedPath, targetPath);
+      }
+      throw error;
+    }
+    await fs.rm(replacedPath, { recursive: true, force: true });
+
+    logger.info(`Restored mod ${backup.modId} from backup ${backup.id} (${backup.createdAt.toISOString()})`);
+    return backup;
+  }
+
+  /**
+   * Backs up mods Steam is about to update, skipping mods whose current
+   * contents are already backed up
+   *
+   * @returns The backups taken
+   */
+  async backupBeforeUpdate(modIds: string[]): Promise<ModBackup[]> {
+    const created: ModBackup[] = [];
+
+    for (const modId of modIds) {
+      try {
+        const backup = await this.backupIfNew(modId, 'pre-update');
+        if (backup) {
+          created.push(backup);
+        }
+      } catch (error) {
+        logger.warn(`Failed to back up mod ${modId} before its update:`, error);
+      }
+    }
+
+    if (created.length > 0) {
+      logger.info(`Backed up ${created.length} mods before their Workshop update`);
+    }
+    return created;
+  }
+
+  /**
+   * Restores pinned backups whose mod folder no longer matches them
+   * A mod whose folder is gone was removed or unsubscribed, so its backup is
+   * unpinned instead of bringing the mod back. Mods in a disabled or
+   * unreadable library root are left alone until the root is back.
+   *
+   * @returns IDs of the mods that were restored
+   */
+  async reapplyPinnedBackups(): Promise<string[]> {
+    const restored: string[] = [];
+
+    for (const backup of this.database.getPinnedBackups()) {
+      try {
+        const fingerprint = await this.localModService.getModFingerprint(backup.modId, true);
+        if (fingerprint?.contentHash === backup.contentHash) continue;
+
+        if (!fingerprint) {
+          const rootPath = this.database.getMod(backup.modId)?.rootPath;
+          if (!(await this.localModService.isModRootAvailable(backup.modId, rootPath))) continue;
+
+          this.database.setBackupPinned(backup.id, false);
+          logger.info(`Mod ${backup.modId} was removed, unpinned its backup ${backup.id}`);
+          continue;
+        }
+
+        logger.info(`Mod ${backup.modId} no longer matches its pinned backup ${backup.id}, restoring it`);
+        await this.restoreBackup(backup.id);
+        restored.push(backup.modId);
+      } catch (error) {
+        logger.error(`Failed to reapply pinned backup ${backup.id} of mod ${backup.modId}:`, error);
+      }
+    }
+
+    return restored;
+  }
+
+  /**
+   * Backs up a mod unless one of its backups already has the same contents
+   * @returns The new backup, or null if none was needed
+   */
+  private async backupIfNew(modId: string, reason: BackupReason): Promise<ModBackup | null> {
+    const fingerprint = await this.localModService.getModFingerprint(modId, true);
+    if (!fingerprint) {
+      return null;
+    }
+
+    const existing = this.database.getModBackups(modId);
+    if (existing.some(backup => backup.contentHash === fingerprint.contentHash)) {
+      return null;
+    }
+
+    return this.writeBackup(modId, reason, fingerprint);
+  }
+
+  private async writeBackup(modId: string, reason: BackupReason, fingerprint: ModFingerprint): Promise<ModBackup> {
+    const modPath = this.localModService.getModPath(modId);
+    const folder = path.join(
+      this.backupDir,
+      this.localModService.getModSource(modId),
+      this.localModService.getModFolderName(modId)
+    );
+    await fs.mkdir(folder, { recursive: true });
+
+    const createdAt = new Date();
+    const archivePath = path.join(folder, `${createdAt.toISOString().replace(/[:.]/g, '-')}-${reason}.zip`);
+
+    try {
+      await this.zipFolder(modPath, archivePath);
+    } catch (error) {
+      await fs.rm(archivePath, { force: true });
+      throw error;
+    }
+
+    const mod = this.database.getMod(modId);
+    const backup = this.database.saveModBackup({
+      modId,
+      archivePath,
+      reason,
+      fileCount: fingerprint.fileCount,
+      totalSize: fingerprint.totalSize,
+      archiveSize: (await fs.stat(archivePath)).size,
+      contentHash: fingerprint.contentHash!,
+      version: mod?.manifest?.version,
+      versionTime: mod?.workshopState?.installedVersionTime,
+      pinned: false,
+      createdAt
+    });
+
+    logger.info(`Backed up mod ${modId} (${reason}): ${backup.fileCount} files to ${archivePath}`);
+    return backup;
+  }
+
+  private zipFolder(folderPath: string, archivePath: string): Promise<void> {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const output = createWriteStream(archivePath);
+
+    return new Promise((resolve, reject) => {
+      output.on('close', () => resolve());
+      archive.on('error', reject);
+      output.on('error', reject);
+
+      archive.pipe(output);
+      archive.directory(folderPath, false);
+      archive.finalize();
+    });
+  }
+}
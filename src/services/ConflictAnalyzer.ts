@@ -0,0 +1,135 @@
+import { ConflictSeverity, ModConflict, ModFileEntry, ModInfo } from '../types';
+
+/**
+ * Files every mod ships for the mod loader itself; sharing these is expected
+ */
+const MOD_METADATA_FILES = new Set(['info.ini', 'preview.png', 'preview.jpg']);
+
+const SEVERITY_RANK: Record<ConflictSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Finds installed mods that may overwrite or shadow each other:
+ * - Mods shipping the same relative file paths (medium; low when the contents are identical)
+ * - Mods shipping assemblies with the same name (high; medium when the versions match,
+ *   e.g. two mods bundling the same 0Harmony build)
+ * - Mods declaring the same manifest name (high; the game identifies mods by it)
+ *
+ * A conflict only matters in game when at least two of its mods are enabled;
+ * otherwise it is reported as low severity.
+ *
+ * @param mods - Installed mods, with their assemblies and manifests
+ * @param files - Recorded file manifests of those mods
+ * @returns Conflicts sorted by severity, most severe first
+ */
+export function analyzeModConflicts(
+  mods: ModInfo[],
+  files: Array<ModFileEntry & { modId: string }>
+): ModConflict[] {
+  const modsById = new Map(mods.map(mod => [mod.id, mod]));
+  const conflicts: ModConflict[] = [];
+
+  // Same assembly name
+  const assembliesByName = new Map<string, Array<{ modId: string; name: string; version: string }>>();
+  for (const mod of mods) {
+    for (const assembly of mod.assemblies || []) {
+      const key = assembly.name.toLowerCase();
+      const owners = assembliesByName.get(key) || [];
+      if (!owners.some(owner => owner.modId === mod.id)) {
+        owners.push({ modId: mod.id, name: assembly.name, version: assembly.version });
+      }
+      assembliesByName.set(key, owners);
+    }
+  }
+
+  for (const owners of assembliesByName.values()) {
+    if (owners.length < 2) continue;
+
+    const name = owners[0].name;
+    const versions = new Set(owners.map(owner => owner.version));
+
+    conflicts.push({
+      type: 'assembly',
+      severity: versions.size > 1 ? 'high' : 'medium',
+      key: name,
+      modIds: owners.map(owner => owner.modId),
+      message: versions.size > 1
+        ? `${owners.length} mods ship different versions of ${name} (${[...versions].join(', ')}); only one will be loaded`
+        : `${owners.length} mods ship ${name} ${owners[0].version}`
+    });
+  }
+
+  // Same manifest name
+  const modsByManifestName = new Map<string, string[]>();
+  for (const mod of mods) {
+    const name = mod.manifest?.name?.trim();
+    if (!name) continue;
+
+    const key = name.toLowerCase();
+    modsByManifestName.set(key, [...(modsByManifestName.get(key) || []), mod.id]);
+  }
+
+  for (const modIds of modsByManifestName.values()) {
+    if (modIds.length < 2) continue;
+
+    const name = modsById.get(modIds[0])!.manifest!.name!.trim();
+    conflicts.push({
+      type: 'manifest-name',
+      severity: 'high',
+      key: name,
+      modIds,
+      message: `${modIds.length} mods declare the manifest name "${name}"; the game may load only one of them`
+    });
+  }
+
+  // Same relative file paths, grouped by the set of mods sharing them
+  const assemblyFiles = new Set(
+    mods.flatMap(mod => (mod.assemblies || []).map(assembly => `${mod.id}\0${assembly.file}`))
+  );
+  const ownersByPath = new Map<string, Array<{ modId: string; path: string; sha256: string }>>();
+  for (const file of files) {
+    if (!modsById.has(file.modId)) continue;
+    if (MOD_METADATA_FILES.has(file.path.toLowerCase())) continue;
+    // Assemblies are compared by name above
+    if (assemblyFiles.has(`${file.modId}\0${file.path}`)) continue;
+
+    const key = file.path.toLowerCase();
+    const owners = ownersByPath.get(key) || [];
+    owners.push({ modId: file.modId, path: file.path, sha256: file.sha256 });
+    ownersByPath.set(key, owners);
+  }
+
+  const pathGroups = new Map<string, { modIds: string[]; files: string[]; identical: boolean }>();
+  for (const owners of ownersByPath.values()) {
+    if (owners.length < 2) continue;
+
+    const modIds = owners.map(owner => owner.modId).sort();
+    const groupKey = modIds.join('\0');
+    const group = pathGroups.get(groupKey) || { modIds, files: [], identical: true };
+    group.files.push(owners[0].path);
+    group.identical = group.identical && owners.every(owner => owner.sha256 === owners[0].sha256);
+    pathGroups.set(groupKey, group);
+  }
+
+  for (const group of pathGroups.values()) {
+    conflicts.push({
+      type: 'file',
+      severity: group.identical ? 'low' : 'medium',
+      key: group.files[0],
+      modIds: group.modIds,
+      files: group.files,
+      message: group.files.length === 1
+        ? `${group.modIds.length} mods ship ${group.files[0]}${group.identical ? ' (identical contents)' : ''}`
+        : `${group.modIds.length} mods ship ${group.files.length} of the same files${group.identical ? ' (identical contents)' : ''}`
+    });
+  }
+
+  // Conflicts between disabled mods can't break the game
+  for (const conflict of conflicts) {
+    const enabledCount = conflict.modIds.filter(id => modsById.get(id)?.enabled !== false).length;
+    if (enabledCount < 2) {
+      conflict.severity = 'low';
+    }
+  }
+
+  return conflicts.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
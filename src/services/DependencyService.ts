@@ -0,0 +1,257 @@
+import { Database } from '../database/Database';
+import {
+  DependencyGraph,
+  DependencySource,
+  DependencyWarning,
+  ModDependency,
+  ModInfo,
+  ResolvedDependency
+} from '../types';
+import { splitIniList } from '../utils/iniParser';
+import { logger } from '../utils/logger';
+
+/**
+ * info.ini keys mod authors use to declare required mods (keys are lower-cased)
+ */
+const MANIFEST_DEPENDENCY_KEYS = [
+  'dependencies',
+  'dependency',
+  'depends',
+  'dependson',
+  'requires',
+  'required',
+  'requireditems'
+];
+
+/**
+ * Workshop item links as they appear in descriptions, plain or inside [url=...] BBCode
+ */
+const WORKSHOP_LINK_PATTERN = /steamcommunity\.com\/(?:sharedfiles|workshop)\/filedetails\/?\?(?:[^\s"'\]<>]*?&)?id=(\d+)/gi;
+
+/**
+ * DependencyService - Resolves which mods need which other mods
+ *
+ * Dependencies are collected when a mod is synced (see collectModDependencies)
+ * and stored as edges in the database. This service resolves those edges
+ * against the installed mods to warn about missing or disabled dependencies
+ * and to order mods so that every mod comes after the mods it depends on.
+ */
+export class DependencyService {
+  constructor(private database: Database) {}
+
+  /**
+   * Resolves all stored dependency edges against the installed mods
+   */
+  async getDependencyGraph(): Promise<DependencyGraph> {
+    const mods = this.database.getModsInLoadOrder();
+    const dependencies = this.resolveDependencies(mods, this.database.getAllModDependencies());
+    const { order, cycles } = orderByDependencies(mods.map(mod => mod.id), dependencies);
+
+    if (cycles.length > 0) {
+      logger.warn(`Found ${cycles.length} dependency cycle(s): ${cycles.map(cycle => cycle.join(' -> ')).join('; ')}`);
+    }
+
+    return {
+      dependencies,
+      warnings: this.buildWarnings(mods, dependencies),
+      order,
+      cycles
+    };
+  }
+
+  /**
+   * Gets the resolved dependencies of one mod
+   */
+  async getModDependencies(modId: string): Promise<ResolvedDependency[]> {
+    const mods = this.database.getModsInLoadOrder();
+    return this.resolveDependencies(mods, this.database.getModDependencies(modId));
+  }
+
+  private resolveDependencies(mods: ModInfo[], edges: ModDependency[]): ResolvedDependency[] {
+    const modsById = new Map(mods.map(mod => [mod.id, mod]));
+
+    return edges
+      .filter(edge => modsById.has(edge.modId))
+      .map((edge): ResolvedDependency => {
+        const target = findInstalledMod(mods, edge.dependsOn);
+
+        return {
+          ...edge,
+          resolvedModId: target?.id,
+          status: !target ? 'missing' : target.enabled === false ? 'disabled' : 'satisfied'
+        };
+      });
+  }
+
+  /**
+   * Only enabled mods get warnings; a disabled mod isn't loaded, so neither are its needs
+   */
+  private buildWarnings(mods: ModInfo[], dependencies: ResolvedDependency[]): DependencyWarning[] {
+    const modsById = new Map(mods.map(mod => [mod.id, mod]));
+    const warnings: DependencyWarning[] = [];
+
+    for (const dependency of dependencies) {
+      const mod = modsById.get(dependency.modId)!;
+      if (mod.enabled === false || dependency.status === 'satisfied') continue;
+
+      const target = dependency.resolvedModId ? modsById.get(dependency.resolvedModId)! : undefined;
+      warnings.push({
+        modId: dependency.modId,
+        dependsOn: dependency.dependsOn,
+        source: dependency.source,
+        resolvedModId: dependency.resolvedModId,
+        type: dependency.status === 'missing' ? 'missing' : 'disabled',
+        message: target
+          ? `${mod.title} needs ${target.title}, which is disabled`
+          : `${mod.title} needs ${dependency.dependsOn}, which is not installed`
+      });
+    }
+
+    return warnings;
+  }
+}
+
+/**
+ * Collects the dependencies a mod declares
+ * - Manifest fields such as `dependencies = 1234567890, FrameworkMod`
+ * - Steam required items
+ * - Workshop links in the description (authors often link the framework mod there)
+ *
+ * Each required mod is listed once, keeping the most explicit source.
+ *
+ * @param mod - The synced mod, including its manifest and original description
+ * @param requiredItemIds - Workshop IDs Steam lists as required items
+ */
+export function collectModDependencies(mod: ModInfo, requiredItemIds: string[] = []): ModDependency[] {
+  const found = new Map<string, DependencySource>();
+  const add = (dependsOn: string, source: DependencySource) => {
+    const value = dependsOn.trim();
+    if (value && value !== mod.id && value !== mod.manifest?.publishedFileId && !found.has(value)) {
+      found.set(value, source);
+    }
+  };
+
+  for (const key of MANIFEST_DEPENDENCY_KEYS) {
+    for (const value of splitIniList(mod.manifest?.fields[key])) {
+      add(value, 'manifest');
+    }
+  }
+
+  for (const id of requiredItemIds) {
+    add(id, 'steam');
+  }
+
+  const description = mod.originalDescription || mod.description || '';
+  for (const match of description.matchAll(WORKSHOP_LINK_PATTERN)) {
+    add(match[1], 'description');
+  }
+
+  return [...found].map(([dependsOn, source]) => ({ modId: mod.id, dependsOn, source }));
+}
+
+/**
+ * Finds the installed mod a dependency refers to
+ * Workshop IDs match mod IDs (or a side-loaded mod's publishedFileId); names
+ * match manifest names, titles or side-loaded folder names, ignoring case
+ */
+function findInstalledMod(mods: ModInfo[], dependsOn: string): ModInfo | undefined {
+  if (/^\d+$/.test(dependsOn)) {
+    return mods.find(mod => mod.id === dependsOn) ||
+      mods.find(mod => mod.manifest?.publishedFileId === dependsOn);
+  }
+
+  const name = dependsOn.toLowerCase();
+  return mods.find(mod => mod.manifest?.name?.toLowerCase() === name) ||
+    mods.find(mod => mod.title.toLowerCase() === name || mod.originalTitle?.toLowerCase() === name) ||
+    mods.find(mod => mod.id.toLowerCase() === `local:${name}`);
+}
+
+/**
+ * Stable topological sort: repeatedly takes the first mod (in the given order)
+ * whose dependencies have all been placed. Mods caught in cycles are appended
+ * in their original order and reported.
+ */
+export function orderByDependencies(
+  modIds: string[],
+  dependencies: ResolvedDependency[]
+): { order: string[]; cycles: string[][] } {
+  const included = new Set(modIds);
+  const requires = new Map<string, Set<string>>(modIds.map(id => [id, new Set<string>()]));
+
+  for (const dependency of dependencies) {
+    const target = dependency.resolvedModId;
+    if (target && target !== dependency.modId && included.has(dependency.modId) && included.has(target)) {
+      requires.get(dependency.modId)!.add(target);
+    }
+  }
+
+  const order: string[] = [];
+  const placed = new Set<string>();
+  let remaining = [...modIds];
+
+  while (remaining.length > 0) {
+    const next = remaining.find(id => [...requires.get(id)!].every(target => placed.has(target)));
+    if (!next) break;
+
+    order.push(next);
+    placed.add(next);
+    remaining = remaining.filter(id => id !== next);
+  }
+
+  const cycles = findCycles(remaining, requires);
+  return { order: [...order, ...remaining], cycles };
+}
+
+/**
+ * Finds the strongly connected groups (Tarjan) among mods that couldn't be ordered
+ */
+function findCycles(modIds: string[], requires: Map<string, Set<string>>): string[][] {
+  const candidates = new Set(modIds);
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let index = 0;
+
+  const visit = (id: string) => {
+    indexes.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of requires.get(id) || []) {
+      if (!candidates.has(target)) continue;
+
+      if (!indexes.has(target)) {
+        visit(target);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indexes.get(target)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indexes.get(id)) {
+      const group: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        group.push(member);
+      } while (member !== id);
+
+      if (group.length > 1) {
+        cycles.push(group.reverse());
+      }
+    }
+  };
+
+  for (const id of modIds) {
+    if (!indexes.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
@@ -0,0 +1,143 @@
+import path from 'path';
+import {
+  DiskUsageReport,
+  DuplicateFileGroup,
+  FileTypeUsage,
+  LocalModEntry,
+  ModDiskUsage,
+  ModFileEntry,
+  ModInfo,
+  ModLibraryRoot,
+  RootDiskUsage
+} from '../types';
+
+/**
+ * Number of largest files listed per mod
+ */
+const LARGEST_FILES_PER_MOD = 10;
+
+/**
+ * Label for files without an extension
+ */
+const NO_EXTENSION = '(none)';
+
+/**
+ * Breaks down the disk space used by installed mods:
+ * - per mod, by file type, with its largest files
+ * - per library root
+ * - byte-identical files shipped by more than one mod (same SHA-256 and size)
+ *
+ * Works from the recorded file manifests, so no file has to be read again.
+ *
+ * @param roots - Configured library roots
+ * @param entries - Mod folders found by the latest scan
+ * @param filesByMod - File manifest of each mod folder
+ * @param mods - Installed mods, for titles
+ */
+export function analyzeDiskUsage(
+  roots: ModLibraryRoot[],
+  entries: LocalModEntry[],
+  filesByMod: Map<string, ModFileEntry[]>,
+  mods: ModInfo[]
+): DiskUsageReport {
+  const titles = new Map(mods.map(mod => [mod.id, mod.title]));
+  const rootUsage = new Map<string, RootDiskUsage>(
+    roots.map(root => [root.path, {
+      name: root.name,
+      path: root.path,
+      type: root.type,
+      modCount: 0,
+      fileCount: 0,
+      totalSize: 0
+    }])
+  );
+  const allTypes = new Map<string, FileTypeUsage>();
+  const modUsage: ModDiskUsage[] = [];
+
+  for (const entry of entries) {
+    const files = filesByMod.get(entry.id) || [];
+    const types = new Map<string, FileTypeUsage>();
+
+    for (const file of files) {
+      addToType(types, file);
+      addToType(allTypes, file);
+    }
+
+    const usage: ModDiskUsage = {
+      modId: entry.id,
+      title: titles.get(entry.id) || entry.folderName,
+      rootPath: entry.rootPath,
+      fileCount: files.length,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+      byType: sortBySize([...types.values()]),
+      largestFiles: [...files]
+        .sort((a, b) => b.size - a.size || compareStrings(a.path, b.path))
+        .slice(0, LARGEST_FILES_PER_MOD)
+        .map(file => ({ path: file.path, size: file.size }))
+    };
+    modUsage.push(usage);
+
+    const root = rootUsage.get(entry.rootPath);
+    if (root) {
+      root.modCount++;
+      root.fileCount += usage.fileCount;
+      root.totalSize += usage.totalSize;
+    }
+  }
+
+  const duplicates = findDuplicateFiles(entries, filesByMod);
+
+  return {
+    generatedAt: new Date(),
+    modCount: modUsage.length,
+    fileCount: modUsage.reduce((sum, mod) => sum + mod.fileCount, 0),
+    totalSize: modUsage.reduce((sum, mod) => sum + mod.totalSize, 0),
+    byType: sortBySize([...allTypes.values()]),
+    roots: [...rootUsage.values()],
+    mods: modUsage.sort((a, b) => b.totalSize - a.totalSize || compareStrings(a.modId, b.modId)),
+    duplicates,
+    duplicateBytes: duplicates.reduce((sum, group) => sum + group.wastedBytes, 0)
+  };
+}
+
+/**
+ * Groups non-empty files by content; only groups spanning two or more mods are duplicates
+ */
+function findDuplicateFiles(
+  entries: LocalModEntry[],
+  filesByMod: Map<string, ModFileEntry[]>
+): DuplicateFileGroup[] {
+  const groups = new Map<string, DuplicateFileGroup>();
+
+  for (const entry of entries) {
+    for (const file of filesByMod.get(entry.id) || []) {
+      if (file.size === 0) continue;
+
+      const key = `${file.sha256}:${file.size}`;
+      const group = groups.get(key) || { sha256: file.sha256, size: file.size, files: [], wastedBytes: 0 };
+      group.files.push({ modId: entry.id, path: file.path });
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()]
+    .filter(group => new Set(group.files.map(file => file.modId)).size > 1)
+    .map(group => ({ ...group, wastedBytes: group.size * (group.files.length - 1) }))
+    .sort((a, b) => b.wastedBytes - a.wastedBytes || compareStrings(a.sha256, b.sha256));
+}
+
+function addToType(types: Map<string, FileTypeUsage>, file: ModFileEntry): void {
+  const extension = path.extname(file.path).toLowerCase() || NO_EXTENSION;
+  const usage = types.get(extension) || { extension, fileCount: 0, size: 0 };
+  usage.fileCount++;
+  usage.size += file.size;
+  types.set(extension, usage);
+}
+
+function sortBySize(types: FileTypeUsage[]): FileTypeUsage[] {
+  return types.sort((a, b) => b.size - a.size || compareStrings(a.extension, b.extension));
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
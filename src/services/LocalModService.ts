@@ -1,6 +1,43 @@
-import { promises as fs } from 'fs';
+import { promises as fs, existsSync, createReadStream } from 'fs';
+import { createHash, Hash } from 'crypto';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { parseIni, splitIniList } from '../utils/iniParser';
+import { readAssemblyInfo } from '../utils/assemblyReader';
+import { parseAppWorkshopManifest } from '../utils/appWorkshopParser';
+import { DUCKOV_APP_ID } from './SteamDiscoveryService';
+import { AppWorkshopManifest, AssemblyInfo, LocalModEntry, ModLibraryRoot, ModFileEntry, ModFingerprint, ModManifest, ModSource } from '../types';
+
+/**
+ * Name of the manifest file Duckov reads from each mod folder
+ */
+const MANIFEST_FILE_NAME = 'info.ini';
+
+/**
+ * Prefix used for IDs of mods found in the game's local Mods folder
+ * Workshop mods use their numeric Workshop ID, so the prefix keeps the two apart
+ */
+export const LOCAL_MOD_ID_PREFIX = 'local:';
+
+/**
+ * Folder inside each mod source where disabled mods are moved
+ * The game only loads direct children of its mod folders that contain info.ini,
+ * so mods parked one level deeper are ignored until they are moved back
+ */
+export const DISABLED_FOLDER_NAME = '.disabled';
+
+/**
+ * A file found while walking a mod folder
+ */
+type FolderFile = { relativePath: string; size: number; mtimeMs: number };
+
+/**
+ * Names given to the roots created from a single workshop or game Mods path
+ */
+const DEFAULT_ROOT_NAMES: Record<ModSource, string> = {
+  workshop: 'Steam Workshop',
+  local: 'Game Mods'
+};
 
 /**
  * LocalModService - Manages local mod folder scanning and operations
@@ -10,66 +47,415 @@ import { logger } from '../utils/logger';
  * - Uses Node.js fs APIs which are fully supported in Electron main process
  * - Workshop path should be configured via environment variable or settings
  * - All operations are async and non-blocking
+ *
+ * Mod Sources:
+ * - Workshop folder: one folder per mod, named by its numeric Workshop ID
+ * - Game Mods folder: side-loaded mods with arbitrary folder names,
+ *   identified as `local:<folderName>`
+ *
+ * Any number of library roots of either type can be configured (e.g. Steam
+ * libraries on several drives). Scans merge all enabled roots; when the same
+ * mod ID exists in more than one root, the root listed first wins.
+ *
+ * Disabled mods are moved into a `.disabled` folder inside their own source
+ * folder. Keeping them on the same drive makes enable/disable a cheap rename.
  */
 export class LocalModService {
-  private workshopPath: string;
+  private roots: ModLibraryRoot[] = [];
 
-  constructor(workshopPath?: string) {
+  constructor(workshopPath?: string, gameModsPath?: string) {
     // Allow workshop path to be passed in constructor for Electron flexibility
-    this.workshopPath = workshopPath || process.env.WORKSHOP_DATA_PATH || '';
+    const workshop = workshopPath || process.env.WORKSHOP_DATA_PATH || '';
+    const gameMods = gameModsPath || process.env.GAME_MODS_PATH || '';
+
+    if (workshop) {
+      this.roots.push({ name: DEFAULT_ROOT_NAMES.workshop, path: workshop, type: 'workshop', enabled: true });
+    }
+    if (gameMods) {
+      this.roots.push({ name: DEFAULT_ROOT_NAMES.local, path: gameMods, type: 'local', enabled: true });
+    }
 
-    if (!this.workshopPath) {
+    if (!workshop) {
       logger.warn('Workshop data path not configured. Please set WORKSHOP_DATA_PATH or pass to constructor.');
     } else {
-      logger.info(`LocalModService initialized with workshop path: ${this.workshopPath}`);
+      logger.info(`LocalModService initialized with workshop path: ${workshop}`);
+    }
+
+    if (gameMods) {
+      logger.info(`LocalModService initialized with game Mods path: ${gameMods}`);
     }
   }
 
   /**
-   * Scans the workshop data folder and returns all mod IDs found
+   * Scans every enabled library root and returns all mods found
+   * A mod ID found in several roots is reported once, from the first root.
+   * Roots that can't be read (e.g. an unplugged drive) are skipped with a
+   * warning; the scan only fails when no root could be read at all.
    */
-  async scanLocalMods(): Promise<string[]> {
-    if (!this.workshopPath) {
+  async scanLocalMods(): Promise<LocalModEntry[]> {
+    const roots = this.getActiveRoots();
+    if (roots.length === 0) {
       throw new Error('Workshop data path not configured');
     }
 
+    const entries: LocalModEntry[] = [];
+    const seen = new Map<string, LocalModEntry>();
+    const failures: Error[] = [];
+
+    for (const root of roots) {
+      let found: LocalModEntry[];
+      try {
+        found = await this.scanFolder(root.path, root.type);
+      } catch (error) {
+        logger.warn(`Skipping library root "${root.name}":`, error);
+        failures.push(error as Error);
+        continue;
+      }
+
+      for (const entry of found) {
+        const existing = seen.get(entry.id);
+        if (existing) {
+          logger.warn(`Mod ${entry.id} exists in both ${existing.rootPath} and ${entry.rootPath}, using the first`);
+          continue;
+        }
+        seen.set(entry.id, entry);
+        entries.push(entry);
+      }
+    }
+
+    if (failures.length === roots.length) {
+      throw failures[0];
+    }
+
+    logger.info(`Found ${entries.length} local mods in ${roots.length - failures.length} library root(s)`);
+    return entries;
+  }
+
+  /**
+   * Lists the mod folders in a single mod source folder, including disabled mods
+   */
+  private async scanFolder(folderPath: string, source: ModSource): Promise<LocalModEntry[]> {
     try {
       // Check if path exists
-      await fs.access(this.workshopPath);
-      
-      logger.info(`Scanning workshop folder: ${this.workshopPath}`);
-      
-      const entries = await fs.readdir(this.workshopPath, { withFileTypes: true });
-      
-      // Filter for directories that have numeric names (mod IDs)
-      const modIds = entries
-        .filter(entry => entry.isDirectory())
-        .map(entry => entry.name)
-        .filter(name => /^\d+$/.test(name)); // Only numeric folder names
-      
-      logger.info(`Found ${modIds.length} local mods`);
-      return modIds;
+      await fs.access(folderPath);
+
+      logger.info(`Scanning ${source} folder: ${folderPath}`);
+
+      const enabled = await this.listModFolders(folderPath, source, true);
+      const disabled = await this.listModFolders(path.join(folderPath, DISABLED_FOLDER_NAME), source, false);
+
+      // Steam may re-download a disabled Workshop mod; the active copy wins
+      const enabledIds = new Set(enabled.map(entry => entry.id));
+      for (const entry of disabled) {
+        if (enabledIds.has(entry.id)) {
+          logger.warn(`Mod ${entry.id} exists both enabled and disabled, treating it as enabled`);
+        }
+      }
+
+      return [...enabled, ...disabled.filter(entry => !enabledIds.has(entry.id))];
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        throw new Error(`Workshop data path does not exist: ${this.workshopPath}`);
+        const label = source === 'workshop' ? 'Workshop data path' : 'Game Mods path';
+        throw new Error(`${label} does not exist: ${folderPath}`);
+      }
+      logger.error(`Failed to scan ${source} mods:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the mod folders directly inside a folder
+   * A missing folder is treated as empty (the disabled folder is created lazily)
+   */
+  private async listModFolders(folderPath: string, source: ModSource, enabled: boolean): Promise<LocalModEntry[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(folderPath, { withFileTypes: true });
+    } catch (error) {
+      if (!enabled && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
       }
-      logger.error('Failed to scan local mods:', error);
       throw error;
     }
+
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      // Workshop folders are always numeric IDs; local folders can be named anything
+      .filter(name => source === 'workshop' ? /^\d+$/.test(name) : !name.startsWith('.'))
+      .map(name => ({
+        id: source === 'workshop' ? name : `${LOCAL_MOD_ID_PREFIX}${name}`,
+        source,
+        folderName: name,
+        path: path.join(folderPath, name),
+        enabled,
+        // Disabled mods are listed from the root's .disabled folder
+        rootPath: enabled ? folderPath : path.dirname(folderPath)
+      }));
+  }
+
+  /**
+   * Looks up a single mod folder by ID, enabled or disabled
+   * Returns null if neither location holds a folder
+   */
+  async getLocalModEntry(modId: string): Promise<LocalModEntry | null> {
+    if (!this.getSourceRoot(modId)) {
+      return null;
+    }
+
+    const candidates: Array<[string, boolean]> = [
+      [this.getEnabledModPath(modId), true],
+      [this.getDisabledModPath(modId), false]
+    ];
+
+    for (const [modPath, enabled] of candidates) {
+      try {
+        if ((await fs.stat(modPath)).isDirectory()) {
+          return {
+            id: modId,
+            source: this.getModSource(modId),
+            folderName: this.getModFolderName(modId),
+            path: modPath,
+            enabled,
+            rootPath: this.getSourceRoot(modId)
+          };
+        }
+      } catch {
+        // Not at this location
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the enabled mod source folders
+   */
+  getSourceRoots(): Array<{ source: ModSource; path: string }> {
+    return this.getActiveRoots().map(root => ({ source: root.type, path: root.path }));
+  }
+
+  /**
+   * Gets all configured library roots, including disabled ones
+   */
+  getLibraryRoots(): ModLibraryRoot[] {
+    return this.roots.map(root => ({ ...root }));
+  }
+
+  /**
+   * Replaces the library roots
+   * Paths are trimmed, roots without a path are dropped and unnamed roots
+   * are named after their folder. The same folder can't be listed twice.
+   */
+  setLibraryRoots(roots: ModLibraryRoot[]): void {
+    const normalized: ModLibraryRoot[] = [];
+
+    for (const root of roots) {
+      if (root.type !== 'workshop' && root.type !== 'local') {
+        throw new Error(`Invalid library root type: ${root.type}`);
+      }
+
+      const rootPath = (root.path || '').trim();
+      if (!rootPath) continue;
+
+      if (normalized.some(existing => path.resolve(existing.path) === path.resolve(rootPath))) {
+        throw new Error(`Library root is listed more than once: ${rootPath}`);
+      }
+
+      normalized.push({
+        name: (root.name || '').trim() || path.basename(rootPath) || rootPath,
+        path: rootPath,
+        type: root.type,
+        enabled: root.enabled !== false
+      });
+    }
+
+    this.roots = normalized;
+    logger.info(
+      `Library roots updated: ${normalized.map(root => `${root.name} (${root.type}${root.enabled ? '' : ', disabled'})`).join(', ') || '(none)'}`
+    );
+  }
+
+  private getActiveRoots(type?: ModSource): ModLibraryRoot[] {
+    return this.roots.filter(root => root.enabled && (!type || root.type === type));
+  }
+
+  /**
+   * Enabled library roots whose folder can't be read (e.g. an unplugged drive)
+   */
+  async getUnreadableRoots(): Promise<ModLibraryRoot[]> {
+    const unreadable: ModLibraryRoot[] = [];
+
+    for (const root of this.getActiveRoots()) {
+      try {
+        await fs.access(root.path);
+      } catch {
+        unreadable.push({ ...root });
+      }
+    }
+
+    return unreadable;
+  }
+
+  /**
+   * Whether the library root a mod was found in is enabled and readable, so a
+   * missing folder means the mod was really removed
+   * Without a recorded root, every root of the mod's type must be available.
+   *
+   * @param rootPath - Root the mod was last found in, if known
+   */
+  async isModRootAvailable(modId: string, rootPath?: string): Promise<boolean> {
+    const source = this.getModSource(modId);
+    const roots = this.roots.filter(root => (rootPath ? root.path === rootPath : root.type === source));
+    const unreadable = new Set((await this.getUnreadableRoots()).map(root => root.path));
+
+    return roots.length > 0 && roots.every(root => root.enabled && !unreadable.has(root.path));
+  }
+
+  /**
+   * Maps a path inside a mod source folder to the ID of the mod it belongs to
+   * Returns null for paths that aren't inside a mod folder
+   *
+   * @param source - Which source folder the path is relative to
+   * @param relativePath - Path relative to that source folder
+   */
+  getModIdForPath(source: ModSource, relativePath: string): string | null {
+    const segments = relativePath.split(/[\\/]/).filter(Boolean);
+
+    // Disabled mods live one level deeper
+    if (segments[0] === DISABLED_FOLDER_NAME) {
+      segments.shift();
+    }
+
+    const folderName = segments[0];
+    if (!folderName) {
+      return null;
+    }
+
+    if (source === 'workshop') {
+      return /^\d+$/.test(folderName) ? folderName : null;
+    }
+    return folderName.startsWith('.') ? null : `${LOCAL_MOD_ID_PREFIX}${folderName}`;
+  }
+
+  /**
+   * Determines which source a mod ID belongs to
+   */
+  getModSource(modId: string): ModSource {
+    return modId.startsWith(LOCAL_MOD_ID_PREFIX) ? 'local' : 'workshop';
+  }
+
+  /**
+   * Gets the folder name of a mod (the ID without its source prefix)
+   */
+  getModFolderName(modId: string): string {
+    return this.getModSource(modId) === 'local'
+      ? modId.slice(LOCAL_MOD_ID_PREFIX.length)
+      : modId;
+  }
+
+  /**
+   * Gets the library root a mod lives in: the first enabled root of its type
+   * holding its folder (enabled or disabled), or the first root of its type
+   * for mods that aren't on disk yet
+   */
+  private getSourceRoot(modId: string): string {
+    const roots = this.getActiveRoots(this.getModSource(modId));
+    const folderName = this.getModFolderName(modId);
+
+    const found = roots.find(root =>
+      existsSync(path.join(root.path, folderName)) ||
+      existsSync(path.join(root.path, DISABLED_FOLDER_NAME, folderName))
+    );
+
+    return (found || roots[0])?.path || '';
+  }
+
+  /**
+   * Gets the location of a mod while it is enabled
+   */
+  getEnabledModPath(modId: string): string {
+    return path.join(this.getSourceRoot(modId), this.getModFolderName(modId));
+  }
+
+  /**
+   * Gets the location of a mod while it is disabled
+   */
+  getDisabledModPath(modId: string): string {
+    return path.join(this.getSourceRoot(modId), DISABLED_FOLDER_NAME, this.getModFolderName(modId));
   }
 
   /**
    * Gets the full path for a specific mod
+   * Resolves to the disabled location when the mod is currently disabled
    */
   getModPath(modId: string): string {
-    return path.join(this.workshopPath, modId);
+    const enabledPath = this.getEnabledModPath(modId);
+    const disabledPath = this.getDisabledModPath(modId);
+
+    if (!existsSync(enabledPath) && existsSync(disabledPath)) {
+      return disabledPath;
+    }
+    return enabledPath;
+  }
+
+  /**
+   * Checks whether a mod is currently enabled (i.e. not parked in the disabled folder)
+   */
+  async isModEnabled(modId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getEnabledModPath(modId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Enables or disables a mod by moving its folder in or out of the disabled folder
+   * Workshop mods can't be disabled: Steam downloads a missing item again, so
+   * the mod would come back with a second copy left in the disabled folder.
+   * A Workshop mod that is already in the disabled folder can still be enabled.
+   * Returns the mod's new location
+   */
+  async setModEnabled(modId: string, enabled: boolean): Promise<string> {
+    if (!this.getSourceRoot(modId)) {
+      throw new Error(`No mod folder configured for mod ${modId}`);
+    }
+    if (!enabled && this.getModSource(modId) === 'workshop') {
+      throw new Error(
+        `Workshop mod ${modId} can't be disabled here because Steam downloads it again; unsubscribe from it in Steam instead`
+      );
+    }
+
+    const enabledPath = this.getEnabledModPath(modId);
+    const disabledPath = this.getDisabledModPath(modId);
+    const [from, to] = enabled ? [disabledPath, enabledPath] : [enabledPath, disabledPath];
+
+    if (existsSync(to)) {
+      if (existsSync(from)) {
+        throw new Error(`Cannot ${enabled ? 'enable' : 'disable'} mod ${modId}: ${to} already exists`);
+      }
+      logger.debug(`Mod ${modId} is already ${enabled ? 'enabled' : 'disabled'}`);
+      return to;
+    }
+
+    if (!existsSync(from)) {
+      throw new Error(`Mod folder not found: ${from}`);
+    }
+
+    await fs.mkdir(path.dirname(to), { recursive: true });
+    await fs.rename(from, to);
+
+    logger.info(`Mod ${modId} ${enabled ? 'enabled' : 'disabled'}: moved to ${to}`);
+    return to;
   }
 
   /**
    * Checks if a mod exists locally
    */
   async modExists(modId: string): Promise<boolean> {
-    if (!this.workshopPath) {
+    if (!this.getSourceRoot(modId)) {
       return false;
     }
 
@@ -126,6 +512,290 @@ export class LocalModService {
     }
   }
 
+  /**
+   * Summarizes what a mod folder holds, to tell complete mods from leftovers
+   * The game needs an info.ini and an assembly to load a mod.
+   */
+  async inspectModFolder(folderPath: string): Promise<{
+    fileCount: number;
+    totalSize: number;
+    hasManifest: boolean;
+    hasAssembly: boolean;
+  }> {
+    const files: FolderFile[] = [];
+    await this.walkModFolder(folderPath, '', files);
+
+    return {
+      fileCount: files.length,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+      hasManifest: (await this.findManifestPath(folderPath)) !== null,
+      hasAssembly: files.some(file => file.relativePath.toLowerCase().endsWith('.dll'))
+    };
+  }
+
+  /**
+   * Deletes a mod folder and everything in it
+   * Refuses any folder that isn't directly inside a local library root or its
+   * disabled folder, so a bad path can't remove anything else. Workshop roots
+   * are refused too: Steam manages their folders.
+   */
+  async removeModFolder(folderPath: string): Promise<void> {
+    const parent = path.resolve(path.dirname(folderPath));
+    const insideRoot = this.roots.some(root => {
+      if (root.type === 'workshop') return false;
+      const rootPath = path.resolve(root.path);
+      return parent === rootPath || parent === path.join(rootPath, DISABLED_FOLDER_NAME);
+    });
+
+    if (!insideRoot || path.basename(folderPath).startsWith('.')) {
+      throw new Error(`Not a mod folder in a library root: ${folderPath}`);
+    }
+
+    await fs.rm(folderPath, { recursive: true, force: true });
+    logger.info(`Removed mod folder ${folderPath}`);
+  }
+
+  /**
+   * Gets the newest modification time of a mod folder and its subfolders
+   * Only directories are stat'ed, so this is much cheaper than a full fingerprint.
+   * Adding, removing or replacing a file updates its parent folder's mtime;
+   * editing a file in place does not (use content hashing to catch that).
+   *
+   * @returns Time in ms, or null if the mod folder doesn't exist
+   */
+  async getFolderTreeMtime(modId: string): Promise<number | null> {
+    try {
+      return await this.getTreeMtime(this.getModPath(modId));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Computes a fingerprint of a mod folder: newest folder mtime, file count,
+   * total size and, optionally, a SHA-256 of all file paths and contents
+   *
+   * @returns The fingerprint, or null if the mod folder doesn't exist
+   */
+  async getModFingerprint(modId: string, hashContents: boolean = false): Promise<ModFingerprint | null> {
+    const modPath = this.getModPath(modId);
+
+    try {
+      if (!(await fs.stat(modPath)).isDirectory()) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+
+    const files: FolderFile[] = [];
+    const folderMtime = await this.walkModFolder(modPath, '', files);
+    const fingerprint: ModFingerprint = {
+      modId,
+      folderMtime,
+      fileCount: files.length,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0)
+    };
+
+    if (hashContents) {
+      const hash = createHash('sha256');
+      // Sorted so the hash doesn't depend on directory listing order
+      files.sort((a, b) => (a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0));
+      for (const file of files) {
+        hash.update(`${file.relativePath}\0${file.size}\0`);
+        await this.hashFile(path.join(modPath, file.relativePath), hash);
+      }
+      fingerprint.contentHash = hash.digest('hex');
+    }
+
+    return fingerprint;
+  }
+
+  /**
+   * Lists every file of a mod folder with its size and SHA-256, sorted by path
+   *
+   * @returns The files, or null if the mod folder doesn't exist
+   */
+  async getModFiles(modId: string): Promise<ModFileEntry[] | null> {
+    const files = await this.listModFiles(modId);
+    if (!files) {
+      return null;
+    }
+
+    const entries: ModFileEntry[] = [];
+    for (const file of files) {
+      entries.push({ ...file, sha256: await this.hashModFile(modId, file.path) });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Lists every file of a mod folder with its size and modification time,
+   * sorted by path, without reading contents
+   *
+   * @returns The files, or null if the mod folder doesn't exist
+   */
+  async listModFiles(modId: string): Promise<Array<{ path: string; size: number; mtimeMs: number }> | null> {
+    const modPath = this.getModPath(modId);
+
+    try {
+      if (!(await fs.stat(modPath)).isDirectory()) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+
+    const files: FolderFile[] = [];
+    await this.walkModFolder(modPath, '', files);
+    files.sort((a, b) => (a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0));
+
+    return files.map(file => ({ path: file.relativePath, size: file.size, mtimeMs: file.mtimeMs }));
+  }
+
+  /**
+   * Computes the SHA-256 of one file of a mod folder
+   *
+   * @param relativePath - Path relative to the mod folder, as listed by listModFiles
+   */
+  async hashModFile(modId: string, relativePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    await this.hashFile(path.join(this.getModPath(modId), relativePath), hash);
+    return hash.digest('hex');
+  }
+
+  /**
+   * Reads the .NET metadata of every DLL in a mod folder
+   * Native DLLs are skipped; unreadable ones are logged and skipped
+   *
+   * @returns The assemblies sorted by file path, or an empty list if the folder doesn't exist
+   */
+  async readModAssemblies(modId: string): Promise<AssemblyInfo[]> {
+    const modPath = this.getModPath(modId);
+    const files: FolderFile[] = [];
+
+    try {
+      await this.walkModFolder(modPath, '', files);
+    } catch {
+      return [];
+    }
+
+    const assemblies: AssemblyInfo[] = [];
+    const dllFiles = files
+      .map(file => file.relativePath)
+      .filter(relativePath => relativePath.toLowerCase().endsWith('.dll'))
+      .sort();
+
+    for (const relativePath of dllFiles) {
+      try {
+        const info = readAssemblyInfo(await fs.readFile(path.join(modPath, relativePath)));
+        if (info) {
+          assemblies.push({ file: relativePath, ...info });
+        }
+      } catch (error) {
+        logger.warn(`Could not read assembly metadata from ${relativePath} in mod ${modId}:`, error);
+      }
+    }
+
+    return assemblies;
+  }
+
+  private async getTreeMtime(folderPath: string): Promise<number> {
+    let newest = (await fs.stat(folderPath)).mtimeMs;
+    const entries = await fs.readdir(folderPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        newest = Math.max(newest, await this.getTreeMtime(path.join(folderPath, entry.name)));
+      }
+    }
+
+    return Math.floor(newest);
+  }
+
+  /**
+   * Collects every file below a folder (paths use forward slashes)
+   * @returns The newest mtime of the folder and its subfolders
+   */
+  private async walkModFolder(
+    folderPath: string,
+    relativePath: string,
+    files: FolderFile[]
+  ): Promise<number> {
+    let newest = (await fs.stat(folderPath)).mtimeMs;
+    const entries = await fs.readdir(folderPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const entryPath = path.join(folderPath, entry.name);
+      const entryRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        newest = Math.max(newest, await this.walkModFolder(entryPath, entryRelativePath, files));
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(entryPath);
+        files.push({ relativePath: entryRelativePath, size: stats.size, mtimeMs: Math.floor(stats.mtimeMs) });
+      }
+    }
+
+    return Math.floor(newest);
+  }
+
+  private hashFile(filePath: string, hash: Hash): Promise<void> {
+    return new Promise((resolve, reject) => {
+      createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve())
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * Reads and parses the info.ini manifest of a mod folder
+   * Returns null if the mod has no manifest or it cannot be read
+   */
+  async readModManifest(modId: string): Promise<ModManifest | null> {
+    const manifestPath = await this.findManifestPath(this.getModPath(modId));
+
+    if (!manifestPath) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(manifestPath, 'utf-8');
+      const fields = parseIni(content);
+
+      return {
+        name: fields['name'] || undefined,
+        displayName: fields['displayname'] || undefined,
+        description: fields['description'] || undefined,
+        publishedFileId: fields['publishedfileid'] || undefined,
+        author: fields['author'] || undefined,
+        version: fields['version'] || undefined,
+        tags: splitIniList(fields['tags']),
+        fields
+      };
+    } catch (error) {
+      logger.warn(`Failed to read manifest for mod ${modId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Locates info.ini in a mod folder, ignoring file name case
+   */
+  private async findManifestPath(modPath: string): Promise<string | null> {
+    try {
+      const entries = await fs.readdir(modPath, { withFileTypes: true });
+      const manifest = entries.find(
+        entry => entry.isFile() && entry.name.toLowerCase() === MANIFEST_FILE_NAME
+      );
+      return manifest ? path.join(modPath, manifest.name) : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Recursively calculates folder statistics
    */
@@ -160,42 +830,129 @@ export class LocalModService {
   }
 
   /**
-   * Updates the workshop path configuration
+   * Paths of Steam's appworkshop manifests, one per enabled workshop root
+   * A workshop root is `steamapps/workshop/content/<appid>`; the manifest
+   * lives next to `content` as `appworkshop_<appid>.acf`
+   */
+  getAppWorkshopManifestPaths(): string[] {
+    return this.getActiveRoots('workshop').map(root => {
+      const rootPath = path.resolve(root.path);
+      const folderName = path.basename(rootPath);
+      const appId = /^\d+$/.test(folderName) ? folderName : DUCKOV_APP_ID;
+      return path.join(rootPath, '..', '..', `appworkshop_${appId}.acf`);
+    });
+  }
+
+  /**
+   * Reads Steam's appworkshop manifests (installed items, subscriptions, pending updates)
+   * Each Steam library has its own manifest; items are merged, first root first
+   *
+   * @returns null when no workshop root has a manifest Steam has written
+   */
+  async readAppWorkshopManifest(): Promise<AppWorkshopManifest | null> {
+    let merged: AppWorkshopManifest | null = null;
+
+    for (const manifestPath of this.getAppWorkshopManifestPaths()) {
+      let manifest: AppWorkshopManifest;
+      try {
+        manifest = parseAppWorkshopManifest(await fs.readFile(manifestPath, 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn(`Failed to read ${manifestPath}:`, error);
+        }
+        continue;
+      }
+
+      if (!merged) {
+        merged = manifest;
+        continue;
+      }
+
+      const known = new Set(merged.items.map(item => item.publishedFileId));
+      merged.items.push(...manifest.items.filter(item => !known.has(item.publishedFileId)));
+      merged.needsUpdate = merged.needsUpdate || manifest.needsUpdate;
+      merged.needsDownload = merged.needsDownload || manifest.needsDownload;
+      if (manifest.sizeOnDisk !== undefined) {
+        merged.sizeOnDisk = (merged.sizeOnDisk || 0) + manifest.sizeOnDisk;
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Updates the path of the first workshop root (an empty path removes it)
    */
   setWorkshopPath(path: string): void {
-    this.workshopPath = path;
+    this.setPrimaryRootPath('workshop', path);
     logger.info(`Workshop data path updated to: ${path}`);
   }
 
   /**
-   * Gets the current workshop path
+   * Gets the path of the first enabled workshop root
    */
   getWorkshopPath(): string {
-    return this.workshopPath;
+    return this.getActiveRoots('workshop')[0]?.path || '';
+  }
+
+  /**
+   * Updates the path of the first local root, normally the game's Mods folder
+   */
+  setGameModsPath(path: string): void {
+    this.setPrimaryRootPath('local', path);
+    logger.info(`Game Mods path updated to: ${path}`);
   }
 
   /**
-   * Validates the workshop path configuration
+   * Gets the path of the first enabled local root
+   */
+  getGameModsPath(): string {
+    return this.getActiveRoots('local')[0]?.path || '';
+  }
+
+  private setPrimaryRootPath(type: ModSource, rootPath: string): void {
+    const index = this.roots.findIndex(root => root.type === type);
+
+    if (!rootPath.trim()) {
+      if (index >= 0) this.roots.splice(index, 1);
+    } else if (index >= 0) {
+      this.roots[index] = { ...this.roots[index], path: rootPath };
+    } else {
+      this.roots.push({ name: DEFAULT_ROOT_NAMES[type], path: rootPath, type, enabled: true });
+    }
+  }
+
+  /**
+   * Whether at least one library root is configured and enabled
+   */
+  isConfigured(): boolean {
+    return this.getActiveRoots().some(root => root.path.trim());
+  }
+
+  /**
+   * Validates the enabled library roots
    */
   async validateConfiguration(): Promise<{ valid: boolean; message: string }> {
-    if (!this.workshopPath) {
+    const roots = this.getActiveRoots();
+    if (roots.length === 0) {
       return { valid: false, message: 'Workshop data path not configured' };
     }
 
-    try {
-      await fs.access(this.workshopPath);
-      const stats = await fs.stat(this.workshopPath);
-      
-      if (!stats.isDirectory()) {
-        return { valid: false, message: 'Workshop data path is not a directory' };
-      }
+    for (const root of roots) {
+      try {
+        const stats = await fs.stat(root.path);
 
-      return { valid: true, message: 'Workshop data path is valid' };
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return { valid: false, message: `Workshop data path does not exist: ${this.workshopPath}` };
+        if (!stats.isDirectory()) {
+          return { valid: false, message: `Library root "${root.name}" is not a directory: ${root.path}` };
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return { valid: false, message: `Library root "${root.name}" does not exist: ${root.path}` };
+        }
+        return { valid: false, message: `Failed to access library root "${root.name}": ${error}` };
       }
-      return { valid: false, message: `Failed to access workshop data path: ${error}` };
     }
+
+    return { valid: true, message: `${roots.length} library root(s) are valid` };
   }
 }
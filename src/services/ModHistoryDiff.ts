@@ -0,0 +1,97 @@
+import { ModHistoryEntry, ModHistoryField, ModInfo, TextDiffSegment } from '../types';
+
+/** Token pairs above this are diffed as one replacement, to bound memory */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Lists the tracked metadata fields of a mod that differ from a history snapshot
+ */
+export function getChangedHistoryFields(previous: ModHistoryEntry, mod: ModInfo): ModHistoryField[] {
+  const changed: ModHistoryField[] = [];
+
+  if (previous.title !== (mod.originalTitle || mod.title)) changed.push('title');
+  if (previous.description !== (mod.originalDescription || mod.description)) changed.push('description');
+  if ((previous.translatedTitle || '') !== (mod.translatedTitle || '')) changed.push('translatedTitle');
+  if ((previous.translatedDescription || '') !== (mod.translatedDescription || '')) changed.push('translatedDescription');
+  if (JSON.stringify(previous.tags) !== JSON.stringify(mod.tags)) changed.push('tags');
+  if (previous.fileSize !== mod.fileSize) changed.push('fileSize');
+  if (previous.timeUpdated.getTime() !== mod.timeUpdated.getTime()) changed.push('timeUpdated');
+
+  return changed;
+}
+
+/**
+ * Word-level diff of two texts; whitespace is kept so the segments join back into the texts
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Only the differing middle needs the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffSegment['type'], text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  push('same', a.slice(0, start).join(''));
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  if ((middleA.length + 1) * (middleB.length + 1) > MAX_DIFF_CELLS) {
+    push('removed', middleA.join(''));
+    push('added', middleB.join(''));
+  } else {
+    // lengths[i][j] = LCS length of middleA[i..] and middleB[j..]
+    const width = middleB.length + 1;
+    const lengths = new Uint32Array((middleA.length + 1) * width);
+    for (let i = middleA.length - 1; i >= 0; i--) {
+      for (let j = middleB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = middleA[i] === middleB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length && j < middleB.length) {
+      if (middleA[i] === middleB[j]) {
+        push('same', middleA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push('removed', middleA[i++]);
+      } else {
+        push('added', middleB[j++]);
+      }
+    }
+    push('removed', middleA.slice(i).join(''));
+    push('added', middleB.slice(j).join(''));
+  }
+
+  push('same', a.slice(endA).join(''));
+  return segments;
+}
+
+/**
+ * Splits text into words and whitespace runs; CJK characters are single tokens,
+ * since Chinese descriptions have no spaces between words
+ */
+function tokenize(text: string): string[] {
+  return (text || '').match(/\s+|[\u3000-\u9fff\uff00-\uffef]|[^\s\u3000-\u9fff\uff00-\uffef]+/g) || [];
+}
@@ -0,0 +1,441 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Database } from '../database/Database';
+import { DISABLED_FOLDER_NAME, LocalModService, LOCAL_MOD_ID_PREFIX } from './LocalModService';
+import { MODPACK_MANIFEST_FILE_NAME, ModService } from './ModService';
+import {
+  ModFileEntry,
+  ModImportCandidate,
+  ModImportOptions,
+  ModImportPreview,
+  ModImportResult,
+  ModpackEntry,
+  ModpackManifest
+} from '../types';
+import { extractZip, openZip, resolveZipEntryPath, ZipArchive } from '../utils/zipReader';
+import { parseIni } from '../utils/iniParser';
+import { logger } from '../utils/logger';
+
+/**
+ * Name of the manifest file Duckov reads from each mod folder
+ */
+const MANIFEST_FILE_NAME = 'info.ini';
+
+/**
+ * Archive entries that are never part of a mod (macOS resource forks)
+ */
+const IGNORED_PREFIXES = ['__MACOSX/'];
+
+/**
+ * Folder names Windows reserves for devices, with or without an extension
+ */
+const WINDOWS_DEVICE_NAME = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+/**
+ * ModImportService - Installs mods from zip archives
+ *
+ * Reads archives written by exportMods() as well as hand-made zips:
+ * - Folders listed in the archive's modpack.json manifest
+ * - Top-level folders named after a Workshop ID, and `local/<folder>`
+ * - Any other folder holding an info.ini (its publishedFileId, if set,
+ *   makes it a Workshop mod), including an info.ini at the archive root
+ *
+ * Every entry path is validated before anything is written, so an archive
+ * with absolute paths or `..` segments is rejected as a whole. Mods listed
+ * in a modpack manifest are checked against its file checksums first.
+ */
+export class ModImportService {
+  constructor(
+    private database: Database,
+    private localModService: LocalModService,
+    private modService: ModService
+  ) {}
+
+  /**
+   * Lists the mods an archive would import and which of them are already installed
+   */
+  async previewImport(archivePath: string): Promise<ModImportPreview> {
+    const { archive, manifest } = await this.openArchive(archivePath);
+    const candidates = await this.detectMods(archive, manifest, archivePath);
+
+    for (const candidate of candidates) {
+      const installed = await this.localModService.getLocalModEntry(candidate.modId);
+      const inDatabase = this.database.getMod(candidate.modId) !== null;
+      if (installed || inDatabase) {
+        candidate.collision = { path: installed?.path, inDatabase };
+      }
+    }
+
+    logger.info(`Import preview of ${archivePath}: ${candidates.length} mods found`);
+    return {
+      archivePath,
+      candidates,
+      bundledTranslations: manifest?.translations.length || 0
+    };
+  }
+
+  /**
+   * Installs mods from an archive into a library root
+   * Mods already installed are skipped unless `overwrite` is set and they
+   * live in the chosen root. Bundled metadata is restored for mods the
+   * database doesn't know yet, and bundled translations fill the translation
+   * cache; the installed mods are then synced like any new mod.
+   */
+  async importMods(archivePath: string, options: ModImportOptions): Promise<ModImportResult> {
+    const root = this.localModService.getLibraryRoots()
+      .find(candidate => candidate.enabled && path.resolve(candidate.path) === path.resolve(options.rootPath));
+    if (!root) {
+      throw new Error(`Not an enabled library folder: ${options.rootPath}`);
+    }
+
+    const { archive, manifest } = await this.openArchive(archivePath);
+    const bundled = new Map((manifest?.mods || []).map(entry => [normalizeFolder(entry.folder), entry]));
+    const selected = (await this.detectMods(archive, manifest, archivePath))
+      .filter(candidate => !options.modIds || options.modIds.includes(candidate.modId));
+
+    const result: ModImportResult = {
+      rootPath: root.path,
+      installed: [],
+      skipped: [],
+      errors: [],
+      restoredMetadata: 0,
+      restoredTranslations: 0
+    };
+
+    for (const candidate of selected) {
+      if (root.type === 'workshop' && !/^\d+$/.test(candidate.folderName)) {
+        result.skipped.push({ modId: candidate.modId, reason: 'Only Workshop items can be installed into a Workshop folder' });
+        continue;
+      }
+
+      const modId = root.type === 'workshop' ? candidate.folderName : `${LOCAL_MOD_ID_PREFIX}${candidate.folderName}`;
+      const targetPath = path.join(root.path, candidate.folderName);
+      const existing = await this.localModService.getLocalModEntry(modId);
+
+      if (existing && path.resolve(existing.rootPath) !== path.resolve(root.path)) {
+        result.skipped.push({ modId, reason: `Already installed in ${existing.rootPath}` });
+        continue;
+      }
+      if (existing && !options.overwrite) {
+        result.skipped.push({ modId, reason: 'Already installed' });
+        continue;
+      }
+
+      const entry = bundled.get(candidate.archiveFolder);
+      const mismatched = entry ? await findChecksumMismatches(archive, candidate.archiveFolder, entry.files) : [];
+      if (mismatched.length > 0) {
+        const errorMsg = `Mod ${modId} doesn't match the modpack manifest: ${mismatched.join(', ')}`;
+        logger.error(errorMsg);
+        result.errors.push(errorMsg);
+        continue;
+      }
+
+      try {
+        await this.installFolder(archive, candidate.archiveFolder, existing?.path || targetPath);
+
+        const mod = entry?.mod;
+        if (mod && !this.database.getMod(modId)) {
+          this.database.saveMod({
+            ...mod,
+            id: modId,
+            source: root.type,
+            enabled: existing ? existing.enabled : true,
+            loadPriority: undefined,
+            workshopState: undefined,
+            timeCreated: new Date(mod.timeCreated),
+            timeUpdated: new Date(mod.timeUpdated),
+            lastTranslated: mod.lastTranslated ? new Date(mod.lastTranslated) : undefined
+          });
+          result.restoredMetadata++;
+        }
+
+        result.installed.push(modId);
+        logger.info(`Imported mod ${modId} from ${archivePath} into ${root.path}`);
+      } catch (error) {
+        const errorMsg = `Failed to import mod ${modId}: ${error instanceof Error ? error.message : error}`;
+        logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    if (result.installed.length > 0) {
+      result.restoredTranslations = this.restoreTranslations(manifest);
+
+      const changes = await this.modService.syncModsByIds(result.installed, { fullRescan: true });
+      result.errors.push(...changes.errors);
+    }
+
+    logger.info(
+      `Import complete: ${result.installed.length} installed, ${result.skipped.length} skipped, ` +
+      `${result.errors.length} errors, ${result.restoredTranslations} translations restored`
+    );
+    return result;
+  }
+
+  /**
+   * Opens an archive, validates every path and reads the modpack manifest
+   */
+  private async openArchive(archivePath: string): Promise<{ archive: ZipArchive; manifest: ModpackManifest | null }> {
+    const archive = await openZip(archivePath);
+
+    // Resolving against a placeholder folder throws for absolute paths and `..` segments
+    const placeholder = path.resolve('import-check');
+    for (const entry of archive.entries) {
+      resolveZipEntryPath(placeholder, entry.name);
+    }
+
+    const manifestEntry = archive.entries.find(entry => entry.name === MODPACK_MANIFEST_FILE_NAME);
+    let manifest: ModpackManifest | null = null;
+    if (manifestEntry) {
+      try {
+        const parsed = JSON.parse((await archive.read(manifestEntry)).toString('utf-8'));
+        if (parsed?.format === 'duckov-modpack' && Array.isArray(parsed.mods)) {
+          manifest = {
+            ...parsed,
+            mods: parsed.mods.map((entry: ModpackEntry) => ({ ...entry, files: Array.isArray(entry.files) ? entry.files : [] })),
+            translations: Array.isArray(parsed.translations) ? parsed.translations : []
+          };
+          logger.debug(`Read modpack written by app version ${parsed.appVersion}`);
+        } else {
+          logger.warn(`Ignoring ${MODPACK_MANIFEST_FILE_NAME} in ${archivePath}: not a modpack manifest`);
+        }
+      } catch (error) {
+        logger.warn(`Ignoring unreadable ${MODPACK_MANIFEST_FILE_NAME} in ${archivePath}:`, error);
+      }
+    }
+
+    return { archive, manifest };
+  }
+
+  /**
+   * Finds the mod folders in an archive
+   * A folder nested inside one already found is part of that mod.
+   */
+  private async detectMods(
+    archive: ZipArchive,
+    manifest: ModpackManifest | null,
+    archivePath: string
+  ): Promise<ModImportCandidate[]> {
+    const files = archive.entries
+      .filter(entry => !entry.isDirectory && entry.name !== MODPACK_MANIFEST_FILE_NAME)
+      .map(entry => ({ entry, name: entry.name.replace(/\\/g, '/') }))
+      .filter(file => !IGNORED_PREFIXES.some(prefix => file.name.startsWith(prefix)));
+    const folders = new Set<string>();
+    for (const file of files) {
+      const segments = file.name.split('/');
+      for (let depth = 1; depth < segments.length; depth++) {
+        folders.add(segments.slice(0, depth).join('/'));
+      }
+    }
+
+    const found: Array<Omit<ModImportCandidate, 'fileCount' | 'totalSize' | 'hasMetadata'>> = [];
+    const add = (candidate: typeof found[number]) => {
+      if (isReservedFolder(candidate.archiveFolder, candidate.folderName)) {
+        logger.warn(`Ignoring ${candidate.archiveFolder || archivePath}: ${candidate.folderName} can't be a mod folder name`);
+        return;
+      }
+      // An info.ini at the archive root only makes it a single mod if nothing else was found
+      const covered = (candidate.archiveFolder === '' && found.length > 0) || found.some(existing =>
+        existing.archiveFolder === '' ||
+        candidate.archiveFolder === existing.archiveFolder ||
+        candidate.archiveFolder.startsWith(`${existing.archiveFolder}/`)
+      );
+      if (!covered && !found.some(existing => existing.modId === candidate.modId)) {
+        found.push(candidate);
+      }
+    };
+
+    for (const { folder, mod } of manifest?.mods || []) {
+      const archiveFolder = normalizeFolder(folder);
+      if (!folders.has(archiveFolder)) continue;
+
+      const source = mod.source === 'local' ? 'local' : 'workshop';
+      add({
+        archiveFolder,
+        modId: mod.id,
+        source,
+        folderName: path.posix.basename(archiveFolder),
+        title: mod.title,
+        detectedBy: 'metadata'
+      });
+    }
+
+    for (const folder of [...folders].sort()) {
+      const segments = folder.split('/');
+      if (segments.length === 1 && /^\d+$/.test(folder)) {
+        add({ archiveFolder: folder, modId: folder, source: 'workshop', folderName: folder, detectedBy: 'workshop-id' });
+      } else if (segments.length === 2 && segments[0] === 'local' && !segments[1].startsWith('.')) {
+        add({
+          archiveFolder: folder,
+          modId: `${LOCAL_MOD_ID_PREFIX}${segments[1]}`,
+          source: 'local',
+          folderName: segments[1],
+          detectedBy: 'manifest'
+        });
+      }
+    }
+
+    // Shallowest info.ini files first, so a mod's own subfolders aren't picked up as mods
+    const iniFiles = files
+      .filter(file => path.posix.basename(file.name).toLowerCase() === MANIFEST_FILE_NAME)
+      .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+
+    for (const iniFile of iniFiles) {
+      const archiveFolder = path.posix.dirname(iniFile.name) === '.' ? '' : path.posix.dirname(iniFile.name);
+      const folderName = archiveFolder
+        ? path.posix.basename(archiveFolder)
+        : path.basename(archivePath, path.extname(archivePath));
+      const fields = await readModIni(archive, iniFile.entry);
+      const publishedFileId = /^\d+$/.test(fields['publishedfileid'] || '') ? fields['publishedfileid'] : undefined;
+      const workshopId = /^\d+$/.test(folderName) ? folderName : publishedFileId;
+
+      add({
+        archiveFolder,
+        modId: workshopId || `${LOCAL_MOD_ID_PREFIX}${folderName}`,
+        source: workshopId ? 'workshop' : 'local',
+        folderName: workshopId || folderName,
+        title: fields['displayname'] || fields['name'] || undefined,
+        detectedBy: workshopId ? 'workshop-id' : 'manifest'
+      });
+    }
+
+    const bundledFolders = new Set((manifest?.mods || []).map(entry => normalizeFolder(entry.folder)));
+    return found.map(candidate => {
+      const prefix = candidate.archiveFolder ? `${candidate.archiveFolder}/` : '';
+      const modFiles = files.filter(file => file.name.startsWith(prefix));
+      return {
+        ...candidate,
+        fileCount: modFiles.length,
+        totalSize: modFiles.reduce((sum, file) => sum + file.entry.size, 0),
+        hasMetadata: bundledFolders.has(candidate.archiveFolder)
+      };
+    });
+  }
+
+  /**
+   * Extracts one archive folder next to the target and swaps it into place,
+   * so a failed extraction never leaves a half-written mod folder behind
+   */
+  private async installFolder(archive: ZipArchive, archiveFolder: string, targetPath: string): Promise<void> {
+    const parent = path.dirname(targetPath);
+    const folderName = path.basename(targetPath);
+    if (isReservedFolder(archiveFolder, folderName)) {
+      throw new Error(`${folderName} can't be a mod folder name`);
+    }
+    // Dot-prefixed so scans and the watcher never treat them as mods
+    const stagingPath = path.join(parent, `.${folderName}.importing`);
+    const replacedPath = path.join(parent, `.${folderName}.replaced`);
+
+    await fs.rm(stagingPath, { recursive: true, force: true });
+    try {
+      await extractZip(archive, stagingPath, archiveFolder);
+      // The modpack manifest isn't part of a mod stored at the archive root
+      if (!archiveFolder) {
+        await fs.rm(path.join(stagingPath, MODPACK_MANIFEST_FILE_NAME), { force: true });
+      }
+    } catch (error) {
+      await fs.rm(stagingPath, { recursive: true, force: true });
+      throw error;
+    }
+
+    const replacing = await pathExists(targetPath);
+    await fs.rm(replacedPath, { recursive: true, force: true });
+    if (replacing) {
+      await fs.rename(targetPath, replacedPath);
+    }
+    try {
+      await fs.rename(stagingPath, targetPath);
+    } catch (error) {
+      if (replacing) {
+        await fs.rename(replacedPath, targetPath);
+      }
+      throw error;
+    }
+    await fs.rm(replacedPath, { recursive: true, force: true });
+  }
+
+  /**
+   * Adds bundled translations the cache doesn't have yet
+   * @returns Number of translations added
+   */
+  private restoreTranslations(manifest: ModpackManifest | null): number {
+    let restored = 0;
+
+    for (const translation of manifest?.translations || []) {
+      const { originalText, translatedText, sourceLang, targetLang } = translation;
+      if (!originalText || !translatedText || !sourceLang || !targetLang) continue;
+
+      if (!this.database.getTranslation(originalText, sourceLang, targetLang)) {
+        this.database.saveTranslation(originalText, translatedText, sourceLang, targetLang);
+        restored++;
+      }
+    }
+
+    return restored;
+  }
+}
+
+/**
+ * Whether an archive folder must not become a mod folder: hidden folders
+ * (including the disabled mods folder and import staging folders) and names
+ * Windows can't create
+ */
+function isReservedFolder(archiveFolder: string, folderName: string): boolean {
+  return folderName === DISABLED_FOLDER_NAME ||
+    folderName.startsWith('.') ||
+    archiveFolder.split('/').some(segment => segment.startsWith('.')) ||
+    WINDOWS_DEVICE_NAME.test(folderName);
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Compares an archive folder with the files a modpack manifest lists for it
+ * @returns Paths that are missing or whose size or SHA-256 differ
+ */
+async function findChecksumMismatches(archive: ZipArchive, archiveFolder: string, files: ModFileEntry[]): Promise<string[]> {
+  const prefix = archiveFolder ? `${archiveFolder}/` : '';
+  const entries = new Map(archive.entries.map(entry => [entry.name.replace(/\\/g, '/'), entry]));
+  const mismatched: string[] = [];
+
+  for (const file of files) {
+    const entry = entries.get(`${prefix}${file.path}`);
+    if (!entry || entry.size !== file.size) {
+      mismatched.push(file.path);
+      continue;
+    }
+
+    // Streamed, so large files are never held in memory
+    const hash = createHash('sha256');
+    for await (const chunk of await archive.stream(entry)) {
+      hash.update(chunk);
+    }
+    const sha256 = hash.digest('hex');
+    if (sha256 !== file.sha256) {
+      mismatched.push(file.path);
+    }
+  }
+
+  return mismatched;
+}
+
+async function readModIni(archive: ZipArchive, entry: ZipArchive['entries'][number]): Promise<Record<string, string>> {
+  try {
+    return parseIni((await archive.read(entry)).toString('utf-8'));
+  } catch (error) {
+    logger.warn(`Failed to read ${entry.name} from archive:`, error);
+    return {};
+  }
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,195 @@
+import { ModInfo, ModReport, ModReportFormat, ModReportRow } from '../types';
+
+/**
+ * File extension and MIME type of each report format
+ */
+export const MOD_REPORT_FORMATS: Record<ModReportFormat, { fileExtension: string; mimeType: string }> = {
+  csv: { fileExtension: 'csv', mimeType: 'text/csv' },
+  markdown: { fileExtension: 'md', mimeType: 'text/markdown' },
+  json: { fileExtension: 'json', mimeType: 'application/json' },
+  html: { fileExtension: 'html', mimeType: 'text/html' }
+};
+
+const WORKSHOP_ITEM_URL = 'https://steamcommunity.com/sharedfiles/filedetails/?id=';
+
+/**
+ * Builds the report row of a mod
+ */
+export function toModReportRow(mod: ModInfo): ModReportRow {
+  const originalTitle = mod.originalTitle || mod.title;
+  const translatedTitle = mod.translatedTitle && mod.translatedTitle !== originalTitle ? mod.translatedTitle : undefined;
+
+  return {
+    id: mod.id,
+    originalTitle,
+    translatedTitle,
+    workshopUrl: mod.source === 'local' ? undefined : `${WORKSHOP_ITEM_URL}${mod.id}`,
+    creator: mod.creator,
+    size: mod.fileSize,
+    tags: mod.tags,
+    updatedAt: new Date(mod.timeUpdated)
+  };
+}
+
+/**
+ * Renders a mod list for sharing:
+ * - csv: one row per mod, sizes in bytes, for spreadsheets
+ * - markdown: a table for Discord and wikis
+ * - json: the rows as data
+ * - html: a standalone page with no external resources
+ *
+ * @param mods - Mods in the order they should be listed
+ * @param format - Output format
+ * @param title - Heading of the Markdown and HTML reports
+ * @param generatedAt - Timestamp shown in the report
+ */
+export function renderModReport(
+  mods: ModInfo[],
+  format: ModReportFormat,
+  title: string = 'Mod List',
+  generatedAt: Date = new Date()
+): ModReport {
+  const rows = mods.map(toModReportRow);
+  let content: string;
+
+  switch (format) {
+    case 'csv':
+      content = renderCsv(rows);
+      break;
+    case 'markdown':
+      content = renderMarkdown(rows, title, generatedAt);
+      break;
+    case 'json':
+      content = JSON.stringify({ title, generatedAt: generatedAt.toISOString(), mods: rows }, null, 2);
+      break;
+    case 'html':
+      content = renderHtml(rows, title, generatedAt);
+      break;
+    default:
+      throw new Error(`Unsupported report format: ${format}`);
+  }
+
+  return { format, ...MOD_REPORT_FORMATS[format], content, modCount: rows.length };
+}
+
+function renderCsv(rows: ModReportRow[]): string {
+  const header = ['ID', 'Title', 'Translated Title', 'Workshop Link', 'Creator', 'Size (bytes)', 'Tags', 'Last Updated'];
+  const lines = rows.map(row => [
+    row.id,
+    row.originalTitle,
+    row.translatedTitle || '',
+    row.workshopUrl || '',
+    row.creator,
+    String(row.size),
+    row.tags.join('; '),
+    formatDate(row.updatedAt)
+  ].map(escapeCsv).join(','));
+
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+function renderMarkdown(rows: ModReportRow[], title: string, generatedAt: Date): string {
+  const lines = [
+    `# ${escapeMarkdown(title)}`,
+    '',
+    `${rows.length} mod${rows.length === 1 ? '' : 's'} · generated ${formatDate(generatedAt)}`,
+    '',
+    '| Title | Creator | Size | Tags | Last Updated |',
+    '| --- | --- | --- | --- | --- |'
+  ];
+
+  for (const row of rows) {
+    const name = row.workshopUrl
+      ? `[${escapeMarkdown(row.originalTitle)}](${row.workshopUrl})`
+      : escapeMarkdown(row.originalTitle);
+    const translated = row.translatedTitle ? ` (${escapeMarkdown(row.translatedTitle)})` : '';
+
+    lines.push(
+      `| ${name}${translated} | ${escapeMarkdown(row.creator)} | ${formatSize(row.size)} | ` +
+      `${escapeMarkdown(row.tags.join(', '))} | ${formatDate(row.updatedAt)} |`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function renderHtml(rows: ModReportRow[], title: string, generatedAt: Date): string {
+  const body = rows.map(row => {
+    const name = row.workshopUrl
+      ? `<a href="${escapeHtml(row.workshopUrl)}">${escapeHtml(row.originalTitle)}</a>`
+      : escapeHtml(row.originalTitle);
+    const translated = row.translatedTitle ? `<div class="translated">${escapeHtml(row.translatedTitle)}</div>` : '';
+
+    return [
+      '      <tr>',
+      `        <td>${name}${translated}</td>`,
+      `        <td>${escapeHtml(row.creator)}</td>`,
+      `        <td class="size">${formatSize(row.size)}</td>`,
+      `        <td>${row.tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join(' ')}</td>`,
+      `        <td>${formatDate(row.updatedAt)}</td>`,
+      '      </tr>'
+    ].join('\n');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px 10px; text-align: left; vertical-align: top; }
+    th { background: #f4f4f4; }
+    .translated { color: #666; font-size: 0.9em; }
+    .size { white-space: nowrap; }
+    .tag { display: inline-block; background: #eef; border-radius: 3px; padding: 0 5px; margin: 1px; font-size: 0.85em; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${rows.length} mod${rows.length === 1 ? '' : 's'} · generated ${formatDate(generatedAt)}</p>
+  <table>
+    <thead>
+      <tr><th>Title</th><th>Creator</th><th>Size</th><th>Tags</th><th>Last Updated</th></tr>
+    </thead>
+    <tbody>
+${body.join('\n')}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+function escapeCsv(value: string): string {
+  // Spreadsheets run cells starting with these as formulas
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function escapeMarkdown(value: string): string {
+  return value
+    .replace(/\r?\n/g, ' ')
+    .replace(/([\\|[\]*_`<>])/g, '\\$1');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date): string {
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
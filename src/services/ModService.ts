@@ -1,10 +1,53 @@
 import { Database } from '../database/Database';
 import { OfflineTranslationService } from './OfflineTranslationService';
 import { LocalModService } from './LocalModService';
-import { SteamWorkshopService } from './SteamWorkshopService';
-import { ModInfo } from '../types';
+import { SteamWorkshopService, SteamWorkshopItem } from './SteamWorkshopService';
+import { analyzeModConflicts } from './ConflictAnalyzer';
+import { analyzeDiskUsage } from './DiskUsageAnalyzer';
+import { MOD_REPORT_FORMATS, renderModReport } from './ModReportFormatter';
+import { diffText, getChangedHistoryFields } from './ModHistoryDiff';
+import { collectModDependencies } from './DependencyService';
+import { BackupService } from './BackupService';
+import {
+  AppWorkshopManifest,
+  CollectionDiff,
+  DiskUsageReport,
+  LoadOrderValidation,
+  LocalModEntry,
+  ModChangeSet,
+  ModConflict,
+  ModFileEntry,
+  ModFingerprint,
+  ModHistoryVersion,
+  ModInfo,
+  ModExportOptions,
+  ModpackManifest,
+  ModReport,
+  ModReportOptions,
+  ModIntegrityReport,
+  OrphanCleanupAction,
+  OrphanCleanupResult,
+  OrphanEntry,
+  OrphanReport,
+  ScanOptions,
+  WorkshopItemState,
+  WorkshopReportEntry,
+  WorkshopStateReport
+} from '../types';
 import { logger } from '../utils/logger';
 import archiver from 'archiver';
+import path from 'path';
+import { createWriteStream, promises as fs } from 'fs';
+
+/**
+ * Name of the manifest file at the root of exported modpacks
+ */
+export const MODPACK_MANIFEST_FILE_NAME = 'modpack.json';
+
+/**
+ * Minimum time between two export progress reports
+ */
+const EXPORT_PROGRESS_INTERVAL_MS = 250;
 
 /**
  * ModService - Main service for managing mods in Electron app
@@ -17,133 +60,113 @@ import archiver from 'archiver';
  * - Hybrid approach: fetch metadata from Steam, translate offline
  *
  * Key Features:
- * - Scans local workshop folder for mods
+ * - Scans local workshop folder and the game's Mods folder for mods
  * - Fetches mod metadata (title, description) from Steam Workshop API
  * - Translates Chinese mod content to English offline
  * - Caches translations in SQLite database
  * - Exports mods as zip archives
  */
 export class ModService {
+  /** Scans and incremental syncs run one at a time, so they never write the same rows at once */
+  private syncQueue: Promise<unknown> = Promise.resolve();
+
   constructor(
     private database: Database,
     private translationService: OfflineTranslationService,
     private localModService: LocalModService,
-    private steamWorkshopService: SteamWorkshopService
+    private steamWorkshopService: SteamWorkshopService,
+    private backupService?: BackupService
   ) {}
 
   /**
    * Scans the local workshop folder for mods and fetches details from Steam
    * 
    * This method:
-   * 1. Scans the local workshop folder for mod IDs
-   * 2. Fetches mod metadata (title, description, etc.) from Steam Workshop API
-   * 3. Saves/updates mod info in the database
-   * 4. Translates mod content if needed
+   * 1. Scans the local workshop folder and the game's Mods folder
+   * 2. Skips mods whose folder fingerprint hasn't changed since the last scan
+   * 3. Fetches mod metadata (title, description, etc.) from Steam Workshop API for new/changed mods
+   * 4. Reads each mod's info.ini manifest as a fallback for missing Steam data
+   * 5. Saves/updates mod info in the database
+   * 6. Translates mod content if needed
+   *
+   * With a BackupService, pinned backups are restored before the scan and
+   * mods Steam is about to update are backed up after it.
+   *
+   * @param options - `fullRescan` re-syncs every mod; `hashContents` also compares file contents
    */
-  async scanAndSyncLocalMods(): Promise<{
+  async scanAndSyncLocalMods(options: ScanOptions = {}): Promise<{
+    scanned: number;
+    synced: ModInfo[];
+    unchanged: number;
+    errors: string[];
+  }> {
+    return this.runExclusive(() => this.scanAndSync(options));
+  }
+
+  private async scanAndSync(options: ScanOptions): Promise<{
     scanned: number;
     synced: ModInfo[];
+    unchanged: number;
     errors: string[];
   }> {
     try {
-      logger.info('Starting local mod scan with Steam API integration...');
+      logger.info(`Starting ${options.fullRescan ? 'full' : 'incremental'} local mod scan with Steam API integration...`);
+
+      // Put pinned versions back first, so the scan records the pinned contents
+      if (this.backupService) {
+        await this.backupService.reapplyPinnedBackups();
+      }
 
-      // Scan local workshop folder for mod IDs
-      const modIds = await this.localModService.scanLocalMods();
-      logger.info(`Found ${modIds.length} local mod folders`);
+      // Scan local workshop and game Mods folders
+      const entries = await this.localModService.scanLocalMods();
+      logger.info(`Found ${entries.length} local mod folders`);
 
-      if (modIds.length === 0) {
-        return { scanned: 0, synced: [], errors: [] };
+      if (entries.length === 0) {
+        return { scanned: 0, synced: [], unchanged: 0, errors: [] };
+      }
+
+      // Compare each folder with its stored fingerprint; only new or changed mods are synced
+      const changed: Array<{ entry: LocalModEntry; fingerprint?: ModFingerprint | null }> = [];
+      let unchanged = 0;
+
+      for (const entry of entries) {
+        try {
+          const check = await this.checkFingerprint(entry, options);
+          if (check.unchanged) {
+            unchanged++;
+          } else {
+            changed.push({ entry, fingerprint: check.fingerprint });
+          }
+        } catch (error) {
+          logger.warn(`Failed to fingerprint mod ${entry.id}, re-syncing it:`, error);
+          changed.push({ entry });
+        }
       }
 
+      logger.info(`${changed.length} mods new or changed, ${unchanged} unchanged`);
+
       // Fetch mod details from Steam Workshop API (in batches)
-      logger.info('Fetching mod details from Steam Workshop API...');
-      const steamModsMap = await this.steamWorkshopService.getWorkshopItems(modIds);
+      // Only Workshop mods have a Workshop ID to look up
+      const workshopIds = changed.filter(({ entry }) => entry.source === 'workshop').map(({ entry }) => entry.id);
+      const steamModsMap = workshopIds.length > 0
+        ? await this.steamWorkshopService.getWorkshopItems(workshopIds)
+        : new Map<string, SteamWorkshopItem>();
       logger.info(`Retrieved ${steamModsMap.size} mod details from Steam API`);
 
       // Process each mod
       const synced: ModInfo[] = [];
       const errors: string[] = [];
 
-      for (const modId of modIds) {
+      for (const { entry, fingerprint } of changed) {
+        const modId = entry.id;
         try {
-          // Get existing mod from database
-          let mod = await this.database.getMod(modId);
-          const steamMod = steamModsMap.get(modId);
+          const mod = await this.syncEntry(entry, steamModsMap.get(modId), fingerprint);
 
-          if (!steamMod) {
-            logger.warn(`No Steam Workshop details found for mod ${modId}, skipping...`);
-            errors.push(`Mod ${modId}: Not found on Steam Workshop or access denied`);
-            continue;
-          }
-
-          // Get local folder info
-          const folderInfo = await this.localModService.getModFolderInfo(modId);
-
-          if (!folderInfo.exists) {
+          if (!mod) {
             errors.push(`Mod ${modId}: Local folder not found`);
             continue;
           }
 
-          // Detect language - check both title and description for Chinese characters
-          // More robust detection: check each field separately
-          const titleHasChinese = /[\u4e00-\u9fa5]/.test(steamMod.title);
-          const descriptionHasChinese = /[\u4e00-\u9fa5]/.test(steamMod.description || '');
-          const hasChinese = titleHasChinese || descriptionHasChinese;
-          const language = hasChinese ? 'zh' : 'en';
-
-          // Check if content has changed (need to invalidate translations)
-          const contentChanged = mod && (
-            mod.originalTitle !== steamMod.title || 
-            mod.originalDescription !== steamMod.description
-          );
-
-          // Create or update mod info
-          const updatedMod: ModInfo = {
-            id: modId,
-            title: steamMod.title,
-            description: steamMod.description || 'No description available',
-            creator: steamMod.creator || 'Unknown',
-            previewUrl: steamMod.preview_url || '',
-            fileSize: steamMod.file_size || folderInfo.totalSize || 0,
-            subscriptions: steamMod.subscriptions || 0,
-            rating: 0, // Steam API doesn't provide rating directly
-            tags: steamMod.tags?.map(t => t.tag) || [],
-            timeCreated: new Date(steamMod.time_created * 1000),
-            timeUpdated: new Date(steamMod.time_updated * 1000),
-            language: language,
-            // Set original content to current Steam values
-            originalTitle: steamMod.title,
-            originalDescription: steamMod.description || 'No description available',
-            // Clear translations if content changed, otherwise preserve them
-            translatedTitle: contentChanged ? undefined : mod?.translatedTitle,
-            translatedDescription: contentChanged ? undefined : mod?.translatedDescription,
-            lastTranslated: contentChanged ? undefined : mod?.lastTranslated
-          };
-
-          // Save to database
-          await this.database.saveMod(updatedMod);
-          mod = updatedMod;
-
-          // Translate if needed - now checks for Chinese content more intelligently
-          // Translate if: 1) language is detected as Chinese, OR 2) title/description contain Chinese chars
-          const needsTranslationCheck = titleHasChinese || descriptionHasChinese;
-          
-          if (needsTranslationCheck) {
-            // Check if we need to translate (content changed or no translation exists)
-            const needsTranslation = contentChanged || !mod.translatedTitle || !mod.translatedDescription;
-
-            if (needsTranslation) {
-              logger.info(`Mod ${mod.id} (${mod.title}) needs translation (contains Chinese characters)`);
-              await this.translateMod(mod);
-              // Re-fetch to get the updated translations
-              const translatedMod = await this.database.getMod(mod.id);
-              if (translatedMod) {
-                mod = translatedMod;
-              }
-            }
-          }
-
           synced.push(mod);
           logger.debug(`Processed mod: ${mod.title} (${mod.id})`);
         } catch (error) {
@@ -153,10 +176,26 @@ export class ModService {
         }
       }
 
-      logger.info(`Scan complete: ${modIds.length} scanned, ${synced.length} synced, ${errors.length} errors`);
+      // Steam's install state changes without touching the folders, so unchanged mods are updated too
+      await this.applyWorkshopStates(entries, synced);
+      await this.backupModsNeedingUpdate();
+
+      // New mods have no priority yet; append them to the load order
+      try {
+        await this.normalizeLoadOrder();
+      } catch (error) {
+        const errorMsg = `Failed to update load order: ${error instanceof Error ? error.message : error}`;
+        logger.error(errorMsg);
+        errors.push(errorMsg);
+      }
+
+      logger.info(
+        `Scan complete: ${entries.length} scanned, ${synced.length} synced, ${unchanged} unchanged, ${errors.length} errors`
+      );
       return {
-        scanned: modIds.length,
+        scanned: entries.length,
         synced,
+        unchanged,
         errors
       };
     } catch (error) {
@@ -165,6 +204,476 @@ export class ModService {
     }
   }
 
+  /**
+   * Decides whether a mod folder changed since its fingerprint was stored
+   * Tries the cheap folder-mtime check first and only walks the files when that differs.
+   * Unchanged mods still get their enabled state updated, since enabling or
+   * disabling moves the folder without touching its contents.
+   *
+   * @returns Whether the mod can be skipped, plus the fresh fingerprint if one was computed
+   */
+  private async checkFingerprint(
+    entry: LocalModEntry,
+    options: ScanOptions
+  ): Promise<{ unchanged: boolean; fingerprint?: ModFingerprint | null }> {
+    const existing = this.database.getMod(entry.id);
+    const stored = this.database.getFingerprint(entry.id);
+
+    if (options.fullRescan || !existing || !stored) {
+      return { unchanged: false };
+    }
+
+    let unchanged = false;
+
+    if (!options.hashContents) {
+      unchanged = await this.localModService.getFolderTreeMtime(entry.id) === stored.folderMtime;
+    }
+
+    if (!unchanged) {
+      const fingerprint = await this.localModService.getModFingerprint(entry.id, options.hashContents);
+
+      if (
+        !fingerprint ||
+        fingerprint.fileCount !== stored.fileCount ||
+        fingerprint.totalSize !== stored.totalSize ||
+        // Older fingerprints have no hash yet; adopt the new one rather than re-syncing
+        (stored.contentHash && fingerprint.contentHash && fingerprint.contentHash !== stored.contentHash)
+      ) {
+        return { unchanged: false, fingerprint };
+      }
+
+      // Only timestamps moved (or a hash was added); remember them for next time
+      this.database.saveFingerprint(fingerprint);
+    }
+
+    if (existing.enabled !== entry.enabled) {
+      this.database.setModEnabled(entry.id, entry.enabled);
+    }
+
+    return { unchanged: true };
+  }
+
+  /**
+   * Runs a sync once the ones before it have finished
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.syncQueue.then(task, task);
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Re-syncs only the given mods, e.g. after the folder watcher saw them change
+   * Mods whose fingerprint hasn't changed are skipped (only their enabled state
+   * is updated) unless `fullRescan` is set. Mods whose folders are gone are
+   * removed from the database, unless their library root is disabled or
+   * can't be read.
+   *
+   * @param modIds - IDs of mods whose folders changed
+   * @param options - `fullRescan` re-syncs the mods even if their folders look unchanged
+   * @returns Which mods were added, updated or removed
+   */
+  async syncModsByIds(modIds: string[], options: ScanOptions = {}): Promise<ModChangeSet> {
+    return this.runExclusive(() => this.syncByIds(modIds, options));
+  }
+
+  private async syncByIds(modIds: string[], options: ScanOptions): Promise<ModChangeSet> {
+    const changes: ModChangeSet = { added: [], updated: [], removed: [], errors: [] };
+    const uniqueIds = [...new Set(modIds)];
+
+    if (uniqueIds.length === 0) {
+      return changes;
+    }
+
+    logger.info(`Incremental sync of ${uniqueIds.length} mods`);
+
+    const entries: LocalModEntry[] = [];
+    const changed: Array<{ entry: LocalModEntry; fingerprint?: ModFingerprint | null }> = [];
+    for (const modId of uniqueIds) {
+      const entry = await this.localModService.getLocalModEntry(modId);
+
+      if (!entry) {
+        const mod = this.database.getMod(modId);
+        if (mod && !(await this.localModService.isModRootAvailable(modId, mod.rootPath))) {
+          logger.info(`Mod ${modId} folder can't be reached, its library root is disabled or unreadable`);
+          continue;
+        }
+        if (this.database.deleteMod(modId)) {
+          logger.info(`Mod ${modId} folder removed, dropped from database`);
+          changes.removed.push(modId);
+        }
+        continue;
+      }
+
+      entries.push(entry);
+      try {
+        const wasEnabled = this.database.getMod(modId)?.enabled;
+        const check = await this.checkFingerprint(entry, options);
+        if (!check.unchanged) {
+          changed.push({ entry, fingerprint: check.fingerprint });
+        } else if (wasEnabled !== entry.enabled) {
+          // Moved in or out of the disabled folder without other changes
+          changes.updated.push(this.database.getMod(modId)!);
+        }
+      } catch (error) {
+        logger.warn(`Failed to fingerprint mod ${modId}, re-syncing it:`, error);
+        changed.push({ entry });
+      }
+    }
+
+    const workshopIds = changed.filter(({ entry }) => entry.source === 'workshop').map(({ entry }) => entry.id);
+    const steamModsMap = workshopIds.length > 0
+      ? await this.steamWorkshopService.getWorkshopItems(workshopIds)
+      : new Map<string, SteamWorkshopItem>();
+
+    for (const { entry, fingerprint } of changed) {
+      try {
+        const isNew = !this.database.getMod(entry.id);
+        const mod = await this.syncEntry(entry, steamModsMap.get(entry.id), fingerprint);
+
+        if (mod) {
+          (isNew ? changes.added : changes.updated).push(mod);
+        }
+      } catch (error) {
+        const errorMsg = `Failed to process mod ${entry.id}: ${error}`;
+        logger.error(errorMsg);
+        changes.errors.push(errorMsg);
+      }
+    }
+
+    await this.applyWorkshopStates(entries, [...changes.added, ...changes.updated]);
+    await this.backupModsNeedingUpdate();
+
+    // Keep priorities contiguous and give new mods a place in the load order
+    if (changes.added.length > 0 || changes.removed.length > 0) {
+      try {
+        const ordered = await this.normalizeLoadOrder();
+        const priorities = new Map(ordered.map(mod => [mod.id, mod.loadPriority]));
+        for (const mod of changes.added) {
+          mod.loadPriority = priorities.get(mod.id);
+        }
+      } catch (error) {
+        logger.error('Failed to update load order after incremental sync:', error);
+      }
+    }
+
+    logger.info(
+      `Incremental sync complete: ${changes.added.length} added, ${changes.updated.length} updated, ` +
+      `${changes.removed.length} removed, ${changes.errors.length} errors`
+    );
+    return changes;
+  }
+
+  /**
+   * Merges Steam, manifest and folder data for one local mod and saves it
+   * Translates the mod if its content is Chinese and has changed
+   *
+   * @param entry - Local mod folder
+   * @param steamMod - Steam Workshop details, if Steam returned any
+   * @param fingerprint - Folder fingerprint, if the caller already computed it
+   * @returns The saved mod, or null if its folder no longer exists
+   */
+  private async syncEntry(
+    entry: LocalModEntry,
+    steamMod?: SteamWorkshopItem,
+    fingerprint?: ModFingerprint | null
+  ): Promise<ModInfo | null> {
+    const modId = entry.id;
+
+    // Get existing mod from database
+    let mod = await this.database.getMod(modId);
+    const previous = mod;
+
+    // Get local folder info
+    const folderInfo = fingerprint || await this.localModService.getModFingerprint(modId);
+
+    if (!folderInfo) {
+      return null;
+    }
+
+    // The info.ini manifest fills in whatever Steam could not provide,
+    // so mods stay usable when Steam is unreachable or hides the item
+    const manifest = await this.localModService.readModManifest(modId);
+    const assemblies = await this.localModService.readModAssemblies(modId);
+
+    if (!steamMod && entry.source === 'workshop') {
+      logger.warn(
+        `No Steam Workshop details found for mod ${modId}, using ${manifest ? 'info.ini manifest' : 'folder name'} instead`
+      );
+    }
+
+    // Last resort before the folder name: what an earlier sync or an import recorded
+    const title = steamMod?.title || manifest?.displayName || manifest?.name || mod?.originalTitle || entry.folderName;
+    const description = steamMod?.description || manifest?.description || mod?.originalDescription || 'No description available';
+    const lastModified = new Date(folderInfo.folderMtime);
+
+    // Detect language - check both title and description for Chinese characters
+    // More robust detection: check each field separately
+    const titleHasChinese = /[\u4e00-\u9fa5]/.test(title);
+    const descriptionHasChinese = /[\u4e00-\u9fa5]/.test(description);
+    const hasChinese = titleHasChinese || descriptionHasChinese;
+    const language = hasChinese ? 'zh' : 'en';
+
+    // Check if content has changed (need to invalidate translations)
+    const contentChanged = mod && (
+      mod.originalTitle !== title ||
+      mod.originalDescription !== description
+    );
+
+    // Create or update mod info
+    const updatedMod: ModInfo = {
+      id: modId,
+      title,
+      description,
+      creator: steamMod?.creator || manifest?.author || mod?.creator || 'Unknown',
+      previewUrl: steamMod?.preview_url || mod?.previewUrl || '',
+      fileSize: steamMod?.file_size || folderInfo.totalSize || 0,
+      subscriptions: steamMod?.subscriptions || mod?.subscriptions || 0,
+      rating: 0, // Steam API doesn't provide rating directly
+      tags: steamMod?.tags?.map(t => t.tag) || manifest?.tags || [],
+      timeCreated: steamMod ? new Date(steamMod.time_created * 1000) : (mod?.timeCreated || lastModified),
+      timeUpdated: steamMod ? new Date(steamMod.time_updated * 1000) : lastModified,
+      language: language,
+      // Set original content to current Steam (or manifest) values
+      originalTitle: title,
+      originalDescription: description,
+      // Clear translations if content changed, otherwise preserve them
+      translatedTitle: contentChanged ? undefined : mod?.translatedTitle,
+      translatedDescription: contentChanged ? undefined : mod?.translatedDescription,
+      lastTranslated: contentChanged ? undefined : mod?.lastTranslated,
+      manifest: manifest || undefined,
+      source: entry.source,
+      enabled: entry.enabled,
+      loadPriority: mod?.loadPriority,
+      assemblies,
+      // Refreshed from Steam's appworkshop manifest after each scan
+      workshopState: mod?.workshopState,
+      rootPath: entry.rootPath
+    };
+
+    // Save to database
+    await this.database.saveMod(updatedMod);
+    mod = updatedMod;
+
+    // Without Steam's list of required items, keep the ones learned on an earlier sync
+    const requiredItemIds = steamMod?.children
+      ? steamMod.children.map(child => child.publishedfileid)
+      : this.database.getModDependencies(modId)
+        .filter(dependency => dependency.source === 'steam')
+        .map(dependency => dependency.dependsOn);
+    this.database.saveModDependencies(modId, collectModDependencies(updatedMod, requiredItemIds));
+
+    // Translate if needed - now checks for Chinese content more intelligently
+    // Translate if: 1) language is detected as Chinese, OR 2) title/description contain Chinese chars
+    const needsTranslationCheck = titleHasChinese || descriptionHasChinese;
+    
+    if (needsTranslationCheck) {
+      // Check if we need to translate (content changed or no translation exists)
+      const needsTranslation = contentChanged || !mod.translatedTitle || !mod.translatedDescription;
+
+      if (needsTranslation) {
+        logger.info(`Mod ${mod.id} (${mod.title}) needs translation (contains Chinese characters)`);
+        await this.translateMod(mod);
+        // Re-fetch to get the updated translations
+        const translatedMod = await this.database.getMod(mod.id);
+        if (translatedMod) {
+          mod = translatedMod;
+        }
+      }
+    }
+
+    // Without Steam details a Workshop mod's metadata is a fallback, not a new version
+    if (steamMod || entry.source === 'local') {
+      this.recordHistory(previous, mod);
+    }
+
+    // Record what the folder looks like now, so verifyModIntegrity can spot
+    // half-finished downloads or local edits later on
+    try {
+      const files = await this.localModService.getModFiles(modId);
+      if (files) {
+        this.database.saveModFiles(modId, files);
+      }
+    } catch (error) {
+      logger.warn(`Failed to record file manifest for mod ${modId}:`, error);
+    }
+
+    // Stored last, so a mod that failed part-way is retried on the next scan
+    this.database.saveFingerprint(folderInfo);
+
+    return mod;
+  }
+
+  /**
+   * Records a history snapshot when the mod's metadata differs from the last one
+   * Mods synced before history was kept get their previous state as the first snapshot
+   */
+  private recordHistory(previous: ModInfo | null, mod: ModInfo): void {
+    try {
+      let latest = this.database.getLatestModHistory(mod.id);
+      if (!latest && previous) {
+        latest = this.database.saveModHistory(previous, []);
+      }
+
+      if (!latest) {
+        this.database.saveModHistory(mod, []);
+        return;
+      }
+
+      const changedFields = getChangedHistoryFields(latest, mod);
+      if (changedFields.length > 0) {
+        this.database.saveModHistory(mod, changedFields);
+        logger.info(`Mod ${mod.id} changed: ${changedFields.join(', ')}`);
+      }
+    } catch (error) {
+      logger.warn(`Failed to record history for mod ${mod.id}:`, error);
+    }
+  }
+
+  /**
+   * Gets metadata history snapshots, newest first, with each description
+   * diffed against the mod's previous snapshot
+   *
+   * @param modId - Only this mod's history; all mods when omitted
+   * @param limit - Maximum number of snapshots
+   */
+  async getModHistory(modId?: string, limit: number = 100): Promise<ModHistoryVersion[]> {
+    return this.database.getModHistory(modId, limit).map(entry => {
+      const previous = this.database.getPreviousModHistory(entry);
+      const version: ModHistoryVersion = { ...entry };
+
+      if (previous && previous.description !== entry.description) {
+        version.descriptionDiff = diffText(previous.description, entry.description);
+      }
+      if (previous?.translatedDescription && entry.translatedDescription &&
+          previous.translatedDescription !== entry.translatedDescription) {
+        version.translatedDescriptionDiff = diffText(previous.translatedDescription, entry.translatedDescription);
+      }
+
+      return version;
+    });
+  }
+
+  /**
+   * Stores Steam's install state for the scanned Workshop mods
+   * A missing or unreadable appworkshop manifest clears the stored states
+   *
+   * @param entries - Scanned mod folders
+   * @param mods - Mods returned to the caller, updated in place
+   * @param manifest - Already-read manifest; read from disk when omitted
+   */
+  private async applyWorkshopStates(
+    entries: LocalModEntry[],
+    mods: ModInfo[] = [],
+    manifest?: AppWorkshopManifest | null
+  ): Promise<void> {
+    try {
+      const appManifest = manifest === undefined
+        ? await this.localModService.readAppWorkshopManifest()
+        : manifest;
+      const items = new Map((appManifest?.items || []).map(item => [item.publishedFileId, item]));
+      const states = new Map<string, WorkshopItemState | undefined>();
+
+      for (const entry of entries) {
+        if (entry.source === 'workshop') {
+          states.set(entry.id, items.get(entry.id));
+        }
+      }
+
+      this.database.saveWorkshopStates(states);
+
+      for (const mod of mods) {
+        if (states.has(mod.id)) {
+          mod.workshopState = states.get(mod.id);
+        }
+      }
+
+      if (appManifest) {
+        const stale = [...states.values()].filter(state => state?.needsUpdate).length;
+        logger.info(`Steam appworkshop manifest: ${items.size} items, ${stale} installed mods need an update`);
+      }
+    } catch (error) {
+      logger.warn('Failed to apply Steam workshop install state:', error);
+    }
+  }
+
+  /**
+   * Snapshots mods Steam has a newer version of, while the installed version is still on disk
+   */
+  private async backupModsNeedingUpdate(): Promise<void> {
+    if (!this.backupService) return;
+
+    const stale = this.database.getModsInLoadOrder().filter(mod => mod.workshopState?.needsUpdate);
+    if (stale.length > 0) {
+      await this.backupService.backupBeforeUpdate(stale.map(mod => mod.id));
+    }
+  }
+
+  /**
+   * Compares the workshop folder with Steam's appworkshop manifest, without network access:
+   * - stale: subscribed mods Steam has a newer version of
+   * - leftover: folders Steam doesn't list as installed, or that no account here is subscribed to
+   * - missing: subscribed items with no folder on disk
+   */
+  async getWorkshopStateReport(): Promise<WorkshopStateReport> {
+    const manifestPaths = this.localModService.getAppWorkshopManifestPaths();
+    if (manifestPaths.length === 0) {
+      throw new Error('Workshop data path not configured');
+    }
+
+    const manifest = await this.localModService.readAppWorkshopManifest();
+    const entries = (await this.localModService.scanLocalMods()).filter(entry => entry.source === 'workshop');
+    await this.applyWorkshopStates(entries, [], manifest);
+
+    const report: WorkshopStateReport = {
+      manifestPaths,
+      manifestFound: manifest !== null,
+      appNeedsUpdate: Boolean(manifest && (manifest.needsUpdate || manifest.needsDownload)),
+      stale: [],
+      leftover: [],
+      missing: [],
+      checkedAt: new Date()
+    };
+
+    if (!manifest) {
+      logger.warn(`No Steam appworkshop manifest at ${manifestPaths.join(', ')}, can't report install state`);
+      return report;
+    }
+
+    const items = new Map(manifest.items.map(item => [item.publishedFileId, item]));
+    const entry = (modId: string, reason: string, state?: WorkshopItemState): WorkshopReportEntry => ({
+      modId,
+      title: this.database.getMod(modId)?.title,
+      reason,
+      state
+    });
+
+    for (const { id } of entries) {
+      const state = items.get(id);
+
+      if (!state || !state.installed) {
+        report.leftover.push(entry(id, 'Steam does not list this item as installed', state));
+      } else if (!state.subscribed) {
+        report.leftover.push(entry(id, 'No Steam account on this computer is subscribed to this item', state));
+      } else if (state.needsUpdate) {
+        const latest = state.latestVersionTime ? ` (updated ${new Date(state.latestVersionTime).toISOString().slice(0, 10)})` : '';
+        report.stale.push(entry(id, `Steam has a newer version${latest}`, state));
+      }
+    }
+
+    const present = new Set(entries.map(({ id }) => id));
+    for (const state of manifest.items) {
+      if (state.subscribed && !present.has(state.publishedFileId)) {
+        report.missing.push(entry(state.publishedFileId, 'Subscribed, but the folder is not on disk', state));
+      }
+    }
+
+    logger.info(
+      `Workshop state report: ${report.stale.length} stale, ${report.leftover.length} leftover, ${report.missing.length} missing`
+    );
+    return report;
+  }
+
   /**
    * REMOVED: syncModsFromWorkshop
    * This method has been removed in the offline Electron version
@@ -280,6 +789,448 @@ export class ModService {
     return await this.database.searchMods(searchTerm, limit);
   }
 
+  /**
+   * Enables or disables a mod
+   * Moves the mod folder so the game (un)loads it, then persists the new state
+   *
+   * @param id - Mod ID
+   * @param enabled - Whether the game should load the mod
+   * @returns Updated mod info
+   */
+  async setModEnabled(id: string, enabled: boolean): Promise<ModInfo> {
+    const mod = await this.database.getMod(id);
+
+    if (!mod) {
+      throw new Error(`Mod ${id} not found`);
+    }
+
+    await this.localModService.setModEnabled(id, enabled);
+    this.database.setModEnabled(id, enabled);
+
+    logger.info(`Mod ${mod.title} (${id}) ${enabled ? 'enabled' : 'disabled'}`);
+    return { ...mod, enabled };
+  }
+
+  /**
+   * Compares a mod folder against the file manifest recorded at its last sync
+   *
+   * @param id - Mod ID
+   * @returns Files added, removed or modified since the manifest was recorded
+   */
+  async verifyModIntegrity(id: string): Promise<ModIntegrityReport> {
+    const currentFiles = await this.localModService.getModFiles(id);
+
+    if (!currentFiles) {
+      throw new Error(`Mod folder for ${id} not found`);
+    }
+
+    const recordedFiles = this.database.getModFiles(id);
+    const report: ModIntegrityReport = {
+      modId: id,
+      hasManifest: recordedFiles.length > 0,
+      intact: false,
+      added: [],
+      removed: [],
+      modified: [],
+      unchangedCount: 0,
+      recordedAt: recordedFiles[0]?.recordedAt,
+      verifiedAt: new Date()
+    };
+
+    if (!report.hasManifest) {
+      logger.warn(`No file manifest recorded for mod ${id}, sync it before verifying`);
+      return report;
+    }
+
+    const recordedByPath = new Map(recordedFiles.map(file => [file.path, file]));
+
+    for (const file of currentFiles) {
+      const recorded = recordedByPath.get(file.path);
+
+      if (!recorded) {
+        report.added.push(file.path);
+      } else if (recorded.size !== file.size || recorded.sha256 !== file.sha256) {
+        report.modified.push(file.path);
+      } else {
+        report.unchangedCount++;
+      }
+      recordedByPath.delete(file.path);
+    }
+
+    report.removed = [...recordedByPath.keys()];
+    report.intact = report.added.length === 0 && report.removed.length === 0 && report.modified.length === 0;
+
+    logger.info(
+      `Verified mod ${id}: ${report.added.length} added, ${report.removed.length} removed, ` +
+      `${report.modified.length} modified, ${report.unchangedCount} unchanged`
+    );
+
+    return report;
+  }
+
+  /**
+   * Finds installed mods that share file paths, assembly names or manifest names
+   * File paths come from the manifests recorded at each mod's last sync
+   *
+   * @param modId - Only return conflicts involving this mod
+   * @returns Conflicts sorted by severity, most severe first
+   */
+  async getConflicts(modId?: string): Promise<ModConflict[]> {
+    const mods = this.database.getModsInLoadOrder();
+    const conflicts = analyzeModConflicts(mods, this.database.getAllModFiles());
+
+    return modId ? conflicts.filter(conflict => conflict.modIds.includes(modId)) : conflicts;
+  }
+
+  /**
+   * Gets a breakdown of the disk space used by installed mods
+   * Returns the last stored report unless `refresh` is set or none exists yet.
+   * A new report stats every file again. Hashes recorded at sync are reused
+   * for files whose path, size and modification time are unchanged; other
+   * files are hashed now.
+   * Mods without a manifest get one stored.
+   *
+   * @param refresh - Analyze the mod folders again instead of returning the stored report
+   */
+  async getDiskUsageReport(refresh: boolean = false): Promise<DiskUsageReport> {
+    if (!refresh) {
+      const stored = this.database.getLatestDiskUsageReport();
+      if (stored) {
+        return stored;
+      }
+    }
+
+    const entries = await this.localModService.scanLocalMods();
+    const filesByMod = new Map<string, ModFileEntry[]>();
+
+    for (const entry of entries) {
+      const recorded = new Map(this.database.getModFiles(entry.id).map(file => [file.path, file]));
+      const files: ModFileEntry[] = [];
+
+      for (const file of await this.localModService.listModFiles(entry.id) || []) {
+        const known = recorded.get(file.path);
+        files.push({
+          ...file,
+          sha256: known && known.size === file.size && known.mtimeMs === file.mtimeMs
+            ? known.sha256
+            : await this.localModService.hashModFile(entry.id, file.path)
+        });
+      }
+
+      // An existing manifest stays as recorded at sync, so integrity checks still see the changes
+      if (recorded.size === 0 && files.length > 0 && this.database.getMod(entry.id)) {
+        this.database.saveModFiles(entry.id, files);
+      }
+
+      filesByMod.set(entry.id, files);
+    }
+
+    const report = analyzeDiskUsage(
+      this.localModService.getLibraryRoots(),
+      entries,
+      filesByMod,
+      this.database.getModsInLoadOrder()
+    );
+    this.database.saveDiskUsageReport(report);
+
+    logger.info(
+      `Disk usage: ${report.modCount} mods, ${report.fileCount} files, ${report.totalSize} bytes, ` +
+      `${report.duplicates.length} duplicate file groups (${report.duplicateBytes} bytes)`
+    );
+    return report;
+  }
+
+  /**
+   * Finds leftovers that no scan cleans up on its own:
+   * - database rows whose folder is gone
+   * - mod folders the database has no row for
+   * - empty folders, and folders without an info.ini or any .dll
+   *
+   * Rows from a library root that is disabled or can't be read (e.g. an
+   * unplugged drive) are not reported as missing. Rows recorded before the
+   * root was stored are only reported when every root of their type is checked.
+   * Folders in Workshop roots are left out: Steam owns them, and an empty or
+   * partial one is usually a download in progress.
+   */
+  async findOrphans(): Promise<OrphanReport> {
+    const entries = await this.localModService.scanLocalMods();
+    const roots = this.localModService.getLibraryRoots();
+    const unreadable = await this.localModService.getUnreadableRoots();
+    const skippedRoots = [
+      ...roots.filter(root => !root.enabled),
+      ...unreadable
+    ];
+    const skippedPaths = new Set(skippedRoots.map(root => root.path));
+    const isCheckedRoot = (rootPath: string) =>
+      roots.some(root => root.path === rootPath) && !skippedPaths.has(rootPath);
+    const mods = this.database.getModsInLoadOrder();
+    const modsById = new Map(mods.map(mod => [mod.id, mod]));
+    const folderIds = new Set(entries.map(entry => entry.id));
+    const orphans: OrphanEntry[] = [];
+
+    for (const mod of mods) {
+      if (folderIds.has(mod.id)) continue;
+
+      const source = this.localModService.getModSource(mod.id);
+      const checked = mod.rootPath
+        ? isCheckedRoot(mod.rootPath)
+        : roots.filter(root => root.type === source).every(root => isCheckedRoot(root.path));
+      if (!checked) continue;
+
+      orphans.push({
+        id: `record:${mod.id}`,
+        kind: 'missing-folder',
+        modId: mod.id,
+        title: mod.title,
+        fileCount: 0,
+        totalSize: 0,
+        reason: 'Mod folder no longer exists'
+      });
+    }
+
+    for (const entry of entries) {
+      if (entry.source === 'workshop') continue;
+
+      let folder;
+      try {
+        folder = await this.localModService.inspectModFolder(entry.path);
+      } catch (error) {
+        logger.warn(`Failed to inspect mod folder ${entry.path}:`, error);
+        continue;
+      }
+
+      const mod = modsById.get(entry.id);
+      const orphan = {
+        id: `folder:${entry.path}`,
+        modId: entry.id,
+        title: mod?.title,
+        path: entry.path,
+        fileCount: folder.fileCount,
+        totalSize: folder.totalSize
+      };
+
+      if (folder.fileCount === 0) {
+        orphans.push({ ...orphan, kind: 'empty-folder', reason: 'Folder contains no files' });
+      } else if (!folder.hasManifest || !folder.hasAssembly) {
+        const missing = [!folder.hasManifest && 'info.ini', !folder.hasAssembly && '.dll file'].filter(Boolean);
+        orphans.push({ ...orphan, kind: 'partial-folder', reason: `Incomplete mod: no ${missing.join(' or ')}` });
+      } else if (!mod) {
+        orphans.push({ ...orphan, kind: 'no-metadata', reason: 'Not in the mod database; a scan has not recorded it' });
+      }
+    }
+
+    logger.info(`Orphan check: ${orphans.length} found, ${skippedRoots.length} library root(s) skipped`);
+    return {
+      checkedAt: new Date(),
+      orphans,
+      skippedRoots: skippedRoots.map(root => root.path)
+    };
+  }
+
+  /**
+   * Removes orphans picked from a findOrphans() report
+   * The check runs again first and only entries that are still orphans are
+   * touched. With `archive`, the folders and database rows are first written
+   * to a zip in `archiveDir`; nothing is removed if the zip can't be written.
+   *
+   * @param ids - OrphanEntry IDs to clean up
+   * @param action - Archive then remove, or just remove
+   * @param archiveDir - Folder for the archive zip (required for `archive`)
+   */
+  async cleanupOrphans(
+    ids: string[],
+    action: OrphanCleanupAction,
+    archiveDir?: string
+  ): Promise<OrphanCleanupResult> {
+    if (action === 'archive' && !archiveDir) {
+      throw new Error('An archive folder is required to archive orphans');
+    }
+
+    const report = await this.findOrphans();
+    const byId = new Map(report.orphans.map(orphan => [orphan.id, orphan]));
+    const selected = ids.filter(id => byId.has(id)).map(id => byId.get(id)!);
+    const result: OrphanCleanupResult = {
+      action,
+      cleaned: [],
+      skipped: ids.filter(id => !byId.has(id)),
+      errors: []
+    };
+
+    if (result.skipped.length > 0) {
+      logger.warn(`Orphan cleanup: ${result.skipped.length} selected entries are no longer orphans, skipping`);
+    }
+    if (selected.length === 0) {
+      return result;
+    }
+
+    if (action === 'archive') {
+      result.archivePath = await this.archiveOrphans(selected, archiveDir!);
+    }
+
+    let removedRows = false;
+    for (const orphan of selected) {
+      try {
+        if (orphan.path) {
+          await this.localModService.removeModFolder(orphan.path);
+        }
+        if (this.database.deleteMod(orphan.modId)) {
+          removedRows = true;
+        }
+
+        result.cleaned.push(orphan);
+        logger.info(`Orphan cleanup: ${action === 'archive' ? 'archived' : 'deleted'} ${orphan.kind} ${orphan.modId}${orphan.path ? ` (${orphan.path})` : ''}`);
+      } catch (error) {
+        const errorMsg = `Failed to clean up ${orphan.modId}: ${error instanceof Error ? error.message : error}`;
+        logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    if (removedRows) {
+      try {
+        await this.normalizeLoadOrder();
+      } catch (error) {
+        logger.error('Failed to update load order after orphan cleanup:', error);
+      }
+    }
+
+    logger.info(
+      `Orphan cleanup complete: ${result.cleaned.length} cleaned, ${result.skipped.length} skipped, ${result.errors.length} errors` +
+      (result.archivePath ? `, archived to ${result.archivePath}` : '')
+    );
+    return result;
+  }
+
+  /**
+   * Zips orphan folders and database rows before they are removed
+   * Layout: `folders/<n>-<folder>/...`, `records/<n>.json` and `cleanup.json`
+   * listing every entry
+   */
+  private async archiveOrphans(orphans: OrphanEntry[], archiveDir: string): Promise<string> {
+    await fs.mkdir(archiveDir, { recursive: true });
+    const archivePath = path.join(archiveDir, `orphans-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`);
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const output = createWriteStream(archivePath);
+
+    try {
+      await this.writeOrphanArchive(orphans, archive, output);
+    } catch (error) {
+      await fs.rm(archivePath, { force: true });
+      throw error;
+    }
+
+    logger.info(`Archived ${orphans.length} orphans to ${archivePath}`);
+    return archivePath;
+  }
+
+  private writeOrphanArchive(
+    orphans: OrphanEntry[],
+    archive: archiver.Archiver,
+    output: NodeJS.WritableStream
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      output.on('close', () => resolve());
+      archive.on('error', reject);
+      output.on('error', reject);
+      archive.pipe(output);
+
+      orphans.forEach((orphan, index) => {
+        if (orphan.path) {
+          archive.directory(orphan.path, `folders/${index + 1}-${path.basename(orphan.path)}`);
+        }
+
+        const mod = this.database.getMod(orphan.modId);
+        if (mod) {
+          const record = { mod, files: this.database.getModFiles(orphan.modId) };
+          archive.append(JSON.stringify(record, null, 2), { name: `records/${index + 1}.json` });
+        }
+      });
+
+      archive.append(JSON.stringify({ archivedAt: new Date(), orphans }, null, 2), { name: 'cleanup.json' });
+      archive.finalize();
+    });
+  }
+
+  /**
+   * Gets all mods in load order (first loads first)
+   * The game doesn't apply this order: Duckov has no load order file or setting
+   * a manager can write. The order is kept in the database and travels with
+   * profiles, exports and share codes; nothing is written into the library
+   * folders, which Steam owns for Workshop mods.
+   */
+  async getLoadOrder(): Promise<ModInfo[]> {
+    return this.database.getModsInLoadOrder();
+  }
+
+  /**
+   * Checks a proposed load order against the mods in the database
+   *
+   * @param modIds - Mod IDs in the desired load order
+   * @returns Duplicated IDs, IDs of unknown mods, and known mods left out of the list
+   */
+  async validateLoadOrder(modIds: string[]): Promise<LoadOrderValidation> {
+    const knownIds = new Set(this.database.getModsInLoadOrder().map(mod => mod.id));
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+
+    for (const id of modIds) {
+      if (seen.has(id)) {
+        duplicates.add(id);
+      }
+      seen.add(id);
+    }
+
+    const unknown = [...seen].filter(id => !knownIds.has(id));
+    const missing = [...knownIds].filter(id => !seen.has(id));
+
+    return {
+      valid: duplicates.size === 0 && unknown.length === 0 && missing.length === 0,
+      duplicates: [...duplicates],
+      unknown,
+      missing
+    };
+  }
+
+  /**
+   * Saves a new load order
+   * Mods left out of the list keep their relative order and are placed after the listed ones
+   *
+   * @param modIds - Mod IDs in the desired load order
+   * @returns All mods in their new load order
+   */
+  async reorderMods(modIds: string[]): Promise<ModInfo[]> {
+    const validation = await this.validateLoadOrder(modIds);
+
+    if (validation.duplicates.length > 0) {
+      throw new Error(`Invalid load order: duplicate mods ${validation.duplicates.join(', ')}`);
+    }
+    if (validation.unknown.length > 0) {
+      throw new Error(`Invalid load order: unknown mods ${validation.unknown.join(', ')}`);
+    }
+
+    const missing = new Set(validation.missing);
+    const current = this.database.getModsInLoadOrder();
+    const order = [...modIds, ...current.filter(mod => missing.has(mod.id)).map(mod => mod.id)];
+
+    this.database.setLoadOrder(order);
+    logger.info(`Load order updated (${order.length} mods)`);
+
+    return this.database.getModsInLoadOrder();
+  }
+
+  /**
+   * Renumbers the load order to 1..n without changing it
+   * Closes gaps left by removed mods and appends mods that have no priority yet
+   *
+   * @returns All mods in load order
+   */
+  async normalizeLoadOrder(): Promise<ModInfo[]> {
+    const current = this.database.getModsInLoadOrder();
+    this.database.setLoadOrder(current.map(mod => mod.id));
+    return this.database.getModsInLoadOrder();
+  }
+
   /**
    * REMOVED: checkForUpdates
    * This method relied on Steam API and has been removed in offline mode
@@ -342,20 +1293,63 @@ export class ModService {
   }
 
   /**
-   * Exports selected mods as a zip file
-   * Returns the path to the created zip file
+   * Renders a list of mods as CSV, Markdown, JSON or a standalone HTML page
+   * Lists the given mods in the given order, the mods matching `search`,
+   * or else every mod in load order.
+   */
+  async generateModReport(options: ModReportOptions): Promise<ModReport> {
+    if (!MOD_REPORT_FORMATS[options.format]) {
+      throw new Error(`Unsupported report format: ${options.format}`);
+    }
+
+    let mods: ModInfo[];
+    if (options.modIds) {
+      mods = options.modIds
+        .map(id => this.database.getMod(id))
+        .filter((mod): mod is ModInfo => mod !== null);
+    } else if (options.search?.trim()) {
+      mods = await this.searchMods(options.search.trim(), Number.MAX_SAFE_INTEGER);
+    } else {
+      mods = this.database.getModsInLoadOrder();
+    }
+
+    const report = renderModReport(mods, options.format, options.title);
+    logger.info(`Rendered ${options.format} report of ${report.modCount} mods`);
+    return report;
+  }
+
+  /**
+   * Renders a mod list report and writes it to a file
+   */
+  async exportModReport(options: ModReportOptions, filePath: string): Promise<{ filePath: string; modCount: number }> {
+    const report = await this.generateModReport(options);
+    await fs.writeFile(filePath, report.content, 'utf-8');
+
+    logger.info(`Saved ${options.format} report of ${report.modCount} mods to ${filePath}`);
+    return { filePath, modCount: report.modCount };
+  }
+
+  /**
+   * Exports selected mods as a modpack: a zip of the mod folders with a
+   * modpack.json manifest describing them
    *
    * @param modIds - Array of mod IDs to export
    * @param outputPath - Path where the zip file should be created
+   * @param options - Manifest contents, compression level, progress callback and abort signal
    * @returns Path to the created zip file
    */
-  async exportMods(modIds: string[], outputPath: string): Promise<{
+  async exportMods(modIds: string[], outputPath: string, options: ModExportOptions = {}): Promise<{
     zipPath: string;
     exportedCount: number;
     missingMods: string[];
   }> {
     try {
-      logger.info(`Exporting ${modIds.length} mods to ${outputPath}`);
+      const compressionLevel = options.compressionLevel ?? 9;
+      if (!Number.isInteger(compressionLevel) || compressionLevel < 0 || compressionLevel > 9) {
+        throw new Error('Compression level must be a whole number from 0 to 9');
+      }
+
+      logger.info(`Exporting ${modIds.length} mods to ${outputPath} (compression level ${compressionLevel})`);
 
       // Verify all mods exist locally
       const modPaths: { id: string; path: string }[] = [];
@@ -381,17 +1375,85 @@ export class ModService {
         throw new Error('No local mod folders found for export');
       }
 
+      const manifest = await this.buildModpackManifest(modPaths.map(mod => mod.id), options);
+      if (options.signal?.aborted) {
+        throw new Error('Export canceled');
+      }
+
+      // The manifest lists the files of mods in the database; measure the others
+      let estimatedTotalBytes = 0;
+      for (const mod of modPaths) {
+        const entry = manifest.mods.find(bundled => bundled.mod.id === mod.id);
+        estimatedTotalBytes += entry
+          ? entry.files.reduce((sum, file) => sum + file.size, 0)
+          : (await this.localModService.getModFolderInfo(mod.id)).totalSize || 0;
+      }
+
       // Create zip archive
       const archive = archiver('zip', {
-        zlib: { level: 9 } // Maximum compression
+        zlib: { level: compressionLevel }
       });
 
       // Create output stream
       const output = require('fs').createWriteStream(outputPath);
 
       return new Promise((resolve, reject) => {
+        const folders = modPaths.map(mod => ({ id: mod.id, prefix: `${this.getArchiveFolder(mod.id)}/` }));
+        let canceled = false;
+        let lastReport = 0;
+
+        const onAbort = () => {
+          canceled = true;
+          logger.info(`Canceling export to ${outputPath}`);
+          archive.abort();
+          output.destroy();
+        };
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        // 'progress' carries the byte counts, 'entry' follows it once the file was added
+        let counts = { processedBytes: 0, totalBytes: 0, processedFiles: 0 };
+        archive.on('progress', (progress) => {
+          counts = {
+            processedBytes: progress.fs.processedBytes,
+            totalBytes: progress.fs.totalBytes,
+            processedFiles: progress.entries.processed
+          };
+        });
+
+        archive.on('entry', (entry) => {
+          // The manifest is written before the folders are walked; it doesn't belong to a mod
+          const modId = folders.find(folder => entry.name.startsWith(folder.prefix))?.id;
+          if (!modId) return;
+
+          const now = Date.now();
+          if (!options.onProgress || now - lastReport < EXPORT_PROGRESS_INTERVAL_MS) return;
+          lastReport = now;
+
+          options.onProgress({
+            phase: 'archiving',
+            processedBytes: counts.processedBytes,
+            estimatedTotalBytes: Math.max(estimatedTotalBytes, counts.totalBytes),
+            processedFiles: counts.processedFiles,
+            currentModId: modId,
+            currentModTitle: manifest.mods.find(bundled => bundled.mod.id === modId)?.mod.title
+          });
+        });
+
         // Handle stream events
-        output.on('close', () => {
+        output.on('close', async () => {
+          options.signal?.removeEventListener('abort', onAbort);
+
+          if (canceled) {
+            try {
+              await fs.rm(outputPath, { force: true });
+              logger.info(`Export canceled, removed ${outputPath}`);
+            } catch (error) {
+              logger.warn(`Export canceled, but failed to remove ${outputPath}:`, error);
+            }
+            reject(new Error('Export canceled'));
+            return;
+          }
+
           const sizeInMB = (archive.pointer() / 1024 / 1024).toFixed(2);
           logger.info(`Export complete: ${modPaths.length} mods exported, ${sizeInMB} MB total`);
           resolve({
@@ -402,24 +1464,35 @@ export class ModService {
         });
 
         archive.on('error', (err) => {
+          if (canceled) return;
           logger.error('Archive error:', err);
           reject(err);
         });
 
         output.on('error', (err: Error) => {
+          if (canceled) return;
           logger.error('Output stream error:', err);
           reject(err);
         });
 
+        // Canceled while the mods were measured; 'abort' won't fire again
+        if (options.signal?.aborted) {
+          onAbort();
+          return;
+        }
+
         // Pipe archive to output file
         archive.pipe(output);
 
         // Add each mod folder to the archive
         for (const mod of modPaths) {
           logger.debug(`Adding mod ${mod.id} to archive`);
-          archive.directory(mod.path, mod.id);
+          archive.directory(mod.path, this.getArchiveFolder(mod.id));
         }
 
+        // Titles, translations and checksums, so an import doesn't depend on Steam
+        archive.append(JSON.stringify(manifest, null, 2), { name: MODPACK_MANIFEST_FILE_NAME });
+
         // Finalize the archive
         archive.finalize();
       });
@@ -430,8 +1503,149 @@ export class ModService {
   }
 
   /**
-   * REMOVED: exportModsFromCollection
-   * This method relied on Steam API and has been removed in offline mode
-   * Use exportMods() with an array of mod IDs instead
+   * Folder a mod is stored under in export archives
+   * Workshop mods are stored by ID; local mod IDs contain a prefix that
+   * isn't a valid folder name on Windows, so they go under local/<folder>
+   */
+  private getArchiveFolder(modId: string): string {
+    return this.localModService.getModSource(modId) === 'local'
+      ? `local/${this.localModService.getModFolderName(modId)}`
+      : modId;
+  }
+
+  private async buildModpackManifest(modIds: string[], options: ModExportOptions): Promise<ModpackManifest> {
+    const manifest: ModpackManifest = {
+      format: 'duckov-modpack',
+      formatVersion: 1,
+      appVersion: options.appVersion || 'unknown',
+      exportedAt: new Date().toISOString(),
+      mods: [],
+      translations: []
+    };
+
+    // List every folder first, so checksum progress has a total
+    const listed: Array<{ mod: ModInfo; files: Array<{ path: string; size: number }> }> = [];
+    for (const modId of modIds) {
+      const mod = this.database.getMod(modId);
+      if (!mod) continue;
+      listed.push({ mod, files: await this.localModService.listModFiles(modId) || [] });
+    }
+
+    const totalBytes = listed.reduce((sum, entry) => sum + entry.files.reduce((size, file) => size + file.size, 0), 0);
+    let hashedBytes = 0;
+    let hashedFiles = 0;
+    let lastReport = 0;
+
+    for (const { mod, files } of listed) {
+      const entries: ModFileEntry[] = [];
+      for (const file of files) {
+        if (options.signal?.aborted) {
+          throw new Error('Export canceled');
+        }
+
+        entries.push({
+          path: file.path,
+          size: file.size,
+          sha256: await this.localModService.hashModFile(mod.id, file.path)
+        });
+        hashedBytes += file.size;
+        hashedFiles++;
+
+        const now = Date.now();
+        if (options.onProgress && now - lastReport >= EXPORT_PROGRESS_INTERVAL_MS) {
+          lastReport = now;
+          options.onProgress({
+            phase: 'checksums',
+            processedBytes: hashedBytes,
+            estimatedTotalBytes: totalBytes,
+            processedFiles: hashedFiles,
+            currentModId: mod.id,
+            currentModTitle: mod.title
+          });
+        }
+      }
+
+      manifest.mods.push({
+        folder: this.getArchiveFolder(mod.id),
+        mod,
+        files: entries
+      });
+
+      const pairs: Array<[string | undefined, string | undefined]> = [
+        [mod.originalTitle, mod.translatedTitle],
+        [mod.originalDescription, mod.translatedDescription]
+      ];
+      for (const [originalText, translatedText] of pairs) {
+        if (originalText && translatedText && originalText !== translatedText) {
+          manifest.translations.push({ originalText, translatedText, sourceLang: 'zh', targetLang: 'en' });
+        }
+      }
+    }
+
+    if (options.includeLoadOrder) {
+      const exported = new Set(modIds);
+      manifest.loadOrder = this.database.getModsInLoadOrder()
+        .map(mod => mod.id)
+        .filter(id => exported.has(id));
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Compares a Steam Workshop collection with the installed mods
+   * Needs Steam to resolve the collection; missing items' titles are looked up when possible
+   *
+   * @param collectionInput - Collection URL or ID
    */
+  async diffCollection(collectionInput: string): Promise<CollectionDiff> {
+    const collection = await this.steamWorkshopService.getCollection(collectionInput);
+    const installedIds = new Set(this.database.getModsInLoadOrder().map(mod => mod.id));
+
+    const installed = collection.itemIds.filter(id => installedIds.has(id));
+    const missingIds = collection.itemIds.filter(id => !installedIds.has(id));
+    const missingItems = missingIds.length > 0
+      ? await this.steamWorkshopService.getWorkshopItems(missingIds)
+      : new Map<string, SteamWorkshopItem>();
+
+    logger.info(
+      `Collection ${collection.collectionId}: ${installed.length} of ${collection.itemIds.length} items installed`
+    );
+    return {
+      ...collection,
+      installed,
+      missing: missingIds.map(modId => ({
+        modId,
+        title: missingItems.get(modId)?.title,
+        steamUrl: `steam://url/CommunityFilePage/${modId}`
+      }))
+    };
+  }
+
+  /**
+   * Exports the installed mods of a Steam Workshop collection
+   * Items that aren't installed are reported in `missing` rather than failing the export
+   *
+   * @param collectionInput - Collection URL or ID
+   * @param outputPath - Path of the zip file to write
+   * @param options - Same options as exportMods
+   */
+  async exportModsFromCollection(collectionInput: string, outputPath: string, options: ModExportOptions = {}): Promise<{
+    zipPath: string;
+    exportedCount: number;
+    missingMods: string[];
+    collection: CollectionDiff;
+  }> {
+    const collection = await this.diffCollection(collectionInput);
+    if (collection.installed.length === 0) {
+      throw new Error(`None of the ${collection.itemIds.length} items in collection ${collection.collectionId} are installed`);
+    }
+
+    const result = await this.exportMods(collection.installed, outputPath, options);
+    return {
+      ...result,
+      missingMods: [...collection.missing.map(item => item.modId), ...result.missingMods],
+      collection
+    };
+  }
 }
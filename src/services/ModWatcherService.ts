@@ -0,0 +1,160 @@
+import { watch, FSWatcher } from 'fs';
+import { LocalModService } from './LocalModService';
+import { ModService } from './ModService';
+import { ModChangeSet, ModSource } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Default quiet period before changed mods are re-synced
+ * Steam writes a mod's files one by one while downloading, so changes arrive in bursts
+ */
+const DEFAULT_DEBOUNCE_MS = 1500;
+
+/**
+ * ModWatcherService - Watches the mod folders and re-syncs mods as they change
+ *
+ * Filesystem events are mapped to mod IDs and collected until the folders have
+ * been quiet for the debounce period. Only the affected mods are then synced
+ * through ModService, and the resulting change set is handed to the listener
+ * (the main process forwards it to the renderer).
+ *
+ * Recursive watching isn't available everywhere; when it fails the source
+ * folders are watched non-recursively, which still catches mods being added,
+ * removed, enabled or disabled but not edits inside a mod folder.
+ */
+export class ModWatcherService {
+  private watchers: FSWatcher[] = [];
+  private pendingIds = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor(
+    private localModService: LocalModService,
+    private modService: ModService,
+    private onChange: (changes: ModChangeSet) => void,
+    private debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  /**
+   * Starts watching every configured mod source folder
+   */
+  start(): void {
+    this.stop();
+
+    for (const root of this.localModService.getSourceRoots()) {
+      const watcher = this.watchFolder(root.path, root.source);
+      if (watcher) {
+        // e.g. the folder was deleted or its drive unplugged; a rescan will report it
+        watcher.on('error', error => logger.warn(`Stopped watching ${root.path}:`, error));
+        this.watchers.push(watcher);
+      }
+    }
+
+    if (this.watchers.length > 0) {
+      logger.info(`Watching ${this.watchers.length} mod folder(s) for changes`);
+    }
+  }
+
+  /**
+   * Stops watching and drops any changes that haven't been synced yet
+   */
+  stop(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pendingIds.clear();
+  }
+
+  /**
+   * Restarts the watcher, e.g. after the mod folder paths changed
+   */
+  restart(): void {
+    logger.info('Restarting mod folder watcher');
+    this.start();
+  }
+
+  isWatching(): boolean {
+    return this.watchers.length > 0;
+  }
+
+  /**
+   * Queues a mod for re-sync and (re)starts the debounce timer
+   */
+  queueChange(modId: string): void {
+    this.pendingIds.add(modId);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.flush().catch(error => logger.error('Mod folder sync failed:', error));
+    }, this.debounceMs);
+  }
+
+  /**
+   * Syncs all queued mods now
+   * Syncs never overlap; changes that arrive during a sync are picked up by the next one
+   */
+  async flush(): Promise<void> {
+    while (this.syncing) {
+      await this.syncing;
+    }
+
+    if (this.pendingIds.size === 0) {
+      return;
+    }
+
+    const modIds = [...this.pendingIds];
+    this.pendingIds.clear();
+
+    this.syncing = (async () => {
+      const changes = await this.modService.syncModsByIds(modIds);
+      const changed = changes.added.length + changes.updated.length + changes.removed.length;
+
+      if (changed > 0 || changes.errors.length > 0) {
+        this.onChange(changes);
+      }
+    })();
+
+    try {
+      await this.syncing;
+    } finally {
+      this.syncing = null;
+    }
+  }
+
+  private watchFolder(folderPath: string, source: ModSource): FSWatcher | null {
+    const listener = (_event: string, fileName: string | Buffer | null) => {
+      if (!fileName) return;
+
+      const modId = this.localModService.getModIdForPath(source, fileName.toString());
+      if (modId) {
+        this.queueChange(modId);
+      }
+    };
+
+    try {
+      return watch(folderPath, { recursive: true }, listener);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.warn(`Cannot watch ${source} folder, it does not exist: ${folderPath}`);
+        return null;
+      }
+
+      logger.warn(`Recursive watching unavailable for ${folderPath}, watching top level only`);
+      try {
+        return watch(folderPath, listener);
+      } catch (fallbackError) {
+        logger.error(`Failed to watch ${source} folder ${folderPath}:`, fallbackError);
+        return null;
+      }
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { Database } from '../database/Database';
+import { ModService } from './ModService';
+import { ModProfile, ProfileApplyResult, ProfileComparison, ProfileModEntry } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * ProfileService - Named mod loadouts (e.g. "Co-op", "Testing", "Solo")
+ *
+ * A profile is an ordered list of mod IDs with an enabled flag for each.
+ * Applying a profile reconciles the installed mods to match it:
+ * - Mods enabled in the profile are enabled
+ * - Mods disabled in the profile, or not in it at all, are disabled
+ * - Profile entries that aren't installed are reported as missing
+ * - The profile's mods are moved to the front of the load order, in profile order
+ */
+export class ProfileService {
+  constructor(
+    private database: Database,
+    private modService: ModService
+  ) {}
+
+  async getAllProfiles(): Promise<ModProfile[]> {
+    return this.database.getAllProfiles();
+  }
+
+  async getProfile(id: number): Promise<ModProfile | null> {
+    return this.database.getProfile(id);
+  }
+
+  /**
+   * Creates a profile
+   *
+   * @param name - Unique profile name
+   * @param mods - Mod IDs (all enabled) or explicit entries, in load order
+   * @param description - Optional description
+   */
+  async createProfile(
+    name: string,
+    mods: Array<string | ProfileModEntry>,
+    description?: string
+  ): Promise<ModProfile> {
+    const trimmedName = this.validateName(name);
+
+    const profile = this.database.createProfile(trimmedName, this.normalizeEntries(mods), description);
+    logger.info(`Created profile "${profile.name}" with ${profile.mods.length} mods`);
+    return profile;
+  }
+
+  /**
+   * Creates a profile from the mods that are currently enabled, in load order
+   */
+  async createProfileFromCurrentState(name: string, description?: string): Promise<ModProfile> {
+    const installed = await this.modService.getLoadOrder();
+    const entries = installed.map(mod => ({ modId: mod.id, enabled: mod.enabled !== false }));
+    return this.createProfile(name, entries, description);
+  }
+
+  async updateProfile(
+    id: number,
+    changes: { name?: string; description?: string; mods?: Array<string | ProfileModEntry> }
+  ): Promise<ModProfile> {
+    const profile = this.database.updateProfile(id, {
+      name: changes.name !== undefined ? this.validateName(changes.name, id) : undefined,
+      description: changes.description,
+      mods: changes.mods ? this.normalizeEntries(changes.mods) : undefined
+    });
+
+    if (!profile) {
+      throw new Error(`Profile ${id} not found`);
+    }
+
+    logger.info(`Updated profile "${profile.name}"`);
+    return profile;
+  }
+
+  async deleteProfile(id: number): Promise<void> {
+    if (!this.database.deleteProfile(id)) {
+      throw new Error(`Profile ${id} not found`);
+    }
+    logger.info(`Deleted profile ${id}`);
+  }
+
+  /**
+   * Applies a profile by enabling/disabling installed mods to match it,
+   * then applying its load order
+   * Continues past individual failures and reports them in the result
+   */
+  async applyProfile(id: number): Promise<ProfileApplyResult> {
+    const profile = this.database.getProfile(id);
+    if (!profile) {
+      throw new Error(`Profile ${id} not found`);
+    }
+
+    logger.info(`Applying profile "${profile.name}"`);
+
+    const installed = await this.modService.getAllMods(10000);
+    const installedIds = new Set(installed.map(mod => mod.id));
+    const desired = new Map(profile.mods.map(entry => [entry.modId, entry.enabled]));
+
+    const result: ProfileApplyResult = {
+      enabled: [],
+      disabled: [],
+      unchanged: 0,
+      missing: profile.mods.filter(entry => !installedIds.has(entry.modId)).map(entry => entry.modId),
+      errors: []
+    };
+
+    for (const mod of installed) {
+      const shouldEnable = desired.get(mod.id) === true;
+      const isEnabled = mod.enabled !== false;
+
+      if (shouldEnable === isEnabled) {
+        result.unchanged++;
+        continue;
+      }
+
+      try {
+        await this.modService.setModEnabled(mod.id, shouldEnable);
+        (shouldEnable ? result.enabled : result.disabled).push(mod.id);
+      } catch (error) {
+        const errorMsg = `Mod ${mod.id}: ${error instanceof Error ? error.message : String(error)}`;
+        logger.error(`Failed to apply profile "${profile.name}" to mod ${mod.id}:`, error);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    // Mods outside the profile keep their relative order after the profile's mods
+    try {
+      await this.modService.reorderMods(profile.mods.map(entry => entry.modId).filter(modId => installedIds.has(modId)));
+    } catch (error) {
+      logger.error(`Failed to apply the load order of profile "${profile.name}":`, error);
+      result.errors.push(`Load order: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    logger.info(
+      `Profile "${profile.name}" applied: ${result.enabled.length} enabled, ${result.disabled.length} disabled, ` +
+      `${result.missing.length} missing, ${result.errors.length} errors`
+    );
+    return result;
+  }
+
+  /**
+   * Compares two profiles
+   * Order is only compared over the mods both profiles contain
+   */
+  async compareProfiles(firstId: number, secondId: number): Promise<ProfileComparison> {
+    const first = this.database.getProfile(firstId);
+    const second = this.database.getProfile(secondId);
+
+    if (!first || !second) {
+      throw new Error(`Profile ${!first ? firstId : secondId} not found`);
+    }
+
+    return compareProfileEntries(first.mods, second.mods);
+  }
+
+  private validateName(name: string, currentId?: number): string {
+    const trimmed = (name || '').trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required');
+    }
+
+    const existing = this.database.getProfileByName(trimmed);
+    if (existing && existing.id !== currentId) {
+      throw new Error(`A profile named "${trimmed}" already exists`);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Converts plain IDs to enabled entries and drops duplicates (first one wins)
+   */
+  private normalizeEntries(mods: Array<string | ProfileModEntry>): ProfileModEntry[] {
+    const seen = new Set<string>();
+    const entries: ProfileModEntry[] = [];
+
+    for (const mod of mods) {
+      const entry = typeof mod === 'string' ? { modId: mod, enabled: true } : mod;
+      if (!entry.modId || seen.has(entry.modId)) continue;
+      seen.add(entry.modId);
+      entries.push({ modId: entry.modId, enabled: entry.enabled !== false });
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * Computes the differences between two ordered profile entry lists
+ */
+export function compareProfileEntries(first: ProfileModEntry[], second: ProfileModEntry[]): ProfileComparison {
+  const firstMap = new Map(first.map(entry => [entry.modId, entry.enabled]));
+  const secondMap = new Map(second.map(entry => [entry.modId, entry.enabled]));
+
+  const sharedFirst = first.filter(entry => secondMap.has(entry.modId)).map(entry => entry.modId);
+  const sharedSecond = second.filter(entry => firstMap.has(entry.modId)).map(entry => entry.modId);
+
+  return {
+    onlyInFirst: first.filter(entry => !secondMap.has(entry.modId)).map(entry => entry.modId),
+    onlyInSecond: second.filter(entry => !firstMap.has(entry.modId)).map(entry => entry.modId),
+    enabledDiffers: sharedFirst.filter(id => firstMap.get(id) !== secondMap.get(id)),
+    orderDiffers: sharedFirst.some((id, index) => sharedSecond[index] !== id)
+  };
+}
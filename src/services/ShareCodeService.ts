@@ -0,0 +1,245 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { Database } from '../database/Database';
+import { SteamWorkshopService } from './SteamWorkshopService';
+import { compareProfileEntries } from './ProfileService';
+import {
+  ModInfo,
+  ShareCodeComparison,
+  ShareCodeContents,
+  ShareCodeDiffEntry,
+  ShareCodeOptions,
+  ShareCodeResult
+} from '../types';
+import { logger } from '../utils/logger';
+
+const SHARE_CODE_PREFIX = 'DMM1-';
+const CHECKSUM_BYTES = 4;
+/** Far more than any real mod list inflates to; stops a crafted code from exhausting memory */
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+/**
+ * ShareCodeService - Compact mod list codes for pasting into chat
+ *
+ * A code lists Workshop IDs with the version each sharer has installed,
+ * optionally a profile name and whether the list is in load order.
+ * Checking a code against the installed mods shows what's missing, extra or outdated.
+ */
+export class ShareCodeService {
+  constructor(
+    private database: Database,
+    private steamWorkshopService: SteamWorkshopService
+  ) {}
+
+  /**
+   * Creates a share code from the enabled mods, a profile or the given mods
+   * Local mods can't be subscribed to, so they're left out and reported
+   */
+  async createShareCode(options: ShareCodeOptions = {}): Promise<ShareCodeResult> {
+    const installed = this.database.getModsInLoadOrder();
+    const installedById = new Map(installed.map(mod => [mod.id, mod]));
+    let modIds: string[];
+    let profileName: string | undefined;
+
+    if (options.profileId !== undefined) {
+      const profile = this.database.getProfile(options.profileId);
+      if (!profile) {
+        throw new Error(`Profile ${options.profileId} not found`);
+      }
+      modIds = profile.mods.filter(entry => entry.enabled).map(entry => entry.modId);
+      profileName = profile.name;
+    } else if (options.modIds && options.modIds.length > 0) {
+      modIds = options.modIds;
+      if (options.includeLoadOrder) {
+        const requested = new Set(modIds);
+        modIds = [
+          ...installed.filter(mod => requested.has(mod.id)).map(mod => mod.id),
+          ...modIds.filter(id => !installedById.has(id))
+        ];
+      }
+    } else {
+      modIds = installed.filter(mod => mod.enabled !== false).map(mod => mod.id);
+    }
+
+    const uniqueIds = Array.from(new Set(modIds));
+    const shared = uniqueIds.filter(isWorkshopId);
+    const skipped = uniqueIds.filter(id => !isWorkshopId(id));
+
+    if (shared.length === 0) {
+      throw new Error('No Workshop mods to share');
+    }
+
+    const code = encodeShareCode({
+      profileName,
+      hasLoadOrder: options.includeLoadOrder === true,
+      mods: shared.map(modId => {
+        const mod = installedById.get(modId);
+        return { modId, versionTime: mod ? getVersionTime(mod) : undefined };
+      })
+    });
+
+    logger.info(`Created share code for ${shared.length} mods (${skipped.length} local mods left out)`);
+    return { code, modCount: shared.length, skipped };
+  }
+
+  /**
+   * Compares a share code with the installed mods
+   * Titles of missing mods are looked up on Steam when it's reachable
+   */
+  async compareShareCode(code: string): Promise<ShareCodeComparison> {
+    const contents = decodeShareCode(code);
+    const installed = this.database.getModsInLoadOrder();
+    const installedById = new Map(installed.map(mod => [mod.id, mod]));
+    const sharedIds = new Set(contents.mods.map(entry => entry.modId));
+
+    const comparison: ShareCodeComparison = {
+      profileName: contents.profileName,
+      hasLoadOrder: contents.hasLoadOrder,
+      total: contents.mods.length,
+      missing: [],
+      extra: [],
+      outdated: [],
+      disabled: [],
+      loadOrderDiffers: false
+    };
+
+    for (const entry of contents.mods) {
+      const mod = installedById.get(entry.modId);
+      const diff: ShareCodeDiffEntry = {
+        modId: entry.modId,
+        title: mod?.title,
+        steamUrl: getSteamUrl(entry.modId),
+        installedVersionTime: mod ? getVersionTime(mod) : undefined,
+        sharedVersionTime: entry.versionTime
+      };
+
+      if (!mod) {
+        comparison.missing.push(diff);
+        continue;
+      }
+      if (mod.enabled === false) {
+        comparison.disabled.push(diff);
+      }
+      if (diff.sharedVersionTime !== undefined && diff.installedVersionTime !== undefined &&
+          diff.installedVersionTime < diff.sharedVersionTime) {
+        comparison.outdated.push(diff);
+      }
+    }
+
+    comparison.extra = installed
+      .filter(mod => mod.enabled !== false && !sharedIds.has(mod.id))
+      .map(mod => ({
+        modId: mod.id,
+        title: mod.title,
+        steamUrl: isWorkshopId(mod.id) ? getSteamUrl(mod.id) : undefined
+      }));
+
+    if (contents.hasLoadOrder) {
+      comparison.loadOrderDiffers = compareProfileEntries(
+        contents.mods.map(entry => ({ modId: entry.modId, enabled: true })),
+        installed.map(mod => ({ modId: mod.id, enabled: true }))
+      ).orderDiffers;
+    }
+
+    if (comparison.missing.length > 0) {
+      try {
+        const items = await this.steamWorkshopService.getWorkshopItems(comparison.missing.map(entry => entry.modId));
+        for (const entry of comparison.missing) {
+          entry.title = items.get(entry.modId)?.title;
+        }
+      } catch (error) {
+        logger.warn('Could not look up titles of missing mods:', error);
+      }
+    }
+
+    logger.info(
+      `Share code compared: ${comparison.missing.length} missing, ${comparison.extra.length} extra, ` +
+      `${comparison.outdated.length} outdated, ${comparison.disabled.length} disabled`
+    );
+    return comparison;
+  }
+}
+
+/**
+ * Encodes a mod list as `DMM1-` followed by base64url of a 4-byte SHA-256
+ * checksum and the deflated JSON payload. Version times are stored in seconds.
+ */
+export function encodeShareCode(contents: ShareCodeContents): string {
+  const payload: { n?: string; o?: 1; m: Array<[string] | [string, number]> } = {
+    m: contents.mods.map(entry => entry.versionTime !== undefined
+      ? [entry.modId, Math.floor(entry.versionTime / 1000)]
+      : [entry.modId])
+  };
+  if (contents.profileName) payload.n = contents.profileName;
+  if (contents.hasLoadOrder) payload.o = 1;
+
+  const body = zlib.deflateRawSync(Buffer.from(JSON.stringify(payload), 'utf-8'), { level: 9 });
+  return SHARE_CODE_PREFIX + Buffer.concat([checksum(body), body]).toString('base64url');
+}
+
+/**
+ * Decodes a share code, ignoring whitespace added when pasting it
+ * Throws if the code is malformed or fails its checksum
+ */
+export function decodeShareCode(code: string): ShareCodeContents {
+  const trimmed = (code || '').replace(/\s+/g, '');
+  if (!trimmed.startsWith(SHARE_CODE_PREFIX)) {
+    throw new Error('Not a mod share code');
+  }
+
+  const data = Buffer.from(trimmed.slice(SHARE_CODE_PREFIX.length), 'base64url');
+  const body = data.subarray(CHECKSUM_BYTES);
+  if (body.length === 0 || !checksum(body).equals(data.subarray(0, CHECKSUM_BYTES))) {
+    throw new Error('Share code is damaged or incomplete');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(zlib.inflateRawSync(body, { maxOutputLength: MAX_PAYLOAD_BYTES }).toString('utf-8'));
+  } catch {
+    throw new Error('Share code is damaged or incomplete');
+  }
+
+  if (!isSharePayload(payload)) {
+    throw new Error('Share code contains an invalid mod list');
+  }
+
+  return {
+    profileName: typeof payload.n === 'string' && payload.n ? payload.n : undefined,
+    hasLoadOrder: payload.o === 1,
+    mods: payload.m.map(entry => ({
+      modId: entry[0],
+      versionTime: entry[1] !== undefined ? entry[1] * 1000 : undefined
+    }))
+  };
+}
+
+function checksum(body: Buffer): Buffer {
+  return crypto.createHash('sha256').update(body).digest().subarray(0, CHECKSUM_BYTES);
+}
+
+function isSharePayload(payload: unknown): payload is { n?: unknown; o?: unknown; m: Array<[string, number?]> } {
+  if (typeof payload !== 'object' || payload === null) {
+    return false;
+  }
+  const { m } = payload as { m?: unknown };
+  return Array.isArray(m) && m.every(entry => Array.isArray(entry) && isWorkshopId(entry[0]) &&
+    (entry[1] === undefined || Number.isInteger(entry[1])));
+}
+
+function isWorkshopId(modId: unknown): modId is string {
+  return typeof modId === 'string' && /^\d+$/.test(modId);
+}
+
+function getSteamUrl(modId: string): string {
+  return `steam://url/CommunityFilePage/${modId}`;
+}
+
+/**
+ * Publish time of the installed version, as recorded in Steam's manifest
+ * The Workshop API's last update says nothing about what is on disk, so
+ * without a manifest entry the version is left unknown
+ */
+function getVersionTime(mod: ModInfo): number | undefined {
+  return mod.workshopState?.installedVersionTime || undefined;
+}
@@ -0,0 +1,248 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SteamLibraryFolder, SteamPathDiscovery } from '../types';
+import { getVdfValue, parseVdf, VdfObject } from '../utils/vdfParser';
+import { logger } from '../utils/logger';
+
+/**
+ * Steam App ID of Escape from Duckov
+ */
+export const DUCKOV_APP_ID = '3167020';
+
+/**
+ * Install folder name used when the app manifest can't be read
+ */
+const DEFAULT_GAME_FOLDER_NAME = 'Escape from Duckov';
+
+/**
+ * Folders (relative to the game install) where the game loads side-loaded mods from
+ */
+const GAME_MODS_FOLDERS = [path.join('Duckov_Data', 'Mods'), 'Mods'];
+
+/**
+ * SteamDiscoveryService - Finds Steam installs and Duckov's mod folders
+ *
+ * Looks for Steam in its standard per-platform locations, reads every library
+ * listed in `steamapps/libraryfolders.vdf` and checks each library for the
+ * Duckov workshop content folder and game install. Nothing here throws for a
+ * missing or unreadable Steam install; it just finds less.
+ *
+ * Platform, environment and home directory can be injected for tests.
+ */
+export class SteamDiscoveryService {
+  constructor(
+    private platform: NodeJS.Platform = process.platform,
+    private env: NodeJS.ProcessEnv = process.env,
+    private homeDir: string = os.homedir()
+  ) {}
+
+  /**
+   * Finds Steam libraries and suggests workshop and game Mods folders
+   */
+  async discover(): Promise<SteamPathDiscovery> {
+    const steamRoots = await this.findSteamRoots();
+    const libraryPaths: string[] = [];
+
+    for (const root of steamRoots) {
+      for (const libraryPath of [root, ...(await this.readLibraryFolders(root))]) {
+        await addUniquePath(libraryPaths, libraryPath);
+      }
+    }
+
+    const libraries: SteamLibraryFolder[] = [];
+    for (const libraryPath of libraryPaths) {
+      libraries.push(await this.inspectLibrary(libraryPath));
+    }
+
+    const gameModsPaths: string[] = [];
+    for (const library of libraries) {
+      if (!library.gamePath) continue;
+
+      for (const folder of GAME_MODS_FOLDERS) {
+        const candidate = path.join(library.gamePath, folder);
+        if (await isDirectory(candidate)) {
+          gameModsPaths.push(candidate);
+          break;
+        }
+      }
+    }
+
+    const result: SteamPathDiscovery = {
+      steamRoots,
+      libraries,
+      workshopPaths: libraries.filter(library => library.workshopPath).map(library => library.workshopPath!),
+      gameModsPaths
+    };
+
+    logger.info(
+      `Steam discovery: ${steamRoots.length} install(s), ${libraries.length} library folder(s), ` +
+      `${result.workshopPaths.length} workshop folder(s), ${gameModsPaths.length} game Mods folder(s)`
+    );
+
+    return result;
+  }
+
+  /**
+   * Standard Steam install locations for the current platform that exist
+   */
+  async findSteamRoots(): Promise<string[]> {
+    const roots: string[] = [];
+
+    for (const candidate of this.getSteamRootCandidates()) {
+      if (await isDirectory(path.join(candidate, 'steamapps'))) {
+        await addUniquePath(roots, candidate);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Reads the library folders listed by a Steam install
+   * Handles both the current format (`"0" { "path" "..." }`) and the older
+   * one (`"1" "D:\\SteamLibrary"`), and the legacy location under config/
+   */
+  async readLibraryFolders(steamRoot: string): Promise<string[]> {
+    const files = [
+      path.join(steamRoot, 'steamapps', 'libraryfolders.vdf'),
+      path.join(steamRoot, 'config', 'libraryfolders.vdf')
+    ];
+    const folders: string[] = [];
+
+    for (const file of files) {
+      const content = await readOptionalFile(file);
+      if (content === null) continue;
+
+      try {
+        const parsed = parseVdf(content);
+        const root = getVdfValue(parsed, 'libraryfolders') || getVdfValue(parsed, 'LibraryFolders');
+        if (!root || typeof root === 'string') continue;
+
+        for (const [key, value] of Object.entries(root)) {
+          if (!/^\d+$/.test(key)) continue;
+
+          const folder = typeof value === 'string' ? value : getVdfValue(value, 'path');
+          if (typeof folder === 'string' && folder.trim()) {
+            folders.push(folder.trim());
+          }
+        }
+      } catch (error) {
+        logger.warn(`Failed to parse ${file}:`, error);
+      }
+    }
+
+    return folders;
+  }
+
+  private async inspectLibrary(libraryPath: string): Promise<SteamLibraryFolder> {
+    const steamapps = path.join(libraryPath, 'steamapps');
+    const library: SteamLibraryFolder = { path: libraryPath };
+
+    const workshopPath = path.join(steamapps, 'workshop', 'content', DUCKOV_APP_ID);
+    if (await isDirectory(workshopPath)) {
+      library.workshopPath = workshopPath;
+    }
+
+    const gamePath = path.join(steamapps, 'common', await this.readInstallDir(steamapps));
+    if (await isDirectory(gamePath)) {
+      library.gamePath = gamePath;
+    }
+
+    return library;
+  }
+
+  /**
+   * Reads the game's install folder name from its app manifest
+   */
+  private async readInstallDir(steamapps: string): Promise<string> {
+    const file = path.join(steamapps, `appmanifest_${DUCKOV_APP_ID}.acf`);
+    const content = await readOptionalFile(file);
+    if (content === null) {
+      return DEFAULT_GAME_FOLDER_NAME;
+    }
+
+    try {
+      const state = getVdfValue(parseVdf(content), 'AppState');
+      const installDir = typeof state === 'object' ? getVdfValue(state as VdfObject, 'installdir') : undefined;
+      return typeof installDir === 'string' && installDir.trim() ? installDir.trim() : DEFAULT_GAME_FOLDER_NAME;
+    } catch (error) {
+      logger.warn(`Failed to parse ${file}:`, error);
+      return DEFAULT_GAME_FOLDER_NAME;
+    }
+  }
+
+  private getSteamRootCandidates(): string[] {
+    const home = this.homeDir;
+
+    switch (this.platform) {
+      case 'win32': {
+        const candidates: string[] = [];
+        for (const variable of ['ProgramFiles(x86)', 'ProgramFiles']) {
+          const programFiles = getEnv(this.env, variable);
+          if (programFiles) {
+            candidates.push(path.win32.join(programFiles, 'Steam'));
+          }
+        }
+        candidates.push('C:\\Program Files (x86)\\Steam', 'C:\\Program Files\\Steam');
+        return candidates;
+      }
+      case 'darwin':
+        return [path.join(home, 'Library', 'Application Support', 'Steam')];
+      default:
+        return [
+          path.join(home, '.steam', 'steam'),
+          path.join(home, '.steam', 'root'),
+          path.join(home, '.local', 'share', 'Steam'),
+          path.join(home, '.var', 'app', 'com.valvesoftware.Steam', '.local', 'share', 'Steam'),
+          path.join(home, 'snap', 'steam', 'common', '.local', 'share', 'Steam')
+        ];
+    }
+  }
+}
+
+/**
+ * Windows environment variables are case-insensitive, but process.env copies aren't
+ */
+function getEnv(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const key = Object.keys(env).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  return key ? env[key] : undefined;
+}
+
+/**
+ * Adds a path unless it's already listed, comparing resolved symlinks
+ * (~/.steam/steam and ~/.steam/root usually point at the same install)
+ */
+async function addUniquePath(paths: string[], candidate: string): Promise<void> {
+  const key = await realPathKey(candidate);
+  for (const existing of paths) {
+    if ((await realPathKey(existing)) === key) return;
+  }
+  paths.push(candidate);
+}
+
+async function realPathKey(target: string): Promise<string> {
+  let resolved: string;
+  try {
+    resolved = await fs.realpath(target);
+  } catch {
+    resolved = path.resolve(target);
+  }
+  return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+async function isDirectory(target: string): Promise<boolean> {
+  try {
+    return (await fs.stat(target)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function readOptionalFile(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
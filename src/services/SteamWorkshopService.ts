@@ -1,10 +1,24 @@
 import axios from 'axios';
+import { Database } from '../database/Database';
+import { SteamApiSettings, SteamCacheKind, WorkshopCollection } from '../types';
 import { logger } from '../utils/logger';
 
+export const DEFAULT_STEAM_API_BASE_URL = 'https://api.steampowered.com';
+
+/** Cached responses younger than this are used without asking Steam */
+const CACHE_FRESH_MS = 10 * 60 * 1000;
+/** Cached responses older than this are dropped, even as a fallback */
+const CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** EWorkshopFileType of a collection in GetCollectionDetails children */
+const COLLECTION_FILE_TYPE = 2;
+/** Collections nested deeper than this are ignored */
+const MAX_COLLECTION_DEPTH = 5;
+
 /**
  * Steam Workshop API Response Types
  */
-interface SteamWorkshopItem {
+export interface SteamWorkshopItem {
   publishedfileid: string;
   creator: string;
   title: string;
@@ -18,6 +32,13 @@ interface SteamWorkshopItem {
   tags?: Array<{ tag: string }>;
   preview_url?: string;
   file_size?: number;
+  /** Number of required items; missing from older cached responses */
+  num_children?: number;
+  /**
+   * Required items, looked up with GetCollectionDetails since GetPublishedFileDetails
+   * doesn't return them; unset when that lookup failed
+   */
+  children?: Array<{ publishedfileid: string; sortorder?: number; file_type?: number }>;
 }
 
 interface SteamAPIResponse {
@@ -28,66 +49,131 @@ interface SteamAPIResponse {
   };
 }
 
+interface SteamCollectionResponse {
+  response: {
+    result: number;
+    resultcount: number;
+    collectiondetails?: Array<{
+      publishedfileid: string;
+      result: number;
+      children?: Array<{ publishedfileid: string; sortorder?: number; filetype?: number }>;
+    }>;
+  };
+}
+
+export interface SteamWorkshopOptions {
+  /** Steam Web API base URL, e.g. a local stand-in for testing */
+  apiBaseUrl?: string;
+  /** Answer from cached responses only, without contacting Steam */
+  offline?: boolean;
+  /** Attempts per batch before falling back to the cache */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubled for each further retry and jittered */
+  retryDelayMs?: number;
+}
+
+/**
+ * Extracts the ID from a Workshop collection URL, or returns a plain ID as-is
+ */
+export function parseCollectionId(input: string): string {
+  const trimmed = (input || '').trim();
+  if (/^\d+$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  try {
+    const id = new URL(trimmed).searchParams.get('id');
+    if (id && /^\d+$/.test(id)) {
+      return id;
+    }
+  } catch {
+    // Not a URL
+  }
+
+  throw new Error('Not a Steam Workshop collection URL or ID');
+}
+
 /**
  * SteamWorkshopService - Fetches mod metadata from Steam Workshop API
  * 
  * This service makes HTTP requests to Steam's public Workshop API to get
  * mod titles, descriptions, preview images, and other metadata that isn't
  * stored in the local workshop folder.
+ *
+ * Failed batches are retried with backoff. With a database, responses are
+ * cached: fresh ones save a request, older ones stand in when Steam can't be
+ * reached or offline mode is on.
  */
 export class SteamWorkshopService {
-  private readonly STEAM_API_URL = 'https://api.steampowered.com/ISteamRemoteStorage/GetPublishedFileDetails/v1/';
+  private apiBaseUrl!: string;
+  private offline: boolean;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
   private readonly MAX_BATCH_SIZE = 100; // Steam API limit
 
   /**
-   * Fetch details for a single workshop item
+   * @param database - Stores the response cache; nothing is cached without it
+   * @param options - Connection and retry settings
    */
-  async getWorkshopItem(publishedFileId: string): Promise<SteamWorkshopItem | null> {
+  constructor(private database?: Database, options: SteamWorkshopOptions = {}) {
+    this.setApiBaseUrl(options.apiBaseUrl || process.env.STEAM_API_BASE_URL || DEFAULT_STEAM_API_BASE_URL);
+    this.offline = options.offline === true;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  /**
+   * Sets the Steam Web API base URL; an empty URL restores the default
+   * @throws If the URL isn't an http or https URL
+   */
+  setApiBaseUrl(apiBaseUrl: string): void {
+    const baseUrl = (apiBaseUrl || '').trim().replace(/\/+$/, '') || DEFAULT_STEAM_API_BASE_URL;
+
+    let protocol: string;
     try {
-      logger.info(`Fetching Steam Workshop details for mod: ${publishedFileId}`);
+      protocol = new URL(baseUrl).protocol;
+    } catch {
+      protocol = '';
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error('Steam API URL must be an http or https URL');
+    }
 
-      const response = await axios.post<SteamAPIResponse>(
-        this.STEAM_API_URL,
-        new URLSearchParams({
-          itemcount: '1',
-          'publishedfileids[0]': publishedFileId,
-        }),
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          timeout: 10000, // 10 second timeout
-        }
-      );
+    this.apiBaseUrl = baseUrl;
+  }
 
-      if (response.data?.response?.publishedfiledetails?.[0]) {
-        const item = response.data.response.publishedfiledetails[0];
-        
-        // Check if the item was found (result 1 = success)
-        if (item && (item as any).result === 1) {
-          logger.debug(`Successfully fetched details for mod: ${item.title}`);
-          return item;
-        } else {
-          logger.warn(`Mod ${publishedFileId} not found or access denied (result: ${(item as any).result})`);
-          return null;
-        }
-      }
+  /**
+   * Turns offline mode on or off
+   * In offline mode, Workshop details come from the cache only
+   */
+  setOfflineMode(offline: boolean): void {
+    this.offline = offline;
+    logger.info(`Steam Workshop offline mode ${offline ? 'on' : 'off'}`);
+  }
 
-      logger.warn(`No details returned for mod: ${publishedFileId}`);
-      return null;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        logger.error(`Steam API request failed for mod ${publishedFileId}: ${error.message}`);
-      } else {
-        logger.error(`Failed to fetch Steam Workshop item ${publishedFileId}:`, error);
-      }
+  getApiSettings(): SteamApiSettings {
+    return { baseUrl: this.apiBaseUrl, offlineMode: this.offline };
+  }
+
+  /**
+   * Fetch details for a single workshop item
+   */
+  async getWorkshopItem(publishedFileId: string): Promise<SteamWorkshopItem | null> {
+    const item = (await this.getWorkshopItems([publishedFileId])).get(publishedFileId);
+    if (!item) {
+      logger.warn(`Mod ${publishedFileId} not found, access denied or Steam unavailable`);
       return null;
     }
+
+    logger.debug(`Successfully fetched details for mod: ${item.title}`);
+    return item;
   }
 
   /**
    * Fetch details for multiple workshop items in a batch
    * Steam API supports up to 100 items per request
+   * Items Steam can't be asked about fall back to cached details, so a
+   * failed batch doesn't lose the others
    */
   async getWorkshopItems(publishedFileIds: string[]): Promise<Map<string, SteamWorkshopItem>> {
     const results = new Map<string, SteamWorkshopItem>();
@@ -96,67 +182,312 @@ export class SteamWorkshopService {
       return results;
     }
 
-    try {
-      // Process in batches of MAX_BATCH_SIZE
-      for (let i = 0; i < publishedFileIds.length; i += this.MAX_BATCH_SIZE) {
-        const batch = publishedFileIds.slice(i, i + this.MAX_BATCH_SIZE);
-        logger.info(`Fetching Steam Workshop details for batch of ${batch.length} mods (${i + 1}-${i + batch.length} of ${publishedFileIds.length})`);
-
-        const params = new URLSearchParams({
-          itemcount: batch.length.toString(),
-        });
-
-        batch.forEach((id, index) => {
-          params.append(`publishedfileids[${index}]`, id);
-        });
-
-        const response = await axios.post<SteamAPIResponse>(
-          this.STEAM_API_URL,
-          params,
-          {
-            headers: {
-              'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            timeout: 30000, // 30 second timeout for batch requests
+    const { responses, unavailable, error } = await this.fetchDetails(
+      'item',
+      publishedFileIds,
+      batch => this.requestItemDetails(batch)
+    );
+
+    responses.forEach((item) => {
+      // Only add items that were successfully retrieved (result 1 = success)
+      if (item && (item as any).result === 1) {
+        results.set(item.publishedfileid, item);
+      }
+    });
+
+    if (unavailable.length > 0) {
+      logger.warn(`No Steam Workshop details for ${unavailable.length} workshop items: ${error}`);
+    }
+    await this.attachRequiredItems(results);
+    logger.info(`Successfully fetched ${results.size} of ${publishedFileIds.length} workshop items`);
+    return results;
+  }
+
+  /**
+   * Resolves a Workshop collection to the items it contains
+   * Nested collections are expanded in place; each item is listed once, in collection order
+   *
+   * @param collectionInput - Collection URL or ID
+   * @throws If the collection can't be found or Steam can't be reached
+   */
+  async getCollection(collectionInput: string): Promise<WorkshopCollection> {
+    const collectionId = parseCollectionId(collectionInput);
+    logger.info(`Resolving Steam Workshop collection ${collectionId}`);
+
+    const childrenById = new Map<string, Array<{ publishedfileid: string; sortorder?: number; filetype?: number }>>();
+    let pending = [collectionId];
+
+    for (let depth = 0; pending.length > 0 && depth <= MAX_COLLECTION_DEPTH; depth++) {
+      const { responses: details, unavailable, error } = await this.fetchDetails(
+        'collection',
+        pending,
+        batch => this.requestCollectionDetails(batch)
+      );
+      if (unavailable.includes(collectionId)) {
+        throw new Error(`Could not reach Steam to resolve the collection: ${error}`);
+      }
+      const next: string[] = [];
+
+      for (const id of pending) {
+        const detail = details.get(id);
+        if (!detail || detail.result !== 1) {
+          if (id === collectionId) {
+            throw new Error(`Collection ${collectionId} not found, or it is private`);
           }
-        );
-
-        if (response.data?.response?.publishedfiledetails) {
-          response.data.response.publishedfiledetails.forEach((item) => {
-            // Only add items that were successfully retrieved (result 1 = success)
-            if (item && (item as any).result === 1) {
-              results.set(item.publishedfileid, item);
-            }
-          });
+          logger.warn(`Nested collection ${id} not found, private or unavailable`);
+          childrenById.set(id, []);
+          continue;
         }
 
-        // Add a small delay between batches to be nice to Steam's API
-        if (i + this.MAX_BATCH_SIZE < publishedFileIds.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
+        const children = [...(detail.children || [])].sort((a, b) => (a.sortorder ?? 0) - (b.sortorder ?? 0));
+        childrenById.set(id, children);
+        for (const child of children) {
+          if (child.filetype === COLLECTION_FILE_TYPE && !childrenById.has(child.publishedfileid) && !next.includes(child.publishedfileid)) {
+            next.push(child.publishedfileid);
+          }
         }
       }
 
-      logger.info(`Successfully fetched ${results.size} of ${publishedFileIds.length} workshop items`);
-      return results;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        logger.error(`Steam API batch request failed: ${error.message}`);
+      pending = next;
+    }
+
+    const itemIds: string[] = [];
+    const nestedCollectionIds: string[] = [];
+    const visit = (id: string) => {
+      for (const child of childrenById.get(id) || []) {
+        if (child.filetype !== COLLECTION_FILE_TYPE) {
+          if (!itemIds.includes(child.publishedfileid)) itemIds.push(child.publishedfileid);
+        } else if (child.publishedfileid !== collectionId && !nestedCollectionIds.includes(child.publishedfileid)) {
+          // Recorded before visiting, so collections that contain each other end the walk
+          nestedCollectionIds.push(child.publishedfileid);
+          visit(child.publishedfileid);
+        }
+      }
+    };
+    visit(collectionId);
+
+    const title = (await this.getWorkshopItems([collectionId])).get(collectionId)?.title;
+
+    logger.info(
+      `Collection ${collectionId} has ${itemIds.length} items in ${nestedCollectionIds.length} nested collections`
+    );
+    return { collectionId, title, itemIds, nestedCollectionIds };
+  }
+
+  /**
+   * Fills in each item's required items
+   * GetCollectionDetails lists them as the children of a regular item; it is
+   * only asked about items whose details report children (or don't say)
+   */
+  private async attachRequiredItems(items: Map<string, SteamWorkshopItem>): Promise<void> {
+    const withChildren: string[] = [];
+    items.forEach((item, id) => {
+      if (item.num_children === 0) {
+        item.children = [];
       } else {
-        logger.error('Failed to fetch Steam Workshop items:', error);
+        withChildren.push(id);
       }
-      return results;
+    });
+
+    if (withChildren.length === 0) {
+      return;
+    }
+
+    const { responses, unavailable, error } = await this.fetchDetails(
+      'collection',
+      withChildren,
+      batch => this.requestCollectionDetails(batch)
+    );
+
+    responses.forEach((detail, id) => {
+      const item = items.get(id);
+      if (item) {
+        item.children = detail.result === 1
+          ? [...(detail.children || [])]
+            .sort((a, b) => (a.sortorder ?? 0) - (b.sortorder ?? 0))
+            .map(child => ({ publishedfileid: child.publishedfileid, sortorder: child.sortorder, file_type: child.filetype }))
+          : [];
+      }
+    });
+
+    if (unavailable.length > 0) {
+      logger.warn(`Required items of ${unavailable.length} workshop items unknown: ${error}`);
+    }
+  }
+
+  private async requestItemDetails(batch: string[]): Promise<SteamWorkshopItem[]> {
+    const params = new URLSearchParams({
+      itemcount: batch.length.toString(),
+    });
+    batch.forEach((id, index) => {
+      params.append(`publishedfileids[${index}]`, id);
+    });
+
+    const response = await axios.post<SteamAPIResponse>(
+      this.getApiUrl('GetPublishedFileDetails'),
+      params,
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        timeout: 30000, // 30 second timeout for batch requests
+      }
+    );
+    return response.data?.response?.publishedfiledetails || [];
+  }
+
+  private async requestCollectionDetails(batch: string[]) {
+    const params = new URLSearchParams({
+      collectioncount: batch.length.toString(),
+    });
+    batch.forEach((id, index) => {
+      params.append(`publishedfileids[${index}]`, id);
+    });
+
+    const response = await axios.post<SteamCollectionResponse>(
+      this.getApiUrl('GetCollectionDetails'),
+      params,
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        timeout: 30000,
+      }
+    );
+    return response.data?.response?.collectiondetails || [];
+  }
+
+  /**
+   * Fetches raw details of items or collections in batches
+   * Fresh cached responses are used without a request. Batches that still
+   * fail after retrying, and everything in offline mode, fall back to
+   * cached responses up to CACHE_MAX_AGE_MS old.
+   *
+   * @returns Responses by ID, the IDs nothing is known about and why
+   */
+  private async fetchDetails<T extends { publishedfileid: string }>(
+    kind: SteamCacheKind,
+    ids: string[],
+    request: (batch: string[]) => Promise<T[]>
+  ): Promise<{ responses: Map<string, T>; unavailable: string[]; error?: string }> {
+    const responses = new Map<string, T>();
+    const unavailable: string[] = [];
+    const cached = this.readCache<T>(kind, ids);
+    const now = Date.now();
+
+    const pending = ids.filter(id => {
+      const entry = cached.get(id);
+      if (entry && (this.offline || now - entry.fetchedAt.getTime() < CACHE_FRESH_MS)) {
+        responses.set(id, entry.response);
+        return false;
+      }
+      return true;
+    });
+
+    if (this.offline) {
+      unavailable.push(...pending);
+      return { responses, unavailable, error: 'offline mode is on' };
+    }
+
+    let error: string | undefined;
+    for (let i = 0; i < pending.length; i += this.MAX_BATCH_SIZE) {
+      const batch = pending.slice(i, i + this.MAX_BATCH_SIZE);
+      logger.info(`Fetching Steam Workshop ${kind} details for batch of ${batch.length} (${i + 1}-${i + batch.length} of ${pending.length})`);
+
+      try {
+        const results = await this.withRetry(() => request(batch));
+        results.forEach(result => responses.set(result.publishedfileid, result));
+        this.writeCache(kind, results);
+      } catch (batchError) {
+        error = describeError(batchError);
+        let fromCache = 0;
+        for (const id of batch) {
+          const entry = cached.get(id);
+          if (entry) {
+            responses.set(id, entry.response);
+            fromCache++;
+          } else {
+            unavailable.push(id);
+          }
+        }
+        logger.error(`Steam API batch request failed: ${error}; ${fromCache} of ${batch.length} answered from the cache`);
+      }
+
+      // Add a small delay between batches to be nice to Steam's API
+      if (i + this.MAX_BATCH_SIZE < pending.length) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+
+    return { responses, unavailable, error };
+  }
+
+  /**
+   * Runs a request, retrying network errors, rate limits and server errors
+   * with exponential backoff. The jitter keeps retries from bunching up.
+   */
+  private async withRetry<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= this.maxAttempts || !isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = Math.round(this.retryDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2));
+        logger.warn(`Steam API request failed (${describeError(error)}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private readCache<T>(kind: SteamCacheKind, ids: string[]): Map<string, { response: T; fetchedAt: Date }> {
+    const cached = new Map<string, { response: T; fetchedAt: Date }>();
+    if (!this.database) {
+      return cached;
+    }
+
+    try {
+      for (const entry of this.database.getSteamCache(kind, ids, new Date(Date.now() - CACHE_MAX_AGE_MS))) {
+        cached.set(entry.id, entry);
+      }
+    } catch (error) {
+      logger.warn('Failed to read the Steam API cache:', error);
     }
+    return cached;
+  }
+
+  private writeCache<T extends { publishedfileid: string }>(kind: SteamCacheKind, responses: T[]): void {
+    if (!this.database || responses.length === 0) {
+      return;
+    }
+
+    try {
+      this.database.saveSteamCache(kind, responses.map(response => ({ id: response.publishedfileid, response })));
+      this.database.clearStaleSteamCache(new Date(Date.now() - CACHE_MAX_AGE_MS));
+    } catch (error) {
+      logger.warn('Failed to update the Steam API cache:', error);
+    }
+  }
+
+  private getApiUrl(method: string): string {
+    return `${this.apiBaseUrl}/ISteamRemoteStorage/${method}/v1/`;
   }
 
   /**
    * Check if the Steam Workshop API is accessible
    */
   async validateConnection(): Promise<boolean> {
+    if (this.offline) {
+      return false;
+    }
+
     try {
       // Try to fetch a known workshop item (Core game mod)
       const testModId = '3167020'; // Use app ID as test
       const response = await axios.post<SteamAPIResponse>(
-        this.STEAM_API_URL,
+        this.getApiUrl('GetPublishedFileDetails'),
         new URLSearchParams({
           itemcount: '1',
           'publishedfileids[0]': testModId,
@@ -176,3 +507,18 @@ export class SteamWorkshopService {
     }
   }
 }
+
+/**
+ * Network errors, timeouts, rate limits and server errors are worth retrying
+ */
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,186 @@
+/**
+ * BackupService.test.ts
+ *
+ * Unit tests for the BackupService class
+ * Tests snapshots, restore, pinning and backups taken before Workshop updates
+ */
+
+// Mock dependencies BEFORE imports
+// No Electron app object, so each test database lives at its own DB_PATH
+jest.mock('electron', () => ({}), { virtual: true });
+
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {
+    cacheDir: '',
+    allowRemoteModels: true,
+    allowLocalModels: true
+  }
+}));
+
+import { BackupService } from '../BackupService';
+import { ModService } from '../ModService';
+import { Database } from '../../database/Database';
+import { OfflineTranslationService } from '../OfflineTranslationService';
+import { LocalModService } from '../LocalModService';
+import { SteamWorkshopService } from '../SteamWorkshopService';
+import {
+  createTestDatabase,
+  cleanupTestDb,
+  createMockModFolder,
+  suppressConsoleOutput
+} from '../../__tests__/utils/testHelpers';
+import path from 'path';
+import fs from 'fs';
+
+jest.mock('../SteamWorkshopService');
+
+describe('BackupService', () => {
+  let backupService: BackupService;
+  let modService: ModService;
+  let database: Database;
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+  let workshopDir: string;
+  let backupDir: string;
+  const testName = 'backup-service';
+
+  const readModFile = (modId: string, file: string) => fs.readFileSync(path.join(workshopDir, modId, file), 'utf-8');
+
+  beforeAll(() => {
+    consoleSpy = suppressConsoleOutput();
+  });
+
+  afterAll(() => {
+    consoleSpy.restore();
+  });
+
+  beforeEach(async () => {
+    database = await createTestDatabase(testName);
+    // Steam layout, so the appworkshop manifest two levels up can be written
+    workshopDir = path.join(process.cwd(), 'test-data', testName, 'steamapps', 'workshop', 'content', '3167020');
+    backupDir = path.join(process.cwd(), 'test-data', testName, 'backups');
+    fs.mkdirSync(workshopDir, { recursive: true });
+
+    const steamWorkshopService = new SteamWorkshopService() as jest.Mocked<SteamWorkshopService>;
+    steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(new Map());
+
+    const localModService = new LocalModService(workshopDir);
+    backupService = new BackupService(database, localModService, backupDir);
+    modService = new ModService(
+      database,
+      new OfflineTranslationService(database),
+      localModService,
+      steamWorkshopService,
+      backupService
+    );
+  });
+
+  afterEach(async () => {
+    await database.close();
+    cleanupTestDb(testName);
+    jest.clearAllMocks();
+  });
+
+  test('should snapshot a mod folder into a zip and record it', async () => {
+    createMockModFolder(workshopDir, '111', 3);
+
+    const backup = await backupService.createBackup('111');
+
+    expect(backup.id).toBeGreaterThan(0);
+    expect(backup.reason).toBe('manual');
+    expect(backup.fileCount).toBe(3);
+    expect(backup.contentHash).toHaveLength(64);
+    expect(fs.statSync(backup.archivePath).size).toBe(backup.archiveSize);
+    expect(backup.archivePath.startsWith(path.join(backupDir, 'workshop', '111'))).toBe(true);
+    expect(await backupService.listBackups('111')).toEqual([backup]);
+  });
+
+  test('should fail for a mod without a folder', async () => {
+    await expect(backupService.createBackup('999')).rejects.toThrow('Mod folder not found');
+  });
+
+  test('should restore a backup and keep the replaced version', async () => {
+    createMockModFolder(workshopDir, '111', 2);
+    const backup = await backupService.createBackup('111');
+
+    fs.writeFileSync(path.join(workshopDir, '111', 'file0.txt'), 'updated by Steam');
+    fs.writeFileSync(path.join(workshopDir, '111', 'new.txt'), 'new file');
+
+    await backupService.restoreBackup(backup.id);
+
+    expect(readModFile('111', 'file0.txt')).toBe('Mock file content 0');
+    expect(fs.existsSync(path.join(workshopDir, '111', 'new.txt'))).toBe(false);
+    expect(fs.readdirSync(workshopDir)).toEqual(['111']);
+
+    const backups = await backupService.listBackups('111');
+    expect(backups.map(entry => entry.reason)).toEqual(['pre-restore', 'manual']);
+  });
+
+  test('should keep a single pinned backup per mod', async () => {
+    createMockModFolder(workshopDir, '111', 1);
+    const first = await backupService.createBackup('111');
+    fs.writeFileSync(path.join(workshopDir, '111', 'file0.txt'), 'v2');
+    const second = await backupService.createBackup('111');
+
+    await backupService.setPinned(first.id, true);
+    await backupService.setPinned(second.id, true);
+
+    const pinned = (await backupService.listBackups('111')).filter(backup => backup.pinned);
+    expect(pinned.map(backup => backup.id)).toEqual([second.id]);
+    await expect(backupService.setPinned(12345, true)).rejects.toThrow('not found');
+  });
+
+  test('should reapply a pinned backup on the next scan', async () => {
+    createMockModFolder(workshopDir, '111', 1);
+    const backup = await backupService.createBackup('111');
+    await backupService.setPinned(backup.id, true);
+
+    fs.writeFileSync(path.join(workshopDir, '111', 'file0.txt'), 'updated by Steam');
+    await modService.scanAndSyncLocalMods();
+
+    expect(readModFile('111', 'file0.txt')).toBe('Mock file content 0');
+    expect(await backupService.reapplyPinnedBackups()).toEqual([]);
+  });
+
+  test('should unpin the backup of a removed mod instead of restoring it', async () => {
+    createMockModFolder(workshopDir, '111', 1);
+    const backup = await backupService.createBackup('111');
+    await backupService.setPinned(backup.id, true);
+
+    fs.rmSync(path.join(workshopDir, '111'), { recursive: true, force: true });
+
+    expect(await backupService.reapplyPinnedBackups()).toEqual([]);
+    expect(fs.existsSync(path.join(workshopDir, '111'))).toBe(false);
+    expect((await backupService.listBackups('111'))[0].pinned).toBe(false);
+  });
+
+  test('should back up mods Steam has an update for, once per version', async () => {
+    createMockModFolder(workshopDir, '111', 1);
+    createMockModFolder(workshopDir, '222', 1);
+    fs.writeFileSync(path.join(workshopDir, '..', '..', 'appworkshop_3167020.acf'), `
+      "AppWorkshop"
+      {
+        "appid" "3167020"
+        "WorkshopItemsInstalled"
+        {
+          "111" { "timeupdated" "1700000000" "manifest" "1" }
+          "222" { "timeupdated" "1700000000" "manifest" "2" }
+        }
+        "WorkshopItemDetails"
+        {
+          "111" { "manifest" "1" "latest_manifest" "9" "subscribedby" "42" }
+          "222" { "manifest" "2" "latest_manifest" "2" "subscribedby" "42" }
+        }
+      }
+    `);
+
+    await modService.scanAndSyncLocalMods();
+    await modService.scanAndSyncLocalMods({ fullRescan: true });
+
+    const backups = await backupService.listBackups('111');
+    expect(backups).toHaveLength(1);
+    expect(backups[0].reason).toBe('pre-update');
+    expect(backups[0].versionTime).toBe(1700000000000);
+    expect(await backupService.listBackups('222')).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * ConflictAnalyzer.test.ts
+ *
+ * Unit tests for analyzeModConflicts
+ * Tests file path, assembly name and manifest name conflicts and their severities
+ */
+
+// testHelpers pulls in Database, which imports electron
+jest.mock('electron', () => ({}), { virtual: true });
+
+import { analyzeModConflicts } from '../ConflictAnalyzer';
+import { AssemblyInfo, ModFileEntry } from '../../types';
+import { createMockMod } from '../../__tests__/utils/testHelpers';
+
+function assembly(name: string, version: string = '1.0.0.0'): AssemblyInfo {
+  return { file: `${name}.dll`, name, version, runtimeVersion: 'v4.0.30319', references: [] };
+}
+
+function file(modId: string, path: string, sha256: string = 'a'.repeat(64)): ModFileEntry & { modId: string } {
+  return { modId, path, size: 10, sha256 };
+}
+
+describe('analyzeModConflicts', () => {
+  test('should report no conflicts for unrelated mods', () => {
+    const mods = [
+      createMockMod({ id: '1', assemblies: [assembly('First')] }),
+      createMockMod({ id: '2', assemblies: [assembly('Second')] })
+    ];
+
+    expect(analyzeModConflicts(mods, [file('1', 'Config/first.json'), file('2', 'Config/second.json')])).toEqual([]);
+  });
+
+  test('should flag different versions of the same assembly as high severity', () => {
+    const mods = [
+      createMockMod({ id: '1', assemblies: [assembly('0Harmony', '2.2.2.0')] }),
+      createMockMod({ id: '2', assemblies: [assembly('0Harmony', '2.3.0.0')] })
+    ];
+
+    const [conflict] = analyzeModConflicts(mods, []);
+
+    expect(conflict.type).toBe('assembly');
+    expect(conflict.severity).toBe('high');
+    expect(conflict.key).toBe('0Harmony');
+    expect(conflict.modIds).toEqual(['1', '2']);
+  });
+
+  test('should flag the same assembly version as medium severity', () => {
+    const mods = [
+      createMockMod({ id: '1', assemblies: [assembly('0Harmony', '2.2.2.0')] }),
+      createMockMod({ id: '2', assemblies: [assembly('0harmony', '2.2.2.0')] })
+    ];
+
+    expect(analyzeModConflicts(mods, [])[0].severity).toBe('medium');
+  });
+
+  test('should flag duplicate manifest names', () => {
+    const manifest = { name: 'BetterLoot', tags: [], fields: {} };
+    const mods = [
+      createMockMod({ id: '1', manifest }),
+      createMockMod({ id: '2', manifest: { ...manifest, name: 'betterloot ' } })
+    ];
+
+    const [conflict] = analyzeModConflicts(mods, []);
+
+    expect(conflict.type).toBe('manifest-name');
+    expect(conflict.severity).toBe('high');
+  });
+
+  test('should group shared file paths by the mods sharing them', () => {
+    const mods = [createMockMod({ id: '1' }), createMockMod({ id: '2' })];
+    const files = [
+      file('1', 'Textures/gun.png', 'a'.repeat(64)),
+      file('2', 'Textures/gun.png', 'b'.repeat(64)),
+      file('1', 'Textures/ammo.png'),
+      file('2', 'Textures/ammo.png'),
+      file('1', 'info.ini'),
+      file('2', 'info.ini')
+    ];
+
+    const conflicts = analyzeModConflicts(mods, files);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].type).toBe('file');
+    expect(conflicts[0].severity).toBe('medium');
+    expect(conflicts[0].files).toEqual(['Textures/gun.png', 'Textures/ammo.png']);
+  });
+
+  test('should treat identical shared files as low severity', () => {
+    const mods = [createMockMod({ id: '1' }), createMockMod({ id: '2' })];
+
+    const [conflict] = analyzeModConflicts(mods, [file('1', 'Shared/lib.txt'), file('2', 'Shared/lib.txt')]);
+
+    expect(conflict.severity).toBe('low');
+  });
+
+  test('should lower the severity when fewer than two of the mods are enabled', () => {
+    const mods = [
+      createMockMod({ id: '1', assemblies: [assembly('0Harmony', '2.2.2.0')] }),
+      createMockMod({ id: '2', enabled: false, assemblies: [assembly('0Harmony', '2.3.0.0')] })
+    ];
+
+    expect(analyzeModConflicts(mods, [])[0].severity).toBe('low');
+  });
+
+  test('should sort conflicts by severity', () => {
+    const mods = [
+      createMockMod({ id: '1', assemblies: [assembly('Shared', '1.0.0.0')], manifest: { name: 'Dup', tags: [], fields: {} } }),
+      createMockMod({ id: '2', assemblies: [assembly('Shared', '1.0.0.0')], manifest: { name: 'Dup', tags: [], fields: {} } })
+    ];
+
+    const severities = analyzeModConflicts(mods, [file('1', 'a.txt'), file('2', 'a.txt')]).map(c => c.severity);
+
+    expect(severities).toEqual(['high', 'medium', 'low']);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * DependencyService.test.ts
+ *
+ * Unit tests for the DependencyService class
+ * Tests collecting dependencies, resolving them against installed mods,
+ * warnings and dependency ordering
+ */
+
+// Mock dependencies BEFORE imports
+// No Electron app object, so each test database lives at its own DB_PATH
+jest.mock('electron', () => ({}), { virtual: true });
+
+import { DependencyService, collectModDependencies, orderByDependencies } from '../DependencyService';
+import { Database } from '../../database/Database';
+import { ModInfo } from '../../types';
+import {
+  createTestDatabase,
+  cleanupTestDb,
+  createMockMod,
+  suppressConsoleOutput
+} from '../../__tests__/utils/testHelpers';
+
+describe('DependencyService', () => {
+  let database: Database;
+  let dependencyService: DependencyService;
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+  const testName = 'dependency-service';
+
+  const saveMod = (overrides: Partial<ModInfo>) => {
+    const mod = createMockMod(overrides);
+    database.saveMod(mod);
+    database.saveModDependencies(mod.id, collectModDependencies(mod));
+    return mod;
+  };
+
+  beforeAll(() => {
+    consoleSpy = suppressConsoleOutput();
+  });
+
+  afterAll(() => {
+    consoleSpy.restore();
+  });
+
+  beforeEach(async () => {
+    database = await createTestDatabase(testName);
+    dependencyService = new DependencyService(database);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    cleanupTestDb(testName);
+  });
+
+  describe('Collecting Dependencies', () => {
+    test('should read dependencies from manifest fields', () => {
+      const mod = createMockMod({
+        id: '100',
+        manifest: { tags: [], fields: { dependencies: '200, FrameworkMod', requires: '300' } }
+      });
+
+      expect(collectModDependencies(mod)).toEqual([
+        { modId: '100', dependsOn: '200', source: 'manifest' },
+        { modId: '100', dependsOn: 'FrameworkMod', source: 'manifest' },
+        { modId: '100', dependsOn: '300', source: 'manifest' }
+      ]);
+    });
+
+    test('should find Workshop links in descriptions', () => {
+      const mod = createMockMod({
+        id: '100',
+        originalDescription:
+          '需要前置: [url=https://steamcommunity.com/sharedfiles/filedetails/?id=200]Framework[/url]\n' +
+          'See also https://steamcommunity.com/workshop/filedetails/?searchtext=&id=300 and ' +
+          'https://steamcommunity.com/sharedfiles/filedetails/?id=100'
+      });
+
+      expect(collectModDependencies(mod).map(dependency => dependency.dependsOn)).toEqual(['200', '300']);
+    });
+
+    test('should list each dependency once, preferring the most explicit source', () => {
+      const mod = createMockMod({
+        id: '100',
+        description: 'https://steamcommunity.com/sharedfiles/filedetails/?id=200',
+        manifest: { tags: [], fields: { dependencies: '200' } }
+      });
+
+      expect(collectModDependencies(mod, ['200', '400'])).toEqual([
+        { modId: '100', dependsOn: '200', source: 'manifest' },
+        { modId: '100', dependsOn: '400', source: 'steam' }
+      ]);
+    });
+  });
+
+  describe('Resolving Dependencies', () => {
+    test('should warn about missing and disabled dependencies', async () => {
+      saveMod({ id: '200', title: 'Framework', enabled: false });
+      saveMod({ id: '100', title: 'Needs Framework', manifest: { tags: [], fields: { dependencies: '200, 999' } } });
+
+      const graph = await dependencyService.getDependencyGraph();
+
+      expect(graph.warnings.map(warning => [warning.dependsOn, warning.type])).toEqual([
+        ['200', 'disabled'],
+        ['999', 'missing']
+      ]);
+    });
+
+    test('should resolve dependencies by manifest name', async () => {
+      saveMod({ id: 'local:Framework', manifest: { name: 'FrameworkMod', tags: [], fields: {} } });
+      saveMod({ id: '100', manifest: { tags: [], fields: { dependencies: 'frameworkmod' } } });
+
+      const [dependency] = await dependencyService.getModDependencies('100');
+
+      expect(dependency.resolvedModId).toBe('local:Framework');
+      expect(dependency.status).toBe('satisfied');
+    });
+
+    test('should not warn for disabled mods', async () => {
+      saveMod({ id: '100', enabled: false, manifest: { tags: [], fields: { dependencies: '999' } } });
+
+      const graph = await dependencyService.getDependencyGraph();
+
+      expect(graph.dependencies).toHaveLength(1);
+      expect(graph.warnings).toEqual([]);
+    });
+  });
+
+  describe('Dependency Order', () => {
+    test('should place mods after the mods they depend on', async () => {
+      saveMod({ id: '100', manifest: { tags: [], fields: { dependencies: '200' } } });
+      saveMod({ id: '200', manifest: { tags: [], fields: { dependencies: '300' } } });
+      saveMod({ id: '300' });
+      database.setLoadOrder(['100', '200', '300']);
+
+      expect((await dependencyService.getDependencyGraph()).order).toEqual(['300', '200', '100']);
+    });
+
+    test('should keep the given order for independent mods', () => {
+      const { order } = orderByDependencies(['c', 'a', 'b'], []);
+
+      expect(order).toEqual(['c', 'a', 'b']);
+    });
+
+    test('should report cycles and still order every mod', () => {
+      const dependency = (modId: string, target: string) => ({
+        modId,
+        dependsOn: target,
+        source: 'manifest' as const,
+        resolvedModId: target,
+        status: 'satisfied' as const
+      });
+
+      const { order, cycles } = orderByDependencies(
+        ['a', 'b', 'c', 'd'],
+        [dependency('a', 'b'), dependency('b', 'a'), dependency('c', 'd')]
+      );
+
+      expect(order).toEqual(['d', 'c', 'a', 'b']);
+      expect(cycles).toEqual([['a', 'b']]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * DiskUsageAnalyzer.test.ts
+ *
+ * Unit tests for analyzeDiskUsage
+ * Tests per-mod and per-root totals, file type breakdowns and duplicate detection
+ */
+
+// testHelpers pulls in Database, which imports electron
+jest.mock('electron', () => ({}), { virtual: true });
+
+import { analyzeDiskUsage } from '../DiskUsageAnalyzer';
+import { LocalModEntry, ModFileEntry, ModLibraryRoot } from '../../types';
+import { createMockMod } from '../../__tests__/utils/testHelpers';
+
+const roots: ModLibraryRoot[] = [
+  { name: 'Main', path: '/steam/workshop', type: 'workshop', enabled: true },
+  { name: 'Game Mods', path: '/game/Mods', type: 'local', enabled: true }
+];
+
+function entry(id: string, rootPath: string = '/steam/workshop'): LocalModEntry {
+  const folderName = id.replace(/^local:/, '');
+  return {
+    id,
+    folderName,
+    path: `${rootPath}/${folderName}`,
+    source: id.startsWith('local:') ? 'local' : 'workshop',
+    enabled: true,
+    rootPath
+  };
+}
+
+function file(path: string, size: number, sha256: string = path.padEnd(64, '0')): ModFileEntry {
+  return { path, size, sha256 };
+}
+
+describe('analyzeDiskUsage', () => {
+  test('should total mods, file types and roots', () => {
+    const filesByMod = new Map([
+      ['1', [file('Mod.dll', 300), file('info.ini', 20), file('Assets/a.bundle', 1000)]],
+      ['local:Tweaks', [file('Tweaks.dll', 100), file('README', 5)]]
+    ]);
+
+    const report = analyzeDiskUsage(
+      roots,
+      [entry('1'), entry('local:Tweaks', '/game/Mods')],
+      filesByMod,
+      [createMockMod({ id: '1', title: 'Big Mod' })]
+    );
+
+    expect(report.modCount).toBe(2);
+    expect(report.fileCount).toBe(5);
+    expect(report.totalSize).toBe(1425);
+    expect(report.byType.map(type => type.extension)).toEqual(['.bundle', '.dll', '.ini', '(none)']);
+    expect(report.byType[1]).toEqual({ extension: '.dll', fileCount: 2, size: 400 });
+    expect(report.mods.map(mod => mod.title)).toEqual(['Big Mod', 'Tweaks']);
+    expect(report.roots.map(root => [root.name, root.modCount, root.totalSize])).toEqual([
+      ['Main', 1, 1320],
+      ['Game Mods', 1, 105]
+    ]);
+  });
+
+  test('should list the largest files of each mod, biggest first', () => {
+    const files = Array.from({ length: 12 }, (_, i) => file(`file${i}.txt`, (i + 1) * 10));
+
+    const [mod] = analyzeDiskUsage(roots, [entry('1')], new Map([['1', files]]), []).mods;
+
+    expect(mod.largestFiles).toHaveLength(10);
+    expect(mod.largestFiles[0]).toEqual({ path: 'file11.txt', size: 120 });
+    expect(mod.largestFiles[9].path).toBe('file2.txt');
+  });
+
+  test('should find byte-identical files shipped by different mods', () => {
+    const shared = 'b'.repeat(64);
+    const filesByMod = new Map([
+      ['1', [file('0Harmony.dll', 500, shared), file('copy/0Harmony.dll', 500, shared)]],
+      ['2', [file('libs/0Harmony.dll', 500, shared), file('empty.txt', 0)]],
+      ['3', [file('empty.txt', 0)]]
+    ]);
+
+    const report = analyzeDiskUsage(roots, [entry('1'), entry('2'), entry('3')], filesByMod, []);
+
+    expect(report.duplicates).toHaveLength(1);
+    expect(report.duplicates[0].files.map(f => f.modId)).toEqual(['1', '1', '2']);
+    expect(report.duplicates[0].wastedBytes).toBe(1000);
+    expect(report.duplicateBytes).toBe(1000);
+  });
+
+  test('should not report copies inside a single mod as duplicates', () => {
+    const shared = 'c'.repeat(64);
+    const filesByMod = new Map([['1', [file('a.png', 50, shared), file('b.png', 50, shared)]]]);
+
+    expect(analyzeDiskUsage(roots, [entry('1')], filesByMod, []).duplicates).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * ModHistoryDiff.test.ts
+ *
+ * Unit tests for diffText and getChangedHistoryFields
+ */
+
+// testHelpers pulls in Database, which imports electron
+jest.mock('electron', () => ({}), { virtual: true });
+
+import { diffText, getChangedHistoryFields } from '../ModHistoryDiff';
+import { ModHistoryEntry } from '../../types';
+import { createMockMod } from '../../__tests__/utils/testHelpers';
+
+describe('diffText', () => {
+  test('should mark added and removed words', () => {
+    expect(diffText('Adds a new gun to the shop', 'Adds two new guns to the shop')).toEqual([
+      { type: 'same', text: 'Adds ' },
+      { type: 'removed', text: 'a' },
+      { type: 'added', text: 'two' },
+      { type: 'same', text: ' new ' },
+      { type: 'removed', text: 'gun' },
+      { type: 'added', text: 'guns' },
+      { type: 'same', text: ' to the shop' }
+    ]);
+  });
+
+  test('should diff Chinese text by character', () => {
+    expect(diffText('增加武器', '增加新武器')).toEqual([
+      { type: 'same', text: '增加' },
+      { type: 'added', text: '新' },
+      { type: 'same', text: '武器' }
+    ]);
+  });
+
+  test('should join back into both texts', () => {
+    const before = 'Line one\nLine two\n\nFixed   spacing';
+    const after = 'Line one\nLine 2\nNew line\n\nFixed spacing';
+    const segments = diffText(before, after);
+
+    expect(segments.filter(segment => segment.type !== 'added').map(segment => segment.text).join('')).toBe(before);
+    expect(segments.filter(segment => segment.type !== 'removed').map(segment => segment.text).join('')).toBe(after);
+  });
+
+  test('should handle empty texts', () => {
+    expect(diffText('', 'New description')).toEqual([{ type: 'added', text: 'New description' }]);
+    expect(diffText('Old', '')).toEqual([{ type: 'removed', text: 'Old' }]);
+    expect(diffText('', '')).toEqual([]);
+  });
+});
+
+describe('getChangedHistoryFields', () => {
+  const updated = new Date('2024-03-05T12:00:00Z');
+  const snapshot: ModHistoryEntry = {
+    id: 1,
+    modId: '111',
+    title: '测试模组',
+    description: '描述',
+    translatedTitle: 'Test Mod',
+    tags: ['weapons'],
+    fileSize: 100,
+    timeUpdated: updated,
+    changedFields: [],
+    recordedAt: updated
+  };
+
+  test('should compare original title and description, tags, size and update time', () => {
+    const unchanged = createMockMod({
+      id: '111',
+      title: 'Test Mod',
+      originalTitle: '测试模组',
+      originalDescription: '描述',
+      translatedTitle: 'Test Mod',
+      tags: ['weapons'],
+      fileSize: 100,
+      timeUpdated: updated
+    });
+
+    expect(getChangedHistoryFields(snapshot, unchanged)).toEqual([]);
+    expect(getChangedHistoryFields(snapshot, {
+      ...unchanged,
+      originalDescription: '新描述',
+      tags: ['weapons', 'ui'],
+      fileSize: 200,
+      timeUpdated: new Date('2024-04-01T00:00:00Z')
+    })).toEqual(['description', 'tags', 'fileSize', 'timeUpdated']);
+  });
+
+  test('should compare translated title and description', () => {
+    const mod = createMockMod({
+      id: '111',
+      title: 'Test Mod',
+      originalTitle: '测试模组',
+      originalDescription: '描述',
+      translatedTitle: 'Test Mod',
+      tags: ['weapons'],
+      fileSize: 100,
+      timeUpdated: updated
+    });
+
+    expect(getChangedHistoryFields(snapshot, {
+      ...mod,
+      translatedTitle: 'Testing Mod',
+      translatedDescription: 'Description'
+    })).toEqual(['translatedTitle', 'translatedDescription']);
+  });
+});
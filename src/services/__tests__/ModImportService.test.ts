@@ -0,0 +1,255 @@
+/**
+ * ModImportService.test.ts
+ *
+ * Unit tests for the ModImportService class
+ * Tests mod detection in archives, zip-slip protection, collisions and
+ * restoring the modpack manifest written by exportMods
+ */
+
+// Mock dependencies BEFORE imports
+// No Electron app object, so each test database lives at its own DB_PATH
+jest.mock('electron', () => ({}), { virtual: true });
+
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {
+    cacheDir: '',
+    allowRemoteModels: true,
+    allowLocalModels: true
+  }
+}));
+
+import { ModImportService } from '../ModImportService';
+import { ModService } from '../ModService';
+import { Database } from '../../database/Database';
+import { OfflineTranslationService } from '../OfflineTranslationService';
+import { LocalModService } from '../LocalModService';
+import { SteamWorkshopService } from '../SteamWorkshopService';
+import {
+  createTestDatabase,
+  cleanupTestDb,
+  createMockMod,
+  createMockModFolder,
+  suppressConsoleOutput
+} from '../../__tests__/utils/testHelpers';
+import archiver from 'archiver';
+import path from 'path';
+import fs from 'fs';
+
+jest.mock('../SteamWorkshopService');
+
+describe('ModImportService', () => {
+  let importService: ModImportService;
+  let modService: ModService;
+  let database: Database;
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+  let testDir: string;
+  let workshopDir: string;
+  let localDir: string;
+  const testName = 'mod-import-service';
+
+  const buildZip = (files: Record<string, string>, name = 'import.zip'): Promise<string> => {
+    const zipPath = path.join(testDir, name);
+    const archive = archiver('zip', { store: true });
+    const output = fs.createWriteStream(zipPath);
+
+    return new Promise((resolve, reject) => {
+      output.on('close', () => resolve(zipPath));
+      archive.on('error', reject);
+      archive.pipe(output);
+      for (const [file, content] of Object.entries(files)) {
+        archive.append(content, { name: file });
+      }
+      archive.finalize();
+    });
+  };
+
+  beforeAll(() => {
+    consoleSpy = suppressConsoleOutput();
+  });
+
+  afterAll(() => {
+    consoleSpy.restore();
+  });
+
+  beforeEach(async () => {
+    database = await createTestDatabase(testName);
+    testDir = path.join(process.cwd(), 'test-data', testName);
+    workshopDir = path.join(testDir, 'workshop');
+    localDir = path.join(testDir, 'Mods');
+    fs.mkdirSync(workshopDir, { recursive: true });
+    fs.mkdirSync(localDir, { recursive: true });
+
+    const steamWorkshopService = new SteamWorkshopService() as jest.Mocked<SteamWorkshopService>;
+    steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(new Map());
+
+    const localModService = new LocalModService(workshopDir, localDir);
+    modService = new ModService(
+      database,
+      new OfflineTranslationService(database),
+      localModService,
+      steamWorkshopService
+    );
+    importService = new ModImportService(database, localModService, modService);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    cleanupTestDb(testName);
+    jest.clearAllMocks();
+  });
+
+  test('should detect mods by Workshop ID and info.ini', async () => {
+    const zipPath = await buildZip({
+      '111/file0.txt': 'a',
+      'Cool Mod/info.ini': 'name=CoolMod\ndisplayName=Cool Mod',
+      'Cool Mod/Sub/info.ini': 'name=Nested',
+      'pack/Tagged/info.ini': 'name=Tagged\npublishedFileId=222',
+      '__MACOSX/111/._file0.txt': 'x'
+    });
+
+    const preview = await importService.previewImport(zipPath);
+
+    expect(preview.candidates.map(candidate => [candidate.modId, candidate.archiveFolder, candidate.detectedBy])).toEqual([
+      ['111', '111', 'workshop-id'],
+      ['local:Cool Mod', 'Cool Mod', 'manifest'],
+      ['222', 'pack/Tagged', 'workshop-id']
+    ]);
+    expect(preview.candidates[0].fileCount).toBe(1);
+    expect(preview.candidates[1].title).toBe('Cool Mod');
+    expect(preview.candidates[1].fileCount).toBe(2);
+  });
+
+  test('should ignore hidden and reserved folders', async () => {
+    const zipPath = await buildZip({
+      '.disabled/info.ini': 'name=Disabled',
+      '.hidden/info.ini': 'name=Hidden',
+      '.cache/Inner/info.ini': 'name=Inner',
+      'local/.secret/file0.txt': 'a',
+      'CON/info.ini': 'name=Device',
+      'Good/info.ini': 'name=Good'
+    });
+
+    const preview = await importService.previewImport(zipPath);
+    expect(preview.candidates.map(candidate => candidate.modId)).toEqual(['local:Good']);
+
+    const result = await importService.importMods(zipPath, { rootPath: localDir });
+    expect(result.installed).toEqual(['local:Good']);
+    expect(fs.existsSync(path.join(localDir, 'Good', 'info.ini'))).toBe(true);
+    expect(fs.readdirSync(localDir).filter(name => name.startsWith('.') || name === 'CON')).toEqual([]);
+  });
+
+  test('should reject archives with paths escaping the destination', async () => {
+    // archiver sanitizes names, so write a same-length placeholder and patch it
+    const zipPath = await buildZip({ '111/file0.txt': 'a', 'XX/evil.txt': 'b' });
+    const buffer = fs.readFileSync(zipPath);
+    let position = buffer.indexOf('XX/evil.txt');
+    while (position !== -1) {
+      buffer.write('..', position);
+      position = buffer.indexOf('XX/evil.txt', position);
+    }
+    fs.writeFileSync(zipPath, buffer);
+
+    await expect(importService.previewImport(zipPath)).rejects.toThrow('escapes the destination');
+    await expect(importService.importMods(zipPath, { rootPath: workshopDir })).rejects.toThrow('escapes the destination');
+    expect(fs.readdirSync(workshopDir)).toEqual([]);
+  });
+
+  test('should skip installed mods unless overwriting', async () => {
+    createMockModFolder(workshopDir, '111', 1);
+    const zipPath = await buildZip({ '111/file0.txt': 'imported', '333/file0.txt': 'new' });
+
+    const preview = await importService.previewImport(zipPath);
+    expect(preview.candidates.find(candidate => candidate.modId === '111')?.collision?.path).toBe(path.join(workshopDir, '111'));
+    expect(preview.candidates.find(candidate => candidate.modId === '333')?.collision).toBeUndefined();
+
+    const first = await importService.importMods(zipPath, { rootPath: workshopDir });
+    expect(first.installed).toEqual(['333']);
+    expect(first.skipped).toEqual([{ modId: '111', reason: 'Already installed' }]);
+    expect(fs.readFileSync(path.join(workshopDir, '111', 'file0.txt'), 'utf-8')).toBe('Mock file content 0');
+    expect(database.getMod('333')).not.toBeNull();
+
+    const second = await importService.importMods(zipPath, { rootPath: workshopDir, modIds: ['111'], overwrite: true });
+    expect(second.installed).toEqual(['111']);
+    expect(fs.readFileSync(path.join(workshopDir, '111', 'file0.txt'), 'utf-8')).toBe('imported');
+    // Staging folders are gone
+    expect(fs.readdirSync(workshopDir).filter(name => name.startsWith('.'))).toEqual([]);
+  });
+
+  test('should install into a local root and refuse non-Workshop mods in a Workshop root', async () => {
+    const zipPath = await buildZip({ 'Cool Mod/info.ini': 'name=CoolMod', 'Cool Mod/Cool.dll': 'dll' });
+
+    const workshopResult = await importService.importMods(zipPath, { rootPath: workshopDir });
+    expect(workshopResult.installed).toEqual([]);
+    expect(workshopResult.skipped[0].modId).toBe('local:Cool Mod');
+
+    const localResult = await importService.importMods(zipPath, { rootPath: localDir });
+    expect(localResult.installed).toEqual(['local:Cool Mod']);
+    expect(fs.readFileSync(path.join(localDir, 'Cool Mod', 'Cool.dll'), 'utf-8')).toBe('dll');
+    expect(database.getMod('local:Cool Mod')?.source).toBe('local');
+
+    await expect(importService.importMods(zipPath, { rootPath: path.join(testDir, 'elsewhere') }))
+      .rejects.toThrow('Not an enabled library folder');
+  });
+
+  test('should restore metadata and translations exported with the mods', async () => {
+    createMockModFolder(workshopDir, '111', 2);
+    database.saveMod(createMockMod({
+      id: '111',
+      title: '测试模组',
+      description: '这是描述',
+      originalTitle: '测试模组',
+      originalDescription: '这是描述',
+      translatedTitle: 'Test Mod',
+      translatedDescription: 'This is the description',
+      lastTranslated: new Date(),
+      creator: 'Someone'
+    }));
+    const { zipPath } = await modService.exportMods(['111'], path.join(testDir, 'export.zip'));
+
+    // Import on a machine that has never seen the mod
+    fs.rmSync(path.join(workshopDir, '111'), { recursive: true });
+    database.deleteMod('111');
+    database.clearAllTranslations();
+
+    const preview = await importService.previewImport(zipPath);
+    expect(preview.candidates).toHaveLength(1);
+    expect(preview.candidates[0]).toMatchObject({ modId: '111', detectedBy: 'metadata', hasMetadata: true });
+    expect(preview.bundledTranslations).toBe(2);
+
+    const result = await importService.importMods(zipPath, { rootPath: workshopDir });
+
+    expect(result.installed).toEqual(['111']);
+    expect(result.restoredMetadata).toBe(1);
+    expect(result.restoredTranslations).toBe(2);
+    expect(fs.readdirSync(path.join(workshopDir, '111')).sort()).toEqual(['file0.txt', 'file1.txt']);
+
+    const mod = database.getMod('111');
+    expect(mod?.originalTitle).toBe('测试模组');
+    expect(mod?.translatedTitle).toBe('Test Mod');
+    expect(mod?.creator).toBe('Someone');
+    expect(database.getTranslation('这是描述', 'zh', 'en')?.translatedText).toBe('This is the description');
+  });
+
+  test('should refuse mods that fail the modpack checksums', async () => {
+    const manifest = {
+      format: 'duckov-modpack',
+      formatVersion: 1,
+      appVersion: '1.0.0',
+      exportedAt: new Date().toISOString(),
+      mods: [{
+        folder: '111',
+        mod: createMockMod({ id: '111' }),
+        files: [{ path: 'file0.txt', size: 8, sha256: '0'.repeat(64) }]
+      }],
+      translations: []
+    };
+    const zipPath = await buildZip({ '111/file0.txt': 'tampered', 'modpack.json': JSON.stringify(manifest) });
+
+    const result = await importService.importMods(zipPath, { rootPath: workshopDir });
+
+    expect(result.installed).toEqual([]);
+    expect(result.errors[0]).toContain("doesn't match the modpack manifest: file0.txt");
+    expect(fs.existsSync(path.join(workshopDir, '111'))).toBe(false);
+  });
+});
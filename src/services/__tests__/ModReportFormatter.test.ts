@@ -0,0 +1,80 @@
+/**
+ * ModReportFormatter.test.ts
+ *
+ * Unit tests for renderModReport
+ * Tests each output format, Workshop links and escaping of untrusted titles
+ */
+
+// testHelpers pulls in Database, which imports electron
+jest.mock('electron', () => ({}), { virtual: true });
+
+import { renderModReport } from '../ModReportFormatter';
+import { createMockMod, createMockTranslatedMod } from '../../__tests__/utils/testHelpers';
+
+const updated = new Date('2024-03-05T12:00:00Z');
+const generatedAt = new Date('2024-04-01T00:00:00Z');
+
+const mods = [
+  createMockTranslatedMod({ id: '111', timeUpdated: updated, fileSize: 2048 }),
+  createMockMod({
+    id: 'local:Tweaks',
+    title: 'Tweaks, "v2"',
+    source: 'local',
+    creator: '=HYPERLINK("x")',
+    tags: ['qol', 'ui'],
+    timeUpdated: updated
+  })
+];
+
+describe('renderModReport', () => {
+  test('should render CSV with quoting and formula guarding', () => {
+    const report = renderModReport(mods, 'csv', 'Mods', generatedAt);
+    const lines = report.content.trimEnd().split('\r\n');
+
+    expect(report).toMatchObject({ format: 'csv', fileExtension: 'csv', mimeType: 'text/csv', modCount: 2 });
+    expect(lines[0]).toBe('ID,Title,Translated Title,Workshop Link,Creator,Size (bytes),Tags,Last Updated');
+    expect(lines[1]).toBe(
+      '111,测试模组,Test Mod,https://steamcommunity.com/sharedfiles/filedetails/?id=111,TestCreator,2048,gameplay; weapons,2024-03-05'
+    );
+    expect(lines[2]).toBe('local:Tweaks,"Tweaks, ""v2""",,,"\'=HYPERLINK(""x"")",1024000,qol; ui,2024-03-05');
+  });
+
+  test('should render a Markdown table linking Workshop mods only', () => {
+    const { content } = renderModReport(mods, 'markdown', 'My | Pack', generatedAt);
+
+    expect(content).toContain('# My \\| Pack');
+    expect(content).toContain('2 mods · generated 2024-04-01');
+    expect(content).toContain(
+      '| [测试模组](https://steamcommunity.com/sharedfiles/filedetails/?id=111) (Test Mod) | TestCreator | 2.0 KB | gameplay, weapons | 2024-03-05 |'
+    );
+    expect(content).toContain('| Tweaks, "v2" | =HYPERLINK("x") | 1000.0 KB | qol, ui | 2024-03-05 |');
+  });
+
+  test('should render JSON rows', () => {
+    const parsed = JSON.parse(renderModReport(mods, 'json', 'Mods', generatedAt).content);
+
+    expect(parsed.title).toBe('Mods');
+    expect(parsed.generatedAt).toBe('2024-04-01T00:00:00.000Z');
+    expect(parsed.mods[0]).toMatchObject({ id: '111', originalTitle: '测试模组', translatedTitle: 'Test Mod', size: 2048 });
+    expect(parsed.mods[1].workshopUrl).toBeUndefined();
+  });
+
+  test('should escape HTML in a standalone page', () => {
+    const { content } = renderModReport(
+      [createMockMod({ id: '222', title: '<script>alert(1)</script>', timeUpdated: updated })],
+      'html',
+      'Pack & Friends',
+      generatedAt
+    );
+
+    expect(content.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(content).toContain('<title>Pack &amp; Friends</title>');
+    expect(content).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(content).not.toContain('<script>');
+    expect(content).not.toMatch(/<link|src=/);
+  });
+
+  test('should reject unknown formats', () => {
+    expect(() => renderModReport(mods, 'pdf' as any)).toThrow('Unsupported report format: pdf');
+  });
+});
@@ -35,6 +35,8 @@ import { Database } from '../../database/Database';
 import { OfflineTranslationService } from '../OfflineTranslationService';
 import { LocalModService } from '../LocalModService';
 import { SteamWorkshopService } from '../SteamWorkshopService';
+import { openZip } from '../../utils/zipReader';
+import { DiskUsageReport } from '../../types';
 import {
   createTestDatabase,
   cleanupTestDb,
@@ -43,6 +45,8 @@ import {
   createMockTranslatedMod,
   createTestWorkshopDir,
   createMockModFolder,
+  createMockModManifest,
+  createMockAssembly,
   cleanupTestWorkshopDir,
   suppressConsoleOutput
 } from '../../__tests__/utils/testHelpers';
@@ -157,6 +161,101 @@ describe('ModService', () => {
       expect(mod?.id).toBe('99999');
     });
 
+    test('should use info.ini manifest when Steam has no details', async () => {
+      const modPath = createMockModFolder(workshopDir, '24680');
+      createMockModManifest(modPath, {
+        name: 'BetterLoot',
+        displayName: 'Better Loot',
+        description: 'Improves loot tables',
+        tags: 'Gameplay, Loot'
+      });
+
+      const result = await modService.scanAndSyncLocalMods();
+
+      expect(result.errors).toEqual([]);
+      const mod = await database.getMod('24680');
+      expect(mod?.title).toBe('Better Loot');
+      expect(mod?.description).toBe('Improves loot tables');
+      expect(mod?.tags).toEqual(['Gameplay', 'Loot']);
+      expect(mod?.manifest?.name).toBe('BetterLoot');
+    });
+
+    test('should prefer Steam details over manifest fields', async () => {
+      const modPath = createMockModFolder(workshopDir, '13579');
+      createMockModManifest(modPath, { name: 'LocalName', description: 'Local description' });
+
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(new Map([
+        ['13579', {
+          publishedfileid: '13579',
+          creator: 'SteamAuthor',
+          title: 'Steam Title',
+          description: 'Steam description',
+          time_created: 1700000000,
+          time_updated: 1700000000,
+          subscriptions: 5,
+          favorited: 0,
+          lifetime_subscriptions: 5,
+          views: 10
+        }]
+      ]));
+
+      await modService.scanAndSyncLocalMods();
+
+      const mod = await database.getMod('13579');
+      expect(mod?.title).toBe('Steam Title');
+      expect(mod?.creator).toBe('SteamAuthor');
+      expect(mod?.manifest?.name).toBe('LocalName');
+    });
+
+    test('should include side-loaded mods from the game Mods folder', async () => {
+      // Earlier scans may have fingerprinted this ID; make sure it gets synced again
+      await database.deleteMod('12345');
+      const gameModsDir = path.join(workshopDir, '..', 'Mods');
+      createMockModFolder(workshopDir, '12345');
+      const localModPath = createMockModFolder(gameModsDir, 'MyLocalMod');
+      createMockModManifest(localModPath, { displayName: 'My Local Mod' });
+
+      const multiSourceService = new ModService(
+        database,
+        translationService,
+        new LocalModService(workshopDir, gameModsDir),
+        steamWorkshopService
+      );
+
+      const result = await multiSourceService.scanAndSyncLocalMods();
+
+      expect(result.scanned).toBe(2);
+      expect(steamWorkshopService.getWorkshopItems).toHaveBeenCalledWith(['12345']);
+
+      const localMod = await database.getMod('local:MyLocalMod');
+      expect(localMod?.source).toBe('local');
+      expect(localMod?.title).toBe('My Local Mod');
+      expect((await database.getMod('12345'))?.source).toBe('workshop');
+    });
+
+    test('should store .NET assembly metadata of mod DLLs', async () => {
+      await database.deleteMod('700201');
+      const modPath = createMockModFolder(workshopDir, '700201', 1);
+      fs.writeFileSync(path.join(modPath, 'BetterLoot.dll'), createMockAssembly({
+        name: 'BetterLoot',
+        version: [1, 0, 2, 0],
+        references: [{ name: '0Harmony', version: [2, 2, 2, 0] }]
+      }));
+      fs.writeFileSync(path.join(modPath, 'native.dll'), createMockAssembly({ name: 'native', native: true }));
+
+      await modService.scanAndSyncLocalMods();
+
+      const mod = await database.getMod('700201');
+      expect(mod?.assemblies).toEqual([
+        expect.objectContaining({
+          file: 'BetterLoot.dll',
+          name: 'BetterLoot',
+          version: '1.0.2.0',
+          references: [{ name: '0Harmony', version: '2.2.2.0' }]
+        })
+      ]);
+    });
+
     test('should handle scan errors gracefully', async () => {
       // Use non-existent workshop path
       const invalidService = new ModService(
@@ -170,6 +269,250 @@ describe('ModService', () => {
     });
   });
 
+  describe('Incremental Scans', () => {
+    const modIds = ['700001', '700002'];
+
+    beforeEach(async () => {
+      for (const modId of modIds) {
+        await database.deleteMod(modId);
+      }
+      createMockModFolder(workshopDir, '700001');
+      createMockModFolder(workshopDir, '700002');
+    });
+
+    test('should store a fingerprint for each synced mod', async () => {
+      await modService.scanAndSyncLocalMods();
+
+      const fingerprint = database.getFingerprint('700001');
+      expect(fingerprint?.fileCount).toBe(5);
+      expect(fingerprint?.totalSize).toBeGreaterThan(0);
+    });
+
+    test('should skip unchanged mods on the next scan', async () => {
+      await modService.scanAndSyncLocalMods();
+      steamWorkshopService.getWorkshopItems.mockClear();
+
+      const result = await modService.scanAndSyncLocalMods();
+
+      expect(result.synced.map(mod => mod.id)).not.toContain('700001');
+      expect(result.unchanged).toBeGreaterThanOrEqual(2);
+      expect(steamWorkshopService.getWorkshopItems).not.toHaveBeenCalled();
+    });
+
+    test('should re-sync only mods whose files changed', async () => {
+      await modService.scanAndSyncLocalMods();
+      steamWorkshopService.getWorkshopItems.mockClear();
+
+      fs.writeFileSync(path.join(workshopDir, '700002', 'extra.txt'), 'New file');
+      const result = await modService.scanAndSyncLocalMods();
+
+      const syncedIds = result.synced.map(mod => mod.id);
+      expect(syncedIds).toContain('700002');
+      expect(syncedIds).not.toContain('700001');
+      expect(steamWorkshopService.getWorkshopItems).toHaveBeenCalledWith(['700002']);
+      expect(database.getFingerprint('700002')?.fileCount).toBe(6);
+    });
+
+    test('should re-sync every mod on a full rescan', async () => {
+      await modService.scanAndSyncLocalMods();
+
+      const result = await modService.scanAndSyncLocalMods({ fullRescan: true });
+
+      expect(result.unchanged).toBe(0);
+      expect(result.synced.map(mod => mod.id)).toEqual(expect.arrayContaining(modIds));
+    });
+  });
+
+  describe('Integrity Verification', () => {
+    let modPath: string;
+
+    beforeEach(async () => {
+      await database.deleteMod('700101');
+      modPath = createMockModFolder(workshopDir, '700101', 3);
+      await modService.scanAndSyncLocalMods();
+    });
+
+    test('should record a file manifest when a mod is synced', () => {
+      const files = database.getModFiles('700101');
+
+      expect(files.map(file => file.path)).toEqual(['file0.txt', 'file1.txt', 'file2.txt']);
+      expect(files[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('should report an untouched mod as intact', async () => {
+      const report = await modService.verifyModIntegrity('700101');
+
+      expect(report.hasManifest).toBe(true);
+      expect(report.intact).toBe(true);
+      expect(report.unchangedCount).toBe(3);
+    });
+
+    test('should report added, removed and modified files', async () => {
+      fs.writeFileSync(path.join(modPath, 'file0.txt'), 'Edited locally');
+      fs.rmSync(path.join(modPath, 'file1.txt'));
+      fs.mkdirSync(path.join(modPath, 'Assets'));
+      fs.writeFileSync(path.join(modPath, 'Assets', 'new.dll'), 'New file');
+
+      const report = await modService.verifyModIntegrity('700101');
+
+      expect(report.intact).toBe(false);
+      expect(report.added).toEqual(['Assets/new.dll']);
+      expect(report.removed).toEqual(['file1.txt']);
+      expect(report.modified).toEqual(['file0.txt']);
+      expect(report.unchangedCount).toBe(1);
+    });
+
+    test('should report when no manifest was recorded', async () => {
+      database.saveModFiles('700101', []);
+
+      const report = await modService.verifyModIntegrity('700101');
+
+      expect(report.hasManifest).toBe(false);
+      expect(report.intact).toBe(false);
+    });
+
+    test('should reject mods without a folder', async () => {
+      await expect(modService.verifyModIntegrity('700199')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('Steam Workshop State', () => {
+    let steamWorkshopDir: string;
+    let steamModService: ModService;
+
+    // Steam keeps the manifest two levels above the content folder
+    const writeAppWorkshopManifest = (content: string) => {
+      fs.writeFileSync(path.join(steamWorkshopDir, '..', '..', 'appworkshop_3167020.acf'), content);
+    };
+
+    beforeEach(async () => {
+      steamWorkshopDir = path.join(process.cwd(), 'test-data', testName, 'steamapps', 'workshop', 'content', '3167020');
+      fs.mkdirSync(steamWorkshopDir, { recursive: true });
+      steamModService = new ModService(
+        database,
+        translationService,
+        new LocalModService(steamWorkshopDir),
+        steamWorkshopService
+      );
+
+      for (const id of ['800101', '800102', '800103']) {
+        await database.deleteMod(id);
+        createMockModFolder(steamWorkshopDir, id, 1);
+      }
+
+      writeAppWorkshopManifest(`
+        "AppWorkshop"
+        {
+          "appid" "3167020"
+          "NeedsUpdate" "0"
+          "WorkshopItemsInstalled"
+          {
+            "800101" { "size" "100" "timeupdated" "1700000000" "manifest" "111" }
+            "800102" { "size" "100" "timeupdated" "1700000000" "manifest" "222" }
+          }
+          "WorkshopItemDetails"
+          {
+            "800101" { "manifest" "111" "timeupdated" "1700000000" "timetouched" "1700000500" "subscribedby" "42" "latest_manifest" "111" }
+            "800102" { "manifest" "222" "timeupdated" "1700000000" "timetouched" "1700000500" "subscribedby" "42" "latest_timeupdated" "1710000000" "latest_manifest" "333" }
+            "800104" { "manifest" "444" "timeupdated" "1700000000" "subscribedby" "42" }
+          }
+        }
+      `);
+    });
+
+    test('should store Steam install state with scanned mods', async () => {
+      const result = await steamModService.scanAndSyncLocalMods();
+      const synced = new Map(result.synced.map(mod => [mod.id, mod]));
+
+      expect(synced.get('800101')?.workshopState).toMatchObject({
+        installed: true,
+        subscribed: true,
+        needsUpdate: false,
+        sizeOnDisk: 100,
+        installedAt: 1700000500000
+      });
+      expect(database.getMod('800102')?.workshopState?.needsUpdate).toBe(true);
+      expect(database.getMod('800103')?.workshopState).toBeUndefined();
+    });
+
+    test('should refresh install state of unchanged mods', async () => {
+      await steamModService.scanAndSyncLocalMods();
+      writeAppWorkshopManifest(`
+        "AppWorkshop"
+        {
+          "WorkshopItemsInstalled" { "800102" { "timeupdated" "1710000000" "manifest" "333" } }
+          "WorkshopItemDetails" { "800102" { "manifest" "333" "subscribedby" "42" "latest_manifest" "333" } }
+        }
+      `);
+
+      const result = await steamModService.scanAndSyncLocalMods();
+
+      expect(result.synced.map(mod => mod.id)).not.toContain('800102');
+      expect(database.getMod('800102')?.workshopState?.needsUpdate).toBe(false);
+      expect(database.getMod('800101')?.workshopState).toBeUndefined();
+    });
+
+    test('should report stale, leftover and missing mods', async () => {
+      await steamModService.scanAndSyncLocalMods();
+
+      const report = await steamModService.getWorkshopStateReport();
+
+      expect(report.manifestFound).toBe(true);
+      expect(report.stale.map(entry => entry.modId)).toEqual(['800102']);
+      expect(report.leftover.map(entry => entry.modId)).toEqual(['800103']);
+      expect(report.missing.map(entry => entry.modId)).toEqual(['800104']);
+      expect(report.stale[0].reason).toContain('2024-03-09');
+    });
+
+    test('should report nothing when Steam has not written a manifest', async () => {
+      fs.rmSync(path.join(steamWorkshopDir, '..', '..', 'appworkshop_3167020.acf'));
+
+      const report = await steamModService.getWorkshopStateReport();
+
+      expect(report.manifestFound).toBe(false);
+      expect(report.stale).toEqual([]);
+      expect(report.leftover).toEqual([]);
+    });
+  });
+
+  describe('Required Items', () => {
+    const steamItem = (children?: Array<{ publishedfileid: string }>) => new Map([
+      ['900901', {
+        publishedfileid: '900901',
+        creator: 'SteamAuthor',
+        title: 'Needs Framework',
+        description: 'Requires a framework',
+        time_created: 1700000000,
+        time_updated: 1700000000,
+        subscriptions: 1,
+        favorited: 0,
+        lifetime_subscriptions: 1,
+        views: 1,
+        children
+      }]
+    ]);
+    const steamDependencies = () => database.getModDependencies('900901')
+      .filter(dependency => dependency.source === 'steam')
+      .map(dependency => dependency.dependsOn);
+
+    test('should keep required items when Steam could not list them', async () => {
+      await database.deleteMod('900901');
+      createMockModFolder(workshopDir, '900901', 1);
+
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(steamItem([{ publishedfileid: '900902' }]));
+      await modService.syncModsByIds(['900901']);
+      expect(steamDependencies()).toEqual(['900902']);
+
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(steamItem());
+      await modService.syncModsByIds(['900901'], { fullRescan: true });
+      expect(steamDependencies()).toEqual(['900902']);
+
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(steamItem([]));
+      await modService.syncModsByIds(['900901'], { fullRescan: true });
+      expect(steamDependencies()).toEqual([]);
+    });
+  });
+
   describe('Mod Translation', () => {
     test('should translate mod titles and descriptions', async () => {
       const mod = createMockMod({
@@ -307,6 +650,385 @@ describe('ModService', () => {
     });
   });
 
+  describe('Enable/Disable Mods', () => {
+    test('should move a disabled mod into the disabled folder and back', async () => {
+      const gameModsDir = path.join(process.cwd(), 'test-data', testName, 'game-mods');
+      localModService.setLibraryRoots([
+        ...localModService.getLibraryRoots(),
+        { name: 'Game Mods', path: gameModsDir, type: 'local', enabled: true }
+      ]);
+      database.deleteMod('local:Toggle');
+      createMockModFolder(gameModsDir, 'Toggle');
+      await modService.scanAndSyncLocalMods();
+
+      const disabled = await modService.setModEnabled('local:Toggle', false);
+
+      expect(disabled.enabled).toBe(false);
+      expect(fs.existsSync(path.join(gameModsDir, 'Toggle'))).toBe(false);
+      expect(fs.existsSync(path.join(gameModsDir, '.disabled', 'Toggle'))).toBe(true);
+      expect((await database.getMod('local:Toggle'))?.enabled).toBe(false);
+
+      await modService.setModEnabled('local:Toggle', true);
+
+      expect(fs.existsSync(path.join(gameModsDir, 'Toggle'))).toBe(true);
+      expect((await database.getMod('local:Toggle'))?.enabled).toBe(true);
+    });
+
+    test('should refuse to disable Workshop mods but enable ones already disabled', async () => {
+      createMockModFolder(workshopDir, '12345');
+      createMockModFolder(path.join(workshopDir, '.disabled'), '67890');
+      await modService.scanAndSyncLocalMods();
+
+      await expect(modService.setModEnabled('12345', false)).rejects.toThrow('unsubscribe from it in Steam');
+      expect(fs.existsSync(path.join(workshopDir, '12345'))).toBe(true);
+      expect((await database.getMod('12345'))?.enabled).toBe(true);
+
+      await modService.setModEnabled('67890', true);
+      expect(fs.existsSync(path.join(workshopDir, '67890'))).toBe(true);
+    });
+
+    test('should keep disabled mods in scan results', async () => {
+      createMockModFolder(workshopDir, '12345');
+      createMockModFolder(path.join(workshopDir, '.disabled'), '67890');
+
+      const result = await modService.scanAndSyncLocalMods();
+
+      expect(result.scanned).toBe(2);
+      expect((await database.getMod('67890'))?.enabled).toBe(false);
+      expect((await database.getMod('12345'))?.enabled).toBe(true);
+    });
+
+    test('should reject toggling unknown mods', async () => {
+      await expect(modService.setModEnabled('missing', false)).rejects.toThrow('not found');
+    });
+  });
+
+  describe('Load Order', () => {
+    test('should append newly scanned mods to the load order', async () => {
+      createMockModFolder(workshopDir, '12345');
+      createMockModFolder(workshopDir, '67890');
+      await modService.scanAndSyncLocalMods();
+
+      const order = await modService.getLoadOrder();
+      const scanned = order.filter(mod => ['12345', '67890'].includes(mod.id));
+
+      expect(scanned).toHaveLength(2);
+      expect(scanned.every(mod => mod.loadPriority !== undefined)).toBe(true);
+      expect(order.map(mod => mod.loadPriority)).toEqual(order.map((_, index) => index + 1));
+      // Steam owns the workshop folder, so the order only lives in the database
+      expect(fs.readdirSync(workshopDir).sort()).toEqual(['12345', '67890']);
+    });
+
+    test('should reorder mods, including disabled ones', async () => {
+      createMockModFolder(workshopDir, '111');
+      createMockModFolder(workshopDir, '222');
+      createMockModFolder(path.join(workshopDir, '.disabled'), '333');
+      await modService.scanAndSyncLocalMods();
+
+      const order = await modService.reorderMods(['333', '222']);
+      const ids = order.map(mod => mod.id);
+
+      expect(ids.slice(0, 2)).toEqual(['333', '222']);
+      expect(ids).toContain('111');
+      expect(order.map(mod => mod.loadPriority)).toEqual(order.map((_, index) => index + 1));
+      expect((await modService.getLoadOrder()).map(mod => mod.id)).toEqual(ids);
+    });
+
+    test('should reject invalid load orders', async () => {
+      createMockModFolder(workshopDir, '111');
+      createMockModFolder(workshopDir, '222');
+      await modService.scanAndSyncLocalMods();
+
+      const validation = await modService.validateLoadOrder(['111', '111', '999']);
+      expect(validation.valid).toBe(false);
+      expect(validation.duplicates).toEqual(['111']);
+      expect(validation.unknown).toEqual(['999']);
+      expect(validation.missing).toContain('222');
+
+      await expect(modService.reorderMods(['111', '111'])).rejects.toThrow('duplicate');
+      await expect(modService.reorderMods(['999'])).rejects.toThrow('unknown');
+    });
+  });
+
+  describe('Multiple Library Roots', () => {
+    let secondDir: string;
+    let localDir: string;
+
+    beforeEach(async () => {
+      secondDir = path.join(process.cwd(), 'test-data', testName, 'drive2');
+      localDir = path.join(process.cwd(), 'test-data', testName, 'game-mods');
+      fs.mkdirSync(secondDir, { recursive: true });
+      fs.mkdirSync(localDir, { recursive: true });
+
+      for (const id of ['900101', '900102', '900103', 'local:Tweaks']) {
+        await database.deleteMod(id);
+      }
+
+      localModService.setLibraryRoots([
+        { name: 'Main', path: workshopDir, type: 'workshop', enabled: true },
+        { name: 'Drive 2', path: secondDir, type: 'workshop', enabled: true },
+        { name: 'Game Mods', path: localDir, type: 'local', enabled: true }
+      ]);
+    });
+
+    test('should merge mods from all enabled roots', async () => {
+      createMockModFolder(workshopDir, '900101');
+      createMockModFolder(secondDir, '900102');
+      createMockModFolder(localDir, 'Tweaks');
+
+      const entries = await localModService.scanLocalMods();
+      const byId = new Map(entries.map(entry => [entry.id, entry]));
+
+      expect(byId.get('900101')?.rootPath).toBe(workshopDir);
+      expect(byId.get('900102')?.rootPath).toBe(secondDir);
+      expect(byId.get('local:Tweaks')?.source).toBe('local');
+      expect(localModService.getModPath('900102')).toBe(path.join(secondDir, '900102'));
+    });
+
+    test('should keep the mod from the first root when an ID is in several roots', async () => {
+      createMockModFolder(workshopDir, '900101', 1);
+      createMockModFolder(secondDir, '900101', 3);
+
+      const entries = (await localModService.scanLocalMods()).filter(entry => entry.id === '900101');
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].rootPath).toBe(workshopDir);
+    });
+
+    test('should skip disabled and missing roots', async () => {
+      createMockModFolder(secondDir, '900102');
+      localModService.setLibraryRoots([
+        { name: 'Main', path: workshopDir, type: 'workshop', enabled: true },
+        { name: 'Drive 2', path: secondDir, type: 'workshop', enabled: false },
+        { name: 'Unplugged', path: path.join(secondDir, 'missing'), type: 'workshop', enabled: true }
+      ]);
+
+      const entries = await localModService.scanLocalMods();
+
+      expect(entries.map(entry => entry.id)).not.toContain('900102');
+      expect(localModService.getLibraryRoots()).toHaveLength(3);
+    });
+
+    test('should order mods across roots without writing into them', async () => {
+      createMockModFolder(workshopDir, '900101');
+      createMockModFolder(secondDir, '900102');
+      createMockModFolder(secondDir, '900103');
+      await modService.scanAndSyncLocalMods();
+
+      await modService.reorderMods(['900103', '900101', '900102']);
+
+      const order = (await modService.getLoadOrder()).map(mod => mod.id).filter(id => id.startsWith('9001'));
+      expect(order).toEqual(['900103', '900101', '900102']);
+      expect(fs.readdirSync(workshopDir)).toEqual(['900101']);
+      expect(fs.readdirSync(secondDir).sort()).toEqual(['900102', '900103']);
+    });
+
+    test('should reject roots listed twice or with an unknown type', () => {
+      expect(() => localModService.setLibraryRoots([
+        { name: 'A', path: workshopDir, type: 'workshop', enabled: true },
+        { name: 'B', path: `${workshopDir}/`, type: 'workshop', enabled: true }
+      ])).toThrow('more than once');
+      expect(() => localModService.setLibraryRoots([
+        { name: 'A', path: workshopDir, type: 'steam' as any, enabled: true }
+      ])).toThrow('Invalid library root type');
+    });
+
+    test('should keep the single-path setters working on the first root of each type', () => {
+      localModService.setGameModsPath(secondDir);
+
+      expect(localModService.getGameModsPath()).toBe(secondDir);
+      expect(localModService.getWorkshopPath()).toBe(workshopDir);
+      expect(localModService.getLibraryRoots().map(root => root.name)).toEqual(['Main', 'Drive 2', 'Game Mods']);
+    });
+  });
+
+  describe('Disk Usage', () => {
+    beforeEach(async () => {
+      for (const id of ['900201', '900202']) {
+        await database.deleteMod(id);
+      }
+    });
+
+    test('should analyze mod folders and find files shared by mods', async () => {
+      createMockModFolder(workshopDir, '900201', 3);
+      createMockModFolder(workshopDir, '900202', 2);
+      await modService.scanAndSyncLocalMods();
+
+      const report = await modService.getDiskUsageReport(true);
+      const mod = report.mods.find(usage => usage.modId === '900201');
+
+      expect(mod?.fileCount).toBe(3);
+      expect(mod?.byType[0].extension).toBe('.txt');
+      expect(report.roots[0].path).toBe(workshopDir);
+      // Both mods ship identical file0.txt and file1.txt
+      const shared = report.duplicates.filter(group => group.files.some(file => file.modId === '900202'));
+      expect(shared.map(group => group.files[0].path).sort()).toEqual(['file0.txt', 'file1.txt']);
+    });
+
+    test('should return the stored report until a refresh is requested', async () => {
+      createMockModFolder(workshopDir, '900201', 1);
+      const first = await modService.getDiskUsageReport(true);
+
+      createMockModFolder(workshopDir, '900202', 1);
+      const stored = await modService.getDiskUsageReport();
+      const refreshed = await modService.getDiskUsageReport(true);
+
+      expect(stored.generatedAt).toBeInstanceOf(Date);
+      expect(stored.modCount).toBe(first.modCount);
+      expect(refreshed.modCount).toBe(first.modCount + 1);
+    });
+
+    test('should re-read files that changed since their last sync', async () => {
+      createMockModFolder(workshopDir, '900201', 1);
+      await modService.scanAndSyncLocalMods();
+      const recorded = database.getModFiles('900201');
+
+      // Edited in place, so no folder mtime changes
+      const filePath = path.join(workshopDir, '900201', 'file0.txt');
+      fs.appendFileSync(filePath, 'x'.repeat(100));
+
+      const report = await modService.getDiskUsageReport(true);
+      const mod = report.mods.find(usage => usage.modId === '900201');
+
+      expect(mod?.totalSize).toBe(fs.statSync(filePath).size);
+      expect(database.getModFiles('900201')).toEqual(recorded);
+    });
+
+    test('should re-hash files edited without changing their size', async () => {
+      database.deleteMod('900202');
+      database.deleteMod('900203');
+      createMockModFolder(workshopDir, '900202', 1);
+      createMockModFolder(workshopDir, '900203', 1);
+      await modService.syncModsByIds(['900202', '900203']);
+      const duplicates = (report: DiskUsageReport) =>
+        report.duplicates.filter(group => group.files.some(file => file.modId === '900202'));
+
+      expect(duplicates(await modService.getDiskUsageReport(true))).toHaveLength(1);
+
+      // Same size, different bytes, and a later mtime
+      const filePath = path.join(workshopDir, '900202', 'file0.txt');
+      fs.writeFileSync(filePath, 'Mock file content X');
+      const later = new Date(Date.now() + 5000);
+      fs.utimesSync(filePath, later, later);
+
+      expect(duplicates(await modService.getDiskUsageReport(true))).toEqual([]);
+    });
+  });
+
+  describe('Orphan Cleanup', () => {
+    const ids = ['900301', '900302', '900303', '900304', '900305', '900306'];
+    const localIds = ids.map(id => `local:${id}`);
+    const archiveDir = () => path.join(process.cwd(), 'test-data', testName, 'archives');
+    let gameModsDir: string;
+
+    const createCompleteMod = (root: string, folderName: string) => {
+      const modPath = createMockModFolder(root, folderName, 1);
+      createMockModManifest(modPath, { name: `Mod${folderName}` });
+      fs.writeFileSync(path.join(modPath, `Mod${folderName}.dll`), 'MZ');
+      return modPath;
+    };
+
+    const findOwnOrphans = async () =>
+      (await modService.findOrphans()).orphans.filter(orphan =>
+        ids.includes(orphan.modId) || localIds.includes(orphan.modId)
+      );
+
+    beforeEach(async () => {
+      for (const id of [...ids, ...localIds]) {
+        await database.deleteMod(id);
+      }
+
+      gameModsDir = path.join(process.cwd(), 'test-data', testName, 'game-mods');
+      fs.mkdirSync(gameModsDir, { recursive: true });
+      localModService.setLibraryRoots([
+        ...localModService.getLibraryRoots(),
+        { name: 'Game Mods', path: gameModsDir, type: 'local', enabled: true }
+      ]);
+    });
+
+    test('should find rows without a folder and empty, partial and unrecorded folders', async () => {
+      createCompleteMod(gameModsDir, '900301');
+      await modService.scanAndSyncLocalMods();
+      await database.saveMod(createMockMod({ id: '900302', title: 'Removed Mod' }));
+      fs.mkdirSync(path.join(gameModsDir, '900303'));
+      createMockModFolder(gameModsDir, '900304', 2);
+      createCompleteMod(gameModsDir, '900305');
+
+      const kinds = Object.fromEntries((await findOwnOrphans()).map(orphan => [orphan.modId, orphan.kind]));
+
+      expect(kinds).toEqual({
+        '900302': 'missing-folder',
+        'local:900303': 'empty-folder',
+        'local:900304': 'partial-folder',
+        'local:900305': 'no-metadata'
+      });
+    });
+
+    test('should leave folders in Workshop roots to Steam', async () => {
+      fs.mkdirSync(path.join(workshopDir, '900303'));
+      createMockModFolder(workshopDir, '900304', 2);
+      createCompleteMod(workshopDir, '900305');
+
+      expect(await findOwnOrphans()).toEqual([]);
+      await expect(localModService.removeModFolder(path.join(workshopDir, '900304')))
+        .rejects.toThrow('Not a mod folder');
+    });
+
+    test('should not report rows from a disabled or unreadable root as missing', async () => {
+      const offlineDir = path.join(process.cwd(), 'test-data', testName, 'unplugged');
+      createCompleteMod(gameModsDir, '900301');
+      await modService.scanAndSyncLocalMods();
+      await database.saveMod(createMockMod({ id: '900306', rootPath: offlineDir }));
+
+      localModService.setLibraryRoots([
+        ...localModService.getLibraryRoots().map(root =>
+          root.path === gameModsDir ? { ...root, enabled: false } : root
+        ),
+        { name: 'Unplugged', path: offlineDir, type: 'workshop', enabled: true }
+      ]);
+
+      const report = await modService.findOrphans();
+      const cleanup = await modService.cleanupOrphans(['record:local:900301', 'record:900306'], 'delete');
+
+      expect(report.skippedRoots).toEqual([gameModsDir, offlineDir]);
+      expect(report.orphans.filter(orphan => orphan.modId === 'local:900301' || orphan.modId === '900306')).toEqual([]);
+      expect(cleanup.cleaned).toEqual([]);
+      expect(database.getMod('local:900301')).not.toBeNull();
+      expect(database.getMod('900306')).not.toBeNull();
+    });
+
+    test('should archive selected orphans and remove them', async () => {
+      await database.saveMod(createMockMod({ id: '900302' }));
+      createMockModFolder(gameModsDir, '900304', 2);
+      const orphans = await findOwnOrphans();
+
+      const result = await modService.cleanupOrphans(orphans.map(orphan => orphan.id), 'archive', archiveDir());
+
+      expect(result.cleaned).toHaveLength(2);
+      expect(result.archivePath && fs.statSync(result.archivePath).size).toBeGreaterThan(0);
+      expect(database.getMod('900302')).toBeNull();
+      expect(fs.existsSync(path.join(gameModsDir, '900304'))).toBe(false);
+    });
+
+    test('should skip selections that are no longer orphans', async () => {
+      fs.mkdirSync(path.join(gameModsDir, '900303'));
+      const [orphan] = await findOwnOrphans();
+      createCompleteMod(gameModsDir, '900303');
+      await modService.scanAndSyncLocalMods();
+
+      const result = await modService.cleanupOrphans([orphan.id], 'delete');
+
+      expect(result.cleaned).toEqual([]);
+      expect(result.skipped).toEqual([orphan.id]);
+      expect(fs.existsSync(path.join(gameModsDir, '900303', 'info.ini'))).toBe(true);
+    });
+
+    test('should refuse to remove folders outside the library roots', async () => {
+      await expect(localModService.removeModFolder(path.join(process.cwd(), 'test-data', testName)))
+        .rejects.toThrow('Not a mod folder');
+    });
+  });
+
   describe('Mod Export', () => {
     test('should export mods to ZIP file', async () => {
       // Create mod folders
@@ -352,6 +1074,218 @@ describe('ModService', () => {
         modService.exportMods([], outputPath)
       ).rejects.toThrow();
     });
+
+    test('should describe the export in a modpack manifest', async () => {
+      database.deleteMod('900401');
+      database.deleteMod('900402');
+      createMockModFolder(workshopDir, '900401', 2);
+      createMockModFolder(workshopDir, '900402', 1);
+      await modService.syncModsByIds(['900401', '900402']);
+      await modService.reorderMods(['900402', '900401']);
+
+      const outputPath = path.join(workshopDir, 'modpack.zip');
+      await modService.exportMods(['900401', '900402'], outputPath, { appVersion: '1.2.3', includeLoadOrder: true });
+
+      const archive = await openZip(outputPath);
+      const manifest = JSON.parse((await archive.read(archive.entries.find(entry => entry.name === 'modpack.json')!)).toString());
+
+      expect(manifest.format).toBe('duckov-modpack');
+      expect(manifest.appVersion).toBe('1.2.3');
+      expect(manifest.loadOrder).toEqual(['900402', '900401']);
+      expect(manifest.mods.map((entry: any) => entry.folder)).toEqual(['900401', '900402']);
+      expect(manifest.mods[0].mod.originalTitle).toBeDefined();
+      expect(manifest.mods[0].files).toEqual([
+        { path: 'file0.txt', size: 19, sha256: expect.stringMatching(/^[0-9a-f]{64}$/) },
+        { path: 'file1.txt', size: 19, sha256: expect.stringMatching(/^[0-9a-f]{64}$/) }
+      ]);
+    });
+
+    test('should store files uncompressed at compression level 0', async () => {
+      createMockModFolder(workshopDir, '12345', 2);
+      const outputPath = path.join(workshopDir, 'stored.zip');
+
+      await modService.exportMods(['12345'], outputPath, { compressionLevel: 0 });
+
+      const archive = await openZip(outputPath);
+      const file = archive.entries.find(entry => entry.name === '12345/file0.txt')!;
+      expect((await archive.read(file)).toString()).toBe('Mock file content 0');
+      await expect(modService.exportMods(['12345'], outputPath, { compressionLevel: 10 }))
+        .rejects.toThrow('Compression level');
+    });
+
+    test('should report progress and remove the partial file when canceled', async () => {
+      createMockModFolder(workshopDir, '12345', 5);
+      const outputPath = path.join(workshopDir, 'canceled.zip');
+      const controller = new AbortController();
+      const onProgress = jest.fn(() => controller.abort());
+
+      await expect(
+        modService.exportMods(['12345'], outputPath, { onProgress, signal: controller.signal })
+      ).rejects.toThrow('Export canceled');
+
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({
+        estimatedTotalBytes: expect.any(Number),
+        currentModId: '12345'
+      }));
+      expect(fs.existsSync(outputPath)).toBe(false);
+    });
+
+    test('should stop when canceled while measuring mods', async () => {
+      database.deleteMod('900404');
+      createMockModFolder(workshopDir, '900404', 2);
+      const outputPath = path.join(workshopDir, 'canceled-measuring.zip');
+      const controller = new AbortController();
+      const getModFolderInfo = localModService.getModFolderInfo.bind(localModService);
+      jest.spyOn(localModService, 'getModFolderInfo').mockImplementation(async modId => {
+        controller.abort();
+        return getModFolderInfo(modId);
+      });
+
+      await expect(
+        modService.exportMods(['900404'], outputPath, { signal: controller.signal })
+      ).rejects.toThrow('Export canceled');
+
+      expect(fs.existsSync(outputPath)).toBe(false);
+    });
+
+    test('should report checksum progress and stop before archiving when canceled', async () => {
+      database.deleteMod('900403');
+      createMockModFolder(workshopDir, '900403', 5);
+      await modService.syncModsByIds(['900403']);
+      const outputPath = path.join(workshopDir, 'canceled-checksums.zip');
+      const controller = new AbortController();
+      const onProgress = jest.fn(() => controller.abort());
+
+      await expect(
+        modService.exportMods(['900403'], outputPath, { onProgress, signal: controller.signal })
+      ).rejects.toThrow('Export canceled');
+
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({
+        phase: 'checksums',
+        processedFiles: 1,
+        currentModId: '900403'
+      }));
+      expect(fs.existsSync(outputPath)).toBe(false);
+    });
+
+    test('should export the installed mods of a collection and report the missing ones', async () => {
+      createMockModFolder(workshopDir, '900501', 1);
+      createMockModFolder(workshopDir, '900502', 1);
+      await database.saveMod(createMockMod({ id: '900501' }));
+      await database.saveMod(createMockMod({ id: '900502' }));
+      steamWorkshopService.getCollection = jest.fn().mockResolvedValue({
+        collectionId: '900500',
+        title: 'Friday Night',
+        itemIds: ['900502', '900503', '900501'],
+        nestedCollectionIds: []
+      });
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(new Map([
+        ['900503', { publishedfileid: '900503', title: 'Not Here Yet' }]
+      ]));
+
+      const outputPath = path.join(workshopDir, 'collection.zip');
+      const result = await modService.exportModsFromCollection('900500', outputPath);
+
+      expect(steamWorkshopService.getWorkshopItems).toHaveBeenCalledWith(['900503']);
+      expect(result.exportedCount).toBe(2);
+      expect(result.missingMods).toEqual(['900503']);
+      expect(result.collection.installed).toEqual(['900502', '900501']);
+      expect(result.collection.missing).toEqual([
+        { modId: '900503', title: 'Not Here Yet', steamUrl: 'steam://url/CommunityFilePage/900503' }
+      ]);
+
+      const archive = await openZip(outputPath);
+      const manifest = JSON.parse((await archive.read(archive.entries.find(entry => entry.name === 'modpack.json')!)).toString());
+      expect(manifest.mods.map((entry: any) => entry.folder)).toEqual(['900502', '900501']);
+    });
+
+    test('should not export a collection with nothing installed', async () => {
+      steamWorkshopService.getCollection = jest.fn().mockResolvedValue({
+        collectionId: '900600',
+        itemIds: ['900601'],
+        nestedCollectionIds: []
+      });
+
+      await expect(modService.exportModsFromCollection('900600', path.join(workshopDir, 'empty.zip')))
+        .rejects.toThrow('None of the 1 items in collection 900600 are installed');
+    });
+  });
+
+  describe('Mod History', () => {
+    // History outlives deleted rows and this suite's database persists, so each run uses fresh IDs
+    const runId = `9007${Date.now()}`;
+    const steamItem = (modId: string, description: string, timeUpdated: number) => new Map([
+      [modId, {
+        publishedfileid: modId,
+        creator: 'SteamAuthor',
+        title: 'History Mod',
+        description,
+        time_created: 1700000000,
+        time_updated: timeUpdated,
+        subscriptions: 5,
+        favorited: 0,
+        lifetime_subscriptions: 5,
+        views: 10,
+        file_size: 2048
+      }]
+    ]);
+
+    test('should record a snapshot when a sync finds changed metadata', async () => {
+      const modId = `${runId}1`;
+      createMockModFolder(workshopDir, modId, 1);
+
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(steamItem(modId, 'Adds a shotgun', 1700000000));
+      await modService.syncModsByIds([modId]);
+      // Unchanged metadata adds nothing, even when the folder changed
+      fs.writeFileSync(path.join(workshopDir, modId, 'extra.txt'), 'x');
+      await modService.syncModsByIds([modId]);
+
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(steamItem(modId, 'Adds a better shotgun', 1700086400));
+      fs.writeFileSync(path.join(workshopDir, modId, 'notes.txt'), 'xy');
+      await modService.syncModsByIds([modId]);
+
+      const history = await modService.getModHistory(modId);
+
+      expect(history.map(entry => entry.changedFields)).toEqual([['description', 'timeUpdated'], []]);
+      expect(history[0].description).toBe('Adds a better shotgun');
+      expect(history[0].timeUpdated).toEqual(new Date(1700086400 * 1000));
+      expect(history[0].descriptionDiff).toEqual([
+        { type: 'same', text: 'Adds a ' },
+        { type: 'added', text: 'better ' },
+        { type: 'same', text: 'shotgun' }
+      ]);
+      expect(history[1].changedFields).toEqual([]);
+      expect((await modService.getModHistory()).some(entry => entry.modId === modId)).toBe(true);
+    });
+
+    test('should keep the history when a mod is removed and continue it on reinstall', async () => {
+      const modId = `${runId}3`;
+      createMockModFolder(workshopDir, modId, 1);
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(steamItem(modId, 'Adds a shotgun', 1700000000));
+      await modService.syncModsByIds([modId]);
+
+      database.deleteMod(modId);
+      expect(await modService.getModHistory(modId)).toHaveLength(1);
+
+      // Reinstalled unchanged: nothing new; then updated: one new snapshot
+      await modService.syncModsByIds([modId]);
+      steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(steamItem(modId, 'Adds a better shotgun', 1700086400));
+      await modService.syncModsByIds([modId], { fullRescan: true });
+
+      const history = await modService.getModHistory(modId);
+      expect(history.map(entry => entry.description)).toEqual(['Adds a better shotgun', 'Adds a shotgun']);
+      expect(history[0].changedFields).toEqual(['description', 'timeUpdated']);
+    });
+
+    test('should not record fallback metadata when Steam is unavailable', async () => {
+      const modId = `${runId}2`;
+      createMockModFolder(workshopDir, modId, 1);
+
+      await modService.syncModsByIds([modId]);
+
+      expect(await modService.getModHistory(modId)).toEqual([]);
+    });
   });
 
   describe('Mod Statistics', () => {
@@ -0,0 +1,204 @@
+/**
+ * ModWatcherService.test.ts
+ *
+ * Unit tests for the ModWatcherService class
+ * Tests path-to-mod mapping, debouncing, and incremental sync of changed mods
+ */
+
+// Mock dependencies BEFORE imports
+// No Electron app object, so each test database lives at its own DB_PATH
+jest.mock('electron', () => ({}), { virtual: true });
+
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {
+    cacheDir: '',
+    allowRemoteModels: true,
+    allowLocalModels: true
+  }
+}));
+
+import { ModWatcherService } from '../ModWatcherService';
+import { ModService } from '../ModService';
+import { LocalModService } from '../LocalModService';
+import { OfflineTranslationService } from '../OfflineTranslationService';
+import { SteamWorkshopService } from '../SteamWorkshopService';
+import { Database } from '../../database/Database';
+import { ModChangeSet } from '../../types';
+import {
+  createTestDatabase,
+  cleanupTestDb,
+  createTestWorkshopDir,
+  createMockModFolder,
+  cleanupTestWorkshopDir,
+  suppressConsoleOutput,
+  wait
+} from '../../__tests__/utils/testHelpers';
+import path from 'path';
+import fs from 'fs';
+
+jest.mock('../SteamWorkshopService');
+
+describe('ModWatcherService', () => {
+  let database: Database;
+  let localModService: LocalModService;
+  let modService: ModService;
+  let steamWorkshopService: jest.Mocked<SteamWorkshopService>;
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+  let workshopDir: string;
+  let gameModsDir: string;
+  const testName = 'mod-watcher-service';
+
+  beforeAll(() => {
+    consoleSpy = suppressConsoleOutput();
+  });
+
+  afterAll(() => {
+    consoleSpy.restore();
+  });
+
+  beforeEach(async () => {
+    database = await createTestDatabase(testName);
+    workshopDir = createTestWorkshopDir(testName);
+    gameModsDir = path.join(workshopDir, '..', 'Mods');
+    fs.mkdirSync(gameModsDir, { recursive: true });
+
+    steamWorkshopService = new SteamWorkshopService() as jest.Mocked<SteamWorkshopService>;
+    steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(new Map());
+
+    localModService = new LocalModService(workshopDir, gameModsDir);
+    modService = new ModService(
+      database,
+      new OfflineTranslationService(database),
+      localModService,
+      steamWorkshopService
+    );
+  });
+
+  afterEach(async () => {
+    await database.close();
+    cleanupTestDb(testName);
+    cleanupTestWorkshopDir(testName);
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('Path Mapping', () => {
+    test('should map changed paths to mod IDs', () => {
+      expect(localModService.getModIdForPath('workshop', '12345')).toBe('12345');
+      expect(localModService.getModIdForPath('workshop', path.join('12345', 'Assets', 'mod.dll'))).toBe('12345');
+      expect(localModService.getModIdForPath('workshop', path.join('.disabled', '67890', 'info.ini'))).toBe('67890');
+      expect(localModService.getModIdForPath('local', path.join('MyMod', 'info.ini'))).toBe('local:MyMod');
+    });
+
+    test('should ignore paths that are not mod folders', () => {
+      expect(localModService.getModIdForPath('local', '.DS_Store')).toBeNull();
+      expect(localModService.getModIdForPath('workshop', 'not-a-workshop-id')).toBeNull();
+      expect(localModService.getModIdForPath('workshop', '.disabled')).toBeNull();
+    });
+  });
+
+  describe('Debouncing', () => {
+    test('should coalesce bursts of changes into one sync', async () => {
+      jest.useFakeTimers();
+      const syncSpy = jest.spyOn(modService, 'syncModsByIds')
+        .mockResolvedValue({ added: [], updated: [], removed: ['12345'], errors: [] });
+      const onChange = jest.fn();
+      const watcher = new ModWatcherService(localModService, modService, onChange, 500);
+
+      watcher.queueChange('12345');
+      jest.advanceTimersByTime(300);
+      watcher.queueChange('67890');
+      watcher.queueChange('12345');
+      jest.advanceTimersByTime(300);
+
+      expect(syncSpy).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(300);
+      jest.useRealTimers();
+      await wait(0);
+
+      expect(syncSpy).toHaveBeenCalledTimes(1);
+      expect(syncSpy).toHaveBeenCalledWith(['12345', '67890']);
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not notify when nothing changed', async () => {
+      jest.spyOn(modService, 'syncModsByIds')
+        .mockResolvedValue({ added: [], updated: [], removed: [], errors: [] });
+      const onChange = jest.fn();
+      const watcher = new ModWatcherService(localModService, modService, onChange, 10);
+
+      watcher.queueChange('12345');
+      await watcher.flush();
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Incremental Sync', () => {
+    test('should report added, updated and removed mods', async () => {
+      createMockModFolder(workshopDir, '111');
+      createMockModFolder(workshopDir, '222');
+      await modService.scanAndSyncLocalMods();
+
+      fs.writeFileSync(path.join(workshopDir, '111', 'extra.txt'), 'Added later');
+      fs.rmSync(path.join(workshopDir, '222'), { recursive: true, force: true });
+      createMockModFolder(gameModsDir, 'NewMod');
+
+      const changes = await modService.syncModsByIds(['111', '222', 'local:NewMod', '999']);
+
+      expect(changes.added.map(mod => mod.id)).toEqual(['local:NewMod']);
+      expect(changes.added[0].loadPriority).toBeDefined();
+      expect(changes.updated.map(mod => mod.id)).toEqual(['111']);
+      expect(changes.removed).toEqual(['222']);
+      expect(await database.getMod('222')).toBeNull();
+    });
+
+    test('should skip mods whose folders are unchanged', async () => {
+      createMockModFolder(workshopDir, '333');
+      await modService.scanAndSyncLocalMods();
+      steamWorkshopService.getWorkshopItems.mockClear();
+
+      const changes = await modService.syncModsByIds(['333']);
+
+      expect(changes.updated).toEqual([]);
+      expect(steamWorkshopService.getWorkshopItems).not.toHaveBeenCalled();
+    });
+
+    test('should keep mods whose library root cannot be read', async () => {
+      const extraDir = path.join(path.dirname(workshopDir), 'extra-mods');
+      createMockModFolder(extraDir, 'Portable');
+      localModService.setLibraryRoots([
+        ...localModService.getLibraryRoots(),
+        { name: 'Extra', path: extraDir, type: 'local', enabled: true }
+      ]);
+      await modService.scanAndSyncLocalMods();
+      expect(await database.getMod('local:Portable')).not.toBeNull();
+
+      fs.rmSync(extraDir, { recursive: true, force: true });
+      const changes = await modService.syncModsByIds(['local:Portable']);
+
+      expect(changes.removed).toEqual([]);
+      expect(await database.getMod('local:Portable')).not.toBeNull();
+    });
+
+    test('should sync mods when their folders change on disk', async () => {
+      const received: ModChangeSet[] = [];
+      const watcher = new ModWatcherService(localModService, modService, changes => received.push(changes), 50);
+
+      watcher.start();
+      try {
+        createMockModFolder(workshopDir, '424242', 1);
+
+        for (let i = 0; i < 50 && received.length === 0; i++) {
+          await wait(100);
+        }
+      } finally {
+        watcher.stop();
+      }
+
+      expect(received.flatMap(changes => changes.added.map(mod => mod.id))).toContain('424242');
+    }, 10000);
+  });
+});
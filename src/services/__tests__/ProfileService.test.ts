@@ -0,0 +1,214 @@
+/**
+ * ProfileService.test.ts
+ *
+ * Unit tests for the ProfileService class
+ * Tests profile CRUD, applying profiles to installed mods, and comparison
+ */
+
+// Mock dependencies BEFORE imports
+// No Electron app object, so each test database lives at its own DB_PATH
+jest.mock('electron', () => ({}), { virtual: true });
+
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {
+    cacheDir: '',
+    allowRemoteModels: true,
+    allowLocalModels: true
+  }
+}));
+
+import { ProfileService, compareProfileEntries } from '../ProfileService';
+import { ModService } from '../ModService';
+import { Database } from '../../database/Database';
+import { OfflineTranslationService } from '../OfflineTranslationService';
+import { LocalModService } from '../LocalModService';
+import { SteamWorkshopService } from '../SteamWorkshopService';
+import {
+  createTestDatabase,
+  cleanupTestDb,
+  createTestWorkshopDir,
+  createMockModFolder,
+  cleanupTestWorkshopDir,
+  suppressConsoleOutput
+} from '../../__tests__/utils/testHelpers';
+import path from 'path';
+import fs from 'fs';
+
+jest.mock('../SteamWorkshopService');
+
+describe('ProfileService', () => {
+  let profileService: ProfileService;
+  let modService: ModService;
+  let database: Database;
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+  let workshopDir: string;
+  let gameModsDir: string;
+  const testName = 'profile-service';
+
+  beforeAll(() => {
+    consoleSpy = suppressConsoleOutput();
+  });
+
+  afterAll(() => {
+    consoleSpy.restore();
+  });
+
+  beforeEach(async () => {
+    database = await createTestDatabase(testName);
+    workshopDir = createTestWorkshopDir(testName);
+    // Workshop mods can't be disabled, so enable/disable tests use the game's Mods folder
+    gameModsDir = path.join(process.cwd(), 'test-data', testName, 'game-mods');
+    fs.mkdirSync(gameModsDir, { recursive: true });
+
+    const steamWorkshopService = new SteamWorkshopService() as jest.Mocked<SteamWorkshopService>;
+    steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(new Map());
+
+    modService = new ModService(
+      database,
+      new OfflineTranslationService(database),
+      new LocalModService(workshopDir, gameModsDir),
+      steamWorkshopService
+    );
+    profileService = new ProfileService(database, modService);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    cleanupTestDb(testName);
+    cleanupTestWorkshopDir(testName);
+    jest.clearAllMocks();
+  });
+
+  describe('Profile CRUD', () => {
+    test('should create a profile from mod IDs', async () => {
+      const profile = await profileService.createProfile('  Co-op  ', ['111', '222', '111'], 'Friends');
+
+      expect(profile.id).toBeGreaterThan(0);
+      expect(profile.name).toBe('Co-op');
+      expect(profile.description).toBe('Friends');
+      expect(profile.mods).toEqual([
+        { modId: '111', enabled: true },
+        { modId: '222', enabled: true }
+      ]);
+    });
+
+    test('should reject empty and duplicate names', async () => {
+      await profileService.createProfile('Solo', ['111']);
+
+      await expect(profileService.createProfile('   ', ['111'])).rejects.toThrow('name is required');
+      await expect(profileService.createProfile('Solo', ['222'])).rejects.toThrow('already exists');
+    });
+
+    test('should update and delete profiles', async () => {
+      const profile = await profileService.createProfile('Testing', ['111']);
+
+      const updated = await profileService.updateProfile(profile.id, {
+        name: 'Testing 2',
+        mods: [{ modId: '222', enabled: false }]
+      });
+
+      expect(updated.name).toBe('Testing 2');
+      expect(updated.mods).toEqual([{ modId: '222', enabled: false }]);
+
+      await profileService.deleteProfile(profile.id);
+      expect(await profileService.getAllProfiles()).toEqual([]);
+      await expect(profileService.deleteProfile(profile.id)).rejects.toThrow('not found');
+    });
+  });
+
+  describe('Applying Profiles', () => {
+    test('should enable profile mods and disable everything else', async () => {
+      createMockModFolder(gameModsDir, 'a');
+      createMockModFolder(gameModsDir, 'b');
+      createMockModFolder(path.join(gameModsDir, '.disabled'), 'c');
+      await modService.scanAndSyncLocalMods();
+
+      const profile = await profileService.createProfile('Co-op', ['local:c', 'local:a', 'local:z']);
+      const result = await profileService.applyProfile(profile.id);
+
+      expect(result.enabled).toEqual(['local:c']);
+      expect(result.disabled).toEqual(['local:b']);
+      expect(result.unchanged).toBe(1);
+      expect(result.missing).toEqual(['local:z']);
+      expect(result.errors).toEqual([]);
+
+      expect(fs.existsSync(path.join(gameModsDir, 'c'))).toBe(true);
+      expect(fs.existsSync(path.join(gameModsDir, '.disabled', 'b'))).toBe(true);
+    });
+
+    test('should apply the profile load order', async () => {
+      createMockModFolder(gameModsDir, 'a');
+      createMockModFolder(gameModsDir, 'b');
+      createMockModFolder(gameModsDir, 'c');
+      await modService.scanAndSyncLocalMods();
+      await modService.reorderMods(['local:a', 'local:b', 'local:c']);
+
+      const profile = await profileService.createProfile('Reversed', [
+        { modId: 'local:c', enabled: true },
+        { modId: 'local:z', enabled: true },
+        { modId: 'local:a', enabled: false }
+      ]);
+      const result = await profileService.applyProfile(profile.id);
+
+      expect(result.errors).toEqual([]);
+      expect((await modService.getLoadOrder()).map(mod => mod.id)).toEqual(['local:c', 'local:a', 'local:b']);
+    });
+
+    test('should capture the current load order', async () => {
+      createMockModFolder(workshopDir, '111');
+      createMockModFolder(workshopDir, '222');
+      await modService.scanAndSyncLocalMods();
+      await modService.reorderMods(['222', '111']);
+
+      const profile = await profileService.createProfileFromCurrentState('Current');
+
+      expect(profile.mods.map(entry => entry.modId)).toEqual(['222', '111']);
+    });
+
+    test('should capture the current enabled state', async () => {
+      createMockModFolder(workshopDir, '111');
+      createMockModFolder(path.join(workshopDir, '.disabled'), '222');
+      await modService.scanAndSyncLocalMods();
+
+      const profile = await profileService.createProfileFromCurrentState('Current');
+      const states = Object.fromEntries(profile.mods.map(entry => [entry.modId, entry.enabled]));
+
+      expect(states).toEqual({ '111': true, '222': false });
+    });
+  });
+
+  describe('Comparing Profiles', () => {
+    test('should report membership, enabled state and order differences', () => {
+      const comparison = compareProfileEntries(
+        [
+          { modId: 'a', enabled: true },
+          { modId: 'b', enabled: true },
+          { modId: 'c', enabled: false }
+        ],
+        [
+          { modId: 'b', enabled: true },
+          { modId: 'a', enabled: true },
+          { modId: 'c', enabled: true },
+          { modId: 'd', enabled: true }
+        ]
+      );
+
+      expect(comparison.onlyInFirst).toEqual([]);
+      expect(comparison.onlyInSecond).toEqual(['d']);
+      expect(comparison.enabledDiffers).toEqual(['c']);
+      expect(comparison.orderDiffers).toBe(true);
+    });
+
+    test('should compare saved profiles by ID', async () => {
+      const first = await profileService.createProfile('First', ['a', 'b']);
+      const second = await profileService.createProfile('Second', ['a', 'b']);
+
+      const comparison = await profileService.compareProfiles(first.id, second.id);
+
+      expect(comparison.orderDiffers).toBe(false);
+      expect(comparison.onlyInFirst).toEqual([]);
+      await expect(profileService.compareProfiles(first.id, 9999)).rejects.toThrow('not found');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * ShareCodeService.test.ts
+ *
+ * Unit tests for the ShareCodeService class
+ * Tests encoding round trips, checksum validation and comparing codes with installed mods
+ */
+
+// Mock dependencies BEFORE imports
+// No Electron app object, so each test database lives at its own DB_PATH
+jest.mock('electron', () => ({}), { virtual: true });
+
+import { ShareCodeService, encodeShareCode, decodeShareCode } from '../ShareCodeService';
+import { Database } from '../../database/Database';
+import { SteamWorkshopService } from '../SteamWorkshopService';
+import {
+  createTestDatabase,
+  cleanupTestDb,
+  createMockMod,
+  suppressConsoleOutput
+} from '../../__tests__/utils/testHelpers';
+import crypto from 'crypto';
+import zlib from 'zlib';
+
+jest.mock('../SteamWorkshopService');
+
+describe('ShareCodeService', () => {
+  let shareCodeService: ShareCodeService;
+  let steamWorkshopService: jest.Mocked<SteamWorkshopService>;
+  let database: Database;
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+  const testName = 'share-code-service';
+  const updated = new Date('2024-03-05T12:00:00Z');
+
+  beforeAll(() => {
+    consoleSpy = suppressConsoleOutput();
+  });
+
+  afterAll(() => {
+    consoleSpy.restore();
+  });
+
+  beforeEach(async () => {
+    database = await createTestDatabase(testName);
+
+    steamWorkshopService = new SteamWorkshopService() as jest.Mocked<SteamWorkshopService>;
+    steamWorkshopService.getWorkshopItems = jest.fn().mockResolvedValue(new Map());
+
+    shareCodeService = new ShareCodeService(database, steamWorkshopService);
+
+    for (const id of ['111', '222', '333', 'local:Tweaks']) {
+      database.saveMod(createMockMod({ id, title: `Mod ${id}`, timeUpdated: updated }));
+    }
+    database.setLoadOrder(['222', '111', '333', 'local:Tweaks']);
+    database.setModEnabled('333', false);
+    database.saveWorkshopStates(new Map([['222', {
+      publishedFileId: '222',
+      installed: true,
+      subscribed: true,
+      needsUpdate: false,
+      installedVersionTime: updated.getTime()
+    }]]));
+  });
+
+  afterEach(async () => {
+    await database.close();
+    cleanupTestDb(testName);
+    jest.clearAllMocks();
+  });
+
+  describe('Encoding', () => {
+    test('should round-trip the mod list, profile name and load order flag', () => {
+      const contents = {
+        profileName: 'Co-op',
+        hasLoadOrder: true,
+        mods: [{ modId: '3012345678', versionTime: 1700000000000 }, { modId: '42', versionTime: undefined }]
+      };
+
+      const code = encodeShareCode(contents);
+
+      expect(code).toMatch(/^DMM1-[A-Za-z0-9_-]+$/);
+      expect(decodeShareCode(code)).toEqual(contents);
+      // Line breaks and spaces added by chat clients are ignored
+      expect(decodeShareCode(` ${code.slice(0, 10)}\n${code.slice(10)} `)).toEqual(contents);
+    });
+
+    test('should reject malformed or damaged codes', () => {
+      const code = encodeShareCode({ hasLoadOrder: false, mods: [{ modId: '111' }] });
+      const tampered = code.slice(0, 10) + (code[10] === 'A' ? 'B' : 'A') + code.slice(11);
+
+      expect(() => decodeShareCode('hello')).toThrow('Not a mod share code');
+      expect(() => decodeShareCode(tampered)).toThrow('damaged or incomplete');
+      expect(() => decodeShareCode(code.slice(0, 12))).toThrow('damaged or incomplete');
+    });
+
+    test('should reject codes that inflate past the size limit', () => {
+      // Valid JSON, padded with whitespace past 1 MiB
+      const body = zlib.deflateRawSync(Buffer.from(JSON.stringify({ m: [['111']] }) + ' '.repeat(2 * 1024 * 1024)));
+      const sum = crypto.createHash('sha256').update(body).digest().subarray(0, 4);
+      const code = `DMM1-${Buffer.concat([sum, body]).toString('base64url')}`;
+
+      expect(() => decodeShareCode(code)).toThrow('damaged or incomplete');
+    });
+  });
+
+  describe('createShareCode', () => {
+    test('should share the enabled Workshop mods in load order by default', async () => {
+      const result = await shareCodeService.createShareCode({ includeLoadOrder: true });
+      const contents = decodeShareCode(result.code);
+
+      expect(result.modCount).toBe(2);
+      expect(result.skipped).toEqual(['local:Tweaks']);
+      expect(contents.hasLoadOrder).toBe(true);
+      // 111 has no Steam manifest entry, so its installed version is unknown
+      expect(contents.mods).toEqual([
+        { modId: '222', versionTime: updated.getTime() },
+        { modId: '111', versionTime: undefined }
+      ]);
+    });
+
+    test('should share a profile under its name', async () => {
+      const profile = database.createProfile('Co-op', [
+        { modId: '333', enabled: true },
+        { modId: '111', enabled: false },
+        { modId: '999', enabled: true }
+      ]);
+
+      const contents = decodeShareCode((await shareCodeService.createShareCode({ profileId: profile.id })).code);
+
+      expect(contents.profileName).toBe('Co-op');
+      expect(contents.mods.map(entry => entry.modId)).toEqual(['333', '999']);
+      expect(contents.mods[1].versionTime).toBeUndefined();
+    });
+
+    test('should refuse to create a code with no Workshop mods', async () => {
+      await expect(shareCodeService.createShareCode({ modIds: ['local:Tweaks'] }))
+        .rejects.toThrow('No Workshop mods to share');
+    });
+  });
+
+  describe('compareShareCode', () => {
+    test('should report missing, extra, outdated and disabled mods', async () => {
+      steamWorkshopService.getWorkshopItems.mockResolvedValue(new Map([
+        ['444', { publishedfileid: '444', title: 'Friend Mod' } as any]
+      ]));
+      const code = encodeShareCode({
+        profileName: 'Friday',
+        hasLoadOrder: true,
+        mods: [
+          { modId: '111', versionTime: updated.getTime() },
+          { modId: '222', versionTime: updated.getTime() + 86400000 },
+          { modId: '333' },
+          { modId: '444' }
+        ]
+      });
+
+      const comparison = await shareCodeService.compareShareCode(code);
+
+      expect(comparison.profileName).toBe('Friday');
+      expect(comparison.total).toBe(4);
+      expect(comparison.missing).toEqual([
+        { modId: '444', title: 'Friend Mod', steamUrl: 'steam://url/CommunityFilePage/444', installedVersionTime: undefined, sharedVersionTime: undefined }
+      ]);
+      expect(comparison.outdated.map(entry => entry.modId)).toEqual(['222']);
+      expect(comparison.disabled.map(entry => entry.modId)).toEqual(['333']);
+      expect(comparison.extra).toEqual([{ modId: 'local:Tweaks', title: 'Mod local:Tweaks', steamUrl: undefined }]);
+      // Installed order is 222, 111
+      expect(comparison.loadOrderDiffers).toBe(true);
+    });
+
+    test('should still compare when Steam is unreachable', async () => {
+      steamWorkshopService.getWorkshopItems.mockRejectedValue(new Error('offline'));
+      const code = encodeShareCode({ hasLoadOrder: false, mods: [{ modId: '222' }, { modId: '555' }] });
+
+      const comparison = await shareCodeService.compareShareCode(code);
+
+      expect(comparison.missing.map(entry => [entry.modId, entry.title])).toEqual([['555', undefined]]);
+      expect(comparison.loadOrderDiffers).toBe(false);
+    });
+  });
+});
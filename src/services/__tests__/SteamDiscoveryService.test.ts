@@ -0,0 +1,117 @@
+/**
+ * SteamDiscoveryService.test.ts
+ *
+ * Unit tests for Steam library and Duckov folder discovery
+ * Builds fake Steam installs under a fake home directory
+ */
+
+// testHelpers pulls in Database, which imports electron
+jest.mock('electron', () => ({}), { virtual: true });
+
+import path from 'path';
+import fs from 'fs';
+import { DUCKOV_APP_ID, SteamDiscoveryService } from '../SteamDiscoveryService';
+import { cleanupTestWorkshopDir, suppressConsoleOutput } from '../../__tests__/utils/testHelpers';
+
+describe('SteamDiscoveryService', () => {
+  const testName = 'steam-discovery-service';
+  const baseDir = path.join(process.cwd(), 'test-data', testName);
+  const homeDir = path.join(baseDir, 'home');
+  const steamRoot = path.join(homeDir, '.local', 'share', 'Steam');
+  const extraLibrary = path.join(baseDir, 'games', 'SteamLibrary');
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+
+  const mkdir = (...parts: string[]) => {
+    const dir = path.join(...parts);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  };
+
+  const writeLibraryFolders = (content: string) => {
+    fs.writeFileSync(path.join(steamRoot, 'steamapps', 'libraryfolders.vdf'), content);
+  };
+
+  beforeEach(() => {
+    consoleSpy = suppressConsoleOutput();
+    cleanupTestWorkshopDir(testName);
+    mkdir(steamRoot, 'steamapps');
+    mkdir(extraLibrary, 'steamapps');
+  });
+
+  afterEach(() => {
+    cleanupTestWorkshopDir(testName);
+    consoleSpy.restore();
+  });
+
+  test('should find the workshop folder and game Mods folder in secondary libraries', async () => {
+    writeLibraryFolders(`
+      "libraryfolders"
+      {
+        "0" { "path" "${steamRoot}" }
+        "1" { "path" "${extraLibrary}" "apps" { "${DUCKOV_APP_ID}" "1" } }
+      }
+    `);
+    const workshopPath = mkdir(extraLibrary, 'steamapps', 'workshop', 'content', DUCKOV_APP_ID);
+    fs.writeFileSync(
+      path.join(extraLibrary, 'steamapps', `appmanifest_${DUCKOV_APP_ID}.acf`),
+      `"AppState" { "appid" "${DUCKOV_APP_ID}" "installdir" "Duckov Game" }`
+    );
+    const modsPath = mkdir(extraLibrary, 'steamapps', 'common', 'Duckov Game', 'Duckov_Data', 'Mods');
+
+    const discovery = await new SteamDiscoveryService('linux', {}, homeDir).discover();
+
+    expect(discovery.steamRoots).toEqual([steamRoot]);
+    expect(discovery.libraries.map(library => library.path)).toEqual([steamRoot, extraLibrary]);
+    expect(discovery.workshopPaths).toEqual([workshopPath]);
+    expect(discovery.gameModsPaths).toEqual([modsPath]);
+    expect(discovery.libraries[1].gamePath).toBe(path.join(extraLibrary, 'steamapps', 'common', 'Duckov Game'));
+  });
+
+  test('should read the older libraryfolders format', async () => {
+    writeLibraryFolders(`
+      "LibraryFolders"
+      {
+        "TimeNextStatsReport" "1700000000"
+        "1" "${extraLibrary}"
+      }
+    `);
+    const workshopPath = mkdir(extraLibrary, 'steamapps', 'workshop', 'content', DUCKOV_APP_ID);
+
+    const discovery = await new SteamDiscoveryService('linux', {}, homeDir).discover();
+
+    expect(discovery.libraries.map(library => library.path)).toEqual([steamRoot, extraLibrary]);
+    expect(discovery.workshopPaths).toEqual([workshopPath]);
+  });
+
+  test('should fall back to the default install folder without an app manifest', async () => {
+    const modsPath = mkdir(steamRoot, 'steamapps', 'common', 'Escape from Duckov', 'Duckov_Data', 'Mods');
+
+    const discovery = await new SteamDiscoveryService('linux', {}, homeDir).discover();
+
+    expect(discovery.gameModsPaths).toEqual([modsPath]);
+    expect(discovery.workshopPaths).toEqual([]);
+  });
+
+  test('should list an install reachable through a symlink only once', async () => {
+    mkdir(homeDir, '.steam');
+    fs.symlinkSync(steamRoot, path.join(homeDir, '.steam', 'steam'), 'dir');
+
+    const roots = await new SteamDiscoveryService('linux', {}, homeDir).findSteamRoots();
+
+    expect(roots).toEqual([path.join(homeDir, '.steam', 'steam')]);
+  });
+
+  test('should survive a corrupt libraryfolders.vdf', async () => {
+    writeLibraryFolders('"libraryfolders" { "0" { "path" ');
+
+    const discovery = await new SteamDiscoveryService('linux', {}, homeDir).discover();
+
+    expect(discovery.libraries.map(library => library.path)).toEqual([steamRoot]);
+  });
+
+  test('should find nothing when Steam is not installed', async () => {
+    const discovery = await new SteamDiscoveryService('darwin', {}, homeDir).discover();
+
+    expect(discovery).toEqual({ steamRoots: [], libraries: [], workshopPaths: [], gameModsPaths: [] });
+  });
+});
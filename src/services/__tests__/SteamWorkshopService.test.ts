@@ -0,0 +1,261 @@
+/**
+ * SteamWorkshopService.test.ts
+ *
+ * Unit tests for the SteamWorkshopService class
+ * Runs against a local stand-in for the Steam Web API
+ */
+
+// testHelpers pulls in Database, which imports electron
+jest.mock('electron', () => ({}), { virtual: true });
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Database } from '../../database/Database';
+import { SteamWorkshopService, parseCollectionId } from '../SteamWorkshopService';
+import { cleanupTestDb, createTestDatabase, suppressConsoleOutput } from '../../__tests__/utils/testHelpers';
+
+type Children = Array<{ publishedfileid: string; sortorder: number; filetype: number }>;
+
+describe('SteamWorkshopService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let service: SteamWorkshopService;
+  let consoleSpy: ReturnType<typeof suppressConsoleOutput>;
+  let collections: Record<string, Children>;
+  let titles: Record<string, string>;
+  let requests: string[];
+  /** Number of upcoming requests answered with 503 */
+  let failures: number;
+  /** Answer every GetCollectionDetails request with 503 */
+  let collectionsDown: boolean;
+
+  const detailRequests = () => requests.filter(request => request.includes('GetPublishedFileDetails'));
+  const item = (id: string, sortorder: number): Children[number] => ({ publishedfileid: id, sortorder, filetype: 0 });
+  const collection = (id: string, sortorder: number): Children[number] => ({ publishedfileid: id, sortorder, filetype: 2 });
+
+  beforeAll(async () => {
+    consoleSpy = suppressConsoleOutput();
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        const ids = Array.from(params.entries())
+          .filter(([key]) => key.startsWith('publishedfileids['))
+          .map(([, value]) => value);
+        requests.push(`${req.url} ${ids.join(',')}`);
+
+        if (failures > 0 || (collectionsDown && req.url?.includes('GetCollectionDetails'))) {
+          failures = Math.max(0, failures - 1);
+          res.statusCode = 503;
+          res.end();
+          return;
+        }
+
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url?.includes('GetCollectionDetails')) {
+          res.end(JSON.stringify({
+            response: {
+              result: 1,
+              resultcount: ids.length,
+              collectiondetails: ids.map(id => collections[id]
+                ? { publishedfileid: id, result: 1, children: collections[id] }
+                : { publishedfileid: id, result: 9 })
+            }
+          }));
+        } else {
+          res.end(JSON.stringify({
+            response: {
+              result: 1,
+              resultcount: ids.length,
+              publishedfiledetails: ids.map(id => titles[id]
+                ? { publishedfileid: id, result: 1, title: titles[id], num_children: collections[id]?.length ?? 0 }
+                : { publishedfileid: id, result: 9 })
+            }
+          }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    // A trailing slash on the base URL is tolerated
+    service = new SteamWorkshopService(undefined, { apiBaseUrl: `${baseUrl}/`, retryDelayMs: 1 });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    consoleSpy.restore();
+  });
+
+  beforeEach(() => {
+    collections = {};
+    titles = {};
+    requests = [];
+    failures = 0;
+    collectionsDown = false;
+  });
+
+  test('should parse collection URLs and IDs', () => {
+    expect(parseCollectionId(' 123456 ')).toBe('123456');
+    expect(parseCollectionId('https://steamcommunity.com/sharedfiles/filedetails/?id=987&searchtext=')).toBe('987');
+    expect(() => parseCollectionId('https://steamcommunity.com/sharedfiles/filedetails/')).toThrow('Not a Steam Workshop collection URL or ID');
+    expect(() => parseCollectionId('my collection')).toThrow('Not a Steam Workshop collection URL or ID');
+  });
+
+  test('should resolve nested collections in order', async () => {
+    collections['100'] = [item('3', 2), collection('200', 1), item('1', 0), collection('300', 3)];
+    collections['200'] = [item('2', 0), item('1', 1), collection('100', 2)];
+    collections['300'] = [item('4', 0)];
+    titles['100'] = 'Friday Night';
+
+    const result = await service.getCollection('https://steamcommunity.com/sharedfiles/filedetails/?id=100');
+
+    expect(result).toEqual({
+      collectionId: '100',
+      title: 'Friday Night',
+      itemIds: ['1', '2', '3', '4'],
+      nestedCollectionIds: ['200', '300']
+    });
+    // Nested collections of the same level are fetched together
+    expect(requests).toContain('/ISteamRemoteStorage/GetCollectionDetails/v1/ 200,300');
+  });
+
+  test('should fail for unknown collections but skip unavailable nested ones', async () => {
+    await expect(service.getCollection('555')).rejects.toThrow('Collection 555 not found, or it is private');
+
+    collections['100'] = [item('1', 0), collection('404', 1)];
+    const result = await service.getCollection('100');
+
+    expect(result.itemIds).toEqual(['1']);
+    expect(result.nestedCollectionIds).toEqual(['404']);
+    expect(result.title).toBeUndefined();
+  });
+
+  test('should report when Steam is unreachable', async () => {
+    const offline = new SteamWorkshopService(undefined, { apiBaseUrl: 'http://127.0.0.1:1', retryDelayMs: 1 });
+
+    await expect(offline.getCollection('100')).rejects.toThrow('Could not reach Steam to resolve the collection');
+  });
+
+  test('should fetch item details from the configured base URL', async () => {
+    titles['42'] = 'Answer';
+
+    const items = await service.getWorkshopItems(['42', '43']);
+
+    expect(Array.from(items.keys())).toEqual(['42']);
+    expect(items.get('42')?.title).toBe('Answer');
+    expect(detailRequests()).toEqual(['/ISteamRemoteStorage/GetPublishedFileDetails/v1/ 42,43']);
+  });
+
+  test('should look up required items with GetCollectionDetails', async () => {
+    titles['42'] = 'Answer';
+    titles['44'] = 'Standalone';
+    collections['42'] = [item('8', 1), item('7', 0)];
+
+    const items = await service.getWorkshopItems(['42', '44']);
+
+    expect(items.get('42')?.children?.map(child => child.publishedfileid)).toEqual(['7', '8']);
+    expect(items.get('44')?.children).toEqual([]);
+    // Items without children aren't looked up
+    expect(requests).toContain('/ISteamRemoteStorage/GetCollectionDetails/v1/ 42');
+  });
+
+  test('should leave required items unknown when they cannot be looked up', async () => {
+    titles['42'] = 'Answer';
+    collections['42'] = [item('7', 0)];
+    collectionsDown = true;
+
+    const items = await service.getWorkshopItems(['42']);
+
+    expect(items.get('42')?.title).toBe('Answer');
+    expect(items.get('42')?.children).toBeUndefined();
+  });
+
+  test('should reject base URLs that are not http or https', () => {
+    expect(() => service.setApiBaseUrl('ftp://example.com')).toThrow('Steam API URL must be an http or https URL');
+    expect(() => service.setApiBaseUrl('not a url')).toThrow('Steam API URL must be an http or https URL');
+    expect(service.getApiSettings().baseUrl).toBe(baseUrl);
+  });
+
+  test('should retry failed batches', async () => {
+    titles['42'] = 'Answer';
+    failures = 2;
+
+    const items = await service.getWorkshopItems(['42']);
+
+    expect(items.get('42')?.title).toBe('Answer');
+    expect(detailRequests()).toHaveLength(3);
+  });
+
+  describe('Response Cache', () => {
+    const testName = 'steam-workshop-service';
+    let database: Database;
+    let cached: SteamWorkshopService;
+
+    beforeEach(async () => {
+      database = await createTestDatabase(testName);
+      cached = new SteamWorkshopService(database, { apiBaseUrl: baseUrl, retryDelayMs: 1 });
+    });
+
+    afterEach(async () => {
+      await database.close();
+      cleanupTestDb(testName);
+    });
+
+    test('should answer from fresh cached responses without asking Steam', async () => {
+      titles['42'] = 'Answer';
+      await cached.getWorkshopItems(['42']);
+      titles['42'] = 'Changed';
+
+      const items = await cached.getWorkshopItems(['42']);
+
+      expect(items.get('42')?.title).toBe('Answer');
+      expect(requests).toHaveLength(1);
+    });
+
+    test('should refresh older responses and fall back to them when Steam fails', async () => {
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+      database.saveSteamCache('item', [{ id: '42', response: { publishedfileid: '42', result: 1, title: 'Cached' } }], hourAgo);
+
+      titles['42'] = 'Fresh';
+      expect((await cached.getWorkshopItems(['42'])).get('42')?.title).toBe('Fresh');
+
+      database.saveSteamCache('item', [{ id: '42', response: { publishedfileid: '42', result: 1, title: 'Cached' } }], hourAgo);
+      failures = 3;
+      const items = await cached.getWorkshopItems(['42', '43']);
+
+      expect(items.get('42')?.title).toBe('Cached');
+      expect(items.has('43')).toBe(false);
+      expect(detailRequests()).toHaveLength(4);
+    });
+
+    test('should ignore responses past the maximum age', async () => {
+      const longAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+      database.saveSteamCache('item', [{ id: '42', response: { publishedfileid: '42', result: 1, title: 'Ancient' } }], longAgo);
+      failures = 3;
+
+      expect((await cached.getWorkshopItems(['42'])).size).toBe(0);
+    });
+
+    test('should use only cached responses in offline mode', async () => {
+      collections['100'] = [item('1', 0)];
+      titles['100'] = 'Friday Night';
+      await cached.getCollection('100');
+      requests = [];
+
+      cached.setOfflineMode(true);
+      database.saveSteamCache('item', [{ id: '42', response: { publishedfileid: '42', result: 1, title: 'Cached' } }],
+        new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+      const items = await cached.getWorkshopItems(['42', '43']);
+      const collection = await cached.getCollection('100');
+
+      expect(Array.from(items.keys())).toEqual(['42']);
+      expect(collection).toEqual({ collectionId: '100', title: 'Friday Night', itemIds: ['1'], nestedCollectionIds: [] });
+      await expect(cached.getCollection('200')).rejects.toThrow('Could not reach Steam to resolve the collection: offline mode is on');
+      expect(requests).toEqual([]);
+    });
+  });
+});
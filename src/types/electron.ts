@@ -3,7 +3,34 @@
  * Defines the contract between main and renderer processes
  */
 
-import type { ModInfo, TranslationRequest, TranslationResponse } from './index';
+import type {
+  CollectionDiff,
+  DependencyGraph,
+  DiskUsageReport,
+  ModBackup,
+  OrphanCleanupAction,
+  OrphanCleanupResult,
+  OrphanReport,
+  ModChangeSet,
+  ModConflict,
+  ModExportProgress,
+  ModHistoryVersion,
+  ModInfo,
+  ModImportPreview,
+  ModImportResult,
+  ModIntegrityReport,
+  ModProfile,
+  ModReportFormat,
+  ProfileApplyResult,
+  ProfileComparison,
+  ProfileModEntry,
+  ShareCodeComparison,
+  ShareCodeOptions,
+  ShareCodeResult,
+  TranslationRequest,
+  TranslationResponse,
+  WorkshopStateReport
+} from './index';
 
 /**
  * Mod-related operation results
@@ -11,6 +38,7 @@ import type { ModInfo, TranslationRequest, TranslationResponse } from './index';
 export interface ScanResult {
   scanned: number;
   synced: string[];
+  unchanged?: number;
   errors: string[];
 }
 
@@ -23,6 +51,13 @@ export interface ModDetailsResult {
   mod: ModInfo;
 }
 
+export interface ExportOptions {
+  /** Record the exported mods' load order in modpack.json */
+  includeLoadOrder?: boolean;
+  /** zlib level from 0 (fastest) to 9 (smallest) */
+  compressionLevel?: number;
+}
+
 /**
  * File dialog options and results
  */
@@ -31,6 +66,7 @@ export interface OpenDialogOptions {
   defaultPath?: string;
   buttonLabel?: string;
   properties?: Array<'openFile' | 'openDirectory' | 'multiSelections'>;
+  filters?: Array<{ name: string; extensions: string[] }>;
 }
 
 export interface OpenDialogResult {
@@ -71,6 +107,40 @@ export const IpcChannels = {
   MODS_SEARCH: 'mods:search',
   MODS_SYNC: 'mods:sync',
   MODS_EXPORT: 'mods:export',
+  MODS_EXPORT_CANCEL: 'mods:export-cancel',
+  MODS_EXPORT_REPORT: 'mods:export-report',
+  MODS_COLLECTION_DIFF: 'mods:collection-diff',
+  MODS_GET_HISTORY: 'mods:get-history',
+  MODS_SET_ENABLED: 'mods:set-enabled',
+  MODS_GET_LOAD_ORDER: 'mods:get-load-order',
+  MODS_REORDER: 'mods:reorder',
+  MODS_VERIFY_INTEGRITY: 'mods:verify-integrity',
+  MODS_GET_CONFLICTS: 'mods:get-conflicts',
+  MODS_GET_WORKSHOP_REPORT: 'mods:get-workshop-report',
+  MODS_GET_DISK_USAGE: 'mods:get-disk-usage',
+  MODS_FIND_ORPHANS: 'mods:find-orphans',
+  MODS_CLEANUP_ORPHANS: 'mods:cleanup-orphans',
+  MODS_IMPORT_PREVIEW: 'mods:import-preview',
+  MODS_IMPORT: 'mods:import',
+
+  // Profile operations
+  PROFILES_GET_ALL: 'profiles:get-all',
+  PROFILES_CREATE: 'profiles:create',
+  PROFILES_UPDATE: 'profiles:update',
+  PROFILES_DELETE: 'profiles:delete',
+  PROFILES_APPLY: 'profiles:apply',
+  PROFILES_COMPARE: 'profiles:compare',
+  PROFILES_CREATE_SHARE_CODE: 'profiles:create-share-code',
+  PROFILES_COMPARE_SHARE_CODE: 'profiles:compare-share-code',
+
+  // Dependency operations
+  DEPENDENCIES_GET_GRAPH: 'dependencies:get-graph',
+
+  // Backup operations
+  BACKUPS_LIST: 'backups:list',
+  BACKUPS_CREATE: 'backups:create',
+  BACKUPS_RESTORE: 'backups:restore',
+  BACKUPS_SET_PINNED: 'backups:set-pinned',
 
   // Translation operations
   TRANSLATION_TRANSLATE: 'translation:translate',
@@ -84,6 +154,7 @@ export const IpcChannels = {
   // App operations
   APP_GET_INFO: 'app:getInfo',
   APP_GET_PATH: 'app:getPath',
+  APP_OPEN_WORKSHOP_PAGE: 'app:open-workshop-page',
   APP_QUIT: 'app:quit',
   APP_RELAUNCH: 'app:relaunch',
   APP_MINIMIZE: 'app:minimize',
@@ -91,6 +162,14 @@ export const IpcChannels = {
   APP_CLOSE: 'app:close',
 } as const;
 
+/**
+ * Events pushed from the main process to the renderer
+ */
+export const IpcEvents = {
+  MODS_CHANGED: 'mods:changed',
+  MODS_EXPORT_PROGRESS: 'mods:export-progress',
+} as const;
+
 /**
  * Type for IPC channel keys
  */
@@ -109,12 +188,51 @@ export type IpcHandler<TArgs = unknown, TReturn = unknown> = (
  */
 export interface ElectronAPI {
   // Mod operations
-  scanMods: () => Promise<ScanResult>;
+  scanMods: (options?: { fullRescan?: boolean; hashContents?: boolean }) => Promise<ScanResult>;
   getAllMods: (limit?: number, offset?: number) => Promise<ModListResult>;
   getModById: (id: string) => Promise<ModDetailsResult>;
   searchMods: (query: string) => Promise<ModListResult>;
   syncMods: () => Promise<ScanResult>;
-  exportMods: (filePath: string, modIds: string[]) => Promise<{ success: boolean; filePath: string }>;
+  exportMods: (filePath: string, modIds: string[], options?: ExportOptions) => Promise<{ success: boolean; filePath: string }>;
+  cancelExport: () => Promise<{ success: boolean; data: { canceled: boolean } }>;
+  exportReport: (filePath: string, format: ModReportFormat, modIds?: string[], title?: string) => Promise<{ success: boolean; data?: { filePath: string; modCount: number }; error?: string }>;
+  getCollectionDiff: (collection: string) => Promise<{ success: boolean; data: CollectionDiff }>;
+  getModHistory: (modId?: string, limit?: number) => Promise<{ success: boolean; data: ModHistoryVersion[] }>;
+  onExportProgress: (callback: (progress: ModExportProgress) => void) => () => void;
+  setModEnabled: (id: string, enabled: boolean) => Promise<{ success: boolean; data: ModInfo }>;
+  getLoadOrder: () => Promise<{ success: boolean; data: ModInfo[] }>;
+  reorderMods: (modIds: string[]) => Promise<{ success: boolean; data: ModInfo[] }>;
+  verifyModIntegrity: (id: string) => Promise<{ success: boolean; data: ModIntegrityReport }>;
+  getConflicts: (modId?: string) => Promise<{ success: boolean; data: ModConflict[] }>;
+  getWorkshopReport: () => Promise<{ success: boolean; data: WorkshopStateReport }>;
+  getDiskUsage: (refresh?: boolean) => Promise<{ success: boolean; data: DiskUsageReport }>;
+  findOrphans: () => Promise<{ success: boolean; data: OrphanReport }>;
+  cleanupOrphans: (ids: string[], action: OrphanCleanupAction) => Promise<{ success: boolean; data?: OrphanCleanupResult; error?: string }>;
+  previewImport: (filePath: string) => Promise<{ success: boolean; data?: ModImportPreview; error?: string }>;
+  importMods: (filePath: string, rootPath: string, modIds?: string[], overwrite?: boolean) => Promise<{ success: boolean; data?: ModImportResult; error?: string }>;
+  onModsChanged: (callback: (changes: ModChangeSet) => void) => () => void;
+
+  // Profile operations
+  getProfiles: () => Promise<{ success: boolean; data: ModProfile[] }>;
+  createProfile: (name: string, modIds?: string[], description?: string) => Promise<{ success: boolean; data: ModProfile }>;
+  updateProfile: (
+    id: number,
+    changes: { name?: string; description?: string; mods?: ProfileModEntry[] }
+  ) => Promise<{ success: boolean; data: ModProfile }>;
+  deleteProfile: (id: number) => Promise<{ success: boolean }>;
+  applyProfile: (id: number) => Promise<{ success: boolean; data: ProfileApplyResult }>;
+  compareProfiles: (firstId: number, secondId: number) => Promise<{ success: boolean; data: ProfileComparison }>;
+  createShareCode: (options?: ShareCodeOptions) => Promise<{ success: boolean; data: ShareCodeResult }>;
+  compareShareCode: (code: string) => Promise<{ success: boolean; data: ShareCodeComparison }>;
+
+  // Dependency operations
+  getDependencyGraph: () => Promise<{ success: boolean; data: DependencyGraph }>;
+
+  // Backup operations
+  getBackups: (modId: string) => Promise<{ success: boolean; data: ModBackup[] }>;
+  createBackup: (modId: string) => Promise<{ success: boolean; data: ModBackup }>;
+  restoreBackup: (backupId: number) => Promise<{ success: boolean; data: ModBackup }>;
+  setBackupPinned: (backupId: number, pinned: boolean) => Promise<{ success: boolean; data: ModBackup }>;
 
   // Translation operations
   translate: (request: TranslationRequest) => Promise<TranslationResponse>;
@@ -128,6 +246,7 @@ export interface ElectronAPI {
   // App operations
   getAppInfo: () => Promise<AppInfo>;
   getPath: (name: 'home' | 'appData' | 'userData' | 'temp' | 'downloads' | 'documents') => Promise<string>;
+  openWorkshopPage: (modId: string) => Promise<{ success: boolean }>;
   quit: () => void;
   relaunch: () => void;
   minimize: () => void;
@@ -35,6 +35,78 @@ export interface SteamWorkshopResponse {
   };
 }
 
+/**
+ * Where a mod was found on disk
+ * - workshop: Steam Workshop content folder (folder name is the Workshop ID)
+ * - local: the game's own Mods folder (side-loaded, folder name is arbitrary)
+ */
+export type ModSource = 'workshop' | 'local';
+
+/**
+ * A folder the manager scans for mods
+ * Workshop roots hold folders named by Workshop ID; local roots hold
+ * side-loaded mods such as the game's Mods folder
+ */
+export interface ModLibraryRoot {
+  name: string;
+  path: string;
+  type: ModSource;
+  /** Disabled roots are kept in the list but not scanned */
+  enabled: boolean;
+}
+
+/**
+ * A mod folder discovered by a local scan
+ */
+export interface LocalModEntry {
+  id: string;
+  source: ModSource;
+  folderName: string;
+  path: string;
+  enabled: boolean;
+  /** Path of the library root the mod was found in */
+  rootPath: string;
+}
+
+/**
+ * Metadata declared by a mod in its info.ini manifest
+ */
+export interface ModManifest {
+  name?: string;
+  displayName?: string;
+  description?: string;
+  publishedFileId?: string;
+  author?: string;
+  version?: string;
+  tags: string[];
+  /** All key/value pairs as read from the file (lower-cased keys) */
+  fields: Record<string, string>;
+}
+
+/**
+ * An assembly referenced by a mod DLL
+ */
+export interface AssemblyReference {
+  name: string;
+  version: string;
+}
+
+/**
+ * Metadata read from a .NET assembly shipped with a mod
+ */
+export interface AssemblyInfo {
+  /** Path of the DLL relative to the mod folder */
+  file: string;
+  name: string;
+  version: string;
+  culture?: string;
+  /** From [assembly: TargetFramework], e.g. ".NETStandard,Version=v2.1"; missing in older assemblies */
+  targetFramework?: string;
+  /** CLR metadata version, e.g. "v4.0.30319" */
+  runtimeVersion: string;
+  references: AssemblyReference[];
+}
+
 export interface ModInfo {
   id: string;
   title: string;
@@ -53,6 +125,719 @@ export interface ModInfo {
   timeUpdated: Date;
   lastTranslated?: Date;
   language?: string;
+  manifest?: ModManifest;
+  source?: ModSource;
+  enabled?: boolean;
+  /** Position in the load order (1 loads first); unset until the order is normalized */
+  loadPriority?: number;
+  /** .NET assemblies found in the mod folder */
+  assemblies?: AssemblyInfo[];
+  /** What Steam's appworkshop manifest says about this Workshop item */
+  workshopState?: WorkshopItemState;
+  /** Library root the mod was last found in */
+  rootPath?: string;
+}
+
+/**
+ * A Workshop item as recorded in Steam's `appworkshop_<appid>.acf`
+ * Times are Unix timestamps in milliseconds
+ */
+export interface WorkshopItemState {
+  publishedFileId: string;
+  /** Listed under WorkshopItemsInstalled */
+  installed: boolean;
+  /** A Steam account on this machine is subscribed to the item */
+  subscribed: boolean;
+  /** Steam knows of a newer version than the one on disk */
+  needsUpdate: boolean;
+  sizeOnDisk?: number;
+  /** When Steam last downloaded or verified the item */
+  installedAt?: number;
+  /** Publish time of the version on disk */
+  installedVersionTime?: number;
+  /** Publish time of the newest version Steam knows of */
+  latestVersionTime?: number;
+}
+
+/**
+ * Contents of Steam's `appworkshop_<appid>.acf`
+ */
+export interface AppWorkshopManifest {
+  appId: string;
+  /** Steam has queued Workshop updates for the game */
+  needsUpdate: boolean;
+  needsDownload: boolean;
+  sizeOnDisk?: number;
+  items: WorkshopItemState[];
+}
+
+/**
+ * A mod listed in a WorkshopStateReport
+ */
+export interface WorkshopReportEntry {
+  modId: string;
+  title?: string;
+  reason: string;
+  state?: WorkshopItemState;
+}
+
+/**
+ * Offline comparison of the workshop folder with Steam's appworkshop manifest
+ */
+export interface WorkshopStateReport {
+  /** One manifest per workshop library root */
+  manifestPaths: string[];
+  manifestFound: boolean;
+  appNeedsUpdate: boolean;
+  /** Subscribed items Steam wants to update */
+  stale: WorkshopReportEntry[];
+  /** Folders Steam doesn't list as installed or that nobody is subscribed to */
+  leftover: WorkshopReportEntry[];
+  /** Subscribed items with no folder on disk */
+  missing: WorkshopReportEntry[];
+  checkedAt: Date;
+}
+
+/**
+ * A Steam Workshop collection resolved to its items
+ */
+export interface WorkshopCollection {
+  collectionId: string;
+  title?: string;
+  /** Items of the collection and of its nested collections, each listed once */
+  itemIds: string[];
+  nestedCollectionIds: string[];
+}
+
+/**
+ * A collection item that isn't installed
+ */
+export interface CollectionMissingItem {
+  modId: string;
+  title?: string;
+  /** `steam://` link that opens the item's Workshop page in the Steam client */
+  steamUrl: string;
+}
+
+/**
+ * Comparison of a Workshop collection with the installed mods
+ */
+export interface CollectionDiff extends WorkshopCollection {
+  /** Collection items that are installed, in collection order */
+  installed: string[];
+  missing: CollectionMissingItem[];
+}
+
+/**
+ * Snapshot of a mod folder used to tell whether it changed since the last scan
+ */
+export interface ModFingerprint {
+  modId: string;
+  /** Newest modification time (ms) of the mod folder and its subfolders */
+  folderMtime: number;
+  fileCount: number;
+  totalSize: number;
+  /** SHA-256 over file paths and contents; only computed when requested */
+  contentHash?: string;
+  scannedAt?: Date;
+}
+
+/**
+ * One file of a mod folder as recorded when the mod was last synced
+ */
+export interface ModFileEntry {
+  /** Path relative to the mod folder, always with forward slashes */
+  path: string;
+  size: number;
+  sha256: string;
+  /** Modification time when recorded, so a later scan can tell whether the hash is still current */
+  mtimeMs?: number;
+}
+
+/**
+ * Result of comparing a mod folder against its recorded file manifest
+ */
+export interface ModIntegrityReport {
+  modId: string;
+  /** False when no manifest was recorded yet, so nothing could be compared */
+  hasManifest: boolean;
+  /** True when no files were added, removed or modified */
+  intact: boolean;
+  added: string[];
+  removed: string[];
+  modified: string[];
+  unchangedCount: number;
+  /** When the manifest that was compared against was recorded */
+  recordedAt?: Date;
+  verifiedAt: Date;
+}
+
+export type ModConflictType = 'file' | 'assembly' | 'manifest-name';
+
+export type ConflictSeverity = 'low' | 'medium' | 'high';
+
+/**
+ * Two or more installed mods that may overwrite or shadow each other
+ */
+export interface ModConflict {
+  type: ModConflictType;
+  severity: ConflictSeverity;
+  /** The shared assembly or manifest name; for file conflicts the first shared path */
+  key: string;
+  modIds: string[];
+  /** Shared relative paths (file conflicts only) */
+  files?: string[];
+  message: string;
+}
+
+/** Where a dependency was declared */
+export type DependencySource = 'manifest' | 'steam' | 'description';
+
+/**
+ * A dependency edge as stored in the database
+ */
+export interface ModDependency {
+  modId: string;
+  /** Workshop ID or mod name of the required mod, as declared */
+  dependsOn: string;
+  source: DependencySource;
+}
+
+export type DependencyStatus = 'satisfied' | 'missing' | 'disabled';
+
+/**
+ * A dependency edge resolved against the installed mods
+ */
+export interface ResolvedDependency extends ModDependency {
+  /** ID of the installed mod that satisfies the dependency */
+  resolvedModId?: string;
+  status: DependencyStatus;
+}
+
+/**
+ * An enabled mod whose dependency is not installed or not enabled
+ */
+export interface DependencyWarning {
+  modId: string;
+  dependsOn: string;
+  source: DependencySource;
+  resolvedModId?: string;
+  type: 'missing' | 'disabled';
+  message: string;
+}
+
+export interface DependencyGraph {
+  dependencies: ResolvedDependency[];
+  warnings: DependencyWarning[];
+  /** Installed mod IDs with every mod after the mods it depends on */
+  order: string[];
+  /** Groups of mods that depend on each other in a cycle */
+  cycles: string[][];
+}
+
+/**
+ * A Steam library folder found by SteamDiscoveryService
+ */
+export interface SteamLibraryFolder {
+  path: string;
+  /** Duckov's workshop content folder in this library, if it exists */
+  workshopPath?: string;
+  /** Duckov's install folder in this library, if the game is installed here */
+  gamePath?: string;
+}
+
+/**
+ * Steam installs, libraries and suggested mod folders found on this machine
+ * Suggestions are ordered best first; only existing folders are suggested
+ */
+export interface SteamPathDiscovery {
+  steamRoots: string[];
+  libraries: SteamLibraryFolder[];
+  workshopPaths: string[];
+  gameModsPaths: string[];
+}
+
+/**
+ * Disk space taken by one file type (lower-cased extension, e.g. ".dll")
+ */
+export interface FileTypeUsage {
+  extension: string;
+  fileCount: number;
+  size: number;
+}
+
+export interface ModDiskUsage {
+  modId: string;
+  title: string;
+  rootPath: string;
+  fileCount: number;
+  totalSize: number;
+  /** Largest file types first */
+  byType: FileTypeUsage[];
+  /** Largest files first, relative to the mod folder */
+  largestFiles: Array<{ path: string; size: number }>;
+}
+
+export interface RootDiskUsage {
+  name: string;
+  path: string;
+  type: ModSource;
+  modCount: number;
+  fileCount: number;
+  totalSize: number;
+}
+
+/**
+ * Byte-identical files shipped by more than one mod
+ */
+export interface DuplicateFileGroup {
+  sha256: string;
+  size: number;
+  files: Array<{ modId: string; path: string }>;
+  /** Space that would be freed if only one copy were kept */
+  wastedBytes: number;
+}
+
+export interface DiskUsageReport {
+  generatedAt: Date;
+  modCount: number;
+  fileCount: number;
+  totalSize: number;
+  byType: FileTypeUsage[];
+  roots: RootDiskUsage[];
+  /** Largest mods first */
+  mods: ModDiskUsage[];
+  /** Most wasted space first */
+  duplicates: DuplicateFileGroup[];
+  duplicateBytes: number;
+}
+
+/**
+ * Kinds of leftovers found by the orphan check
+ * - missing-folder: database row whose mod folder is gone
+ * - no-metadata: mod folder the database has no row for
+ * - empty-folder: mod folder without any files
+ * - partial-folder: mod folder without an info.ini or any .dll (e.g. an interrupted download)
+ */
+export type OrphanKind = 'missing-folder' | 'no-metadata' | 'empty-folder' | 'partial-folder';
+
+/**
+ * A leftover database row or mod folder
+ */
+export interface OrphanEntry {
+  /** Stable key used to select the entry for cleanup */
+  id: string;
+  kind: OrphanKind;
+  modId: string;
+  title?: string;
+  /** Folder on disk; absent for missing-folder */
+  path?: string;
+  fileCount: number;
+  totalSize: number;
+  reason: string;
+}
+
+/**
+ * Result of the orphan check
+ */
+export interface OrphanReport {
+  checkedAt: Date;
+  orphans: OrphanEntry[];
+  /** Library roots that are disabled or couldn't be read; their mods aren't reported as missing */
+  skippedRoots: string[];
+}
+
+export type OrphanCleanupAction = 'archive' | 'delete';
+
+/**
+ * Result of cleaning up selected orphans
+ */
+export interface OrphanCleanupResult {
+  action: OrphanCleanupAction;
+  /** Zip holding the removed folders and database rows (archive only) */
+  archivePath?: string;
+  cleaned: OrphanEntry[];
+  /** Selected IDs that are no longer orphans */
+  skipped: string[];
+  errors: string[];
+}
+
+/**
+ * Why a mod backup was taken
+ * - manual: requested by the user
+ * - pre-update: Steam reported a newer version than the one installed
+ * - pre-restore: the folder was about to be replaced by another backup
+ */
+export type BackupReason = 'manual' | 'pre-update' | 'pre-restore';
+
+/**
+ * Zip snapshot of a mod folder
+ */
+export interface ModBackup {
+  id: number;
+  modId: string;
+  archivePath: string;
+  reason: BackupReason;
+  fileCount: number;
+  /** Size of the mod folder, uncompressed */
+  totalSize: number;
+  archiveSize: number;
+  /** Content hash of the folder when it was backed up (see ModFingerprint) */
+  contentHash: string;
+  /** Version from the mod's info.ini, if any */
+  version?: string;
+  /** Publish time of the installed Workshop version in ms, if Steam reported one */
+  versionTime?: number;
+  /** Pinned backups are restored whenever a sync finds the folder changed */
+  pinned: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Metadata fields whose changes are recorded in a mod's history
+ */
+export type ModHistoryField =
+  | 'title'
+  | 'description'
+  | 'translatedTitle'
+  | 'translatedDescription'
+  | 'tags'
+  | 'fileSize'
+  | 'timeUpdated';
+
+/**
+ * Snapshot of a mod's metadata, recorded when a sync finds it changed
+ */
+export interface ModHistoryEntry {
+  id: number;
+  modId: string;
+  /** Original (untranslated) title and description */
+  title: string;
+  description: string;
+  translatedTitle?: string;
+  translatedDescription?: string;
+  tags: string[];
+  fileSize: number;
+  timeUpdated: Date;
+  /** Fields that differ from the previous snapshot; empty for the first one */
+  changedFields: ModHistoryField[];
+  recordedAt: Date;
+}
+
+/**
+ * Part of a word-level text diff
+ */
+export interface TextDiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * A history snapshot with its description diffed against the previous snapshot
+ */
+export interface ModHistoryVersion extends ModHistoryEntry {
+  descriptionDiff?: TextDiffSegment[];
+  translatedDescriptionDiff?: TextDiffSegment[];
+}
+
+/**
+ * Formats a mod list report can be rendered in
+ */
+export type ModReportFormat = 'csv' | 'markdown' | 'json' | 'html';
+
+/**
+ * Which mods go into a mod list report
+ * Without modIds or search, every mod is listed in load order.
+ */
+export interface ModReportOptions {
+  format: ModReportFormat;
+  /** Mods to list, in this order (e.g. the selected or filtered mods) */
+  modIds?: string[];
+  /** List the mods matching a search term instead */
+  search?: string;
+  title?: string;
+}
+
+/**
+ * One mod in a mod list report
+ */
+export interface ModReportRow {
+  id: string;
+  /** Title as published */
+  originalTitle: string;
+  /** English title, when it differs from the published one */
+  translatedTitle?: string;
+  /** Workshop page; local mods have none */
+  workshopUrl?: string;
+  creator: string;
+  /** Size in bytes */
+  size: number;
+  tags: string[];
+  updatedAt: Date;
+}
+
+/**
+ * A rendered mod list report
+ */
+export interface ModReport {
+  format: ModReportFormat;
+  /** Suggested file extension, without the dot */
+  fileExtension: string;
+  mimeType: string;
+  content: string;
+  modCount: number;
+}
+
+/**
+ * Manifest written into exported modpacks as modpack.json
+ * Describes the archive so an import can restore titles and translations
+ * without Steam and check every file against its checksum
+ */
+export interface ModpackManifest {
+  format: 'duckov-modpack';
+  formatVersion: number;
+  /** Version of the app that wrote the modpack */
+  appVersion: string;
+  exportedAt: string;
+  mods: ModpackEntry[];
+  /** Cached zh → en translations of the exported mods' titles and descriptions */
+  translations: Array<{ originalText: string; translatedText: string; sourceLang: string; targetLang: string }>;
+  /** IDs of the exported mods in load order, when the export included it */
+  loadOrder?: string[];
+}
+
+/**
+ * One mod in a modpack
+ */
+export interface ModpackEntry {
+  /** Folder inside the archive holding the mod */
+  folder: string;
+  mod: ModInfo;
+  files: ModFileEntry[];
+}
+
+/**
+ * Options for exportMods
+ */
+export interface ModExportOptions {
+  /** Recorded in the manifest; 'unknown' if not given */
+  appVersion?: string;
+  /** Add the exported mods' load order to the manifest */
+  includeLoadOrder?: boolean;
+  /** zlib level from 0 (fastest) to 9 (smallest); defaults to 9 */
+  compressionLevel?: number;
+  /** Called while the archive is written, at most a few times per second */
+  onProgress?: (progress: ModExportProgress) => void;
+  /** Aborting stops the export and removes the partial file */
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress of a running export
+ */
+export interface ModExportProgress {
+  /** File checksums for the modpack manifest are computed before the folders are archived */
+  phase: 'checksums' | 'archiving';
+  /** Uncompressed bytes checksummed or added to the archive so far */
+  processedBytes: number;
+  /** Size of the exported mod folders; archiver may still be discovering files */
+  estimatedTotalBytes: number;
+  processedFiles: number;
+  currentModId?: string;
+  currentModTitle?: string;
+}
+
+/**
+ * A mod found in an archive that can be imported
+ */
+export interface ModImportCandidate {
+  /** Folder inside the archive ('' when the files are at the archive root) */
+  archiveFolder: string;
+  modId: string;
+  source: ModSource;
+  /** Folder name the mod is installed under */
+  folderName: string;
+  title?: string;
+  detectedBy: 'metadata' | 'workshop-id' | 'manifest';
+  fileCount: number;
+  totalSize: number;
+  /** The archive carries database metadata for this mod */
+  hasMetadata: boolean;
+  /** Set when the mod is already installed or known to the database */
+  collision?: {
+    path?: string;
+    inDatabase: boolean;
+  };
+}
+
+/**
+ * What an archive would import
+ */
+export interface ModImportPreview {
+  archivePath: string;
+  candidates: ModImportCandidate[];
+  bundledTranslations: number;
+}
+
+export interface ModImportOptions {
+  /** Library root to install into */
+  rootPath: string;
+  /** Mods to import (by candidate mod ID); all when omitted */
+  modIds?: string[];
+  /** Replace mods already installed in the chosen root */
+  overwrite?: boolean;
+}
+
+export interface ModImportResult {
+  rootPath: string;
+  /** IDs the imported mods have in the chosen root */
+  installed: string[];
+  skipped: Array<{ modId: string; reason: string }>;
+  errors: string[];
+  restoredMetadata: number;
+  restoredTranslations: number;
+}
+
+/**
+ * Options for scanAndSyncLocalMods
+ */
+export interface ScanOptions {
+  /** Re-sync every mod and refetch all Steam details, ignoring stored fingerprints */
+  fullRescan?: boolean;
+  /** Hash file contents to catch edits that don't change folder timestamps or sizes (slow) */
+  hashContents?: boolean;
+}
+
+/**
+ * Result of an incremental sync of specific mod folders
+ */
+export interface ModChangeSet {
+  added: ModInfo[];
+  updated: ModInfo[];
+  removed: string[];
+  errors: string[];
+}
+
+/**
+ * Problems found when checking a proposed load order against the installed mods
+ */
+export interface LoadOrderValidation {
+  valid: boolean;
+  duplicates: string[];
+  unknown: string[];
+  missing: string[];
+}
+
+/**
+ * A mod's entry in a profile; entries are kept in load order
+ */
+export interface ProfileModEntry {
+  modId: string;
+  enabled: boolean;
+}
+
+/**
+ * A named mod loadout that can be applied in one step
+ */
+export interface ModProfile {
+  id: number;
+  name: string;
+  description?: string;
+  mods: ProfileModEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Differences between two profiles
+ */
+export interface ProfileComparison {
+  onlyInFirst: string[];
+  onlyInSecond: string[];
+  enabledDiffers: string[];
+  orderDiffers: boolean;
+}
+
+/**
+ * Outcome of applying a profile to the installed mods
+ */
+export interface ProfileApplyResult {
+  enabled: string[];
+  disabled: string[];
+  unchanged: number;
+  missing: string[];
+  errors: string[];
+}
+
+/**
+ * A Workshop item listed in a share code
+ */
+export interface ShareCodeMod {
+  modId: string;
+  /** Publish time (Unix ms) of the version the sharer has installed */
+  versionTime?: number;
+}
+
+/**
+ * What a share code contains
+ */
+export interface ShareCodeContents {
+  profileName?: string;
+  /** Mods are listed in the sharer's load order */
+  hasLoadOrder: boolean;
+  mods: ShareCodeMod[];
+}
+
+/**
+ * What a share code is made from; defaults to the enabled mods
+ */
+export interface ShareCodeOptions {
+  /** Share these mods instead of the enabled ones */
+  modIds?: string[];
+  /** Share the enabled mods of this profile, under its name */
+  profileId?: number;
+  includeLoadOrder?: boolean;
+}
+
+/**
+ * A created share code
+ */
+export interface ShareCodeResult {
+  code: string;
+  modCount: number;
+  /** Local mods, which can't be subscribed to and are left out */
+  skipped: string[];
+}
+
+/**
+ * A mod from a share code compared with the installed one
+ */
+export interface ShareCodeDiffEntry {
+  modId: string;
+  title?: string;
+  /** `steam://` link that opens the item's Workshop page in the Steam client; unset for local mods */
+  steamUrl?: string;
+  installedVersionTime?: number;
+  sharedVersionTime?: number;
+}
+
+/**
+ * Differences between a share code and the installed mods
+ */
+export interface ShareCodeComparison {
+  profileName?: string;
+  hasLoadOrder: boolean;
+  total: number;
+  /** Listed in the code but not installed */
+  missing: ShareCodeDiffEntry[];
+  /** Enabled here but not listed in the code */
+  extra: ShareCodeDiffEntry[];
+  /** Installed in an older version than the sharer's */
+  outdated: ShareCodeDiffEntry[];
+  /** Listed in the code and installed, but disabled */
+  disabled: ShareCodeDiffEntry[];
+  /** Mods both sides have load in a different order */
+  loadOrderDiffers: boolean;
 }
 
 export interface TranslationRequest {
@@ -75,3 +860,28 @@ export interface CachedTranslation {
   createdAt: Date;
   expiresAt: Date;
 }
+
+/**
+ * Kind of Steam Web API response kept in the cache
+ */
+export type SteamCacheKind = 'item' | 'collection';
+
+/**
+ * Raw Steam Web API response for one Workshop item or collection
+ */
+export interface CachedSteamResponse {
+  kind: SteamCacheKind;
+  id: string;
+  response: any;
+  fetchedAt: Date;
+}
+
+/**
+ * Steam Web API connection settings
+ */
+export interface SteamApiSettings {
+  /** Base URL of the Steam Web API */
+  baseUrl: string;
+  /** Use cached Workshop details only, without contacting Steam */
+  offlineMode: boolean;
+}
@@ -0,0 +1,75 @@
+/**
+ * appWorkshopParser.test.ts
+ *
+ * Unit tests for parsing Steam's appworkshop_<appid>.acf
+ */
+
+import { parseAppWorkshopManifest } from '../appWorkshopParser';
+
+const MANIFEST = `
+"AppWorkshop"
+{
+  "appid"        "3167020"
+  "SizeOnDisk"   "52428800"
+  "NeedsUpdate"  "1"
+  "NeedsDownload" "0"
+  "WorkshopItemsInstalled"
+  {
+    "1001" { "size" "1024" "timeupdated" "1700000000" "manifest" "11" }
+    "1002" { "size" "2048" "timeupdated" "1700000000" "manifest" "22" }
+    "1003" { "size" "4096" "timeupdated" "1700000000" "manifest" "33" }
+  }
+  "WorkshopItemDetails"
+  {
+    "1001" { "manifest" "11" "timeupdated" "1700000000" "timetouched" "1700001000" "subscribedby" "76561198000000000" "latest_timeupdated" "1700000000" "latest_manifest" "11" }
+    "1002" { "manifest" "22" "timeupdated" "1700000000" "timetouched" "1700001000" "subscribedby" "76561198000000000" "latest_timeupdated" "1710000000" "latest_manifest" "44" }
+    "1003" { "manifest" "33" "timeupdated" "1700000000" "subscribedby" "0" }
+    "1004" { "manifest" "55" "timeupdated" "1700000000" "subscribedby" "76561198000000000" }
+  }
+}
+`;
+
+describe('parseAppWorkshopManifest', () => {
+  test('should read app-level state', () => {
+    const manifest = parseAppWorkshopManifest(MANIFEST);
+
+    expect(manifest.appId).toBe('3167020');
+    expect(manifest.needsUpdate).toBe(true);
+    expect(manifest.needsDownload).toBe(false);
+    expect(manifest.sizeOnDisk).toBe(52428800);
+    expect(manifest.items.map(item => item.publishedFileId)).toEqual(['1001', '1002', '1003', '1004']);
+  });
+
+  test('should read install times and sizes', () => {
+    const item = parseAppWorkshopManifest(MANIFEST).items[0];
+
+    expect(item).toEqual({
+      publishedFileId: '1001',
+      installed: true,
+      subscribed: true,
+      needsUpdate: false,
+      sizeOnDisk: 1024,
+      installedAt: 1700001000000,
+      installedVersionTime: 1700000000000,
+      latestVersionTime: 1700000000000
+    });
+  });
+
+  test('should flag items with a newer version', () => {
+    const item = parseAppWorkshopManifest(MANIFEST).items[1];
+
+    expect(item.needsUpdate).toBe(true);
+    expect(item.latestVersionTime).toBe(1710000000000);
+  });
+
+  test('should tell subscribed items from leftovers and pending downloads', () => {
+    const [, , unsubscribed, notInstalled] = parseAppWorkshopManifest(MANIFEST).items;
+
+    expect(unsubscribed).toMatchObject({ installed: true, subscribed: false });
+    expect(notInstalled).toMatchObject({ installed: false, subscribed: true, needsUpdate: false });
+  });
+
+  test('should reject files that are not appworkshop manifests', () => {
+    expect(() => parseAppWorkshopManifest('"AppState" { "appid" "3167020" }')).toThrow('Not an appworkshop manifest');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * assemblyReader.test.ts
+ *
+ * Unit tests for the .NET assembly metadata reader
+ * Uses minimal PE images built by createMockAssembly
+ */
+
+// testHelpers pulls in Database, which imports electron
+jest.mock('electron', () => ({}), { virtual: true });
+
+import { readAssemblyInfo } from '../assemblyReader';
+import { createMockAssembly } from '../../__tests__/utils/testHelpers';
+
+describe('readAssemblyInfo', () => {
+  test('should read the assembly name and version', () => {
+    const info = readAssemblyInfo(createMockAssembly({ name: 'BetterLoot', version: [1, 2, 3, 4] }));
+
+    expect(info?.name).toBe('BetterLoot');
+    expect(info?.version).toBe('1.2.3.4');
+    expect(info?.runtimeVersion).toBe('v4.0.30319');
+    expect(info?.culture).toBeUndefined();
+  });
+
+  test('should read referenced assemblies', () => {
+    const info = readAssemblyInfo(createMockAssembly({
+      name: 'BetterLoot',
+      references: [
+        { name: 'netstandard', version: [2, 1, 0, 0] },
+        { name: '0Harmony', version: [2, 2, 2, 0] },
+        { name: 'UnityEngine.CoreModule', version: [0, 0, 0, 0] }
+      ]
+    }));
+
+    expect(info?.references).toEqual([
+      { name: 'netstandard', version: '2.1.0.0' },
+      { name: '0Harmony', version: '2.2.2.0' },
+      { name: 'UnityEngine.CoreModule', version: '0.0.0.0' }
+    ]);
+  });
+
+  test('should read the target framework attribute', () => {
+    const info = readAssemblyInfo(createMockAssembly({
+      name: 'BetterLoot',
+      targetFramework: '.NETStandard,Version=v2.1',
+      references: [{ name: 'netstandard', version: [2, 1, 0, 0] }]
+    }));
+
+    expect(info?.targetFramework).toBe('.NETStandard,Version=v2.1');
+  });
+
+  test('should leave the target framework unset when not declared', () => {
+    const info = readAssemblyInfo(createMockAssembly({ name: 'OldMod' }));
+
+    expect(info?.targetFramework).toBeUndefined();
+  });
+
+  test('should return null for native DLLs', () => {
+    expect(readAssemblyInfo(createMockAssembly({ name: 'native', native: true }))).toBeNull();
+  });
+
+  test('should reject files that are not PE images', () => {
+    expect(() => readAssemblyInfo(Buffer.from('not a dll at all, just some text padding it out'.repeat(2))))
+      .toThrow('Not a PE file');
+  });
+
+  test('should reject truncated assemblies', () => {
+    const assembly = createMockAssembly({ name: 'BetterLoot' });
+
+    expect(() => readAssemblyInfo(assembly.subarray(0, 0x220))).toThrow('truncated');
+  });
+});
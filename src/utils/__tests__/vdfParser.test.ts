@@ -0,0 +1,65 @@
+/**
+ * vdfParser.test.ts
+ *
+ * Unit tests for the Valve KeyValues (.vdf / .acf) parser
+ */
+
+import { getVdfValue, parseVdf } from '../vdfParser';
+
+describe('parseVdf', () => {
+  test('should parse nested blocks of quoted keys and values', () => {
+    const parsed = parseVdf(`
+      "libraryfolders"
+      {
+        "0"
+        {
+          "path"    "C:\\\\Program Files (x86)\\\\Steam"
+          "apps"
+          {
+            "3167020"    "1234567"
+          }
+        }
+      }
+    `);
+
+    expect(parsed).toEqual({
+      libraryfolders: {
+        '0': {
+          path: 'C:\\Program Files (x86)\\Steam',
+          apps: { '3167020': '1234567' }
+        }
+      }
+    });
+  });
+
+  test('should handle unquoted tokens, comments and conditionals', () => {
+    const parsed = parseVdf(`
+      // Written by Steam
+      AppState {
+        appid 3167020
+        installdir "Escape from Duckov" [$WIN32]
+        name "Say \\"Quack\\""
+      }
+    `);
+
+    expect(parsed).toEqual({
+      AppState: { appid: '3167020', installdir: 'Escape from Duckov', name: 'Say "Quack"' }
+    });
+  });
+
+  test('should reject unbalanced content', () => {
+    expect(() => parseVdf('"a" { "b" "c"')).toThrow('Unterminated block');
+    expect(() => parseVdf('"a" "b" }')).toThrow('Unexpected "}"');
+    expect(() => parseVdf('"a" "b')).toThrow('Unterminated string');
+  });
+});
+
+describe('getVdfValue', () => {
+  test('should look up keys case-insensitively', () => {
+    const parsed = parseVdf('"AppState" { "InstallDir" "Duckov" }');
+
+    expect(getVdfValue(parsed, 'appstate')).toEqual({ InstallDir: 'Duckov' });
+    expect(getVdfValue(parsed.AppState as any, 'installdir')).toBe('Duckov');
+    expect(getVdfValue(parsed, 'missing')).toBeUndefined();
+  });
+});
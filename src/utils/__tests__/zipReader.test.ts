@@ -0,0 +1,146 @@
+/**
+ * zipReader.test.ts
+ *
+ * Unit tests for the zip reader: round trips through archiver, ZIP64, size limits and zip-slip protection
+ */
+
+import archiver from 'archiver';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { extractZip, openZip, parseZip, resolveZipEntryPath } from '../zipReader';
+
+function buildZip(files: Record<string, string>, store: boolean = false, forceZip64: boolean = false): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const archive = archiver('zip', { forceZip64, ...(store ? { store: true } : { zlib: { level: 9 } }) });
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    archive.on('end', () => resolve(Buffer.concat(chunks)));
+    archive.on('error', reject);
+
+    for (const [name, content] of Object.entries(files)) {
+      archive.append(content, { name });
+    }
+    archive.finalize();
+  });
+}
+
+describe('parseZip', () => {
+  test('should read deflated and stored entries written by archiver', async () => {
+    for (const store of [false, true]) {
+      const zip = await parseZip(await buildZip({ 'info.ini': 'name = Test', 'Assets/模组.txt': 'x'.repeat(5000) }, store));
+
+      expect(zip.entries.map(entry => entry.name)).toEqual(['info.ini', 'Assets/模组.txt']);
+      expect((await zip.read(zip.entries[0])).toString()).toBe('name = Test');
+      expect((await zip.read(zip.entries[1])).toString()).toBe('x'.repeat(5000));
+    }
+  });
+
+  test('should read ZIP64 archives', async () => {
+    const zip = await parseZip(await buildZip({ 'info.ini': 'name = Test', 'big.txt': 'x'.repeat(5000) }, false, true));
+
+    expect(zip.entries.map(entry => [entry.name, entry.size])).toEqual([['info.ini', 11], ['big.txt', 5000]]);
+    expect((await zip.read(zip.entries[1])).toString()).toBe('x'.repeat(5000));
+  });
+
+  test('should reject data that is not a zip archive', async () => {
+    await expect(parseZip(Buffer.from('not a zip archive at all'))).rejects.toThrow('Not a zip archive');
+  });
+
+  test('should detect corrupted entry data', async () => {
+    const buffer = await buildZip({ 'a.txt': 'hello world' }, true);
+    buffer[buffer.indexOf('hello world')] = 'j'.charCodeAt(0);
+
+    const zip = await parseZip(buffer);
+    await expect(zip.read(zip.entries[0])).rejects.toThrow('checksum mismatch');
+  });
+
+  test('should not inflate an entry past its declared size', async () => {
+    const buffer = await buildZip({ 'bomb.txt': 'x'.repeat(100000) });
+    // Shrink the size in the central directory entry
+    buffer.writeUInt32LE(10, buffer.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+    const zip = await parseZip(buffer);
+
+    await expect(zip.read(zip.entries[0])).rejects.toThrow("doesn't inflate to its declared size");
+    const stream = await zip.stream(zip.entries[0]);
+    await expect((async () => { for await (const _chunk of stream) { /* drain */ } })())
+      .rejects.toThrow("doesn't inflate to its declared size");
+  });
+});
+
+describe('openZip', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-open-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should read entries from disk with and without ZIP64 headers', async () => {
+    for (const forceZip64 of [false, true]) {
+      const zipPath = path.join(dir, `${forceZip64 ? 'zip64' : 'plain'}.zip`);
+      fs.writeFileSync(zipPath, await buildZip({ 'info.ini': 'name = Test', 'Assets/a.txt': 'abc'.repeat(3000) }, false, forceZip64));
+
+      const zip = await openZip(zipPath);
+      await extractZip(zip, path.join(dir, 'out'));
+
+      expect((await zip.read(zip.entries[0])).toString()).toBe('name = Test');
+      expect(fs.readFileSync(path.join(dir, 'out', 'Assets', 'a.txt'), 'utf-8')).toBe('abc'.repeat(3000));
+    }
+  });
+});
+
+describe('resolveZipEntryPath', () => {
+  const dest = path.join(os.tmpdir(), 'zip-dest');
+
+  test('should keep entries inside the destination', () => {
+    expect(resolveZipEntryPath(dest, 'Assets/./a.txt')).toBe(path.join(dest, 'Assets', 'a.txt'));
+  });
+
+  test('should reject absolute paths and parent segments', () => {
+    expect(() => resolveZipEntryPath(dest, '/etc/passwd')).toThrow('Absolute path');
+    expect(() => resolveZipEntryPath(dest, 'C:\\Windows\\evil.dll')).toThrow('Absolute path');
+    expect(() => resolveZipEntryPath(dest, 'Assets/../../evil.dll')).toThrow('escapes the destination');
+    expect(() => resolveZipEntryPath(dest, '..\\evil.dll')).toThrow('escapes the destination');
+  });
+});
+
+describe('extractZip', () => {
+  let dest: string;
+
+  beforeEach(() => {
+    dest = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-extract-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dest, { recursive: true, force: true });
+  });
+
+  test('should extract the entries below a prefix', async () => {
+    const zip = await parseZip(await buildZip({ 'mod/info.ini': 'a', 'mod/Assets/b.txt': 'b', 'other.txt': 'c' }));
+
+    const written = await extractZip(zip, dest, 'mod');
+
+    expect(written).toBe(2);
+    expect(fs.readFileSync(path.join(dest, 'Assets', 'b.txt'), 'utf-8')).toBe('b');
+    expect(fs.existsSync(path.join(dest, 'other.txt'))).toBe(false);
+  });
+
+  test('should write nothing when any entry escapes the destination', async () => {
+    // archiver sanitizes names, so write a same-length placeholder and patch it
+    const buffer = await buildZip({ 'good.txt': 'a', 'XX/evil.txt': 'b' }, true);
+    let position = buffer.indexOf('XX/evil.txt');
+    while (position !== -1) {
+      buffer.write('..', position);
+      position = buffer.indexOf('XX/evil.txt', position);
+    }
+    const zip = await parseZip(buffer);
+
+    await expect(extractZip(zip, path.join(dest, 'out'))).rejects.toThrow('escapes the destination');
+    expect(fs.existsSync(path.join(dest, 'out'))).toBe(false);
+    expect(fs.existsSync(path.join(dest, 'evil.txt'))).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { AppWorkshopManifest, WorkshopItemState } from '../types';
+import { getVdfValue, parseVdf, VdfObject } from './vdfParser';
+
+/**
+ * Parses Steam's `steamapps/workshop/appworkshop_<appid>.acf`
+ *
+ * The file has two item lists:
+ * - WorkshopItemsInstalled: what is on disk (size, publish time of that version)
+ * - WorkshopItemDetails: what Steam tracks (subscriber, latest known version, last download)
+ *
+ * An item needs an update when the latest known manifest or publish time is
+ * newer than the installed one.
+ */
+export function parseAppWorkshopManifest(content: string): AppWorkshopManifest {
+  const root = getVdfValue(parseVdf(content), 'AppWorkshop');
+  if (!root || typeof root === 'string') {
+    throw new Error('Not an appworkshop manifest: missing "AppWorkshop" block');
+  }
+
+  const installed = getBlock(root, 'WorkshopItemsInstalled');
+  const details = getBlock(root, 'WorkshopItemDetails');
+  const ids = [...new Set([...Object.keys(installed), ...Object.keys(details)])].filter(id => /^\d+$/.test(id));
+
+  const items = ids.map((id): WorkshopItemState => {
+    const installedItem = getBlock(installed, id);
+    const detailItem = getBlock(details, id);
+    const isInstalled = id in installed;
+
+    const installedVersion = getNumber(installedItem, 'timeupdated');
+    const latestVersion = getNumber(detailItem, 'latest_timeupdated') ?? getNumber(detailItem, 'timeupdated');
+    const manifest = getString(installedItem, 'manifest') ?? getString(detailItem, 'manifest');
+    const latestManifest = getString(detailItem, 'latest_manifest');
+    const subscribedBy = getString(detailItem, 'subscribedby');
+
+    return {
+      publishedFileId: id,
+      installed: isInstalled,
+      subscribed: Boolean(subscribedBy && subscribedBy !== '0'),
+      needsUpdate: isInstalled && (
+        Boolean(latestManifest && manifest && latestManifest !== manifest) ||
+        (latestVersion !== undefined && installedVersion !== undefined && latestVersion > installedVersion)
+      ),
+      sizeOnDisk: getNumber(installedItem, 'size'),
+      installedAt: toMillis(getNumber(detailItem, 'timetouched')),
+      installedVersionTime: toMillis(installedVersion),
+      latestVersionTime: toMillis(latestVersion)
+    };
+  });
+
+  return {
+    appId: getString(root, 'appid') || '',
+    needsUpdate: getString(root, 'NeedsUpdate') === '1',
+    needsDownload: getString(root, 'NeedsDownload') === '1',
+    sizeOnDisk: getNumber(root, 'SizeOnDisk'),
+    items
+  };
+}
+
+function getBlock(object: VdfObject, key: string): VdfObject {
+  const value = getVdfValue(object, key);
+  return value && typeof value === 'object' ? value : {};
+}
+
+function getString(object: VdfObject, key: string): string | undefined {
+  const value = getVdfValue(object, key);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getNumber(object: VdfObject, key: string): number | undefined {
+  const text = getString(object, key);
+  if (!text) return undefined;
+
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function toMillis(seconds: number | undefined): number | undefined {
+  return seconds ? seconds * 1000 : undefined;
+}
@@ -0,0 +1,489 @@
+/**
+ * Minimal reader for .NET assembly metadata (ECMA-335)
+ *
+ * Reads a DLL as plain bytes - nothing is loaded or executed - and extracts:
+ * - The assembly name, version and culture (Assembly table)
+ * - Referenced assemblies such as 0Harmony or UnityEngine.CoreModule (AssemblyRef table)
+ * - The target framework from [assembly: TargetFramework(...)], when present
+ * - The CLR metadata version string (e.g. v4.0.30319)
+ *
+ * Only the PE headers, the CLI header and the metadata tables needed to reach
+ * those rows are parsed.
+ */
+import { AssemblyInfo } from '../types';
+
+/** Metadata table numbers (ECMA-335 II.22) */
+const TABLE = {
+  Module: 0x00,
+  TypeRef: 0x01,
+  TypeDef: 0x02,
+  FieldPtr: 0x03,
+  Field: 0x04,
+  MethodPtr: 0x05,
+  MethodDef: 0x06,
+  ParamPtr: 0x07,
+  Param: 0x08,
+  InterfaceImpl: 0x09,
+  MemberRef: 0x0a,
+  Constant: 0x0b,
+  CustomAttribute: 0x0c,
+  FieldMarshal: 0x0d,
+  DeclSecurity: 0x0e,
+  ClassLayout: 0x0f,
+  FieldLayout: 0x10,
+  StandAloneSig: 0x11,
+  EventMap: 0x12,
+  EventPtr: 0x13,
+  Event: 0x14,
+  PropertyMap: 0x15,
+  PropertyPtr: 0x16,
+  Property: 0x17,
+  MethodSemantics: 0x18,
+  MethodImpl: 0x19,
+  ModuleRef: 0x1a,
+  TypeSpec: 0x1b,
+  ImplMap: 0x1c,
+  FieldRVA: 0x1d,
+  EncLog: 0x1e,
+  EncMap: 0x1f,
+  Assembly: 0x20,
+  AssemblyProcessor: 0x21,
+  AssemblyOS: 0x22,
+  AssemblyRef: 0x23,
+  AssemblyRefProcessor: 0x24,
+  AssemblyRefOS: 0x25,
+  File: 0x26,
+  ExportedType: 0x27,
+  ManifestResource: 0x28,
+  NestedClass: 0x29,
+  GenericParam: 0x2a,
+  MethodSpec: 0x2b,
+  GenericParamConstraint: 0x2c
+} as const;
+
+/**
+ * Coded indexes point into one of several tables; the low bits hold the table tag
+ * (ECMA-335 II.24.2.6). Unused tags are listed as -1.
+ */
+const CODED_INDEXES = {
+  TypeDefOrRef: [TABLE.TypeDef, TABLE.TypeRef, TABLE.TypeSpec],
+  HasConstant: [TABLE.Field, TABLE.Param, TABLE.Property],
+  HasCustomAttribute: [
+    TABLE.MethodDef, TABLE.Field, TABLE.TypeRef, TABLE.TypeDef, TABLE.Param, TABLE.InterfaceImpl,
+    TABLE.MemberRef, TABLE.Module, TABLE.DeclSecurity, TABLE.Property, TABLE.Event, TABLE.StandAloneSig,
+    TABLE.ModuleRef, TABLE.TypeSpec, TABLE.Assembly, TABLE.AssemblyRef, TABLE.File, TABLE.ExportedType,
+    TABLE.ManifestResource, TABLE.GenericParam, TABLE.GenericParamConstraint, TABLE.MethodSpec
+  ],
+  HasFieldMarshal: [TABLE.Field, TABLE.Param],
+  HasDeclSecurity: [TABLE.TypeDef, TABLE.MethodDef, TABLE.Assembly],
+  MemberRefParent: [TABLE.TypeDef, TABLE.TypeRef, TABLE.ModuleRef, TABLE.MethodDef, TABLE.TypeSpec],
+  HasSemantics: [TABLE.Event, TABLE.Property],
+  MethodDefOrRef: [TABLE.MethodDef, TABLE.MemberRef],
+  MemberForwarded: [TABLE.Field, TABLE.MethodDef],
+  Implementation: [TABLE.File, TABLE.AssemblyRef, TABLE.ExportedType],
+  CustomAttributeType: [-1, -1, TABLE.MethodDef, TABLE.MemberRef, -1],
+  ResolutionScope: [TABLE.Module, TABLE.ModuleRef, TABLE.AssemblyRef, TABLE.TypeRef],
+  TypeOrMethodDef: [TABLE.TypeDef, TABLE.MethodDef]
+} as const;
+
+type CodedIndex = keyof typeof CODED_INDEXES;
+
+type Column =
+  | 'u16'
+  | 'u32'
+  | 'string'
+  | 'guid'
+  | 'blob'
+  | { table: number }
+  | { coded: CodedIndex };
+
+const table = (id: number): Column => ({ table: id });
+const coded = (name: CodedIndex): Column => ({ coded: name });
+
+/** Column layout of every metadata table, indexed by table number (ECMA-335 II.22) */
+const TABLE_SCHEMAS: Column[][] = [
+  /* Module */ ['u16', 'string', 'guid', 'guid', 'guid'],
+  /* TypeRef */ [coded('ResolutionScope'), 'string', 'string'],
+  /* TypeDef */ ['u32', 'string', 'string', coded('TypeDefOrRef'), table(TABLE.Field), table(TABLE.MethodDef)],
+  /* FieldPtr */ [table(TABLE.Field)],
+  /* Field */ ['u16', 'string', 'blob'],
+  /* MethodPtr */ [table(TABLE.MethodDef)],
+  /* MethodDef */ ['u32', 'u16', 'u16', 'string', 'blob', table(TABLE.Param)],
+  /* ParamPtr */ [table(TABLE.Param)],
+  /* Param */ ['u16', 'u16', 'string'],
+  /* InterfaceImpl */ [table(TABLE.TypeDef), coded('TypeDefOrRef')],
+  /* MemberRef */ [coded('MemberRefParent'), 'string', 'blob'],
+  // The constant's type is one byte followed by a padding byte
+  /* Constant */ ['u16', coded('HasConstant'), 'blob'],
+  /* CustomAttribute */ [coded('HasCustomAttribute'), coded('CustomAttributeType'), 'blob'],
+  /* FieldMarshal */ [coded('HasFieldMarshal'), 'blob'],
+  /* DeclSecurity */ ['u16', coded('HasDeclSecurity'), 'blob'],
+  /* ClassLayout */ ['u16', 'u32', table(TABLE.TypeDef)],
+  /* FieldLayout */ ['u32', table(TABLE.Field)],
+  /* StandAloneSig */ ['blob'],
+  /* EventMap */ [table(TABLE.TypeDef), table(TABLE.Event)],
+  /* EventPtr */ [table(TABLE.Event)],
+  /* Event */ ['u16', 'string', coded('TypeDefOrRef')],
+  /* PropertyMap */ [table(TABLE.TypeDef), table(TABLE.Property)],
+  /* PropertyPtr */ [table(TABLE.Property)],
+  /* Property */ ['u16', 'string', 'blob'],
+  /* MethodSemantics */ ['u16', table(TABLE.MethodDef), coded('HasSemantics')],
+  /* MethodImpl */ [table(TABLE.TypeDef), coded('MethodDefOrRef'), coded('MethodDefOrRef')],
+  /* ModuleRef */ ['string'],
+  /* TypeSpec */ ['blob'],
+  /* ImplMap */ ['u16', coded('MemberForwarded'), 'string', table(TABLE.ModuleRef)],
+  /* FieldRVA */ ['u32', table(TABLE.Field)],
+  /* EncLog */ ['u32', 'u32'],
+  /* EncMap */ ['u32'],
+  /* Assembly */ ['u32', 'u16', 'u16', 'u16', 'u16', 'u32', 'blob', 'string', 'string'],
+  /* AssemblyProcessor */ ['u32'],
+  /* AssemblyOS */ ['u32', 'u32', 'u32'],
+  /* AssemblyRef */ ['u16', 'u16', 'u16', 'u16', 'u32', 'blob', 'string', 'string', 'blob'],
+  /* AssemblyRefProcessor */ ['u32', table(TABLE.AssemblyRef)],
+  /* AssemblyRefOS */ ['u32', 'u32', 'u32', table(TABLE.AssemblyRef)],
+  /* File */ ['u32', 'string', 'blob'],
+  /* ExportedType */ ['u32', 'u32', 'string', 'string', coded('Implementation')],
+  /* ManifestResource */ ['u32', 'u32', 'string', coded('Implementation')],
+  /* NestedClass */ [table(TABLE.TypeDef), table(TABLE.TypeDef)],
+  /* GenericParam */ ['u16', 'u16', coded('TypeOrMethodDef'), 'string'],
+  /* MethodSpec */ [coded('MethodDefOrRef'), 'blob'],
+  /* GenericParamConstraint */ [table(TABLE.GenericParam), coded('TypeDefOrRef')]
+];
+
+const CLI_HEADER_DIRECTORY = 14;
+const METADATA_SIGNATURE = 0x424a5342; // "BSJB"
+
+interface Section {
+  virtualAddress: number;
+  virtualSize: number;
+  rawSize: number;
+  rawPointer: number;
+}
+
+interface Heap {
+  offset: number;
+  size: number;
+}
+
+/**
+ * Reads the identity and references of a .NET assembly
+ *
+ * @param buffer - Contents of a .dll or .exe file
+ * @returns The assembly metadata, or null for native DLLs and modules without an assembly manifest
+ * @throws If the file isn't a PE image or its metadata is corrupt
+ */
+export function readAssemblyInfo(buffer: Buffer): Omit<AssemblyInfo, 'file'> | null {
+  try {
+    return new MetadataReader(buffer).read();
+  } catch (error) {
+    // Buffer reads past the end throw ERR_OUT_OF_RANGE
+    if ((error as NodeJS.ErrnoException).code === 'ERR_OUT_OF_RANGE' || error instanceof RangeError) {
+      throw new Error('Assembly file is truncated');
+    }
+    throw error;
+  }
+}
+
+class MetadataReader {
+  private sections: Section[] = [];
+  private strings: Heap = { offset: 0, size: 0 };
+  private blobs: Heap = { offset: 0, size: 0 };
+  private rowCounts: number[] = new Array(64).fill(0);
+  private tableOffsets: number[] = [];
+  private columnSizes: number[][] = [];
+  private rowSizes: number[] = [];
+  private heapSizes = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  read(): Omit<AssemblyInfo, 'file'> | null {
+    const cliHeaderRva = this.readPeHeaders();
+    if (!cliHeaderRva) {
+      return null;
+    }
+
+    const cliHeader = this.rvaToOffset(cliHeaderRva);
+    const metadata = this.rvaToOffset(this.buffer.readUInt32LE(cliHeader + 8));
+    const runtimeVersion = this.readMetadataRoot(metadata);
+
+    if (this.rowCounts[TABLE.Assembly] === 0) {
+      return null;
+    }
+
+    const assembly = this.readRow(TABLE.Assembly, 1);
+    const culture = this.readString(assembly[8]);
+
+    const references = [];
+    for (let row = 1; row <= this.rowCounts[TABLE.AssemblyRef]; row++) {
+      const reference = this.readRow(TABLE.AssemblyRef, row);
+      references.push({
+        name: this.readString(reference[6]),
+        version: reference.slice(0, 4).join('.')
+      });
+    }
+
+    return {
+      name: this.readString(assembly[7]),
+      version: assembly.slice(1, 5).join('.'),
+      culture: culture || undefined,
+      targetFramework: this.readTargetFramework(),
+      runtimeVersion,
+      references
+    };
+  }
+
+  /**
+   * Parses the DOS, PE and section headers
+   * @returns RVA of the CLI header, or 0 for native images
+   */
+  private readPeHeaders(): number {
+    const buffer = this.buffer;
+
+    if (buffer.length < 0x40 || buffer.readUInt16LE(0) !== 0x5a4d) {
+      throw new Error('Not a PE file (missing MZ header)');
+    }
+
+    const peHeader = buffer.readUInt32LE(0x3c);
+    if (buffer.readUInt32LE(peHeader) !== 0x00004550) {
+      throw new Error('Not a PE file (missing PE signature)');
+    }
+
+    const coffHeader = peHeader + 4;
+    const sectionCount = buffer.readUInt16LE(coffHeader + 2);
+    const optionalHeaderSize = buffer.readUInt16LE(coffHeader + 16);
+    const optionalHeader = coffHeader + 20;
+
+    const magic = buffer.readUInt16LE(optionalHeader);
+    let dataDirectories: number;
+    if (magic === 0x10b) {
+      dataDirectories = optionalHeader + 96;
+    } else if (magic === 0x20b) {
+      dataDirectories = optionalHeader + 112;
+    } else {
+      throw new Error(`Unknown PE optional header magic 0x${magic.toString(16)}`);
+    }
+
+    let section = optionalHeader + optionalHeaderSize;
+    for (let i = 0; i < sectionCount; i++, section += 40) {
+      this.sections.push({
+        virtualSize: buffer.readUInt32LE(section + 8),
+        virtualAddress: buffer.readUInt32LE(section + 12),
+        rawSize: buffer.readUInt32LE(section + 16),
+        rawPointer: buffer.readUInt32LE(section + 20)
+      });
+    }
+
+    const directoryCount = buffer.readUInt32LE(dataDirectories - 4);
+    if (directoryCount <= CLI_HEADER_DIRECTORY) {
+      return 0;
+    }
+
+    return buffer.readUInt32LE(dataDirectories + CLI_HEADER_DIRECTORY * 8);
+  }
+
+  /**
+   * Parses the metadata root, its stream headers and the table stream header
+   * @returns The metadata version string
+   */
+  private readMetadataRoot(metadata: number): string {
+    const buffer = this.buffer;
+
+    if (buffer.readUInt32LE(metadata) !== METADATA_SIGNATURE) {
+      throw new Error('Invalid CLI metadata signature');
+    }
+
+    const versionLength = buffer.readUInt32LE(metadata + 12);
+    const version = buffer.toString('utf8', metadata + 16, metadata + 16 + versionLength);
+    const nullIndex = version.indexOf('\0');
+    const runtimeVersion = nullIndex >= 0 ? version.slice(0, nullIndex) : version;
+
+    let position = metadata + 16 + versionLength;
+    const streamCount = buffer.readUInt16LE(position + 2);
+    position += 4;
+
+    let tables: Heap | null = null;
+    for (let i = 0; i < streamCount; i++) {
+      const heap = {
+        offset: metadata + buffer.readUInt32LE(position),
+        size: buffer.readUInt32LE(position + 4)
+      };
+      const nameEnd = buffer.indexOf(0, position + 8);
+      if (nameEnd < 0) {
+        throw new Error('Unterminated metadata stream name');
+      }
+      const name = buffer.toString('ascii', position + 8, nameEnd);
+      // Names are null-terminated and padded to a 4-byte boundary
+      position = position + 8 + Math.ceil((nameEnd - position - 8 + 1) / 4) * 4;
+
+      if (name === '#~' || name === '#-') {
+        tables = heap;
+      } else if (name === '#Strings') {
+        this.strings = heap;
+      } else if (name === '#Blob') {
+        this.blobs = heap;
+      }
+    }
+
+    if (!tables) {
+      throw new Error('Assembly has no metadata table stream');
+    }
+
+    this.readTableHeader(tables.offset);
+    return runtimeVersion;
+  }
+
+  private readTableHeader(offset: number): void {
+    const buffer = this.buffer;
+    this.heapSizes = buffer.readUInt8(offset + 6);
+
+    const validLow = buffer.readUInt32LE(offset + 8);
+    const validHigh = buffer.readUInt32LE(offset + 12);
+
+    let position = offset + 24;
+    for (let id = 0; id < 64; id++) {
+      const present = id < 32 ? (validLow >>> id) & 1 : (validHigh >>> (id - 32)) & 1;
+      if (!present) continue;
+
+      if (id >= TABLE_SCHEMAS.length) {
+        throw new Error(`Unsupported metadata table 0x${id.toString(16)}`);
+      }
+      this.rowCounts[id] = buffer.readUInt32LE(position);
+      position += 4;
+    }
+
+    // Uncompressed (#-) streams may carry an extra 4 bytes after the row counts
+    if (this.heapSizes & 0x40) {
+      position += 4;
+    }
+
+    for (let id = 0; id < TABLE_SCHEMAS.length; id++) {
+      this.columnSizes[id] = TABLE_SCHEMAS[id].map(column => this.columnSize(column));
+      this.rowSizes[id] = this.columnSizes[id].reduce((sum, size) => sum + size, 0);
+      this.tableOffsets[id] = position;
+      position += this.rowSizes[id] * this.rowCounts[id];
+    }
+  }
+
+  private columnSize(column: Column): number {
+    if (column === 'u16') return 2;
+    if (column === 'u32') return 4;
+    if (column === 'string') return this.heapSizes & 0x01 ? 4 : 2;
+    if (column === 'guid') return this.heapSizes & 0x02 ? 4 : 2;
+    if (column === 'blob') return this.heapSizes & 0x04 ? 4 : 2;
+
+    if ('table' in column) {
+      return this.rowCounts[column.table] < 0x10000 ? 2 : 4;
+    }
+
+    const tables = CODED_INDEXES[column.coded];
+    const tagBits = Math.ceil(Math.log2(tables.length));
+    const maxRows = Math.max(...tables.map(id => (id < 0 ? 0 : this.rowCounts[id])));
+    return maxRows < 1 << (16 - tagBits) ? 2 : 4;
+  }
+
+  /**
+   * Reads the raw column values of a row (row numbers start at 1)
+   */
+  private readRow(tableId: number, row: number): number[] {
+    let position = this.tableOffsets[tableId] + (row - 1) * this.rowSizes[tableId];
+
+    return this.columnSizes[tableId].map(size => {
+      const value = size === 2 ? this.buffer.readUInt16LE(position) : this.buffer.readUInt32LE(position);
+      position += size;
+      return value;
+    });
+  }
+
+  private decodeCodedIndex(name: CodedIndex, value: number): { table: number; row: number } {
+    const tables = CODED_INDEXES[name];
+    const tagBits = Math.ceil(Math.log2(tables.length));
+    return {
+      table: tables[value & ((1 << tagBits) - 1)] ?? -1,
+      row: value >>> tagBits
+    };
+  }
+
+  /**
+   * Finds [assembly: TargetFramework("...")] and returns its framework name
+   */
+  private readTargetFramework(): string | undefined {
+    for (let row = 1; row <= this.rowCounts[TABLE.CustomAttribute]; row++) {
+      const [parentValue, typeValue, valueIndex] = this.readRow(TABLE.CustomAttribute, row);
+
+      const parent = this.decodeCodedIndex('HasCustomAttribute', parentValue);
+      if (parent.table !== TABLE.Assembly) continue;
+
+      const constructor = this.decodeCodedIndex('CustomAttributeType', typeValue);
+      if (constructor.table !== TABLE.MemberRef) continue;
+
+      const memberRef = this.readRow(TABLE.MemberRef, constructor.row);
+      const declaringType = this.decodeCodedIndex('MemberRefParent', memberRef[0]);
+      if (declaringType.table !== TABLE.TypeRef) continue;
+
+      const typeRef = this.readRow(TABLE.TypeRef, declaringType.row);
+      if (
+        this.readString(typeRef[1]) !== 'TargetFrameworkAttribute' ||
+        this.readString(typeRef[2]) !== 'System.Runtime.Versioning'
+      ) {
+        continue;
+      }
+
+      return this.readAttributeString(valueIndex);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reads the first string argument of a custom attribute value blob
+   */
+  private readAttributeString(blobIndex: number): string | undefined {
+    const blob = this.readBlob(blobIndex);
+
+    // Prolog 0x0001, then a SerString: compressed length + UTF-8 (0xFF means null)
+    if (blob.length < 3 || blob.readUInt16LE(0) !== 0x0001 || blob[2] === 0xff) {
+      return undefined;
+    }
+
+    const { value: length, size } = readCompressedUInt(blob, 2);
+    return blob.toString('utf8', 2 + size, 2 + size + length);
+  }
+
+  private readString(index: number): string {
+    const start = this.strings.offset + index;
+    const end = this.buffer.indexOf(0, start);
+    return this.buffer.toString('utf8', start, end < 0 ? this.strings.offset + this.strings.size : end);
+  }
+
+  private readBlob(index: number): Buffer {
+    const start = this.blobs.offset + index;
+    const { value: length, size } = readCompressedUInt(this.buffer, start);
+    return this.buffer.subarray(start + size, start + size + length);
+  }
+
+  private rvaToOffset(rva: number): number {
+    for (const section of this.sections) {
+      const size = Math.max(section.virtualSize, section.rawSize);
+      if (rva >= section.virtualAddress && rva < section.virtualAddress + size) {
+        return section.rawPointer + rva - section.virtualAddress;
+      }
+    }
+
+    throw new Error(`RVA 0x${rva.toString(16)} is outside every section`);
+  }
+}
+
+/**
+ * Decodes an ECMA-335 compressed unsigned integer (II.23.2)
+ */
+function readCompressedUInt(buffer: Buffer, offset: number): { value: number; size: number } {
+  const first = buffer.readUInt8(offset);
+
+  if ((first & 0x80) === 0) {
+    return { value: first, size: 1 };
+  }
+  if ((first & 0xc0) === 0x80) {
+    return { value: ((first & 0x3f) << 8) | buffer.readUInt8(offset + 1), size: 2 };
+  }
+  return { value: (buffer.readUInt32BE(offset) & 0x1fffffff) >>> 0, size: 4 };
+}
@@ -0,0 +1,65 @@
+/**
+ * Minimal INI parser for Duckov mod manifests (info.ini)
+ *
+ * Supports:
+ * - `key = value` and `key: value` pairs
+ * - `[section]` headers (keys are stored as `section.key`)
+ * - `;` and `#` comment lines
+ * - Optional single or double quotes around values
+ * - Escaped newlines (`\n`) inside values
+ *
+ * Keys are lower-cased so lookups are case-insensitive.
+ */
+export function parseIni(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  let section = '';
+
+  // Strip UTF-8 BOM that some Windows editors add
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    if (!line || line.startsWith(';') || line.startsWith('#')) {
+      continue;
+    }
+
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim().toLowerCase();
+      continue;
+    }
+
+    const separatorIndex = line.search(/[=:]/);
+    if (separatorIndex <= 0) {
+      continue;
+    }
+
+    const key = line.slice(0, separatorIndex).trim().toLowerCase();
+    let value = line.slice(separatorIndex + 1).trim();
+
+    if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+      value = value.slice(1, -1);
+    }
+
+    value = value.replace(/\\n/g, '\n');
+
+    result[section ? `${section}.${key}` : key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Splits a comma or semicolon separated INI value into trimmed, non-empty items
+ */
+export function splitIniList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(/[,;]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
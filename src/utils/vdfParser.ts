@@ -0,0 +1,122 @@
+/**
+ * Parser for Valve's KeyValues text format (.vdf / .acf files)
+ *
+ * Supports:
+ * - Quoted and unquoted keys and values
+ * - Nested `{ ... }` blocks
+ * - `//` line comments
+ * - Escape sequences (`\"`, `\\`, `\n`, `\t`) inside quoted strings
+ * - Conditionals such as `[$WIN32]` after a value (ignored)
+ *
+ * Duplicate keys keep the last value, which is how Steam treats them.
+ */
+export interface VdfObject {
+  [key: string]: string | VdfObject;
+}
+
+export function parseVdf(content: string): VdfObject {
+  const tokens = tokenize(content.replace(/^\uFEFF/, ''));
+  let position = 0;
+
+  const parseObject = (nested: boolean): VdfObject => {
+    const result: VdfObject = {};
+
+    while (position < tokens.length) {
+      const token = tokens[position++];
+
+      if (token.type === 'close') {
+        if (!nested) {
+          throw new Error('Unexpected "}" in VDF content');
+        }
+        return result;
+      }
+      if (token.type === 'open') {
+        throw new Error('Unexpected "{" in VDF content, expected a key');
+      }
+
+      const next = tokens[position++];
+      if (!next) {
+        throw new Error(`Missing value for key "${token.value}" in VDF content`);
+      }
+      if (next.type === 'open') {
+        result[token.value] = parseObject(true);
+      } else if (next.type === 'string') {
+        result[token.value] = next.value;
+      } else {
+        throw new Error(`Unexpected "}" after key "${token.value}" in VDF content`);
+      }
+    }
+
+    if (nested) {
+      throw new Error('Unterminated block in VDF content');
+    }
+    return result;
+  };
+
+  return parseObject(false);
+}
+
+/**
+ * Looks up a key case-insensitively (Steam doesn't agree on casing across versions)
+ */
+export function getVdfValue(object: VdfObject | undefined, key: string): string | VdfObject | undefined {
+  if (!object) {
+    return undefined;
+  }
+
+  const lowerKey = key.toLowerCase();
+  const match = Object.keys(object).find(candidate => candidate.toLowerCase() === lowerKey);
+  return match === undefined ? undefined : object[match];
+}
+
+type Token = { type: 'string'; value: string } | { type: 'open' } | { type: 'close' };
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '{') {
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (char === '}') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (char === '[') {
+      // Platform conditional, e.g. [$WIN32]
+      while (i < content.length && content[i] !== ']') i++;
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < content.length && content[i] !== '"') {
+        if (content[i] === '\\' && i + 1 < content.length) {
+          const escaped = content[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += content[i++];
+        }
+      }
+      if (i >= content.length) {
+        throw new Error('Unterminated string in VDF content');
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+    } else {
+      let value = '';
+      while (i < content.length && !/[\s{}"]/.test(content[i])) {
+        value += content[i++];
+      }
+      tokens.push({ type: 'string', value });
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,404 @@
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import { Readable, Transform, TransformCallback, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { constants as bufferConstants } from 'buffer';
+import { createInflateRaw, inflateRawSync } from 'zlib';
+
+/**
+ * Minimal reader for the zip archives this app writes with archiver
+ *
+ * Supports:
+ * - Stored (0) and deflated (8) entries, checked against their CRC-32
+ * - ZIP64 archives (over 4 GiB or with more than 65535 entries)
+ * - UTF-8 and plain ASCII entry names
+ * - Safe extraction: absolute paths and `..` segments are rejected (zip-slip)
+ *
+ * Not supported: encryption and multi-disk archives. Only the central
+ * directory is held in memory; entries are read with positioned reads and
+ * extracted as streams, and never inflate past their declared size.
+ */
+export interface ZipEntry {
+  /** Path inside the archive as stored (forward slashes) */
+  name: string;
+  isDirectory: boolean;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  /** Offset of the entry's local file header */
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  /** Reads and decompresses one entry into memory */
+  read(entry: ZipEntry): Promise<Buffer>;
+  /** Streams one entry's decompressed contents; the stream fails if they don't match the entry */
+  stream(entry: ZipEntry): Promise<Readable>;
+}
+
+/**
+ * Where the archive bytes come from: a file on disk or a buffer
+ */
+interface ZipSource {
+  size: number;
+  read(position: number, length: number): Promise<Buffer>;
+  /** Streams the bytes from `start` up to (not including) `end` */
+  stream(start: number, end: number): Readable;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_LOCATOR_SIZE = 20;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/**
+ * Opens a zip archive on disk
+ * Reads only the central directory; entries are read on demand.
+ */
+export async function openZip(zipPath: string): Promise<ZipArchive> {
+  const { size } = await fs.stat(zipPath);
+
+  return parseArchive({
+    size,
+    read: async (position, length) => {
+      const handle = await fs.open(zipPath, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, position);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+    stream: (start, end) => end > start ? createReadStream(zipPath, { start, end: end - 1 }) : Readable.from([])
+  });
+}
+
+/**
+ * Parses a zip archive held in memory
+ */
+export function parseZip(buffer: Buffer): Promise<ZipArchive> {
+  return parseArchive({
+    size: buffer.length,
+    read: async (position, length) => buffer.subarray(position, position + length),
+    stream: (start, end) => Readable.from(end > start ? [buffer.subarray(start, end)] : [])
+  });
+}
+
+async function parseArchive(source: ZipSource): Promise<ZipArchive> {
+  const { entryCount, directoryOffset, directorySize } = await readEndOfCentralDirectory(source);
+  if (directoryOffset + directorySize > source.size || directorySize > bufferConstants.MAX_LENGTH) {
+    throw new Error('Corrupt zip archive: central directory is out of bounds');
+  }
+
+  const directory = await source.read(directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (position + 46 > directory.length || directory.readUInt32LE(position) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip archive: bad central directory entry');
+    }
+
+    const flags = directory.readUInt16LE(position + 8);
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+    const nameEnd = position + 46 + nameLength;
+    const name = directory.toString('utf8', position + 46, nameEnd);
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+
+    const entry: ZipEntry = {
+      name,
+      isDirectory: name.endsWith('/'),
+      method: directory.readUInt16LE(position + 10),
+      crc32: directory.readUInt32LE(position + 16),
+      compressedSize: directory.readUInt32LE(position + 20),
+      size: directory.readUInt32LE(position + 24),
+      localHeaderOffset: directory.readUInt32LE(position + 42)
+    };
+    applyZip64Extra(entry, directory.subarray(nameEnd, nameEnd + extraLength));
+    entries.push(entry);
+
+    position = nameEnd + extraLength + commentLength;
+  }
+
+  return {
+    entries,
+    read: entry => readEntry(source, entry),
+    stream: entry => streamEntry(source, entry)
+  };
+}
+
+/**
+ * Maps an entry name to a path inside `destDir`
+ * Throws for absolute paths, drive letters and `..` segments, which could
+ * otherwise write outside the destination (zip-slip).
+ */
+export function resolveZipEntryPath(destDir: string, name: string): string {
+  if (name.includes('\0')) {
+    throw new Error(`Unsafe path in zip archive: ${JSON.stringify(name)}`);
+  }
+  if (/^([a-zA-Z]:|[\\/])/.test(name)) {
+    throw new Error(`Absolute path in zip archive: ${name}`);
+  }
+
+  const segments = name.split(/[\\/]/).filter(segment => segment && segment !== '.');
+  if (segments.includes('..')) {
+    throw new Error(`Path escapes the destination in zip archive: ${name}`);
+  }
+
+  const root = path.resolve(destDir);
+  const target = path.join(root, ...segments);
+  if (target !== root && !target.startsWith(root + path.sep)) {
+    throw new Error(`Path escapes the destination in zip archive: ${name}`);
+  }
+
+  return target;
+}
+
+/**
+ * Extracts every entry of an archive into a folder
+ * All paths are checked before anything is written.
+ *
+ * @param archive - Opened archive
+ * @param destDir - Folder to extract into (created if needed)
+ * @param prefix - Only extract entries below this folder, with the prefix removed
+ * @returns Number of files written
+ */
+export async function extractZip(archive: ZipArchive, destDir: string, prefix: string = ''): Promise<number> {
+  const normalizedPrefix = prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+  const targets: Array<{ entry: ZipEntry; target: string }> = [];
+
+  for (const entry of archive.entries) {
+    const name = entry.name.replace(/\\/g, '/');
+    if (!name.startsWith(normalizedPrefix)) continue;
+
+    const relativeName = name.slice(normalizedPrefix.length);
+    if (!relativeName) continue;
+
+    targets.push({ entry, target: resolveZipEntryPath(destDir, relativeName) });
+  }
+
+  await fs.mkdir(destDir, { recursive: true });
+  let written = 0;
+
+  for (const { entry, target } of targets) {
+    if (entry.isDirectory) {
+      await fs.mkdir(target, { recursive: true });
+    } else {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await pipelineAsync(await archive.stream(entry), createWriteStream(target));
+      written++;
+    }
+  }
+
+  return written;
+}
+
+/**
+ * Finds the central directory, following the ZIP64 record when the classic
+ * end record's fields are saturated
+ */
+async function readEndOfCentralDirectory(
+  source: ZipSource
+): Promise<{ entryCount: number; directoryOffset: number; directorySize: number }> {
+  const tailLength = Math.min(source.size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+  const tailStart = source.size - tailLength;
+  const tail = await source.read(tailStart, tailLength);
+
+  let end = -1;
+  for (let position = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; position >= 0; position--) {
+    if (tail.readUInt32LE(position) === END_OF_CENTRAL_DIRECTORY) {
+      end = position;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a zip archive: end of central directory not found');
+  }
+
+  const entryCount = tail.readUInt16LE(end + 10);
+  const directorySize = tail.readUInt32LE(end + 12);
+  const directoryOffset = tail.readUInt32LE(end + 16);
+  if (entryCount !== 0xffff && directorySize !== 0xffffffff && directoryOffset !== 0xffffffff) {
+    return { entryCount, directoryOffset, directorySize };
+  }
+
+  const locatorPosition = tailStart + end - ZIP64_LOCATOR_SIZE;
+  const locator = locatorPosition >= 0 ? await source.read(locatorPosition, ZIP64_LOCATOR_SIZE) : Buffer.alloc(0);
+  if (locator.length < ZIP64_LOCATOR_SIZE || locator.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+    throw new Error('Corrupt zip archive: ZIP64 end of central directory locator not found');
+  }
+
+  const record = await source.read(readUInt64(locator, 8), 56);
+  if (record.length < 56 || record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+    throw new Error('Corrupt zip archive: bad ZIP64 end of central directory');
+  }
+
+  return {
+    entryCount: readUInt64(record, 32),
+    directorySize: readUInt64(record, 40),
+    directoryOffset: readUInt64(record, 48)
+  };
+}
+
+/**
+ * Replaces saturated sizes and offsets with the values from the ZIP64 extra field
+ */
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  for (let position = 0; position + 4 <= extra.length;) {
+    const id = extra.readUInt16LE(position);
+    const length = extra.readUInt16LE(position + 2);
+    const fieldEnd = position + 4 + length;
+
+    if (id === ZIP64_EXTRA_FIELD && fieldEnd <= extra.length) {
+      // Only the saturated fields are present, in this order
+      let offset = position + 4;
+      for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+        if (entry[key] === 0xffffffff && offset + 8 <= fieldEnd) {
+          entry[key] = readUInt64(extra, offset);
+          offset += 8;
+        }
+      }
+      return;
+    }
+
+    position = fieldEnd;
+  }
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  const value = buffer.readBigUInt64LE(offset);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error('Corrupt zip archive: size or offset out of range');
+  }
+  return Number(value);
+}
+
+/**
+ * Finds where an entry's data starts, after its local file header
+ */
+async function findEntryData(source: ZipSource, entry: ZipEntry): Promise<number> {
+  const offset = entry.localHeaderOffset;
+  const header = await source.read(offset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip archive: bad local header for ${entry.name}`);
+  }
+
+  const dataStart = offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  if (dataStart + entry.compressedSize > source.size) {
+    throw new Error(`Corrupt zip archive: data for ${entry.name} is truncated`);
+  }
+  return dataStart;
+}
+
+async function readEntry(source: ZipSource, entry: ZipEntry): Promise<Buffer> {
+  if (entry.size > bufferConstants.MAX_LENGTH || entry.compressedSize > bufferConstants.MAX_LENGTH) {
+    throw new Error(`Zip entry is too large to read into memory: ${entry.name}`);
+  }
+
+  const dataStart = await findEntryData(source, entry);
+  const compressed = await source.read(dataStart, entry.compressedSize);
+
+  let data: Buffer;
+  if (entry.method === 0) {
+    data = Buffer.from(compressed);
+  } else if (entry.method === 8) {
+    try {
+      // maxOutputLength must be at least 1; the size check below catches the rest
+      data = inflateRawSync(compressed, { maxOutputLength: Math.max(entry.size, 1) });
+    } catch {
+      throw new Error(`Corrupt zip archive: ${entry.name} doesn't inflate to its declared size`);
+    }
+  } else {
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  if (data.length !== entry.size || crc32(data) !== entry.crc32) {
+    throw new Error(`Corrupt zip archive: checksum mismatch for ${entry.name}`);
+  }
+
+  return data;
+}
+
+async function streamEntry(source: ZipSource, entry: ZipEntry): Promise<Readable> {
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  const dataStart = await findEntryData(source, entry);
+  const raw = source.stream(dataStart, dataStart + entry.compressedSize);
+  const check = new EntryCheck(entry);
+  const fail = (error: Error | null) => {
+    if (error) check.destroy(error);
+  };
+
+  return entry.method === 8 ? pipeline(raw, createInflateRaw(), check, fail) : pipeline(raw, check, fail);
+}
+
+/**
+ * Passes an entry's data through, failing once it grows past the declared
+ * size or ends with the wrong length or CRC-32
+ */
+class EntryCheck extends Transform {
+  private length = 0;
+  private crc = 0;
+
+  constructor(private entry: ZipEntry) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.length += chunk.length;
+    if (this.length > this.entry.size) {
+      callback(new Error(`Corrupt zip archive: ${this.entry.name} doesn't inflate to its declared size`));
+      return;
+    }
+
+    this.crc = crc32(chunk, this.crc);
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.length !== this.entry.size || this.crc !== this.entry.crc32) {
+      callback(new Error(`Corrupt zip archive: checksum mismatch for ${this.entry.name}`));
+      return;
+    }
+    callback();
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 of `data`, continuing from `previous` when checksumming in chunks
+ */
+function crc32(data: Buffer, previous: number = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
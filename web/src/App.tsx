@@ -2,8 +2,20 @@ import React, { useState, useEffect } from 'react'
 import ModList from './components/ModList'
 import SearchBar from './components/SearchBar'
 import Statistics from './components/Statistics'
-import Settings from './components/Settings'
-import { modsAPI } from './services/api'
+import Settings, { LibraryRoot } from './components/Settings'
+import Profiles from './components/Profiles'
+import LoadOrder from './components/LoadOrder'
+import IntegrityReport from './components/IntegrityReport'
+import ModDetails from './components/ModDetails'
+import WorkshopReport from './components/WorkshopReport'
+import DiskUsage from './components/DiskUsage'
+import OrphanCleanup from './components/OrphanCleanup'
+import ImportDialog from './components/ImportDialog'
+import ExportDialog from './components/ExportDialog'
+import ReportDialog from './components/ReportDialog'
+import ModHistory from './components/ModHistory'
+import ModBackups from './components/ModBackups'
+import { modsAPI, appAPI } from './services/api'
 import './App.css'
 
 interface ModInfo {
@@ -18,6 +30,37 @@ interface ModInfo {
   timeCreated: string;
   timeUpdated: string;
   language?: string;
+  source?: 'workshop' | 'local';
+  enabled?: boolean;
+  workshopState?: {
+    installed: boolean;
+    subscribed: boolean;
+    needsUpdate: boolean;
+  };
+}
+
+interface ModConflict {
+  type: 'file' | 'assembly' | 'manifest-name';
+  severity: 'low' | 'medium' | 'high';
+  key: string;
+  modIds: string[];
+  message: string;
+}
+
+interface DependencyGraph {
+  dependencies: Array<{
+    modId: string;
+    dependsOn: string;
+    source: 'manifest' | 'steam' | 'description';
+    resolvedModId?: string;
+    status: 'satisfied' | 'missing' | 'disabled';
+  }>;
+  warnings: Array<{
+    modId: string;
+    dependsOn: string;
+    type: 'missing' | 'disabled';
+    message: string;
+  }>;
 }
 
 export type SortOption = 'updated' | 'rating' | 'subscriptions' | 'title';
@@ -33,13 +76,31 @@ function App() {
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedSources, setSelectedSources] = useState<string[]>([]);
   const [minRating, setMinRating] = useState<number>(0);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedMods, setSelectedMods] = useState<string[]>([]);
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [collectionUrl, setCollectionUrl] = useState('');
+  const [collectionDiff, setCollectionDiff] = useState<any>(null);
+  const [collectionExportIds, setCollectionExportIds] = useState<string[] | null>(null);
   const [showSettings, setShowSettings] = useState(false);
-  const [workshopPath, setWorkshopPath] = useState('');
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showLoadOrder, setShowLoadOrder] = useState(false);
+  const [showWorkshopReport, setShowWorkshopReport] = useState(false);
+  const [showDiskUsage, setShowDiskUsage] = useState(false);
+  const [showOrphanCleanup, setShowOrphanCleanup] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showModpackExport, setShowModpackExport] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [verifyModId, setVerifyModId] = useState<string | null>(null);
+  const [detailsModId, setDetailsModId] = useState<string | null>(null);
+  const [backupsModId, setBackupsModId] = useState<string | null>(null);
+  // The history dialog is open while set; without a mod ID it shows all mods
+  const [historyTarget, setHistoryTarget] = useState<{ modId?: string } | null>(null);
+  const [conflicts, setConflicts] = useState<ModConflict[]>([]);
+  const [dependencyGraph, setDependencyGraph] = useState<DependencyGraph>({ dependencies: [], warnings: [] });
+  const [libraryRoots, setLibraryRoots] = useState<LibraryRoot[]>([]);
   const [isWorkshopConfigured, setIsWorkshopConfigured] = useState(true);
 
   useEffect(() => {
@@ -52,10 +113,9 @@ function App() {
       if (window.electronAPI?.isWorkshopConfigured) {
         const configured = await window.electronAPI.isWorkshopConfigured();
         setIsWorkshopConfigured(configured);
+        setLibraryRoots(await window.electronAPI.getLibraryRoots());
         
         if (configured) {
-          const path = await window.electronAPI.getWorkshopPath();
-          setWorkshopPath(path);
           // Fetch mods if configured
           await fetchMods();
           await fetchStats();
@@ -76,9 +136,31 @@ function App() {
     }
   };
 
+  // Apply changes the folder watcher detected without a full rescan
+  useEffect(() => {
+    return modsAPI.onModsChanged(({ added, updated, removed }) => {
+      const changed = new Map([...added, ...updated].map((mod: ModInfo) => [mod.id, mod]));
+
+      setMods(prev => [
+        ...prev
+          .filter(mod => !removed.includes(mod.id) && !added.some((a: ModInfo) => a.id === mod.id))
+          .map(mod => changed.get(mod.id) || mod),
+        ...added
+      ]);
+      setSelectedMods(prev => prev.filter(id => !removed.includes(id)));
+      fetchStats();
+    });
+  }, []);
+
+  // Conflicts and dependency warnings depend on which mods are installed and enabled
+  useEffect(() => {
+    fetchConflicts();
+    fetchDependencies();
+  }, [mods]);
+
   useEffect(() => {
     applyFiltersAndSort();
-  }, [mods, searchTerm, sortBy, sortDirection, selectedLanguages, selectedTags, minRating]);
+  }, [mods, searchTerm, sortBy, sortDirection, selectedLanguages, selectedTags, selectedSources, minRating]);
 
   const applyFiltersAndSort = () => {
     let filtered = [...mods];
@@ -107,6 +189,13 @@ function App() {
       );
     }
 
+    // Apply source filter
+    if (selectedSources.length > 0) {
+      filtered = filtered.filter(mod =>
+        selectedSources.includes(mod.source || 'workshop')
+      );
+    }
+
     // Apply rating filter
     if (minRating > 0) {
       filtered = filtered.filter(mod => mod.rating >= minRating);
@@ -168,6 +257,39 @@ function App() {
     }
   };
 
+  const fetchConflicts = async () => {
+    try {
+      setConflicts(await modsAPI.getConflicts());
+    } catch (error) {
+      console.error('Failed to fetch mod conflicts:', error);
+      // Non-critical error, don't show alert
+    }
+  };
+
+  const fetchDependencies = async () => {
+    try {
+      setDependencyGraph(await modsAPI.getDependencyGraph());
+    } catch (error) {
+      console.error('Failed to fetch mod dependencies:', error);
+      // Non-critical error, don't show alert
+    }
+  };
+
+  const dependencyWarningsByMod = dependencyGraph.warnings.reduce<Record<string, DependencyGraph['warnings']>>(
+    (byMod, warning) => {
+      (byMod[warning.modId] = byMod[warning.modId] || []).push(warning);
+      return byMod;
+    },
+    {}
+  );
+
+  const conflictsByMod = conflicts.reduce<Record<string, ModConflict[]>>((byMod, conflict) => {
+    for (const modId of conflict.modIds) {
+      (byMod[modId] = byMod[modId] || []).push(conflict);
+    }
+    return byMod;
+  }, {});
+
   const handleSearch = (term: string) => {
     setSearchTerm(term);
   };
@@ -197,9 +319,18 @@ function App() {
     );
   };
 
+  const toggleSource = (source: string) => {
+    setSelectedSources(prev =>
+      prev.includes(source)
+        ? prev.filter(s => s !== source)
+        : [...prev, source]
+    );
+  };
+
   const clearFilters = () => {
     setSelectedLanguages([]);
     setSelectedTags([]);
+    setSelectedSources([]);
     setMinRating(0);
     setSearchTerm('');
   };
@@ -237,27 +368,27 @@ function App() {
     }
   };
 
-  const handleSaveSettings = async (newWorkshopPath: string) => {
+  const handleSaveSettings = async (newRoots: LibraryRoot[]) => {
     try {
-      if (window.electronAPI?.setWorkshopPath) {
-        await window.electronAPI.setWorkshopPath(newWorkshopPath);
-        setWorkshopPath(newWorkshopPath);
-        setIsWorkshopConfigured(true);
+      if (window.electronAPI?.setLibraryRoots) {
+        const savedRoots = await window.electronAPI.setLibraryRoots(newRoots);
+        setLibraryRoots(savedRoots);
+        setIsWorkshopConfigured(savedRoots.some(root => root.enabled));
         setShowSettings(false);
         
-        // Refresh mods after setting workshop path
+        // Refresh mods after changing the library folders
         await fetchMods();
         await fetchStats();
         
-        alert('Workshop path updated successfully!');
+        alert('Library folders updated successfully!');
       }
     } catch (error) {
-      console.error('Failed to save workshop path:', error);
-      alert(`Failed to save workshop path: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Failed to save library folders:', error);
+      alert(`Failed to save library folders: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const scanWorkshopFolder = async () => {
+  const scanWorkshopFolder = async (fullRescan: boolean = false) => {
     if (!isWorkshopConfigured) {
       alert('Please configure workshop path in settings first.');
       setShowSettings(true);
@@ -267,12 +398,12 @@ function App() {
     setLoading(true);
     try {
       // Use IPC API instead of HTTP fetch
-      const result = await modsAPI.scanWorkshopFolder();
+      const result = await modsAPI.scanWorkshopFolder(fullRescan);
 
       await fetchMods();
       await fetchStats();
 
-      const message = `Scan complete: ${result.scanned} mods found, ${result.synced} synced successfully`;
+      const message = `Scan complete: ${result.scanned} mods found, ${result.synced} synced successfully, ${result.unchanged} unchanged`;
       if (result.errors > 0) {
         alert(`${message}\n\nWarning: ${result.errors} errors occurred during scan.`);
       } else {
@@ -294,6 +425,16 @@ function App() {
     );
   };
 
+  const toggleModEnabled = async (modId: string, enabled: boolean) => {
+    try {
+      const updated = await modsAPI.setModEnabled(modId, enabled);
+      setMods(prev => prev.map(mod => mod.id === modId ? { ...mod, enabled: updated.enabled } : mod));
+    } catch (error) {
+      console.error('Failed to update mod state:', error);
+      alert(`Failed to ${enabled ? 'enable' : 'disable'} mod: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const selectAllMods = () => {
     setSelectedMods(filteredMods.map(mod => mod.id));
   };
@@ -302,67 +443,47 @@ function App() {
     setSelectedMods([]);
   };
 
-  const exportSelectedMods = async () => {
+  const exportSelectedMods = () => {
     if (selectedMods.length === 0) {
       alert('Please select at least one mod to export');
       return;
     }
 
-    setLoading(true);
-    try {
-      // Use IPC API instead of HTTP fetch
-      // The API will handle showing the save dialog and creating the zip
-      const result = await modsAPI.exportMods(selectedMods);
-
-      if (result.success) {
-        let message = `Successfully exported ${result.exportedCount} mod${result.exportedCount > 1 ? 's' : ''} to:\n${result.filePath}`;
-
-        if (result.missingMods.length > 0) {
-          message += `\n\nWarning: ${result.missingMods.length} mod${result.missingMods.length > 1 ? 's' : ''} could not be found locally:\n${result.missingMods.join(', ')}`;
-        }
-
-        alert(message);
-        clearSelection();
-      }
-    } catch (error) {
-      console.error('Failed to export mods:', error);
-
-      // Check if user canceled the export
-      if (error instanceof Error && error.message.includes('canceled')) {
-        console.log('Export canceled by user');
-      } else {
-        alert(`Failed to export mods: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    } finally {
-      setLoading(false);
-    }
+    setShowModpackExport(true);
   };
 
-  const exportFromCollection = async () => {
+  const checkCollection = async () => {
     if (!collectionUrl.trim()) {
       alert('Please enter a Steam Workshop collection URL');
       return;
     }
 
     setLoading(true);
+    setCollectionDiff(null);
     try {
-      // NOTE: Collection export requires Steam Workshop API access
-      // This is not available in the offline Electron version
-      // Keeping the UI for potential future implementation
-      alert(
-        'Collection export is not available in offline mode.\n\n' +
-        'This feature requires Steam Workshop API access.\n' +
-        'Please use "Export Selected" to export mods that are already downloaded.'
-      );
-      setShowExportDialog(false);
+      setCollectionDiff(await modsAPI.getCollectionDiff(collectionUrl.trim()));
     } catch (error) {
-      console.error('Failed to export collection:', error);
-      alert(`Failed to export collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Failed to check collection:', error);
+      alert(`Failed to check collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setLoading(false);
     }
   };
 
+  const closeCollectionDialog = () => {
+    setShowExportDialog(false);
+    setCollectionUrl('');
+    setCollectionDiff(null);
+  };
+
+  const openWorkshopPage = async (modId: string) => {
+    try {
+      await appAPI.openWorkshopPage(modId);
+    } catch (error) {
+      alert(`Failed to open Steam: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   return (
     <div className="App">
       <header className="app-header">
@@ -384,7 +505,89 @@ function App() {
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
         onSave={handleSaveSettings}
-        currentWorkshopPath={workshopPath}
+        currentRoots={libraryRoots}
+      />
+
+      <Profiles
+        isOpen={showProfiles}
+        onClose={() => setShowProfiles(false)}
+        onApplied={() => fetchMods()}
+        selectedModIds={selectedMods}
+        modTitles={Object.fromEntries(mods.map(mod => [mod.id, mod.title]))}
+      />
+
+      <ModDetails
+        mod={mods.find(mod => mod.id === detailsModId) || null}
+        onClose={() => setDetailsModId(null)}
+        onVerify={setVerifyModId}
+        dependencies={dependencyGraph.dependencies.filter(dependency => dependency.modId === detailsModId)}
+        modTitles={Object.fromEntries(mods.map(mod => [mod.id, mod.title]))}
+      />
+
+      <ModBackups
+        modId={backupsModId}
+        modTitle={mods.find(mod => mod.id === backupsModId)?.title}
+        onClose={() => setBackupsModId(null)}
+        onRestored={() => fetchMods()}
+      />
+
+      <ModHistory
+        isOpen={historyTarget !== null}
+        modId={historyTarget?.modId}
+        modTitle={mods.find(mod => mod.id === historyTarget?.modId)?.title}
+        onClose={() => setHistoryTarget(null)}
+      />
+
+      <IntegrityReport
+        modId={verifyModId}
+        modTitle={mods.find(mod => mod.id === verifyModId)?.title}
+        onClose={() => setVerifyModId(null)}
+      />
+
+      <WorkshopReport
+        isOpen={showWorkshopReport}
+        onClose={() => setShowWorkshopReport(false)}
+      />
+
+      <DiskUsage
+        isOpen={showDiskUsage}
+        onClose={() => setShowDiskUsage(false)}
+      />
+
+      <OrphanCleanup
+        isOpen={showOrphanCleanup}
+        onClose={() => setShowOrphanCleanup(false)}
+        onCleaned={() => {
+          fetchMods();
+          fetchStats();
+        }}
+      />
+
+      <ExportDialog
+        isOpen={showModpackExport}
+        modIds={collectionExportIds || selectedMods}
+        onClose={() => {
+          setShowModpackExport(false);
+          setCollectionExportIds(null);
+        }}
+        onExported={collectionExportIds ? () => {} : clearSelection}
+      />
+
+      <ReportDialog
+        isOpen={showReport}
+        selectedIds={selectedMods}
+        shownIds={filteredMods.map(mod => mod.id)}
+        onClose={() => setShowReport(false)}
+      />
+
+      <ImportDialog
+        isOpen={showImport}
+        libraryRoots={libraryRoots}
+        onClose={() => setShowImport(false)}
+        onImported={() => {
+          fetchMods();
+          fetchStats();
+        }}
       />
 
       <main className="app-main">
@@ -392,14 +595,23 @@ function App() {
           <SearchBar onSearch={handleSearch} searchTerm={searchTerm} />
           <div className="actions">
             <button 
-              onClick={scanWorkshopFolder}
+              onClick={() => scanWorkshopFolder()}
               disabled={loading || !isWorkshopConfigured}
               className="btn btn-primary"
-              title={isWorkshopConfigured ? "Scan local workshop folder and sync with Steam Workshop" : "Configure workshop path in settings first"}
+              title={isWorkshopConfigured ? "Scan local workshop folder and sync changed mods with Steam Workshop" : "Configure workshop path in settings first"}
             >
               <span className="btn-icon">📁</span>
               <span className="btn-text">Scan Workshop</span>
             </button>
+            <button 
+              onClick={() => scanWorkshopFolder(true)}
+              disabled={loading || !isWorkshopConfigured}
+              className="btn btn-secondary"
+              title="Re-sync every mod, including ones that haven't changed since the last scan"
+            >
+              <span className="btn-icon">♻️</span>
+              <span className="btn-text">Full Rescan</span>
+            </button>
             <button 
               onClick={() => fetchMods()}
               disabled={loading}
@@ -417,6 +629,78 @@ function App() {
               <span className="btn-icon">📦</span>
               <span className="btn-text">Export Selected ({selectedMods.length})</span>
             </button>
+            <button 
+              onClick={() => setShowReport(true)}
+              disabled={loading || mods.length === 0}
+              className="btn btn-secondary"
+              title="Save the selected or shown mods as a CSV, Markdown, JSON or HTML list"
+            >
+              <span className="btn-icon">📝</span>
+              <span className="btn-text">Mod List</span>
+            </button>
+            <button 
+              onClick={() => setHistoryTarget({})}
+              disabled={loading}
+              className="btn btn-secondary"
+              title="See which mods changed on the Workshop and what changed"
+            >
+              <span className="btn-icon">📜</span>
+              <span className="btn-text">Changelog</span>
+            </button>
+            <button 
+              onClick={() => setShowProfiles(true)}
+              disabled={loading}
+              className="btn btn-secondary"
+              title="Save the selected mods as a profile, or switch between profiles"
+            >
+              <span className="btn-icon">🗂️</span>
+              <span className="btn-text">Profiles</span>
+            </button>
+            <button 
+              onClick={() => setShowLoadOrder(!showLoadOrder)}
+              disabled={loading}
+              className="btn btn-secondary"
+              title="Show or hide the mod load order"
+            >
+              <span className="btn-icon">↕️</span>
+              <span className="btn-text">Load Order</span>
+            </button>
+            <button 
+              onClick={() => setShowWorkshopReport(true)}
+              disabled={loading || !isWorkshopConfigured}
+              className="btn btn-secondary"
+              title="Find outdated and leftover workshop folders using Steam's local records"
+            >
+              <span className="btn-icon">🧾</span>
+              <span className="btn-text">Steam State</span>
+            </button>
+            <button 
+              onClick={() => setShowDiskUsage(true)}
+              disabled={loading || !isWorkshopConfigured}
+              className="btn btn-secondary"
+              title="See how much space each mod and library folder uses, and find duplicate files"
+            >
+              <span className="btn-icon">💽</span>
+              <span className="btn-text">Disk Usage</span>
+            </button>
+            <button 
+              onClick={() => setShowOrphanCleanup(true)}
+              disabled={loading || !isWorkshopConfigured}
+              className="btn btn-secondary"
+              title="Find records of removed mods and empty or incomplete mod folders"
+            >
+              <span className="btn-icon">🧹</span>
+              <span className="btn-text">Clean Up</span>
+            </button>
+            <button 
+              onClick={() => setShowImport(true)}
+              disabled={loading || !isWorkshopConfigured}
+              className="btn btn-secondary"
+              title="Install mods from a zip archive"
+            >
+              <span className="btn-icon">📥</span>
+              <span className="btn-text">Import</span>
+            </button>
             <button 
               onClick={() => setShowExportDialog(!showExportDialog)}
               disabled={loading}
@@ -432,7 +716,7 @@ function App() {
         {showExportDialog && (
           <div className="export-dialog">
             <h3>Export from Steam Workshop Collection</h3>
-            <p>Enter the URL of a Steam Workshop collection to export all mods from it.</p>
+            <p>Enter the URL of a Steam Workshop collection to see which of its mods you have and export them.</p>
             <div className="export-input-group">
               <input
                 type="text"
@@ -442,22 +726,55 @@ function App() {
                 className="export-input"
               />
               <button 
-                onClick={exportFromCollection}
+                onClick={checkCollection}
                 disabled={loading || !collectionUrl.trim()}
                 className="btn btn-primary"
               >
-                Export Collection
+                Check Collection
               </button>
               <button 
-                onClick={() => {
-                  setShowExportDialog(false);
-                  setCollectionUrl('');
-                }}
+                onClick={closeCollectionDialog}
                 className="btn btn-secondary"
               >
                 Cancel
               </button>
             </div>
+
+            {collectionDiff && (
+              <div className="collection-diff">
+                <p>
+                  <strong>{collectionDiff.title || `Collection ${collectionDiff.collectionId}`}</strong>
+                  {' - '}{collectionDiff.installed.length} of {collectionDiff.itemIds.length} mods installed
+                  {collectionDiff.nestedCollectionIds.length > 0 &&
+                    ` (includes ${collectionDiff.nestedCollectionIds.length} nested collection${collectionDiff.nestedCollectionIds.length > 1 ? 's' : ''})`}
+                </p>
+                {collectionDiff.missing.length > 0 && (
+                  <>
+                    <p>Not installed:</p>
+                    <ul className="collection-missing-list">
+                      {collectionDiff.missing.map((item: { modId: string; title?: string }) => (
+                        <li key={item.modId}>
+                          {item.title || item.modId}
+                          <button className="btn-link" onClick={() => openWorkshopPage(item.modId)}>
+                            Open in Steam
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                <button
+                  onClick={() => {
+                    setCollectionExportIds(collectionDiff.installed);
+                    setShowModpackExport(true);
+                  }}
+                  disabled={collectionDiff.installed.length === 0}
+                  className="btn btn-success"
+                >
+                  Export {collectionDiff.installed.length} Installed Mod{collectionDiff.installed.length === 1 ? '' : 's'}...
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -470,9 +787,9 @@ function App() {
           >
             <span className="btn-icon">🔍</span>
             Filters
-            {(selectedLanguages.length > 0 || selectedTags.length > 0 || minRating > 0) && (
+            {(selectedLanguages.length > 0 || selectedTags.length > 0 || selectedSources.length > 0 || minRating > 0) && (
               <span className="filter-badge">
-                {selectedLanguages.length + selectedTags.length + (minRating > 0 ? 1 : 0)}
+                {selectedLanguages.length + selectedTags.length + selectedSources.length + (minRating > 0 ? 1 : 0)}
               </span>
             )}
           </button>
@@ -528,6 +845,25 @@ function App() {
               </div>
             </div>
 
+            <div className="filter-section">
+              <h3>Source</h3>
+              <div className="filter-options">
+                {[
+                  { value: 'workshop', label: 'Steam Workshop' },
+                  { value: 'local', label: 'Local Mods Folder' }
+                ].map(source => (
+                  <label key={source.value} className="filter-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={selectedSources.includes(source.value)}
+                      onChange={() => toggleSource(source.value)}
+                    />
+                    <span>{source.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <div className="filter-section">
               <h3>Minimum Rating</h3>
               <div className="rating-filter">
@@ -567,16 +903,28 @@ function App() {
           </div>
         )}
         
-        <ModList 
-          mods={filteredMods} 
-          loading={loading} 
-          onSync={syncMods}
-          selectedMods={selectedMods}
-          onToggleSelect={toggleSelectMod}
-          onSelectAll={selectAllMods}
-          onClearSelection={clearSelection}
-          isWorkshopConfigured={isWorkshopConfigured}
-        />
+        <div className={`mods-layout ${showLoadOrder ? 'with-load-order' : ''}`}>
+          <ModList 
+            mods={filteredMods} 
+            loading={loading} 
+            onSync={syncMods}
+            selectedMods={selectedMods}
+            onToggleSelect={toggleSelectMod}
+            onSelectAll={selectAllMods}
+            onClearSelection={clearSelection}
+            onToggleEnabled={toggleModEnabled}
+            onVerify={setVerifyModId}
+            onShowDetails={setDetailsModId}
+            onShowBackups={setBackupsModId}
+            onShowHistory={(modId) => setHistoryTarget({ modId })}
+            conflicts={conflictsByMod}
+            dependencyWarnings={dependencyWarningsByMod}
+            isWorkshopConfigured={isWorkshopConfigured}
+          />
+          {showLoadOrder && (
+            <LoadOrder mods={mods} onClose={() => setShowLoadOrder(false)} />
+          )}
+        </div>
       </main>
 
       <footer className="app-footer">
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+import './DiskUsage.css';
+
+interface FileTypeUsage {
+  extension: string;
+  fileCount: number;
+  size: number;
+}
+
+interface ModDiskUsage {
+  modId: string;
+  title: string;
+  rootPath: string;
+  fileCount: number;
+  totalSize: number;
+  byType: FileTypeUsage[];
+  largestFiles: Array<{ path: string; size: number }>;
+}
+
+interface RootDiskUsage {
+  name: string;
+  path: string;
+  type: 'workshop' | 'local';
+  modCount: number;
+  fileCount: number;
+  totalSize: number;
+}
+
+interface DuplicateFileGroup {
+  sha256: string;
+  size: number;
+  files: Array<{ modId: string; path: string }>;
+  wastedBytes: number;
+}
+
+interface DiskUsageReport {
+  generatedAt: string;
+  modCount: number;
+  fileCount: number;
+  totalSize: number;
+  byType: FileTypeUsage[];
+  roots: RootDiskUsage[];
+  mods: ModDiskUsage[];
+  duplicates: DuplicateFileGroup[];
+  duplicateBytes: number;
+}
+
+interface DiskUsageProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Number of mods drawn as their own treemap tile; the rest are grouped
+ */
+const TREEMAP_TILES = 24;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+function DiskUsage({ isOpen, onClose }: DiskUsageProps) {
+  const [report, setReport] = useState<DiskUsageReport | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedModId, setExpandedModId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+    setExpandedModId(null);
+    if (isOpen) {
+      load(false);
+    }
+  }, [isOpen]);
+
+  const load = async (refresh: boolean) => {
+    setAnalyzing(true);
+    setError(null);
+    try {
+      setReport(await modsAPI.getDiskUsage(refresh));
+    } catch (err) {
+      console.error('Failed to analyze disk usage:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const titleOf = (modId: string) => report?.mods.find(mod => mod.modId === modId)?.title || modId;
+
+  const renderTreemap = (data: DiskUsageReport) => {
+    const tiles = data.mods.filter(mod => mod.totalSize > 0).slice(0, TREEMAP_TILES);
+    const restSize = data.totalSize - tiles.reduce((sum, mod) => sum + mod.totalSize, 0);
+    if (tiles.length === 0) return null;
+
+    return (
+      <div className="disk-usage-treemap">
+        {tiles.map(mod => (
+          <div
+            key={mod.modId}
+            className={`disk-usage-tile ${expandedModId === mod.modId ? 'disk-usage-tile-selected' : ''}`}
+            style={{ flexGrow: mod.totalSize }}
+            title={`${mod.title} — ${formatBytes(mod.totalSize)}`}
+            onClick={() => setExpandedModId(mod.modId)}
+          >
+            <span className="disk-usage-tile-title">{mod.title}</span>
+            <span className="disk-usage-tile-size">{formatBytes(mod.totalSize)}</span>
+          </div>
+        ))}
+        {restSize > 0 && (
+          <div className="disk-usage-tile disk-usage-tile-rest" style={{ flexGrow: restSize }}>
+            <span className="disk-usage-tile-title">Other mods</span>
+            <span className="disk-usage-tile-size">{formatBytes(restSize)}</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderModDetails = (mod: ModDiskUsage) => (
+    <tr className="disk-usage-details">
+      <td colSpan={3}>
+        <div className="disk-usage-details-columns">
+          <div>
+            <h5>By file type</h5>
+            <ul>
+              {mod.byType.map(type => (
+                <li key={type.extension}>
+                  <code>{type.extension}</code> — {type.fileCount} file(s), {formatBytes(type.size)}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h5>Largest files</h5>
+            <ul>
+              {mod.largestFiles.map(file => (
+                <li key={file.path}>
+                  <code>{file.path}</code> — {formatBytes(file.size)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal disk-usage-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>💽 Disk Usage</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            {analyzing && <p className="setting-description">Analyzing mod folders...</p>}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {report && (
+              <>
+                <p className="integrity-status integrity-ok">
+                  {report.modCount} mod(s) use {formatBytes(report.totalSize)} in {report.fileCount} file(s)
+                  {report.duplicateBytes > 0 && `, ${formatBytes(report.duplicateBytes)} of it in duplicate files`}.
+                </p>
+                <p className="setting-description">
+                  Analyzed {new Date(report.generatedAt).toLocaleString()}. Click a mod to see its file types and largest files.
+                </p>
+
+                {renderTreemap(report)}
+
+                <div className="integrity-group">
+                  <h4>Library Folders</h4>
+                  <table className="disk-usage-table">
+                    <thead>
+                      <tr><th>Folder</th><th>Mods</th><th>Size</th></tr>
+                    </thead>
+                    <tbody>
+                      {report.roots.map(root => (
+                        <tr key={root.path}>
+                          <td title={root.path}>{root.name} <span className="disk-usage-muted">({root.type})</span></td>
+                          <td>{root.modCount}</td>
+                          <td>{formatBytes(root.totalSize)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="integrity-group">
+                  <h4>Mods ({report.mods.length})</h4>
+                  <table className="disk-usage-table">
+                    <thead>
+                      <tr><th>Mod</th><th>Files</th><th>Size</th></tr>
+                    </thead>
+                    <tbody>
+                      {report.mods.map(mod => (
+                        <React.Fragment key={mod.modId}>
+                          <tr
+                            className="disk-usage-row"
+                            onClick={() => setExpandedModId(expandedModId === mod.modId ? null : mod.modId)}
+                          >
+                            <td>{expandedModId === mod.modId ? '▾' : '▸'} {mod.title}</td>
+                            <td>{mod.fileCount}</td>
+                            <td>{formatBytes(mod.totalSize)}</td>
+                          </tr>
+                          {expandedModId === mod.modId && renderModDetails(mod)}
+                        </React.Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="integrity-group">
+                  <h4>Duplicate Files ({report.duplicates.length})</h4>
+                  {report.duplicates.length > 0 ? (
+                    <table className="disk-usage-table">
+                      <thead>
+                        <tr><th>Copies</th><th>Size</th><th>Wasted</th></tr>
+                      </thead>
+                      <tbody>
+                        {report.duplicates.map(group => (
+                          <tr key={`${group.sha256}:${group.size}`}>
+                            <td>
+                              {group.files.map(file => (
+                                <div key={`${file.modId}:${file.path}`}>
+                                  {titleOf(file.modId)}: <code>{file.path}</code>
+                                </div>
+                              ))}
+                            </td>
+                            <td>{formatBytes(group.size)}</td>
+                            <td>{formatBytes(group.wastedBytes)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="integrity-empty">No file is shipped by more than one mod</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={() => load(true)} disabled={analyzing}>
+            Analyze Again
+          </button>
+          <button className="btn btn-primary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DiskUsage;
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+import './ExportDialog.css';
+
+interface ExportProgress {
+  phase: 'checksums' | 'archiving';
+  processedBytes: number;
+  estimatedTotalBytes: number;
+  processedFiles: number;
+  currentModId?: string;
+  currentModTitle?: string;
+}
+
+interface ExportResult {
+  filePath: string;
+  exportedCount: number;
+  missingMods: string[];
+}
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  modIds: string[];
+  onClose: () => void;
+  /** Called after the modpack was written */
+  onExported: () => void;
+}
+
+const COMPRESSION_LEVELS: Array<{ level: number; label: string }> = [
+  { level: 0, label: 'None (fastest, largest file)' },
+  { level: 1, label: 'Fast' },
+  { level: 6, label: 'Balanced' },
+  { level: 9, label: 'Maximum (slowest, smallest file)' }
+];
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+function ExportDialog({ isOpen, modIds, onClose, onExported }: ExportDialogProps) {
+  const [compressionLevel, setCompressionLevel] = useState(6);
+  const [includeLoadOrder, setIncludeLoadOrder] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [canceling, setCanceling] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [result, setResult] = useState<ExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProgress(null);
+    setResult(null);
+    setError(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!exporting) return;
+    return modsAPI.onExportProgress(setProgress);
+  }, [exporting]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setProgress(null);
+    setResult(null);
+    setError(null);
+    try {
+      const data: ExportResult = await modsAPI.exportMods(modIds, { includeLoadOrder, compressionLevel });
+      setResult(data);
+      onExported();
+    } catch (err) {
+      // Closing the save dialog or pressing Cancel isn't an error
+      if (!(err instanceof Error && err.message.includes('canceled'))) {
+        console.error('Failed to export mods:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    } finally {
+      setExporting(false);
+      setCanceling(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    setCanceling(true);
+    try {
+      await modsAPI.cancelExport();
+    } catch (err) {
+      console.error('Failed to cancel export:', err);
+      setCanceling(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const percent = progress && progress.estimatedTotalBytes > 0
+    ? Math.min(100, Math.round((progress.processedBytes / progress.estimatedTotalBytes) * 100))
+    : 0;
+
+  return (
+    <div className="settings-overlay" onClick={exporting ? undefined : onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>📦 Export Modpack</h2>
+          <button className="close-btn" onClick={onClose} disabled={exporting}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            {!result && (
+              <p className="setting-description">
+                Exports {modIds.length} mod{modIds.length === 1 ? '' : 's'} as a zip with a modpack.json manifest
+                (titles, translations and file checksums), ready to import on another machine.
+              </p>
+            )}
+
+            <label className="export-option">
+              <span>Compression</span>
+              <select
+                value={compressionLevel}
+                onChange={(e) => setCompressionLevel(Number(e.target.value))}
+                disabled={exporting}
+              >
+                {COMPRESSION_LEVELS.map(option => (
+                  <option key={option.level} value={option.level}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="export-option">
+              <input
+                type="checkbox"
+                checked={includeLoadOrder}
+                onChange={(e) => setIncludeLoadOrder(e.target.checked)}
+                disabled={exporting}
+              />
+              <span>Include the current load order</span>
+            </label>
+
+            {exporting && (
+              <div className="export-progress">
+                <div className="export-progress-bar">
+                  <div className="export-progress-fill" style={{ width: `${percent}%` }} />
+                </div>
+                <p className="setting-description">
+                  {canceling
+                    ? 'Canceling...'
+                    : progress
+                      ? `${progress.phase === 'checksums' ? 'Checksumming' : 'Archiving'} ` +
+                        `${formatSize(progress.processedBytes)} of about ${formatSize(progress.estimatedTotalBytes)}` +
+                        ` (${progress.processedFiles} files)` +
+                        (progress.currentModId ? ` — ${progress.currentModTitle || progress.currentModId}` : '')
+                      : 'Preparing...'}
+                </p>
+              </div>
+            )}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {result && (
+              <p className="integrity-status integrity-ok">
+                ✅ Exported {result.exportedCount} mod{result.exportedCount === 1 ? '' : 's'} to <code>{result.filePath}</code>
+                {result.missingMods.length > 0 && (
+                  <> — {result.missingMods.length} could not be found locally: {result.missingMods.join(', ')}</>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          {exporting ? (
+            <button className="btn btn-danger" onClick={handleCancel} disabled={canceling}>
+              Cancel Export
+            </button>
+          ) : (
+            <>
+              <button className="btn btn-secondary" onClick={onClose}>
+                Close
+              </button>
+              <button className="btn btn-primary" onClick={handleExport} disabled={modIds.length === 0}>
+                Export...
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExportDialog;
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI, fileAPI } from '../services/api';
+import { LibraryRoot } from './Settings';
+import './Settings.css';
+import './IntegrityReport.css';
+import './WorkshopReport.css';
+import './OrphanCleanup.css';
+import './ImportDialog.css';
+
+interface ModImportCandidate {
+  archiveFolder: string;
+  modId: string;
+  source: 'workshop' | 'local';
+  folderName: string;
+  title?: string;
+  detectedBy: 'metadata' | 'workshop-id' | 'manifest';
+  fileCount: number;
+  totalSize: number;
+  hasMetadata: boolean;
+  collision?: { path?: string; inDatabase: boolean };
+}
+
+interface ModImportPreview {
+  archivePath: string;
+  candidates: ModImportCandidate[];
+  bundledTranslations: number;
+}
+
+interface ModImportResult {
+  rootPath: string;
+  installed: string[];
+  skipped: Array<{ modId: string; reason: string }>;
+  errors: string[];
+  restoredMetadata: number;
+  restoredTranslations: number;
+}
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  libraryRoots: LibraryRoot[];
+  onClose: () => void;
+  /** Called after mods were installed, so the mod list can reload */
+  onImported: () => void;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+function ImportDialog({ isOpen, libraryRoots, onClose, onImported }: ImportDialogProps) {
+  const roots = libraryRoots.filter(root => root.enabled && root.path);
+  const [preview, setPreview] = useState<ModImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [rootPath, setRootPath] = useState('');
+  const [overwrite, setOverwrite] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ModImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    setOverwrite(false);
+    if (isOpen && !roots.some(root => root.path === rootPath)) {
+      setRootPath(roots[0]?.path || '');
+    }
+  }, [isOpen]);
+
+  const chooseArchive = async () => {
+    try {
+      const dialog = await fileAPI.showOpenDialog({
+        title: 'Import Mods',
+        buttonLabel: 'Open',
+        properties: ['openFile'],
+        filters: [{ name: 'Zip Archives', extensions: ['zip'] }]
+      });
+      if (dialog.canceled || dialog.filePaths.length === 0) return;
+
+      setReading(true);
+      setResult(null);
+      setError(null);
+      const data: ModImportPreview = await modsAPI.previewImport(dialog.filePaths[0]);
+      setPreview(data);
+      // Mods that are already installed are only imported when picked explicitly
+      setSelected(new Set(data.candidates.filter(candidate => !candidate.collision).map(candidate => candidate.modId)));
+    } catch (err) {
+      console.error('Failed to read archive:', err);
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const toggle = (modId: string) => {
+    const next = new Set(selected);
+    if (next.has(modId)) {
+      next.delete(modId);
+    } else {
+      next.add(modId);
+    }
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    if (!preview || !rootPath) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      const data: ModImportResult = await modsAPI.importMods(preview.archivePath, rootPath, [...selected], overwrite);
+      setResult(data);
+      if (data.installed.length > 0) {
+        onImported();
+      }
+      // Refresh the collision badges
+      const refreshed: ModImportPreview = await modsAPI.previewImport(preview.archivePath);
+      setPreview(refreshed);
+      setSelected(new Set());
+    } catch (err) {
+      console.error('Failed to import mods:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const selectedRoot = roots.find(root => root.path === rootPath);
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>📥 Import Mods</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            <p className="setting-description">
+              Install mods from a zip archive, such as one made with Export. Mod folders are found by their
+              Workshop ID or their info.ini; titles and translations saved in the archive are restored.
+            </p>
+            <button className="btn btn-secondary" onClick={chooseArchive} disabled={reading || importing}>
+              {reading ? 'Reading archive...' : '📂 Choose Archive...'}
+            </button>
+            {preview && <p className="setting-description"><code>{preview.archivePath}</code></p>}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {result && (
+              <p className={`integrity-status ${result.errors.length > 0 ? 'integrity-failed' : 'integrity-ok'}`}>
+                Installed {result.installed.length} mod(s)
+                {result.skipped.length > 0 && `, skipped ${result.skipped.map(skip => `${skip.modId} (${skip.reason})`).join(', ')}`}
+                {result.restoredTranslations > 0 && `, restored ${result.restoredTranslations} translation(s)`}
+                {result.errors.length > 0 && `, ${result.errors.length} failed: ${result.errors.join('; ')}`}
+              </p>
+            )}
+
+            {preview && preview.candidates.length === 0 && (
+              <p className="integrity-empty">No mod folders found in this archive</p>
+            )}
+
+            {preview && preview.candidates.length > 0 && (
+              <ul className="workshop-report-list">
+                {preview.candidates.map(candidate => (
+                  <li key={candidate.modId}>
+                    <label className="orphan-entry">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(candidate.modId)}
+                        onChange={() => toggle(candidate.modId)}
+                        disabled={importing}
+                      />
+                      <span className="orphan-entry-text">
+                        <span className="workshop-report-title">
+                          {candidate.title || candidate.folderName}
+                          {candidate.collision && <span className="import-collision">Installed</span>}
+                        </span>
+                        <span className="workshop-report-reason">
+                          {candidate.source === 'workshop' ? `Workshop ${candidate.folderName}` : `Local folder ${candidate.folderName}`}
+                          {` · ${candidate.fileCount} files, ${formatSize(candidate.totalSize)}`}
+                        </span>
+                        {candidate.collision?.path && (
+                          <code className="workshop-report-reason">{candidate.collision.path}</code>
+                        )}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {preview && preview.candidates.length > 0 && (
+            <div className="setting-section">
+              <h3>Install Into</h3>
+              {roots.length === 0 ? (
+                <p className="integrity-status integrity-unknown">⚠️ Add a library folder in Settings first.</p>
+              ) : (
+                <select
+                  value={rootPath}
+                  onChange={(e) => setRootPath(e.target.value)}
+                  className="import-root"
+                  disabled={importing}
+                >
+                  {roots.map(root => (
+                    <option key={root.path} value={root.path}>
+                      {root.name} ({root.type === 'workshop' ? 'Workshop' : 'Local'}) — {root.path}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {selectedRoot?.type === 'workshop' && (
+                <p className="setting-description">Only mods with a Workshop ID can be installed into a Workshop folder.</p>
+              )}
+              <label className="orphan-entry">
+                <input
+                  type="checkbox"
+                  checked={overwrite}
+                  onChange={(e) => setOverwrite(e.target.checked)}
+                  disabled={importing}
+                />
+                <span>Replace mods that are already installed in this folder</span>
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleImport}
+            disabled={!preview || !rootPath || selected.size === 0 || importing}
+          >
+            {importing ? 'Importing...' : `Import Selected (${selected.size})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImportDialog;
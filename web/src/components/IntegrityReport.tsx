@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+
+interface ModIntegrityReport {
+  modId: string;
+  hasManifest: boolean;
+  intact: boolean;
+  added: string[];
+  removed: string[];
+  modified: string[];
+  unchangedCount: number;
+  recordedAt?: string;
+  verifiedAt: string;
+}
+
+interface IntegrityReportProps {
+  // The dialog is open while a mod ID is set
+  modId: string | null;
+  modTitle?: string;
+  onClose: () => void;
+}
+
+function IntegrityReport({ modId, modTitle, onClose }: IntegrityReportProps) {
+  const [report, setReport] = useState<ModIntegrityReport | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+    if (modId) {
+      verify(modId);
+    }
+  }, [modId]);
+
+  const verify = async (id: string) => {
+    setVerifying(true);
+    try {
+      setReport(await modsAPI.verifyModIntegrity(id));
+    } catch (err) {
+      console.error('Failed to verify mod integrity:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (!modId) return null;
+
+  const renderFileList = (label: string, files: string[], className: string) => (
+    <div className="integrity-group">
+      <h4>{label} ({files.length})</h4>
+      {files.length > 0 ? (
+        <ul className={`integrity-file-list ${className}`}>
+          {files.map(file => <li key={file}>{file}</li>)}
+        </ul>
+      ) : (
+        <p className="integrity-empty">None</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>🛡️ Verify Files</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            <h3>{modTitle || modId}</h3>
+
+            {verifying && <p className="setting-description">Checking files...</p>}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {report && !report.hasManifest && (
+              <p className="integrity-status integrity-unknown">
+                ⚠️ No file manifest has been recorded for this mod yet. Scan the workshop folder first.
+              </p>
+            )}
+
+            {report && report.hasManifest && (
+              <>
+                <p className={`integrity-status ${report.intact ? 'integrity-ok' : 'integrity-failed'}`}>
+                  {report.intact
+                    ? `✅ All ${report.unchangedCount} files match the last sync.`
+                    : '❌ The mod folder differs from the last sync. It may be partly downloaded or edited locally.'}
+                </p>
+                {report.recordedAt && (
+                  <p className="setting-description">
+                    Compared against the manifest recorded {new Date(report.recordedAt).toLocaleString()}.
+                  </p>
+                )}
+                {!report.intact && (
+                  <div className="integrity-groups">
+                    {renderFileList('Added', report.added, 'integrity-added')}
+                    {renderFileList('Removed', report.removed, 'integrity-removed')}
+                    {renderFileList('Modified', report.modified, 'integrity-modified')}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={() => verify(modId)} disabled={verifying}>
+            Verify Again
+          </button>
+          <button className="btn btn-primary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default IntegrityReport;
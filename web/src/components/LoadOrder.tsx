@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+
+interface LoadOrderMod {
+  id: string;
+  title: string;
+  enabled?: boolean;
+  source?: 'workshop' | 'local';
+  loadPriority?: number;
+}
+
+interface LoadOrderProps {
+  // Changes whenever the mod list is refetched so the order reloads with it
+  mods: unknown[];
+  onClose: () => void;
+}
+
+const LoadOrder: React.FC<LoadOrderProps> = ({ mods, onClose }) => {
+  const [order, setOrder] = useState<LoadOrderMod[]>([]);
+  const [savedOrder, setSavedOrder] = useState<LoadOrderMod[]>([]);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadOrder();
+  }, [mods]);
+
+  const loadOrder = async () => {
+    try {
+      const data = await modsAPI.getLoadOrder();
+      setOrder(data);
+      setSavedOrder(data);
+    } catch (error) {
+      console.error('Failed to load mod load order:', error);
+    }
+  };
+
+  const hasChanges = order.some((mod, index) => savedOrder[index]?.id !== mod.id);
+
+  const moveMod = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= order.length) return;
+
+    setOrder(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleDragStart = (index: number) => (e: React.DragEvent) => {
+    setDraggedIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (index: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropIndex(index);
+  };
+
+  const handleDrop = (index: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedIndex !== null) {
+      moveMod(draggedIndex, index);
+    }
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  const saveOrder = async () => {
+    setSaving(true);
+    try {
+      const data = await modsAPI.reorderMods(order.map(mod => mod.id));
+      setOrder(data);
+      setSavedOrder(data);
+    } catch (error) {
+      console.error('Failed to save load order:', error);
+      alert(`Failed to save load order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <aside className="load-order-panel">
+      <div className="load-order-header">
+        <h3>Load Order</h3>
+        <button className="btn btn-sm" onClick={onClose} title="Hide load order">×</button>
+      </div>
+      <p className="load-order-hint">
+        Drag mods to reorder. The game doesn't read this order yet: it is kept here and saved
+        with profiles, exports and share codes, and nothing is written to the game's or Steam's folders.
+      </p>
+
+      <ol className="load-order-list">
+        {order.map((mod, index) => (
+          <li
+            key={mod.id}
+            draggable
+            onDragStart={handleDragStart(index)}
+            onDragOver={handleDragOver(index)}
+            onDrop={handleDrop(index)}
+            onDragEnd={handleDragEnd}
+            className={[
+              'load-order-item',
+              mod.enabled === false ? 'load-order-disabled' : '',
+              draggedIndex === index ? 'dragging' : '',
+              dropIndex === index && draggedIndex !== index ? 'drop-target' : ''
+            ].filter(Boolean).join(' ')}
+            title={mod.enabled === false ? 'Disabled mods keep their place but are not loaded' : mod.id}
+          >
+            <span className="load-order-position">{index + 1}</span>
+            <span className="load-order-title">{mod.title}</span>
+            {mod.source === 'local' && <span className="source-badge">LOCAL</span>}
+            <span className="load-order-moves">
+              <button className="btn-move" onClick={() => moveMod(index, index - 1)} disabled={index === 0}>▲</button>
+              <button className="btn-move" onClick={() => moveMod(index, index + 1)} disabled={index === order.length - 1}>▼</button>
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      <div className="load-order-actions">
+        <button className="btn btn-sm" onClick={() => setOrder(savedOrder)} disabled={!hasChanges || saving}>
+          Reset
+        </button>
+        <button className="btn btn-sm" onClick={saveOrder} disabled={!hasChanges || saving}>
+          {saving ? 'Saving...' : 'Save Order'}
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default LoadOrder;
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { backupsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+import './ModBackups.css';
+
+interface ModBackup {
+  id: number;
+  modId: string;
+  archivePath: string;
+  reason: 'manual' | 'pre-update' | 'pre-restore';
+  fileCount: number;
+  totalSize: number;
+  archiveSize: number;
+  version?: string;
+  versionTime?: number;
+  pinned: boolean;
+  createdAt: string;
+}
+
+interface ModBackupsProps {
+  // The dialog is open while a mod ID is set
+  modId: string | null;
+  modTitle?: string;
+  onClose: () => void;
+  /** Called after a backup was restored, so the mod list can reload */
+  onRestored: () => void;
+}
+
+const REASON_LABELS: Record<ModBackup['reason'], string> = {
+  'manual': 'Manual',
+  'pre-update': 'Before update',
+  'pre-restore': 'Before restore'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+function ModBackups({ modId, modTitle, onClose, onRestored }: ModBackupsProps) {
+  const [backups, setBackups] = useState<ModBackup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBackups([]);
+    setError(null);
+    if (modId) {
+      load(modId);
+    }
+  }, [modId]);
+
+  const load = async (id: string) => {
+    setLoading(true);
+    try {
+      setBackups(await backupsAPI.getBackups(id));
+    } catch (err) {
+      console.error('Failed to load backups:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (!modId) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load(modId);
+    } catch (err) {
+      console.error('Backup operation failed:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = (backup: ModBackup) => {
+    const when = new Date(backup.createdAt).toLocaleString();
+    if (!confirm(`Replace the installed files with the backup from ${when}? The current files are backed up first.`)) {
+      return;
+    }
+
+    run(async () => {
+      await backupsAPI.restoreBackup(backup.id);
+      onRestored();
+    });
+  };
+
+  if (!modId) return null;
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>🗂️ Backups</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            <h3>{modTitle || modId}</h3>
+            <p className="setting-description">
+              Backups are taken automatically when Steam has an update for this mod.
+              A pinned backup is restored on every sync, undoing Workshop updates until you unpin it.
+            </p>
+
+            {loading && <p className="setting-description">Loading backups...</p>}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {!loading && backups.length === 0 && (
+              <p className="integrity-empty">No backups yet</p>
+            )}
+
+            {backups.length > 0 && (
+              <ul className="backup-list">
+                {backups.map(backup => (
+                  <li key={backup.id} className={backup.pinned ? 'backup-pinned' : ''}>
+                    <div className="backup-info">
+                      <span className="backup-date">
+                        {backup.pinned && '📌 '}{new Date(backup.createdAt).toLocaleString()}
+                      </span>
+                      <span className="backup-meta">
+                        {REASON_LABELS[backup.reason]}
+                        {backup.version && ` · v${backup.version}`}
+                        {backup.versionTime && ` · published ${new Date(backup.versionTime).toLocaleDateString()}`}
+                        {` · ${backup.fileCount} files, ${formatSize(backup.totalSize)}`}
+                      </span>
+                    </div>
+                    <div className="backup-actions">
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => run(() => backupsAPI.setBackupPinned(backup.id, !backup.pinned))}
+                        disabled={busy}
+                        title={backup.pinned ? 'Stop restoring this version on sync' : 'Keep this version: restore it whenever the mod changes (removing the mod unpins it)'}
+                      >
+                        {backup.pinned ? 'Unpin' : 'Pin'}
+                      </button>
+                      <button className="btn btn-secondary" onClick={() => handleRestore(backup)} disabled={busy}>
+                        Restore
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={() => run(() => backupsAPI.createBackup(modId))} disabled={busy}>
+            {busy ? 'Working...' : '💾 Back Up Now'}
+          </button>
+          <button className="btn btn-primary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ModBackups;
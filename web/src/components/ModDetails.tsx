@@ -0,0 +1,185 @@
+import React from 'react';
+import './Settings.css';
+import './ModDetails.css';
+
+interface AssemblyReference {
+  name: string;
+  version: string;
+}
+
+interface AssemblyInfo {
+  file: string;
+  name: string;
+  version: string;
+  culture?: string;
+  targetFramework?: string;
+  runtimeVersion: string;
+  references: AssemblyReference[];
+}
+
+interface ModDetailsInfo {
+  id: string;
+  title: string;
+  description: string;
+  creator: string;
+  tags: string[];
+  source?: 'workshop' | 'local';
+  enabled?: boolean;
+  manifest?: {
+    name?: string;
+    version?: string;
+    author?: string;
+  };
+  assemblies?: AssemblyInfo[];
+}
+
+interface ResolvedDependency {
+  dependsOn: string;
+  source: 'manifest' | 'steam' | 'description';
+  resolvedModId?: string;
+  status: 'satisfied' | 'missing' | 'disabled';
+}
+
+interface ModDetailsProps {
+  // The panel is open while a mod is set
+  mod: ModDetailsInfo | null;
+  onClose: () => void;
+  onVerify: (modId: string) => void;
+  dependencies: ResolvedDependency[];
+  modTitles: Record<string, string>;
+}
+
+// References worth calling out: they tell how a mod hooks into the game
+const NOTABLE_REFERENCES = [/^0Harmony$/i, /^UnityEngine/i, /^Assembly-CSharp/i];
+
+const DEPENDENCY_STATUS_ICONS: Record<ResolvedDependency['status'], string> = {
+  satisfied: '✅',
+  missing: '❌',
+  disabled: '⏸️'
+};
+
+const DEPENDENCY_SOURCE_LABELS: Record<ResolvedDependency['source'], string> = {
+  manifest: 'declared in info.ini',
+  steam: 'Steam required item',
+  description: 'linked in description'
+};
+
+const isNotable = (reference: AssemblyReference) =>
+  NOTABLE_REFERENCES.some(pattern => pattern.test(reference.name));
+
+function ModDetails({ mod, onClose, onVerify, dependencies, modTitles }: ModDetailsProps) {
+  if (!mod) return null;
+
+  const assemblies = mod.assemblies || [];
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal mod-details-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>ℹ️ {mod.title}</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            <h3>Overview</h3>
+            <dl className="mod-details-fields">
+              <dt>ID</dt>
+              <dd>{mod.id}</dd>
+              <dt>Author</dt>
+              <dd>{mod.creator}</dd>
+              <dt>Source</dt>
+              <dd>{mod.source === 'local' ? 'Game Mods folder' : 'Steam Workshop'}</dd>
+              <dt>Status</dt>
+              <dd>{mod.enabled === false ? 'Disabled' : 'Enabled'}</dd>
+              {mod.manifest?.version && (
+                <>
+                  <dt>Version</dt>
+                  <dd>{mod.manifest.version}</dd>
+                </>
+              )}
+              {mod.tags.length > 0 && (
+                <>
+                  <dt>Tags</dt>
+                  <dd>{mod.tags.join(', ')}</dd>
+                </>
+              )}
+            </dl>
+            <p className="setting-description mod-details-description">{mod.description}</p>
+          </div>
+
+          <div className="setting-section">
+            <h3>Dependencies ({dependencies.length})</h3>
+            {dependencies.length === 0 ? (
+              <p className="setting-description">This mod doesn't declare or link any other mods.</p>
+            ) : (
+              <ul className="mod-details-dependencies">
+                {dependencies.map(dependency => (
+                  <li key={dependency.dependsOn} className={`dependency-${dependency.status}`}>
+                    <span>{DEPENDENCY_STATUS_ICONS[dependency.status]}</span>
+                    <span className="mod-details-dependency-name">
+                      {dependency.resolvedModId
+                        ? modTitles[dependency.resolvedModId] || dependency.resolvedModId
+                        : dependency.dependsOn}
+                    </span>
+                    <span className="mod-details-dependency-meta">
+                      {dependency.status === 'missing' ? 'not installed' : dependency.status === 'disabled' ? 'disabled' : 'installed'}
+                      {' · '}
+                      {DEPENDENCY_SOURCE_LABELS[dependency.source]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="setting-section">
+            <h3>Assemblies ({assemblies.length})</h3>
+            {assemblies.length === 0 ? (
+              <p className="setting-description">No .NET assemblies were found in this mod's folder.</p>
+            ) : (
+              assemblies.map(assembly => (
+                <div key={assembly.file} className="mod-details-assembly">
+                  <div className="mod-details-assembly-header">
+                    <strong>{assembly.name}</strong>
+                    <span className="mod-details-version">v{assembly.version}</span>
+                  </div>
+                  <div className="mod-details-assembly-meta">
+                    <span title="File in the mod folder">📄 {assembly.file}</span>
+                    <span title="Target framework">
+                      🎯 {assembly.targetFramework || `Unknown (runtime ${assembly.runtimeVersion})`}
+                    </span>
+                  </div>
+                  {assembly.references.length > 0 && (
+                    <ul className="mod-details-references">
+                      {assembly.references.map(reference => (
+                        <li
+                          key={reference.name}
+                          className={isNotable(reference) ? 'notable' : ''}
+                          title={`${reference.name} ${reference.version}`}
+                        >
+                          {reference.name}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={() => onVerify(mod.id)}>
+            🛡️ Verify Files
+          </button>
+          <button className="btn btn-primary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ModDetails;
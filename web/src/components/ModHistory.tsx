@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+import './ModHistory.css';
+
+type ModHistoryField =
+  | 'title'
+  | 'description'
+  | 'translatedTitle'
+  | 'translatedDescription'
+  | 'tags'
+  | 'fileSize'
+  | 'timeUpdated';
+
+interface TextDiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+interface ModHistoryVersion {
+  id: number;
+  modId: string;
+  title: string;
+  description: string;
+  translatedTitle?: string;
+  translatedDescription?: string;
+  tags: string[];
+  fileSize: number;
+  timeUpdated: string;
+  changedFields: ModHistoryField[];
+  recordedAt: string;
+  descriptionDiff?: TextDiffSegment[];
+  translatedDescriptionDiff?: TextDiffSegment[];
+}
+
+interface ModHistoryProps {
+  isOpen: boolean;
+  /** Show this mod's history; all mods when unset */
+  modId?: string;
+  modTitle?: string;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ModHistoryField, string> = {
+  title: 'Title',
+  description: 'Description',
+  translatedTitle: 'Translated title',
+  translatedDescription: 'Translated description',
+  tags: 'Tags',
+  fileSize: 'Size',
+  timeUpdated: 'Workshop update'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+function ModHistory({ isOpen, modId, modTitle, onClose }: ModHistoryProps) {
+  const [history, setHistory] = useState<ModHistoryVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [showTranslated, setShowTranslated] = useState(false);
+
+  useEffect(() => {
+    setHistory([]);
+    setError(null);
+    setExpanded(null);
+    if (isOpen) {
+      load();
+    }
+  }, [isOpen, modId]);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      // The timeline of all mods only lists changes, not when each mod was first seen
+      const entries: ModHistoryVersion[] = await modsAPI.getModHistory(modId, modId ? 100 : 200);
+      setHistory(modId ? entries : entries.filter(entry => entry.changedFields.length > 0));
+    } catch (err) {
+      console.error('Failed to load history:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderDiff = (segments: TextDiffSegment[]) => (
+    <pre className="history-diff">
+      {segments.map((segment, index) => (
+        <span key={index} className={`diff-${segment.type}`}>{segment.text}</span>
+      ))}
+    </pre>
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>📜 {modId ? 'History' : 'Changelog'}</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            {modId && <h3>{modTitle || modId}</h3>}
+            <p className="setting-description">
+              {modId
+                ? 'Each sync that finds new metadata for this mod adds an entry.'
+                : 'Metadata changes found by syncs, newest first.'}
+            </p>
+
+            <label className="history-option">
+              <input
+                type="checkbox"
+                checked={showTranslated}
+                onChange={(e) => setShowTranslated(e.target.checked)}
+              />
+              Diff the translated description
+            </label>
+
+            {loading && <p className="setting-description">Loading history...</p>}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {!loading && !error && history.length === 0 && (
+              <p className="integrity-empty">No changes recorded yet</p>
+            )}
+
+            {history.length > 0 && (
+              <ul className="history-timeline">
+                {history.map(entry => {
+                  const diff = showTranslated ? entry.translatedDescriptionDiff : entry.descriptionDiff;
+
+                  return (
+                    <li key={entry.id}>
+                      <div
+                        className="history-entry-header"
+                        onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      >
+                        <span className="history-date">{new Date(entry.recordedAt).toLocaleString()}</span>
+                        {!modId && (
+                          <span className="history-title">
+                            {showTranslated && entry.translatedTitle ? entry.translatedTitle : entry.title}
+                          </span>
+                        )}
+                        <span className="history-meta">
+                          {entry.changedFields.length === 0
+                            ? 'First recorded'
+                            : `Changed: ${entry.changedFields.map(field => FIELD_LABELS[field]).join(', ')}`}
+                          {` · updated on Workshop ${new Date(entry.timeUpdated).toLocaleDateString()}`}
+                          {` · ${formatSize(entry.fileSize)}`}
+                        </span>
+                      </div>
+
+                      {expanded === entry.id && (
+                        <div className="history-details">
+                          {modId && (entry.changedFields.includes('title') || entry.changedFields.includes('translatedTitle')) && (
+                            <p className="history-meta">
+                              Title: {showTranslated && entry.translatedTitle ? entry.translatedTitle : entry.title}
+                            </p>
+                          )}
+                          {entry.changedFields.includes('tags') && (
+                            <p className="history-meta">Tags: {entry.tags.join(', ') || 'none'}</p>
+                          )}
+                          {diff
+                            ? renderDiff(diff)
+                            : (
+                              <pre className="history-diff">
+                                {(showTranslated ? entry.translatedDescription : entry.description) || 'No description'}
+                              </pre>
+                            )}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-primary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ModHistory;
@@ -12,6 +12,26 @@ interface ModInfo {
   timeCreated: string;
   timeUpdated: string;
   language?: string;
+  source?: 'workshop' | 'local';
+  enabled?: boolean;
+  workshopState?: {
+    installed: boolean;
+    subscribed: boolean;
+    needsUpdate: boolean;
+  };
+}
+
+interface ModConflict {
+  type: 'file' | 'assembly' | 'manifest-name';
+  severity: 'low' | 'medium' | 'high';
+  modIds: string[];
+  message: string;
+}
+
+interface DependencyWarning {
+  dependsOn: string;
+  type: 'missing' | 'disabled';
+  message: string;
 }
 
 interface ModListProps {
@@ -22,6 +42,15 @@ interface ModListProps {
   onToggleSelect: (modId: string) => void;
   onSelectAll: () => void;
   onClearSelection: () => void;
+  onToggleEnabled: (modId: string, enabled: boolean) => void;
+  onVerify: (modId: string) => void;
+  onShowDetails: (modId: string) => void;
+  onShowBackups: (modId: string) => void;
+  onShowHistory: (modId: string) => void;
+  // Conflicts keyed by the ID of each mod involved
+  conflicts: Record<string, ModConflict[]>;
+  // Missing or disabled dependencies keyed by the ID of the mod needing them
+  dependencyWarnings: Record<string, DependencyWarning[]>;
   isWorkshopConfigured: boolean;
 }
 
@@ -33,6 +62,13 @@ const ModList: React.FC<ModListProps> = ({
   onToggleSelect,
   onSelectAll,
   onClearSelection,
+  onToggleEnabled,
+  onVerify,
+  onShowDetails,
+  onShowBackups,
+  onShowHistory,
+  conflicts,
+  dependencyWarnings,
   isWorkshopConfigured
 }) => {
   const [syncInput, setSyncInput] = React.useState('');
@@ -50,6 +86,65 @@ const ModList: React.FC<ModListProps> = ({
     }
   };
 
+  const SEVERITY_ORDER = ['low', 'medium', 'high'];
+
+  const renderConflictBadge = (modId: string) => {
+    const modConflicts = conflicts[modId];
+    if (!modConflicts || modConflicts.length === 0) return null;
+
+    const severity = modConflicts
+      .map(conflict => conflict.severity)
+      .reduce((worst, current) => SEVERITY_ORDER.indexOf(current) > SEVERITY_ORDER.indexOf(worst) ? current : worst);
+
+    return (
+      <div
+        className={`conflict-badge conflict-${severity}`}
+        title={modConflicts.map(conflict => `[${conflict.severity}] ${conflict.message}`).join('\n')}
+      >
+        ⚠️ {modConflicts.length} CONFLICT{modConflicts.length > 1 ? 'S' : ''}
+      </div>
+    );
+  };
+
+  const renderDependencyBadge = (modId: string) => {
+    const warnings = dependencyWarnings[modId];
+    if (!warnings || warnings.length === 0) return null;
+
+    const missing = warnings.some(warning => warning.type === 'missing');
+
+    return (
+      <div
+        className={`dependency-badge ${missing ? 'dependency-missing' : 'dependency-disabled'}`}
+        title={warnings.map(warning => warning.message).join('\n')}
+      >
+        🔗 {missing ? 'MISSING DEPENDENCY' : 'DEPENDENCY DISABLED'}
+      </div>
+    );
+  };
+
+  const renderWorkshopStateBadge = (mod: ModInfo) => {
+    const state = mod.workshopState;
+    if (!state) return null;
+
+    if (!state.installed || !state.subscribed) {
+      return (
+        <div className="workshop-state-badge workshop-state-leftover" title="Steam no longer tracks this folder; it may be left over from an unsubscribed item">
+          🗑️ LEFTOVER
+        </div>
+      );
+    }
+
+    if (state.needsUpdate) {
+      return (
+        <div className="workshop-state-badge workshop-state-stale" title="Steam has a newer version of this mod that hasn't been downloaded yet">
+          ⬇️ UPDATE PENDING
+        </div>
+      );
+    }
+
+    return null;
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -163,7 +258,7 @@ const ModList: React.FC<ModListProps> = ({
             {mods.map((mod) => (
               <div 
                 key={mod.id} 
-                className={`mod-card ${selectedMods.includes(mod.id) ? 'selected' : ''}`}
+                className={`mod-card ${selectedMods.includes(mod.id) ? 'selected' : ''} ${mod.enabled === false ? 'mod-disabled' : ''}`}
                 onClick={() => onToggleSelect(mod.id)}
               >
                 <div className="mod-select-checkbox">
@@ -174,6 +269,24 @@ const ModList: React.FC<ModListProps> = ({
                     onClick={(e) => e.stopPropagation()}
                   />
                 </div>
+
+                <label
+                  className="mod-enabled-toggle"
+                  title={mod.enabled === false
+                    ? 'Disabled - the game will not load this mod'
+                    : mod.source !== 'local'
+                      ? 'Enabled - Steam manages Workshop mods; unsubscribe in Steam to stop loading it'
+                      : 'Enabled - the game loads this mod'}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <input
+                    type="checkbox"
+                    checked={mod.enabled !== false}
+                    disabled={mod.enabled !== false && mod.source !== 'local'}
+                    onChange={(e) => onToggleEnabled(mod.id, e.target.checked)}
+                  />
+                  <span>{mod.enabled === false ? 'Disabled' : 'Enabled'}</span>
+                </label>
                 
                 {mod.previewUrl && (
                   <img 
@@ -195,6 +308,18 @@ const ModList: React.FC<ModListProps> = ({
                       {mod.language.toUpperCase()}
                     </div>
                   )}
+
+                  {mod.source === 'local' && (
+                    <div className="source-badge" title="Side-loaded from the game's Mods folder">
+                      LOCAL
+                    </div>
+                  )}
+
+                  {renderConflictBadge(mod.id)}
+
+                  {renderDependencyBadge(mod.id)}
+
+                  {renderWorkshopStateBadge(mod)}
                   
                   <div className="mod-description">{mod.description}</div>
                   
@@ -220,8 +345,48 @@ const ModList: React.FC<ModListProps> = ({
                     </div>
                   )}
                   
-                  <div style={{ fontSize: '0.8rem', color: '#7f8c8d', marginTop: 'auto', paddingTop: '0.5rem' }}>
-                    🕒 Updated {formatDate(mod.timeUpdated)}
+                  <div className="mod-footer">
+                    <span>🕒 Updated {formatDate(mod.timeUpdated)}</span>
+                    <button
+                      className="btn-verify"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onShowDetails(mod.id);
+                      }}
+                      title="Show mod details and assemblies"
+                    >
+                      ℹ️ Details
+                    </button>
+                    <button
+                      className="btn-verify"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onVerify(mod.id);
+                      }}
+                      title="Check the mod's files against the last sync"
+                    >
+                      🛡️ Verify
+                    </button>
+                    <button
+                      className="btn-verify"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onShowBackups(mod.id);
+                      }}
+                      title="Back up this mod or roll back to an earlier version"
+                    >
+                      🗂️ Backups
+                    </button>
+                    <button
+                      className="btn-verify"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onShowHistory(mod.id);
+                      }}
+                      title="See how this mod's title, description and tags changed over time"
+                    >
+                      📜 History
+                    </button>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+import './WorkshopReport.css';
+import './OrphanCleanup.css';
+
+type OrphanKind = 'missing-folder' | 'no-metadata' | 'empty-folder' | 'partial-folder';
+type CleanupAction = 'archive' | 'delete';
+
+interface OrphanEntry {
+  id: string;
+  kind: OrphanKind;
+  modId: string;
+  title?: string;
+  path?: string;
+  fileCount: number;
+  totalSize: number;
+  reason: string;
+}
+
+interface OrphanReport {
+  checkedAt: string;
+  orphans: OrphanEntry[];
+  skippedRoots: string[];
+}
+
+interface OrphanCleanupResult {
+  action: CleanupAction;
+  archivePath?: string;
+  cleaned: OrphanEntry[];
+  skipped: string[];
+  errors: string[];
+}
+
+interface OrphanCleanupProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after a cleanup removed something, so the mod list can reload */
+  onCleaned: () => void;
+}
+
+const GROUPS: Array<{ kind: OrphanKind; label: string; className: string }> = [
+  { kind: 'missing-folder', label: 'Records Without a Folder', className: 'workshop-report-missing' },
+  { kind: 'empty-folder', label: 'Empty Folders', className: 'workshop-report-leftover' },
+  { kind: 'partial-folder', label: 'Incomplete Folders', className: 'workshop-report-leftover' },
+  { kind: 'no-metadata', label: 'Folders Not in the Database', className: 'workshop-report-stale' }
+];
+
+function OrphanCleanup({ isOpen, onClose, onCleaned }: OrphanCleanupProps) {
+  const [report, setReport] = useState<OrphanReport | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [action, setAction] = useState<CleanupAction>('archive');
+  const [checking, setChecking] = useState(false);
+  const [cleaning, setCleaning] = useState(false);
+  const [result, setResult] = useState<OrphanCleanupResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setResult(null);
+    setError(null);
+    if (isOpen) {
+      check();
+    }
+  }, [isOpen]);
+
+  const check = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      const data: OrphanReport = await modsAPI.findOrphans();
+      setReport(data);
+      // Leftover folders are selected by default; unrecorded folders may just need a scan
+      setSelected(new Set(data.orphans.filter(orphan => orphan.kind !== 'no-metadata').map(orphan => orphan.id)));
+    } catch (err) {
+      console.error('Failed to check for orphans:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const handleCleanup = async () => {
+    const count = selected.size;
+    const message = action === 'archive'
+      ? `Archive and remove ${count} item(s)? A zip of everything removed is kept.`
+      : `Permanently delete ${count} item(s)? This cannot be undone.`;
+    if (!confirm(message)) return;
+
+    setCleaning(true);
+    setError(null);
+    try {
+      const cleanup: OrphanCleanupResult = await modsAPI.cleanupOrphans([...selected], action);
+      setResult(cleanup);
+      if (cleanup.cleaned.length > 0) {
+        onCleaned();
+      }
+      await check();
+    } catch (err) {
+      console.error('Failed to clean up orphans:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderGroup = (kind: OrphanKind, label: string, className: string) => {
+    const entries = report?.orphans.filter(orphan => orphan.kind === kind) || [];
+    if (entries.length === 0) return null;
+
+    return (
+      <div className="integrity-group" key={kind}>
+        <h4>{label} ({entries.length})</h4>
+        <ul className={`workshop-report-list ${className}`}>
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <label className="orphan-entry">
+                <input
+                  type="checkbox"
+                  checked={selected.has(entry.id)}
+                  onChange={() => toggle(entry.id)}
+                  disabled={cleaning}
+                />
+                <span className="orphan-entry-text">
+                  <span className="workshop-report-title">{entry.title || entry.modId}</span>
+                  <span className="workshop-report-reason">{entry.reason}</span>
+                  {entry.path && <code className="workshop-report-reason">{entry.path}</code>}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>🧹 Clean Up Leftovers</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            <p className="setting-description">
+              Steam manages the Workshop folders, so only their records are checked here. To repair a
+              broken Workshop download, unsubscribe and subscribe again.
+            </p>
+
+            {checking && <p className="setting-description">Checking mod folders and records...</p>}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {result && (
+              <p className={`integrity-status ${result.errors.length > 0 ? 'integrity-failed' : 'integrity-ok'}`}>
+                {result.action === 'archive' ? 'Archived' : 'Deleted'} {result.cleaned.length} item(s)
+                {result.skipped.length > 0 && `, skipped ${result.skipped.length} that were no longer leftovers`}
+                {result.errors.length > 0 && `, ${result.errors.length} failed: ${result.errors.join('; ')}`}
+                {result.archivePath && <> — saved to <code>{result.archivePath}</code></>}
+              </p>
+            )}
+
+            {report && report.skippedRoots.length > 0 && (
+              <p className="integrity-status integrity-unknown">
+                ⚠️ Skipped <code>{report.skippedRoots.join(', ')}</code> (disabled or unreadable); records from
+                these folders are not listed.
+              </p>
+            )}
+
+            {report && report.orphans.length === 0 && (
+              <p className="integrity-status integrity-ok">✅ No orphaned records or leftover folders.</p>
+            )}
+
+            {report && report.orphans.length > 0 && (
+              <>
+                <p className="setting-description">
+                  Review the items below. Only checked items are cleaned up, and each one is checked again first.
+                </p>
+                <div className="integrity-groups">
+                  {GROUPS.map(group => renderGroup(group.kind, group.label, group.className))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as CleanupAction)}
+            className="orphan-action"
+            disabled={cleaning}
+          >
+            <option value="archive">Archive, then remove</option>
+            <option value="delete">Delete permanently</option>
+          </select>
+          <button
+            className={`btn ${action === 'delete' ? 'btn-danger' : 'btn-primary'}`}
+            onClick={handleCleanup}
+            disabled={checking || cleaning || selected.size === 0}
+          >
+            {cleaning ? 'Cleaning up...' : `Clean Up Selected (${selected.size})`}
+          </button>
+          <button className="btn btn-secondary" onClick={check} disabled={checking || cleaning}>
+            Check Again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OrphanCleanup;
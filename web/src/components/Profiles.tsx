@@ -0,0 +1,505 @@
+import React, { useState, useEffect } from 'react';
+import { profilesAPI, appAPI } from '../services/api';
+import './Settings.css';
+import './Profiles.css';
+
+interface ProfileModEntry {
+  modId: string;
+  enabled: boolean;
+}
+
+interface ModProfile {
+  id: number;
+  name: string;
+  description?: string;
+  mods: ProfileModEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProfileComparison {
+  onlyInFirst: string[];
+  onlyInSecond: string[];
+  enabledDiffers: string[];
+  orderDiffers: boolean;
+}
+
+interface ShareCodeDiffEntry {
+  modId: string;
+  title?: string;
+  steamUrl?: string;
+  installedVersionTime?: number;
+  sharedVersionTime?: number;
+}
+
+interface ShareCodeComparison {
+  profileName?: string;
+  hasLoadOrder: boolean;
+  total: number;
+  missing: ShareCodeDiffEntry[];
+  extra: ShareCodeDiffEntry[];
+  outdated: ShareCodeDiffEntry[];
+  disabled: ShareCodeDiffEntry[];
+  loadOrderDiffers: boolean;
+}
+
+interface ProfilesProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApplied: () => void;
+  selectedModIds: string[];
+  modTitles: Record<string, string>;
+}
+
+function Profiles({ isOpen, onClose, onApplied, selectedModIds, modTitles }: ProfilesProps) {
+  const [profiles, setProfiles] = useState<ModProfile[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [compareFirst, setCompareFirst] = useState<number | ''>('');
+  const [compareSecond, setCompareSecond] = useState<number | ''>('');
+  const [comparison, setComparison] = useState<ProfileComparison | null>(null);
+  const [shareLoadOrder, setShareLoadOrder] = useState(true);
+  const [shareCode, setShareCode] = useState('');
+  const [shareSkipped, setShareSkipped] = useState<string[]>([]);
+  const [codeToCheck, setCodeToCheck] = useState('');
+  const [codeComparison, setCodeComparison] = useState<ShareCodeComparison | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadProfiles();
+    } else {
+      setComparison(null);
+      setShareCode('');
+      setShareSkipped([]);
+      setCodeComparison(null);
+    }
+  }, [isOpen]);
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await profilesAPI.getProfiles());
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+      alert(`Failed to load profiles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const titleFor = (modId: string) => modTitles[modId] || modId;
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      alert('Please enter a profile name');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      // With nothing selected, the profile captures which mods are currently enabled
+      await profilesAPI.createProfile(
+        newName.trim(),
+        selectedModIds.length > 0 ? selectedModIds : undefined,
+        newDescription.trim() || undefined
+      );
+      setNewName('');
+      setNewDescription('');
+      await loadProfiles();
+    } catch (error) {
+      console.error('Failed to create profile:', error);
+      alert(`Failed to create profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async (profile: ModProfile) => {
+    if (!confirm(`Apply profile "${profile.name}"?\n\nMods not in this profile will be disabled.`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await profilesAPI.applyProfile(profile.id);
+      onApplied();
+
+      let message = `Profile "${profile.name}" applied: ${result.enabled.length} enabled, ${result.disabled.length} disabled, ${result.unchanged} unchanged`;
+      if (result.missing.length > 0) {
+        message += `\n\n${result.missing.length} mod${result.missing.length > 1 ? 's are' : ' is'} not installed:\n${result.missing.map(titleFor).join('\n')}`;
+      }
+      if (result.errors.length > 0) {
+        message += `\n\nErrors:\n${result.errors.join('\n')}`;
+      }
+      alert(message);
+    } catch (error) {
+      console.error('Failed to apply profile:', error);
+      alert(`Failed to apply profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpdateFromSelection = async (profile: ModProfile) => {
+    if (selectedModIds.length === 0) {
+      alert('Select the mods this profile should contain first');
+      return;
+    }
+    if (!confirm(`Replace the mods in "${profile.name}" with the ${selectedModIds.length} selected mods?`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await profilesAPI.updateProfile(profile.id, {
+        mods: selectedModIds.map(modId => ({ modId, enabled: true }))
+      });
+      await loadProfiles();
+    } catch (error) {
+      console.error('Failed to update profile:', error);
+      alert(`Failed to update profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (profile: ModProfile) => {
+    if (!confirm(`Delete profile "${profile.name}"?`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await profilesAPI.deleteProfile(profile.id);
+      setComparison(null);
+      await loadProfiles();
+    } catch (error) {
+      console.error('Failed to delete profile:', error);
+      alert(`Failed to delete profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (compareFirst === '' || compareSecond === '') {
+      return;
+    }
+
+    try {
+      setComparison(await profilesAPI.compareProfiles(compareFirst, compareSecond));
+    } catch (error) {
+      console.error('Failed to compare profiles:', error);
+      alert(`Failed to compare profiles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleShare = async (profile?: ModProfile) => {
+    setBusy(true);
+    try {
+      // Without a profile, share the selection or else the enabled mods
+      const result = await profilesAPI.createShareCode({
+        profileId: profile?.id,
+        modIds: !profile && selectedModIds.length > 0 ? selectedModIds : undefined,
+        includeLoadOrder: shareLoadOrder
+      });
+      setShareCode(result.code);
+      setShareSkipped(result.skipped);
+    } catch (error) {
+      console.error('Failed to create share code:', error);
+      alert(`Failed to create share code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(shareCode);
+    } catch (error) {
+      console.error('Failed to copy share code:', error);
+    }
+  };
+
+  const handleCheckCode = async () => {
+    setBusy(true);
+    try {
+      setCodeComparison(await profilesAPI.compareShareCode(codeToCheck));
+    } catch (error) {
+      console.error('Failed to check share code:', error);
+      alert(`Failed to check share code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpenWorkshopPage = async (modId: string) => {
+    try {
+      await appAPI.openWorkshopPage(modId);
+    } catch (error) {
+      alert(`Failed to open Steam: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const renderDiffList = (entries: ShareCodeDiffEntry[], withLinks: boolean = false) => (
+    entries.length === 0
+      ? <p className="profile-empty">None</p>
+      : (
+        <ul className="profile-compare-list">
+          {entries.map(entry => (
+            <li key={entry.modId}>
+              {entry.title || titleFor(entry.modId)}
+              {withLinks && entry.steamUrl && (
+                <>
+                  {' '}
+                  <a
+                    href={entry.steamUrl}
+                    className="share-code-link"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleOpenWorkshopPage(entry.modId);
+                    }}
+                  >
+                    Open in Steam
+                  </a>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )
+  );
+
+  const renderModList = (ids: string[]) => (
+    ids.length === 0
+      ? <p className="profile-empty">None</p>
+      : <ul className="profile-compare-list">{ids.map(id => <li key={id}>{titleFor(id)}</li>)}</ul>
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>🗂️ Profiles</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            <h3>New Profile</h3>
+            <p className="setting-description">
+              {selectedModIds.length > 0
+                ? `The profile will contain the ${selectedModIds.length} selected mod${selectedModIds.length > 1 ? 's' : ''}.`
+                : 'No mods selected - the profile will capture which mods are currently enabled.'}
+            </p>
+            <div className="path-input-group">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Profile name (e.g. Co-op)"
+                className="path-input"
+              />
+              <button className="btn btn-primary" onClick={handleCreate} disabled={busy || !newName.trim()}>
+                Create
+              </button>
+            </div>
+            <input
+              type="text"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              placeholder="Description (optional)"
+              className="path-input profile-description-input"
+            />
+          </div>
+
+          <div className="setting-section">
+            <h3>Saved Profiles</h3>
+            {profiles.length === 0 ? (
+              <p className="setting-description">No profiles yet.</p>
+            ) : (
+              <div className="profile-list">
+                {profiles.map(profile => (
+                  <div key={profile.id} className="profile-item">
+                    <div className="profile-info">
+                      <strong>{profile.name}</strong>
+                      <span className="profile-meta">
+                        {profile.mods.filter(entry => entry.enabled).length} enabled / {profile.mods.length} mods
+                      </span>
+                      {profile.description && <span className="profile-meta">{profile.description}</span>}
+                    </div>
+                    <div className="profile-actions">
+                      <button className="btn btn-success" onClick={() => handleApply(profile)} disabled={busy}>
+                        Apply
+                      </button>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleUpdateFromSelection(profile)}
+                        disabled={busy || selectedModIds.length === 0}
+                        title="Replace this profile's mods with the current selection"
+                      >
+                        Update
+                      </button>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleShare(profile)}
+                        disabled={busy}
+                        title="Create a share code for this profile's enabled mods"
+                      >
+                        Share
+                      </button>
+                      <button className="btn btn-danger" onClick={() => handleDelete(profile)} disabled={busy}>
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {profiles.length >= 2 && (
+            <div className="setting-section">
+              <h3>Compare Profiles</h3>
+              <div className="path-input-group">
+                <select
+                  className="path-input"
+                  value={compareFirst}
+                  onChange={(e) => setCompareFirst(e.target.value ? Number(e.target.value) : '')}
+                >
+                  <option value="">First profile...</option>
+                  {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                </select>
+                <select
+                  className="path-input"
+                  value={compareSecond}
+                  onChange={(e) => setCompareSecond(e.target.value ? Number(e.target.value) : '')}
+                >
+                  <option value="">Second profile...</option>
+                  {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                </select>
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleCompare}
+                  disabled={compareFirst === '' || compareSecond === ''}
+                >
+                  Compare
+                </button>
+              </div>
+
+              {comparison && (
+                <div className="profile-comparison">
+                  <div>
+                    <h4>Only in first</h4>
+                    {renderModList(comparison.onlyInFirst)}
+                  </div>
+                  <div>
+                    <h4>Only in second</h4>
+                    {renderModList(comparison.onlyInSecond)}
+                  </div>
+                  <div>
+                    <h4>Enabled state differs</h4>
+                    {renderModList(comparison.enabledDiffers)}
+                  </div>
+                  <p className="profile-meta">
+                    {comparison.orderDiffers ? 'Shared mods are in a different order.' : 'Shared mods are in the same order.'}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="setting-section">
+            <h3>Share Code</h3>
+            <p className="setting-description">
+              A short code friends can paste to see which Workshop items they need.
+              {selectedModIds.length > 0
+                ? ` It will list the ${selectedModIds.length} selected mod${selectedModIds.length > 1 ? 's' : ''}.`
+                : ' It will list the enabled mods.'}
+              {' '}Local mods are left out.
+            </p>
+            <div className="path-input-group">
+              <label className="share-code-option">
+                <input
+                  type="checkbox"
+                  checked={shareLoadOrder}
+                  onChange={(e) => setShareLoadOrder(e.target.checked)}
+                />
+                Include load order
+              </label>
+              <button className="btn btn-primary" onClick={() => handleShare()} disabled={busy}>
+                Create Code
+              </button>
+            </div>
+
+            {shareCode && (
+              <>
+                <div className="path-input-group share-code-row">
+                  <input type="text" value={shareCode} readOnly className="path-input" onFocus={(e) => e.target.select()} />
+                  <button className="btn btn-secondary" onClick={handleCopyCode}>
+                    Copy
+                  </button>
+                </div>
+                {shareSkipped.length > 0 && (
+                  <p className="profile-meta">
+                    Left out {shareSkipped.length} local mod{shareSkipped.length > 1 ? 's' : ''}: {shareSkipped.map(titleFor).join(', ')}
+                  </p>
+                )}
+              </>
+            )}
+
+            <h3>Check a Code</h3>
+            <div className="path-input-group">
+              <input
+                type="text"
+                value={codeToCheck}
+                onChange={(e) => setCodeToCheck(e.target.value)}
+                placeholder="Paste a share code (DMM1-...)"
+                className="path-input"
+              />
+              <button className="btn btn-secondary" onClick={handleCheckCode} disabled={busy || !codeToCheck.trim()}>
+                Check
+              </button>
+            </div>
+
+            {codeComparison && (
+              <div className="profile-comparison share-code-comparison">
+                <p className="profile-meta">
+                  {codeComparison.profileName ? `"${codeComparison.profileName}" - ` : ''}
+                  {codeComparison.total} mod{codeComparison.total === 1 ? '' : 's'}
+                  {codeComparison.hasLoadOrder && (codeComparison.loadOrderDiffers
+                    ? ' - your load order differs'
+                    : ' - your load order matches')}
+                </p>
+                <div>
+                  <h4>Missing ({codeComparison.missing.length})</h4>
+                  {renderDiffList(codeComparison.missing, true)}
+                </div>
+                <div>
+                  <h4>Outdated ({codeComparison.outdated.length})</h4>
+                  {renderDiffList(codeComparison.outdated, true)}
+                </div>
+                <div>
+                  <h4>Disabled ({codeComparison.disabled.length})</h4>
+                  {renderDiffList(codeComparison.disabled)}
+                </div>
+                <div>
+                  <h4>Extra ({codeComparison.extra.length})</h4>
+                  {renderDiffList(codeComparison.extra)}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Profiles;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+import './ExportDialog.css';
+
+type ReportFormat = 'csv' | 'markdown' | 'json' | 'html';
+type ReportScope = 'selected' | 'shown';
+
+interface ReportDialogProps {
+  isOpen: boolean;
+  /** Selected mod IDs */
+  selectedIds: string[];
+  /** IDs of the mods the list currently shows, in display order */
+  shownIds: string[];
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ format: ReportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown (Discord, wikis)' },
+  { format: 'csv', label: 'CSV (spreadsheets)' },
+  { format: 'html', label: 'HTML page' },
+  { format: 'json', label: 'JSON' }
+];
+
+function ReportDialog({ isOpen, selectedIds, shownIds, onClose }: ReportDialogProps) {
+  const [format, setFormat] = useState<ReportFormat>('markdown');
+  const [scope, setScope] = useState<ReportScope>('shown');
+  const [saving, setSaving] = useState(false);
+  const [savedTo, setSavedTo] = useState<{ filePath: string; modCount: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSavedTo(null);
+    setError(null);
+    setScope(selectedIds.length > 0 ? 'selected' : 'shown');
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSavedTo(null);
+    setError(null);
+    try {
+      setSavedTo(await modsAPI.exportReport(format, scope === 'selected' ? selectedIds : shownIds));
+    } catch (err) {
+      if (!(err instanceof Error && err.message.includes('canceled'))) {
+        console.error('Failed to save report:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const modCount = scope === 'selected' ? selectedIds.length : shownIds.length;
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>📝 Mod List Report</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            <p className="setting-description">
+              Lists each mod's title and translation, Workshop link, creator, size, tags and last update.
+            </p>
+
+            <label className="export-option">
+              <span>Format</span>
+              <select value={format} onChange={(e) => setFormat(e.target.value as ReportFormat)} disabled={saving}>
+                {FORMATS.map(option => (
+                  <option key={option.format} value={option.format}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="export-option">
+              <input
+                type="radio"
+                checked={scope === 'selected'}
+                onChange={() => setScope('selected')}
+                disabled={saving || selectedIds.length === 0}
+              />
+              <span>Selected mods ({selectedIds.length})</span>
+            </label>
+            <label className="export-option">
+              <input
+                type="radio"
+                checked={scope === 'shown'}
+                onChange={() => setScope('shown')}
+                disabled={saving}
+              />
+              <span>Mods matching the current search and filters ({shownIds.length})</span>
+            </label>
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {savedTo && (
+              <p className="integrity-status integrity-ok">
+                ✅ Saved {savedTo.modCount} mod{savedTo.modCount === 1 ? '' : 's'} to <code>{savedTo.filePath}</code>
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saving || modCount === 0}>
+            {saving ? 'Saving...' : 'Save Report...'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReportDialog;
@@ -1,38 +1,158 @@
 import React, { useState, useEffect } from 'react';
 import './Settings.css';
 
+interface PathDiscovery {
+  steamRoots: string[];
+  workshopPaths: string[];
+  gameModsPaths: string[];
+}
+
+export interface LibraryRoot {
+  name: string;
+  path: string;
+  type: 'workshop' | 'local';
+  enabled: boolean;
+}
+
+interface SteamApiSettings {
+  baseUrl: string;
+  offlineMode: boolean;
+}
+
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (workshopPath: string) => void;
-  currentWorkshopPath: string;
+  onSave: (roots: LibraryRoot[]) => void;
+  currentRoots: LibraryRoot[];
 }
 
-function Settings({ isOpen, onClose, onSave, currentWorkshopPath }: SettingsProps) {
-  const [workshopPath, setWorkshopPath] = useState(currentWorkshopPath);
-  const [hasChanges, setHasChanges] = useState(false);
+const DEFAULT_ROOT_NAMES: Record<LibraryRoot['type'], string> = {
+  workshop: 'Steam Workshop',
+  local: 'Game Mods'
+};
+
+function Settings({ isOpen, onClose, onSave, currentRoots }: SettingsProps) {
+  const [roots, setRoots] = useState<LibraryRoot[]>(currentRoots);
+  const [discovery, setDiscovery] = useState<PathDiscovery | null>(null);
+  const [discovering, setDiscovering] = useState(false);
+  const [steamApi, setSteamApi] = useState<SteamApiSettings | null>(null);
+  const [savedSteamApi, setSavedSteamApi] = useState<SteamApiSettings | null>(null);
+  const [savingSteamApi, setSavingSteamApi] = useState(false);
 
   useEffect(() => {
-    setWorkshopPath(currentWorkshopPath);
-    setHasChanges(false);
-  }, [currentWorkshopPath, isOpen]);
+    setRoots(currentRoots);
+  }, [currentRoots, isOpen]);
+
+  useEffect(() => {
+    if (isOpen) {
+      discoverPaths();
+      loadSteamApi();
+    }
+  }, [isOpen]);
+
+  const loadSteamApi = async () => {
+    if (!window.electronAPI?.getSteamApiSettings) return;
+
+    try {
+      const settings = await window.electronAPI.getSteamApiSettings();
+      setSteamApi(settings);
+      setSavedSteamApi(settings);
+    } catch (error) {
+      console.error('Failed to load Steam API settings:', error);
+    }
+  };
+
+  const saveSteamApi = async () => {
+    if (!steamApi) return;
+
+    try {
+      setSavingSteamApi(true);
+      const settings = await window.electronAPI.setSteamApiSettings(steamApi);
+      setSteamApi(settings);
+      setSavedSteamApi(settings);
+    } catch (error) {
+      console.error('Failed to save Steam API settings:', error);
+      alert(`Failed to save Steam API settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSavingSteamApi(false);
+    }
+  };
+
+  const discoverPaths = async () => {
+    if (!window.electronAPI?.discoverSteamPaths) return;
+
+    try {
+      setDiscovering(true);
+      setDiscovery(await window.electronAPI.discoverSteamPaths());
+    } catch (error) {
+      console.error('Failed to discover Steam paths:', error);
+      setDiscovery(null);
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  const updateRoot = (index: number, changes: Partial<LibraryRoot>) => {
+    setRoots(roots.map((root, i) => (i === index ? { ...root, ...changes } : root)));
+  };
+
+  const addRoot = (type: LibraryRoot['type'], path: string = '') => {
+    const sameType = roots.filter(root => root.type === type).length;
+    const name = sameType === 0 ? DEFAULT_ROOT_NAMES[type] : `${DEFAULT_ROOT_NAMES[type]} ${sameType + 1}`;
+    setRoots([...roots, { name, path, type, enabled: true }]);
+  };
+
+  const removeRoot = (index: number) => {
+    setRoots(roots.filter((_, i) => i !== index));
+  };
+
+  const moveRoot = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= roots.length) return;
 
-  const handlePathChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setWorkshopPath(e.target.value);
-    setHasChanges(e.target.value !== currentWorkshopPath);
+    const reordered = [...roots];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRoots(reordered);
   };
 
-  const handleBrowse = async () => {
+  const renderSuggestions = () => {
+    const listed = new Set(roots.map(root => root.path.trim()));
+    const suggestions = [
+      ...(discovery?.workshopPaths || []).map(path => ({ path, type: 'workshop' as const })),
+      ...(discovery?.gameModsPaths || []).map(path => ({ path, type: 'local' as const }))
+    ].filter(suggestion => !listed.has(suggestion.path));
+    if (suggestions.length === 0) return null;
+
+    return (
+      <div className="path-suggestions">
+        <span className="path-suggestions-label">🔍 Found on this computer:</span>
+        {suggestions.map(suggestion => (
+          <button
+            key={suggestion.path}
+            className="path-suggestion"
+            onClick={() => addRoot(suggestion.type, suggestion.path)}
+            title="Add this folder as a library root"
+          >
+            + {suggestion.type === 'workshop' ? 'Workshop' : 'Local'}: {suggestion.path}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const hasChanges = JSON.stringify(roots) !== JSON.stringify(currentRoots);
+  const hasAnyPath = roots.some(root => root.enabled && root.path.trim());
+
+  const browseForFolder = async (title: string, onSelect: (path: string) => void) => {
     try {
       if (window.electronAPI?.showOpenDialog) {
         const result = await window.electronAPI.showOpenDialog({
-          title: 'Select Workshop Data Folder',
+          title,
           properties: ['openDirectory']
         });
 
         if (!result.canceled && result.filePaths.length > 0) {
-          setWorkshopPath(result.filePaths[0]);
-          setHasChanges(result.filePaths[0] !== currentWorkshopPath);
+          onSelect(result.filePaths[0]);
         }
       }
     } catch (error) {
@@ -42,17 +162,18 @@ function Settings({ isOpen, onClose, onSave, currentWorkshopPath }: SettingsProp
   };
 
   const handleSave = () => {
-    if (workshopPath.trim()) {
-      onSave(workshopPath.trim());
-      setHasChanges(false);
+    const paths = roots.map(root => root.path.trim()).filter(Boolean);
+    if (!hasAnyPath) {
+      alert('Please add and enable at least one library folder');
+    } else if (new Set(paths).size !== paths.length) {
+      alert('Each folder can only be listed once');
     } else {
-      alert('Please select a valid workshop data folder');
+      onSave(roots.map(root => ({ ...root, name: root.name.trim(), path: root.path.trim() })));
     }
   };
 
   const handleCancel = () => {
-    setWorkshopPath(currentWorkshopPath);
-    setHasChanges(false);
+    setRoots(currentRoots);
     onClose();
   };
 
@@ -68,39 +189,136 @@ function Settings({ isOpen, onClose, onSave, currentWorkshopPath }: SettingsProp
 
         <div className="settings-content">
           <div className="setting-section">
-            <h3>Workshop Data Folder</h3>
+            <h3>Mod Library Folders</h3>
             <p className="setting-description">
-              Select the folder where your Steam Workshop mods are stored.
-              <br />
-              Typically located at: <code>C:\Program Files (x86)\Steam\steamapps\workshop\content\2390090</code>
+              Folders scanned for mods. <strong>Workshop</strong> folders hold Steam Workshop items,
+              typically <code>Steam\steamapps\workshop\content\3167020</code> in each Steam library.
+              <strong> Local</strong> folders hold side-loaded mods, such as the game's <code>Mods</code> folder.
+              When a mod is in more than one folder, the folder listed first wins.
             </p>
-            
-            <div className="path-input-group">
-              <input
-                type="text"
-                value={workshopPath}
-                onChange={handlePathChange}
-                placeholder="Select workshop folder..."
-                className="path-input"
-              />
-              <button onClick={handleBrowse} className="btn btn-secondary">
-                📁 Browse
-              </button>
+
+            {roots.length === 0 && (
+              <p className="setting-description">No library folders yet.</p>
+            )}
+
+            {roots.map((root, index) => (
+              <div key={index} className={`library-root ${root.enabled ? '' : 'library-root-disabled'}`}>
+                <div className="library-root-header">
+                  <input
+                    type="checkbox"
+                    checked={root.enabled}
+                    onChange={(e) => updateRoot(index, { enabled: e.target.checked })}
+                    title={root.enabled ? 'Scanned' : 'Not scanned'}
+                  />
+                  <input
+                    type="text"
+                    value={root.name}
+                    onChange={(e) => updateRoot(index, { name: e.target.value })}
+                    placeholder="Name"
+                    className="path-input library-root-name"
+                  />
+                  <select
+                    value={root.type}
+                    onChange={(e) => updateRoot(index, { type: e.target.value as LibraryRoot['type'] })}
+                    className="library-root-type"
+                  >
+                    <option value="workshop">Workshop</option>
+                    <option value="local">Local</option>
+                  </select>
+                  <button className="btn-icon-only" onClick={() => moveRoot(index, -1)} disabled={index === 0} title="Move up">▲</button>
+                  <button className="btn-icon-only" onClick={() => moveRoot(index, 1)} disabled={index === roots.length - 1} title="Move down">▼</button>
+                  <button className="btn-icon-only" onClick={() => removeRoot(index)} title="Remove">✕</button>
+                </div>
+
+                <div className="path-input-group">
+                  <input
+                    type="text"
+                    value={root.path}
+                    onChange={(e) => updateRoot(index, { path: e.target.value })}
+                    placeholder="Select folder..."
+                    className="path-input"
+                  />
+                  <button
+                    onClick={() => browseForFolder(`Select ${root.name || 'Library'} Folder`, path => updateRoot(index, { path }))}
+                    className="btn btn-secondary"
+                  >
+                    📁 Browse
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            <div className="library-root-actions">
+              <button className="btn btn-secondary" onClick={() => addRoot('workshop')}>+ Workshop Folder</button>
+              <button className="btn btn-secondary" onClick={() => addRoot('local')}>+ Local Folder</button>
             </div>
 
-            {!currentWorkshopPath && (
+            {renderSuggestions()}
+
+            {!currentRoots.some(root => root.enabled) && (
               <div className="warning-message">
-                ⚠️ Workshop path is not configured. Please select a folder to enable mod scanning.
+                ⚠️ No library folder is configured. Please add a folder to enable mod scanning.
               </div>
             )}
           </div>
+
+          <div className="setting-section">
+            <p className="setting-description discovery-status">
+              {discovering
+                ? 'Searching Steam libraries...'
+                : discovery && discovery.steamRoots.length > 0
+                  ? `Searched ${discovery.steamRoots.length} Steam install(s) for Escape from Duckov.`
+                  : discovery
+                    ? 'No Steam install found in the standard locations.'
+                    : null}
+              {!discovering && discovery && (
+                <button className="btn-link" onClick={discoverPaths}>Search again</button>
+              )}
+            </p>
+          </div>
+
+          {steamApi && (
+            <div className="setting-section">
+              <h3>Steam Workshop API</h3>
+              <p className="setting-description">
+                Mod titles, descriptions and update times come from the Steam Web API. They are cached,
+                so when Steam can't be reached, scans keep the last details they got.
+              </p>
+
+              <div className="path-input-group">
+                <input
+                  type="text"
+                  value={steamApi.baseUrl}
+                  onChange={(e) => setSteamApi({ ...steamApi, baseUrl: e.target.value })}
+                  placeholder="https://api.steampowered.com"
+                  className="path-input"
+                />
+                <button
+                  onClick={saveSteamApi}
+                  className="btn btn-secondary"
+                  disabled={savingSteamApi || JSON.stringify(steamApi) === JSON.stringify(savedSteamApi)}
+                >
+                  {savingSteamApi ? 'Applying...' : 'Apply'}
+                </button>
+              </div>
+
+              <label className="steam-offline-option">
+                <input
+                  type="checkbox"
+                  checked={steamApi.offlineMode}
+                  onChange={(e) => setSteamApi({ ...steamApi, offlineMode: e.target.checked })}
+                />
+                Offline mode: use cached Workshop details without contacting Steam
+              </label>
+            </div>
+          )}
         </div>
 
         <div className="settings-footer">
-          <button 
-            onClick={handleSave} 
+          <button
+            onClick={handleSave}
             className="btn btn-primary"
-            disabled={!hasChanges || !workshopPath.trim()}
+            disabled={!hasChanges || !hasAnyPath}
           >
             💾 Save Settings
           </button>
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { modsAPI } from '../services/api';
+import './Settings.css';
+import './IntegrityReport.css';
+import './WorkshopReport.css';
+
+interface WorkshopReportEntry {
+  modId: string;
+  title?: string;
+  reason: string;
+  state?: {
+    sizeOnDisk?: number;
+    installedAt?: number;
+  };
+}
+
+interface WorkshopStateReport {
+  manifestPaths: string[];
+  manifestFound: boolean;
+  appNeedsUpdate: boolean;
+  stale: WorkshopReportEntry[];
+  leftover: WorkshopReportEntry[];
+  missing: WorkshopReportEntry[];
+  checkedAt: string;
+}
+
+interface WorkshopReportProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function WorkshopReport({ isOpen, onClose }: WorkshopReportProps) {
+  const [report, setReport] = useState<WorkshopStateReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+    if (isOpen) {
+      check();
+    }
+  }, [isOpen]);
+
+  const check = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      setReport(await modsAPI.getWorkshopReport());
+    } catch (err) {
+      console.error('Failed to read Steam workshop state:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderGroup = (label: string, entries: WorkshopReportEntry[], className: string) => (
+    <div className="integrity-group">
+      <h4>{label} ({entries.length})</h4>
+      {entries.length > 0 ? (
+        <ul className={`workshop-report-list ${className}`}>
+          {entries.map(entry => (
+            <li key={entry.modId}>
+              <span className="workshop-report-title">{entry.title || entry.modId}</span>
+              <span className="workshop-report-reason">{entry.reason}</span>
+              {entry.state?.installedAt && (
+                <span className="workshop-report-reason">
+                  Downloaded {new Date(entry.state.installedAt).toLocaleDateString()}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="integrity-empty">None</p>
+      )}
+    </div>
+  );
+
+  const isClean = report && report.stale.length + report.leftover.length + report.missing.length === 0;
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>🧾 Steam Install State</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="settings-content">
+          <div className="setting-section">
+            {checking && <p className="setting-description">Reading Steam's workshop manifest...</p>}
+
+            {error && <p className="integrity-status integrity-failed">❌ {error}</p>}
+
+            {report && !report.manifestFound && (
+              <p className="integrity-status integrity-unknown">
+                ⚠️ Steam's workshop manifest was not found at <code>{report.manifestPaths.join(', ')}</code>.
+                Install state is only available for workshop folders managed by Steam.
+              </p>
+            )}
+
+            {report && report.manifestFound && (
+              <>
+                <p className={`integrity-status ${isClean ? 'integrity-ok' : 'integrity-unknown'}`}>
+                  {isClean
+                    ? '✅ Every workshop folder matches what Steam has installed.'
+                    : '⚠️ Some workshop folders are out of date or no longer tracked by Steam.'}
+                </p>
+                {report.appNeedsUpdate && (
+                  <p className="setting-description">Steam has Workshop downloads queued for the game.</p>
+                )}
+                <p className="setting-description">
+                  Read from <code>{report.manifestPaths.join(', ')}</code> at {new Date(report.checkedAt).toLocaleString()}.
+                </p>
+                <div className="integrity-groups">
+                  {renderGroup('Needs Update', report.stale, 'workshop-report-stale')}
+                  {renderGroup('Leftover', report.leftover, 'workshop-report-leftover')}
+                  {renderGroup('Not Downloaded', report.missing, 'workshop-report-missing')}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="settings-footer">
+          <button className="btn btn-secondary" onClick={check} disabled={checking}>
+            Check Again
+          </button>
+          <button className="btn btn-primary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default WorkshopReport;
@@ -10,11 +10,33 @@ interface TranslationRequest {
   context?: string;
 }
 
+interface ModChangeSet {
+  added: any[];
+  updated: any[];
+  removed: string[];
+  errors: string[];
+}
+
+interface ExportOptions {
+  includeLoadOrder?: boolean;
+  compressionLevel?: number;
+}
+
+interface ExportProgress {
+  phase: 'checksums' | 'archiving';
+  processedBytes: number;
+  estimatedTotalBytes: number;
+  processedFiles: number;
+  currentModId?: string;
+  currentModTitle?: string;
+}
+
 interface OpenDialogOptions {
   title?: string;
   defaultPath?: string;
   buttonLabel?: string;
   properties?: Array<'openFile' | 'openDirectory' | 'multiSelections'>;
+  filters?: Array<{ name: string; extensions: string[] }>;
 }
 
 interface OpenDialogResult {
@@ -36,12 +58,51 @@ interface SaveDialogResult {
 
 interface ElectronAPI {
   // Mod operations
-  scanMods: () => Promise<any>;
+  scanMods: (options?: { fullRescan?: boolean; hashContents?: boolean }) => Promise<any>;
   getAllMods: (limit?: number, offset?: number) => Promise<any>;
   getModById: (id: string) => Promise<any>;
   searchMods: (query: string) => Promise<any>;
   syncMods: () => Promise<any>;
-  exportMods: (filePath: string, modIds: string[]) => Promise<any>;
+  exportMods: (filePath: string, modIds: string[], options?: ExportOptions) => Promise<any>;
+  cancelExport: () => Promise<any>;
+  exportReport: (filePath: string, format: 'csv' | 'markdown' | 'json' | 'html', modIds?: string[], title?: string) => Promise<any>;
+  getCollectionDiff: (collection: string) => Promise<any>;
+  getModHistory: (modId?: string, limit?: number) => Promise<any>;
+  onExportProgress: (callback: (progress: ExportProgress) => void) => () => void;
+  setModEnabled: (id: string, enabled: boolean) => Promise<any>;
+  getLoadOrder: () => Promise<any>;
+  reorderMods: (modIds: string[]) => Promise<any>;
+  verifyModIntegrity: (id: string) => Promise<any>;
+  getConflicts: (modId?: string) => Promise<any>;
+  getWorkshopReport: () => Promise<any>;
+  getDiskUsage: (refresh?: boolean) => Promise<any>;
+  findOrphans: () => Promise<any>;
+  cleanupOrphans: (ids: string[], action: 'archive' | 'delete') => Promise<any>;
+  previewImport: (filePath: string) => Promise<any>;
+  importMods: (filePath: string, rootPath: string, modIds?: string[], overwrite?: boolean) => Promise<any>;
+  onModsChanged: (callback: (changes: ModChangeSet) => void) => () => void;
+
+  // Profile operations
+  getProfiles: () => Promise<any>;
+  createProfile: (name: string, modIds?: string[], description?: string) => Promise<any>;
+  updateProfile: (
+    id: number,
+    changes: { name?: string; description?: string; mods?: Array<{ modId: string; enabled: boolean }> }
+  ) => Promise<any>;
+  deleteProfile: (id: number) => Promise<any>;
+  applyProfile: (id: number) => Promise<any>;
+  compareProfiles: (firstId: number, secondId: number) => Promise<any>;
+  createShareCode: (options?: { modIds?: string[]; profileId?: number; includeLoadOrder?: boolean }) => Promise<any>;
+  compareShareCode: (code: string) => Promise<any>;
+
+  // Dependency operations
+  getDependencyGraph: () => Promise<any>;
+
+  // Backup operations
+  getBackups: (modId: string) => Promise<any>;
+  createBackup: (modId: string) => Promise<any>;
+  restoreBackup: (backupId: number) => Promise<any>;
+  setBackupPinned: (backupId: number, pinned: boolean) => Promise<any>;
 
   // Translation operations
   translate: (request: TranslationRequest) => Promise<any>;
@@ -52,6 +113,13 @@ interface ElectronAPI {
   getWorkshopPath: () => Promise<string>;
   setWorkshopPath: (path: string) => Promise<void>;
   isWorkshopConfigured: () => Promise<boolean>;
+  getGameModsPath: () => Promise<string>;
+  setGameModsPath: (path: string) => Promise<void>;
+  discoverSteamPaths: () => Promise<any>;
+  getLibraryRoots: () => Promise<any[]>;
+  setLibraryRoots: (roots: Array<{ name: string; path: string; type: 'workshop' | 'local'; enabled: boolean }>) => Promise<any[]>;
+  getSteamApiSettings: () => Promise<{ baseUrl: string; offlineMode: boolean }>;
+  setSteamApiSettings: (settings: { baseUrl: string; offlineMode: boolean }) => Promise<{ baseUrl: string; offlineMode: boolean }>;
 
   // File dialog operations
   showOpenDialog: (options: OpenDialogOptions) => Promise<OpenDialogResult>;
@@ -60,6 +128,7 @@ interface ElectronAPI {
   // App operations
   getAppInfo: () => Promise<any>;
   getPath: (name: 'home' | 'appData' | 'userData' | 'temp' | 'downloads' | 'documents') => Promise<string>;
+  openWorkshopPage: (modId: string) => Promise<any>;
   quit: () => void;
   relaunch: () => void;
   minimize: () => void;
@@ -121,11 +121,13 @@ export const modsAPI = {
 
   /**
    * Scan local workshop folder and sync mods
-   * This triggers a full rescan of the local workshop folder
+   * Mods whose folders haven't changed since the last scan are skipped
+   * @param fullRescan - Re-sync every mod and refetch all Steam details
    */
-  async scanWorkshopFolder(): Promise<{
+  async scanWorkshopFolder(fullRescan: boolean = false): Promise<{
     scanned: number;
     synced: number;
+    unchanged: number;
     errors: number;
     mods: any[];
     errorMessages: string[];
@@ -133,13 +135,13 @@ export const modsAPI = {
     requireElectron();
 
     try {
-      console.log('[API] Starting workshop folder scan...');
-      const result = await window.electronAPI.scanMods();
+      console.log(`[API] Starting ${fullRescan ? 'full' : 'incremental'} workshop folder scan...`);
+      const result = await window.electronAPI.scanMods({ fullRescan });
 
       if (result.success && result.data) {
         console.log(
           `[API] Scan complete: ${result.data.scanned} scanned, ` +
-          `${result.data.synced} synced, ${result.data.errors} errors`
+          `${result.data.synced} synced, ${result.data.unchanged} unchanged, ${result.data.errors} errors`
         );
         return result.data;
       } else {
@@ -182,10 +184,11 @@ export const modsAPI = {
 
   /**
    * Export selected mods as a zip file
-   * Opens a save dialog and creates a zip archive
+   * Opens a save dialog and creates a modpack (zip archive with a modpack.json manifest)
    * @param modIds - Array of mod IDs to export
+   * @param options - Whether to record the load order, and the compression level (0-9)
    */
-  async exportMods(modIds: string[]): Promise<{
+  async exportMods(modIds: string[], options: { includeLoadOrder?: boolean; compressionLevel?: number } = {}): Promise<{
     success: boolean;
     filePath: string;
     exportedCount: number;
@@ -210,7 +213,7 @@ export const modsAPI = {
       }
 
       // Export mods to the chosen location
-      const result = await window.electronAPI.exportMods(saveDialogResult.filePath, modIds);
+      const result = await window.electronAPI.exportMods(saveDialogResult.filePath, modIds, options);
 
       if (result.success) {
         console.log(
@@ -226,6 +229,459 @@ export const modsAPI = {
     }
   },
 
+  /**
+   * Opens a save dialog and writes a mod list report
+   * @param format - csv, markdown, json or html
+   * @param modIds - Mods to list, in order (all mods by default)
+   * @returns Where the report was saved and how many mods it lists
+   */
+  async exportReport(
+    format: 'csv' | 'markdown' | 'json' | 'html',
+    modIds?: string[]
+  ): Promise<{ filePath: string; modCount: number }> {
+    requireElectron();
+
+    const extensions = { csv: 'csv', markdown: 'md', json: 'json', html: 'html' };
+    const names = { csv: 'CSV Files', markdown: 'Markdown Files', json: 'JSON Files', html: 'Web Pages' };
+
+    try {
+      const saveDialogResult = await window.electronAPI.showSaveDialog({
+        title: 'Save Mod List',
+        defaultPath: `duckov-mod-list-${new Date().toISOString().slice(0, 10)}.${extensions[format]}`,
+        filters: [{ name: names[format], extensions: [extensions[format]] }]
+      });
+
+      if (saveDialogResult.canceled || !saveDialogResult.filePath) {
+        throw new Error('Report canceled by user');
+      }
+
+      const result = await window.electronAPI.exportReport(saveDialogResult.filePath, format, modIds);
+
+      if (result.success && result.data) {
+        console.log(`[API] Saved ${format} report of ${result.data.modCount} mods to ${result.data.filePath}`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to save report');
+      }
+    } catch (error) {
+      console.error('[API] Failed to save report:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Compare a Steam Workshop collection with the installed mods
+   * @param collection - Collection URL or ID
+   */
+  async getCollectionDiff(collection: string): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Resolving collection ${collection}`);
+      const result = await window.electronAPI.getCollectionDiff(collection);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to resolve collection');
+      }
+    } catch (error) {
+      console.error('[API] Failed to resolve collection:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get metadata history snapshots, newest first
+   * @param modId - Only this mod's history; all mods when omitted
+   * @param limit - Maximum number of snapshots
+   */
+  async getModHistory(modId?: string, limit?: number): Promise<any[]> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Fetching history${modId ? ` of mod ${modId}` : ''}`);
+      const result = await window.electronAPI.getModHistory(modId, limit);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to fetch history');
+      }
+    } catch (error) {
+      console.error('[API] Failed to fetch history:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Cancel the running export; its partial file is removed
+   * @returns Whether an export was running
+   */
+  async cancelExport(): Promise<boolean> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.cancelExport();
+
+      if (result.success) {
+        console.log(`[API] ${result.data.canceled ? 'Export canceled' : 'No export was running'}`);
+        return result.data.canceled;
+      } else {
+        throw new Error(result.error || 'Failed to cancel export');
+      }
+    } catch (error) {
+      console.error('[API] Failed to cancel export:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Listen for progress of the running export
+   * Returns a function that stops listening
+   * @param callback - Receives bytes processed, the estimated total and the current mod
+   */
+  onExportProgress(callback: (progress: {
+    phase: 'checksums' | 'archiving';
+    processedBytes: number;
+    estimatedTotalBytes: number;
+    processedFiles: number;
+    currentModId?: string;
+    currentModTitle?: string;
+  }) => void): () => void {
+    if (!isElectronAvailable()) {
+      return () => {};
+    }
+
+    return window.electronAPI.onExportProgress(callback);
+  },
+
+  /**
+   * Enable or disable a mod
+   * Disabled mods are moved out of the folders the game loads from
+   * @param id - Mod ID
+   * @param enabled - Whether the game should load the mod
+   */
+  async setModEnabled(id: string, enabled: boolean): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log(`[API] ${enabled ? 'Enabling' : 'Disabling'} mod ${id}`);
+      const result = await window.electronAPI.setModEnabled(id, enabled);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to update mod state');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to update mod ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get all mods in load order (first loads first)
+   */
+  async getLoadOrder(): Promise<any[]> {
+    requireElectron();
+
+    try {
+      console.log('[API] Fetching load order');
+      const result = await window.electronAPI.getLoadOrder();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to fetch load order');
+      }
+    } catch (error) {
+      console.error('[API] Failed to fetch load order:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Save a new load order
+   * @param modIds - Mod IDs in the order they should load
+   */
+  async reorderMods(modIds: string[]): Promise<any[]> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Saving load order (${modIds.length} mods)`);
+      const result = await window.electronAPI.reorderMods(modIds);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to save load order');
+      }
+    } catch (error) {
+      console.error('[API] Failed to save load order:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Compare a mod folder against the file manifest recorded at its last sync
+   * @param id - Mod ID
+   */
+  async verifyModIntegrity(id: string): Promise<{
+    modId: string;
+    hasManifest: boolean;
+    intact: boolean;
+    added: string[];
+    removed: string[];
+    modified: string[];
+    unchangedCount: number;
+    recordedAt?: string;
+    verifiedAt: string;
+  }> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Verifying integrity of mod ${id}`);
+      const result = await window.electronAPI.verifyModIntegrity(id);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to verify mod integrity');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to verify mod ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Find installed mods that overwrite or shadow each other
+   * @param modId - Only return conflicts involving this mod
+   */
+  async getConflicts(modId?: string): Promise<Array<{
+    type: 'file' | 'assembly' | 'manifest-name';
+    severity: 'low' | 'medium' | 'high';
+    key: string;
+    modIds: string[];
+    files?: string[];
+    message: string;
+  }>> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.getConflicts(modId);
+
+      if (result.success && result.data) {
+        console.log(`[API] Found ${result.data.length} mod conflicts`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to analyze mod conflicts');
+      }
+    } catch (error) {
+      console.error('[API] Failed to analyze mod conflicts:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Compare the workshop folder with Steam's appworkshop manifest, offline
+   * Lists mods Steam wants to update, leftover folders and subscribed items not on disk
+   */
+  async getWorkshopReport(): Promise<any> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.getWorkshopReport();
+
+      if (result.success && result.data) {
+        console.log(
+          `[API] Workshop report: ${result.data.stale.length} stale, ${result.data.leftover.length} leftover, ${result.data.missing.length} missing`
+        );
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to read Steam workshop state');
+      }
+    } catch (error) {
+      console.error('[API] Failed to read Steam workshop state:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the disk usage report of installed mods
+   * @param refresh - Analyze the mod folders again instead of using the stored report
+   */
+  async getDiskUsage(refresh: boolean = false): Promise<any> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.getDiskUsage(refresh);
+
+      if (result.success && result.data) {
+        console.log(`[API] Disk usage: ${result.data.modCount} mods, ${result.data.totalSize} bytes`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to analyze disk usage');
+      }
+    } catch (error) {
+      console.error('[API] Failed to analyze disk usage:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Find database rows without a folder and leftover mod folders
+   */
+  async findOrphans(): Promise<any> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.findOrphans();
+
+      if (result.success && result.data) {
+        console.log(`[API] Found ${result.data.orphans.length} orphans`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to check for orphans');
+      }
+    } catch (error) {
+      console.error('[API] Failed to check for orphans:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Archive or delete selected orphans
+   * @param ids - Orphan IDs from findOrphans
+   * @param action - 'archive' keeps a zip of everything removed
+   */
+  async cleanupOrphans(ids: string[], action: 'archive' | 'delete'): Promise<any> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.cleanupOrphans(ids, action);
+
+      if (result.success && result.data) {
+        console.log(`[API] Cleaned up ${result.data.cleaned.length} orphans`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to clean up orphans');
+      }
+    } catch (error) {
+      console.error('[API] Failed to clean up orphans:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * List the mods in a zip archive and which are already installed
+   */
+  async previewImport(filePath: string): Promise<any> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.previewImport(filePath);
+
+      if (result.success && result.data) {
+        console.log(`[API] Found ${result.data.candidates.length} mods in ${filePath}`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to read archive');
+      }
+    } catch (error) {
+      console.error('[API] Failed to read archive:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Install mods from a zip archive
+   * @param rootPath - Library folder to install into
+   * @param modIds - Mods to import (all by default)
+   * @param overwrite - Replace mods already installed in that folder
+   */
+  async importMods(filePath: string, rootPath: string, modIds?: string[], overwrite: boolean = false): Promise<any> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.importMods(filePath, rootPath, modIds, overwrite);
+
+      if (result.success && result.data) {
+        console.log(`[API] Imported ${result.data.installed.length} mods`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to import mods');
+      }
+    } catch (error) {
+      console.error('[API] Failed to import mods:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Resolve mod dependencies against the installed mods
+   * Returns missing/disabled dependency warnings and a dependency-respecting order
+   */
+  async getDependencyGraph(): Promise<{
+    dependencies: Array<{
+      modId: string;
+      dependsOn: string;
+      source: 'manifest' | 'steam' | 'description';
+      resolvedModId?: string;
+      status: 'satisfied' | 'missing' | 'disabled';
+    }>;
+    warnings: Array<{
+      modId: string;
+      dependsOn: string;
+      resolvedModId?: string;
+      type: 'missing' | 'disabled';
+      message: string;
+    }>;
+    order: string[];
+    cycles: string[][];
+  }> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.getDependencyGraph();
+
+      if (result.success && result.data) {
+        console.log(`[API] Resolved ${result.data.dependencies.length} dependencies, ${result.data.warnings.length} warnings`);
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to resolve mod dependencies');
+      }
+    } catch (error) {
+      console.error('[API] Failed to resolve mod dependencies:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Listen for mods being added, updated or removed on disk
+   * Returns a function that stops listening
+   * @param callback - Receives the added/updated mods and removed mod IDs
+   */
+  onModsChanged(callback: (changes: {
+    added: any[];
+    updated: any[];
+    removed: string[];
+    errors: string[];
+  }) => void): () => void {
+    if (!isElectronAvailable()) {
+      return () => {};
+    }
+
+    return window.electronAPI.onModsChanged((changes) => {
+      console.log(
+        `[API] Mod folders changed: ${changes.added.length} added, ` +
+        `${changes.updated.length} updated, ${changes.removed.length} removed`
+      );
+      callback(changes);
+    });
+  },
+
   /**
    * Get mod statistics overview
    */
@@ -281,6 +737,304 @@ export const modsAPI = {
   }
 };
 
+/**
+ * Profile-related API operations
+ */
+export const profilesAPI = {
+  /**
+   * Get all saved profiles
+   */
+  async getProfiles(): Promise<any[]> {
+    requireElectron();
+
+    try {
+      console.log('[API] Fetching profiles');
+      const result = await window.electronAPI.getProfiles();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to fetch profiles');
+      }
+    } catch (error) {
+      console.error('[API] Failed to fetch profiles:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a profile
+   * @param name - Unique profile name
+   * @param modIds - Mods to enable in the profile (omit to capture the current state)
+   * @param description - Optional description
+   */
+  async createProfile(name: string, modIds?: string[], description?: string): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Creating profile "${name}"`);
+      const result = await window.electronAPI.createProfile(name, modIds, description);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to create profile');
+      }
+    } catch (error) {
+      console.error('[API] Failed to create profile:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update a profile's name, description or mod list
+   * @param id - Profile ID
+   * @param changes - Fields to change
+   */
+  async updateProfile(
+    id: number,
+    changes: { name?: string; description?: string; mods?: Array<{ modId: string; enabled: boolean }> }
+  ): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Updating profile ${id}`);
+      const result = await window.electronAPI.updateProfile(id, changes);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to update profile');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to update profile ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a profile
+   * @param id - Profile ID
+   */
+  async deleteProfile(id: number): Promise<void> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Deleting profile ${id}`);
+      const result = await window.electronAPI.deleteProfile(id);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete profile');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to delete profile ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Apply a profile, enabling and disabling installed mods to match it
+   * @param id - Profile ID
+   */
+  async applyProfile(id: number): Promise<{
+    enabled: string[];
+    disabled: string[];
+    unchanged: number;
+    missing: string[];
+    errors: string[];
+  }> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Applying profile ${id}`);
+      const result = await window.electronAPI.applyProfile(id);
+
+      if (result.success && result.data) {
+        console.log(
+          `[API] Profile applied: ${result.data.enabled.length} enabled, ` +
+          `${result.data.disabled.length} disabled, ${result.data.missing.length} missing`
+        );
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to apply profile');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to apply profile ${id}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Compare two profiles
+   * @param firstId - First profile ID
+   * @param secondId - Second profile ID
+   */
+  async compareProfiles(firstId: number, secondId: number): Promise<{
+    onlyInFirst: string[];
+    onlyInSecond: string[];
+    enabledDiffers: string[];
+    orderDiffers: boolean;
+  }> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Comparing profiles ${firstId} and ${secondId}`);
+      const result = await window.electronAPI.compareProfiles(firstId, secondId);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to compare profiles');
+      }
+    } catch (error) {
+      console.error('[API] Failed to compare profiles:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a share code; defaults to the enabled mods
+   * @param options - Mods or profile to share and whether to keep the load order
+   */
+  async createShareCode(options: { modIds?: string[]; profileId?: number; includeLoadOrder?: boolean } = {}): Promise<{
+    code: string;
+    modCount: number;
+    skipped: string[];
+  }> {
+    requireElectron();
+
+    try {
+      console.log('[API] Creating share code');
+      const result = await window.electronAPI.createShareCode(options);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to create share code');
+      }
+    } catch (error) {
+      console.error('[API] Failed to create share code:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Compare a share code with the installed mods
+   * @param code - Share code
+   */
+  async compareShareCode(code: string): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log('[API] Comparing share code');
+      const result = await window.electronAPI.compareShareCode(code);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to compare share code');
+      }
+    } catch (error) {
+      console.error('[API] Failed to compare share code:', error);
+      throw error;
+    }
+  }
+};
+
+/**
+ * Mod backup API operations
+ */
+export const backupsAPI = {
+  /**
+   * Get a mod's backups, newest first
+   * @param modId - Mod ID
+   */
+  async getBackups(modId: string): Promise<any[]> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Fetching backups of mod ${modId}`);
+      const result = await window.electronAPI.getBackups(modId);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to fetch backups');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to fetch backups of mod ${modId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Back up a mod folder now
+   * @param modId - Mod ID
+   */
+  async createBackup(modId: string): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Backing up mod ${modId}`);
+      const result = await window.electronAPI.createBackup(modId);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to back up mod');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to back up mod ${modId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Replace a mod folder with one of its backups
+   * @param backupId - Backup ID
+   */
+  async restoreBackup(backupId: number): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log(`[API] Restoring backup ${backupId}`);
+      const result = await window.electronAPI.restoreBackup(backupId);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to restore backup');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to restore backup ${backupId}:`, error);
+      throw error;
+    }
+  },
+
+  /**
+   * Pin a backup so syncs keep restoring it, or unpin it
+   * @param backupId - Backup ID
+   * @param pinned - Whether the backup should be pinned
+   */
+  async setBackupPinned(backupId: number, pinned: boolean): Promise<any> {
+    requireElectron();
+
+    try {
+      console.log(`[API] ${pinned ? 'Pinning' : 'Unpinning'} backup ${backupId}`);
+      const result = await window.electronAPI.setBackupPinned(backupId, pinned);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(result.error || 'Failed to update backup');
+      }
+    } catch (error) {
+      console.error(`[API] Failed to update backup ${backupId}:`, error);
+      throw error;
+    }
+  }
+};
+
 /**
  * Translation-related API operations
  */
@@ -407,6 +1161,7 @@ export const fileAPI = {
     defaultPath?: string;
     buttonLabel?: string;
     properties?: Array<'openFile' | 'openDirectory' | 'multiSelections'>;
+    filters?: Array<{ name: string; extensions: string[] }>;
   }): Promise<{ canceled: boolean; filePaths: string[] }> {
     requireElectron();
 
@@ -483,6 +1238,25 @@ export const appAPI = {
     }
   },
 
+  /**
+   * Open a Workshop item's page in the Steam client
+   * @param modId - Workshop item ID
+   */
+  async openWorkshopPage(modId: string): Promise<void> {
+    requireElectron();
+
+    try {
+      const result = await window.electronAPI.openWorkshopPage(modId);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to open Workshop page');
+      }
+    } catch (error) {
+      console.error('[API] Failed to open Workshop page:', error);
+      throw error;
+    }
+  },
+
   /**
    * Minimize window
    */
@@ -542,6 +1316,7 @@ export function isRunningInElectron(): boolean {
  */
 export default {
   mods: modsAPI,
+  profiles: profilesAPI,
   translation: translationAPI,
   file: fileAPI,
   app: appAPI,